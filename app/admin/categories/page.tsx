@@ -17,6 +17,7 @@ import {
 } from "firebase/firestore";
 import { firestore } from "@/firebase/init";
 import { uploadCategoryImage } from "@/lib/storage";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
 import type { ColumnDef } from "@tanstack/react-table";
 
 interface Category {
@@ -25,6 +26,8 @@ interface Category {
   description?: string;
   image?: string;
   vendorType?: string;
+  /** Tax category from systemConfig/tax for the category's products */
+  taxCategoryId?: string | null;
   isActive?: boolean;
   createdAt: Timestamp | null;
   updatedAt?: Timestamp | null;
@@ -42,6 +45,7 @@ export default function CategoriesPage() {
 
   const [categories, setCategories] = useState<Category[]>([]);
   const [vendorTypes, setVendorTypes] = useState<any[]>([]);
+  const { settings: taxSettings } = useTaxSettings();
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
@@ -54,6 +58,7 @@ export default function CategoriesPage() {
   const [formData, setFormData] = useState({
     name: "",
     vendorType: "",
+    taxCategoryId: "",
     image: "",
     isActive: true,
   });
@@ -115,6 +120,7 @@ export default function CategoriesPage() {
     setFormData({
       name: "",
       vendorType: "",
+      taxCategoryId: "",
       image: "",
       isActive: true,
     });
@@ -128,6 +134,7 @@ export default function CategoriesPage() {
     setFormData({
       name: category.name,
       vendorType: category.vendorType || "",
+      taxCategoryId: category.taxCategoryId || "",
       image: category.image || "",
       isActive: category.isActive !== false,
     });
@@ -178,6 +185,7 @@ export default function CategoriesPage() {
         const categoryData = {
           name: formData.name.trim(),
           vendorType: formData.vendorType || null,
+          taxCategoryId: formData.taxCategoryId || null,
           image: imageUrl,
           isActive: formData.isActive,
           updatedAt: serverTimestamp(),
@@ -200,6 +208,7 @@ export default function CategoriesPage() {
         const categoryData = {
           name: formData.name.trim(),
           vendorType: formData.vendorType || null,
+          taxCategoryId: formData.taxCategoryId || null,
           image: imageUrl,
           isActive: formData.isActive,
           createdAt: serverTimestamp(),
@@ -217,6 +226,7 @@ export default function CategoriesPage() {
       setFormData({
         name: "",
         vendorType: "",
+        taxCategoryId: "",
         image: "",
         isActive: true,
       });
@@ -555,6 +565,28 @@ export default function CategoriesPage() {
                    </select>
                 </div>
 
+                {/* Tax Category */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Tax Category
+                  </label>
+                  <select
+                    value={formData.taxCategoryId}
+                    onChange={(e) => setFormData({ ...formData, taxCategoryId: e.target.value })}
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-brand-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">Standard rate</option>
+                    {taxSettings.categories.map((taxCategory) => (
+                      <option key={taxCategory.id} value={taxCategory.id}>
+                        {taxCategory.name}
+                      </option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Products in this category are taxed at this rate unless they set their own tax category
+                  </p>
+                </div>
+
                 {/* Image Upload */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -619,6 +651,7 @@ export default function CategoriesPage() {
                        setFormData({
                          name: "",
                          vendorType: "",
+                         taxCategoryId: "",
                          image: "",
                          isActive: true,
                        });
@@ -0,0 +1,366 @@
+"use client";
+
+import { Suspense, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { useConfigVersions } from "@/hooks/useConfigVersions";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import {
+  VERSIONED_CONFIGS,
+  cancelScheduledConfigChange,
+  diffConfigs,
+  rollbackSystemConfig,
+  type ConfigVersion,
+  type VersionedConfigId,
+} from "@/lib/systemConfig";
+import toast from "react-hot-toast";
+
+const inputClassName =
+  "px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500";
+
+const SOURCE_LABELS: Record<ConfigVersion["source"], string> = {
+  baseline: "Baseline",
+  save: "Saved",
+  scheduled: "Scheduled",
+  rollback: "Rollback",
+};
+
+const STATUS_CLASSES: Record<string, string> = {
+  scheduled: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300",
+  applied: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  cancelled: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+function formatTimestamp(value: any) {
+  return value?.toDate ? value.toDate().toLocaleString() : "—";
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+function isVersionedConfigId(value: string | null): value is VersionedConfigId {
+  return VERSIONED_CONFIGS.some((config) => config.id === value);
+}
+
+/**
+ * Admin Config History Page - Protected Route
+ * Version history of each systemConfig document, with diffs between versions,
+ * rollback and pending scheduled changes
+ */
+function ConfigHistoryContent() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+  const searchParams = useSearchParams();
+  const requestedConfig = searchParams.get("config");
+
+  const [configId, setConfigId] = useState<VersionedConfigId>(
+    isVersionedConfigId(requestedConfig) ? requestedConfig : "fees"
+  );
+  const { versions, scheduledChanges, loading, error } = useConfigVersions(configId, isFullyAuthorized);
+
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedVersion(null);
+    setCompareVersion(null);
+  }, [configId]);
+
+  const currentVersion = versions[0]?.version ?? null;
+  const selected = versions.find((version) => version.version === selectedVersion) ?? versions[0] ?? null;
+  // Compare against the version before the selected one unless another was picked
+  const compared =
+    versions.find((version) => version.version === compareVersion) ??
+    versions.find((version) => selected && version.version < selected.version) ??
+    null;
+
+  const diff = useMemo(
+    () => (selected ? diffConfigs(compared?.data || {}, selected.data || {}) : []),
+    [selected, compared]
+  );
+
+  const handleRollback = async (version: ConfigVersion) => {
+    const label = VERSIONED_CONFIGS.find((config) => config.id === configId)?.label;
+    if (!window.confirm(`Restore ${label} to version ${version.version}? This is saved as a new version.`)) return;
+
+    setBusyId(version.id);
+    try {
+      const result = await rollbackSystemConfig(configId, version.version);
+      setSelectedVersion(null);
+      setCompareVersion(null);
+      toast.success(`Restored version ${version.version} as version ${result.version}`);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to roll back settings");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancelScheduled = async (changeId: string) => {
+    setBusyId(changeId);
+    try {
+      await cancelScheduledConfigChange(changeId);
+      toast.success("Scheduled change cancelled");
+    } catch (err: any) {
+      toast.error(err.message || "Failed to cancel the scheduled change");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Don't render anything if not authorized - wait for redirect
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">{authLoading ? "Loading..." : "Redirecting..."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <AdminLayout pageTitle="Config History">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Configuration History</h2>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Every save creates a new version. Orders record the versions they were priced with. Stripe secrets are
+              never stored in the history.
+            </p>
+          </div>
+          <select
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value as VersionedConfigId)}
+            className={inputClassName}
+          >
+            {VERSIONED_CONFIGS.map((config) => (
+              <option key={config.id} value={config.id}>
+                {config.label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Scheduled Changes */}
+        {scheduledChanges.length > 0 && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Scheduled Changes</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-6 py-3 text-left">Activates</th>
+                    <th className="px-6 py-3 text-left">Status</th>
+                    <th className="px-6 py-3 text-left">Changes</th>
+                    <th className="px-6 py-3 text-left">Note</th>
+                    <th className="px-6 py-3 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {scheduledChanges.map((change) => (
+                    <tr key={change.id} className="text-gray-900 dark:text-white">
+                      <td className="px-6 py-3 whitespace-nowrap">{formatTimestamp(change.activateAt)}</td>
+                      <td className="px-6 py-3">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_CLASSES[change.status]}`}>
+                          {change.status}
+                          {change.appliedVersion ? ` (v${change.appliedVersion})` : ""}
+                        </span>
+                        {change.failureReason && (
+                          <p className="text-xs text-red-600 dark:text-red-400 mt-1">{change.failureReason}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-3 text-xs text-gray-600 dark:text-gray-400">
+                        {Object.keys(change.changes || {}).join(", ") || "—"}
+                      </td>
+                      <td className="px-6 py-3 text-gray-600 dark:text-gray-400">{change.note || "—"}</td>
+                      <td className="px-6 py-3 text-right">
+                        {change.status === "scheduled" && (
+                          <button
+                            type="button"
+                            onClick={() => handleCancelScheduled(change.id)}
+                            disabled={busyId === change.id}
+                            className="text-sm text-red-600 hover:text-red-700 dark:text-red-400 disabled:opacity-60"
+                          >
+                            Cancel
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Versions */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Versions</h3>
+          </div>
+          {loading ? (
+            <div className="flex items-center justify-center h-48">
+              <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-brand-primary-600"></div>
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="px-6 py-8 text-sm text-gray-500 dark:text-gray-400">
+              No versions yet. The first save of these settings records the current values as the baseline.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-6 py-3 text-left">Version</th>
+                    <th className="px-6 py-3 text-left">Source</th>
+                    <th className="px-6 py-3 text-left">Changed By</th>
+                    <th className="px-6 py-3 text-left">Note</th>
+                    <th className="px-6 py-3 text-left">Date</th>
+                    <th className="px-6 py-3 text-right"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {versions.map((version) => (
+                    <tr
+                      key={version.id}
+                      className={`text-gray-900 dark:text-white ${
+                        selected?.version === version.version ? "bg-brand-primary-50 dark:bg-brand-primary-900/20" : ""
+                      }`}
+                    >
+                      <td className="px-6 py-3 font-medium">
+                        v{version.version}
+                        {version.version === currentVersion && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                            Current
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-3">
+                        {SOURCE_LABELS[version.source] || version.source}
+                        {version.restoredVersion ? ` of v${version.restoredVersion}` : ""}
+                      </td>
+                      <td className="px-6 py-3 font-mono text-xs text-gray-600 dark:text-gray-400">
+                        {version.changedBy || "—"}
+                      </td>
+                      <td className="px-6 py-3 text-gray-600 dark:text-gray-400">{version.note || "—"}</td>
+                      <td className="px-6 py-3 whitespace-nowrap">{formatTimestamp(version.createdAt)}</td>
+                      <td className="px-6 py-3 text-right whitespace-nowrap space-x-4">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setSelectedVersion(version.version);
+                            setCompareVersion(null);
+                          }}
+                          className="text-sm text-brand-primary-600 hover:underline"
+                        >
+                          View changes
+                        </button>
+                        {version.version !== currentVersion && (
+                          <button
+                            type="button"
+                            onClick={() => handleRollback(version)}
+                            disabled={busyId === version.id}
+                            className="text-sm text-orange-600 hover:text-orange-700 dark:text-orange-400 disabled:opacity-60"
+                          >
+                            Roll back
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Diff */}
+        {selected && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Changes in v{selected.version}
+              </h3>
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                Compared with
+                <select
+                  value={compared?.version ?? ""}
+                  onChange={(e) => setCompareVersion(e.target.value ? parseInt(e.target.value, 10) : null)}
+                  className={inputClassName}
+                >
+                  {versions
+                    .filter((version) => version.version !== selected.version)
+                    .map((version) => (
+                      <option key={version.id} value={version.version}>
+                        v{version.version}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            </div>
+
+            {diff.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No differences.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Setting</th>
+                      <th className="px-4 py-2 text-left">{compared ? `v${compared.version}` : "Before"}</th>
+                      <th className="px-4 py-2 text-left">v{selected.version}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700 font-mono text-xs">
+                    {diff.map((entry) => (
+                      <tr key={entry.path}>
+                        <td className="px-4 py-2 text-gray-900 dark:text-white">{entry.path}</td>
+                        <td className="px-4 py-2 text-red-700 dark:text-red-400 break-all">
+                          {formatValue(entry.before)}
+                        </td>
+                        <td className="px-4 py-2 text-green-700 dark:text-green-400 break-all">
+                          {formatValue(entry.after)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
+
+export default function ConfigHistoryPage() {
+  return (
+    <Suspense
+      fallback={
+        <AdminLayout pageTitle="Config History">
+          <div className="flex items-center justify-center h-96">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600"></div>
+          </div>
+        </AdminLayout>
+      }
+    >
+      <ConfigHistoryContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,753 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DataTable } from "@/components/admin/DataTable";
+import { ActionMenu } from "@/components/admin/ActionMenu";
+import type { ColumnDef } from "@tanstack/react-table";
+import {
+  useAdminCoupons,
+  type AdminCoupon,
+  type CouponInput,
+} from "@/hooks/useAdminCoupons";
+import type { CouponDiscountType } from "@/lib/pricing";
+import { Badge } from "@/components/ui/badge";
+import { collection, onSnapshot } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import { formatOrderId } from "@/lib/utils";
+import toast from "react-hot-toast";
+
+interface NamedEntry {
+  id: string;
+  name: string;
+}
+
+interface CouponFormState {
+  code: string;
+  description: string;
+  discountType: CouponDiscountType;
+  discountValue: string;
+  maxDiscountAmount: string;
+  minOrderValue: string;
+  vendorIds: string[];
+  categoryIds: string[];
+  usageLimit: string;
+  perCustomerLimit: string;
+  startsAt: string;
+  endsAt: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: CouponFormState = {
+  code: "",
+  description: "",
+  discountType: "percentage",
+  discountValue: "",
+  maxDiscountAmount: "",
+  minOrderValue: "",
+  vendorIds: [],
+  categoryIds: [],
+  usageLimit: "",
+  perCustomerLimit: "1",
+  startsAt: "",
+  endsAt: "",
+  isActive: true,
+};
+
+const DISCOUNT_TYPE_LABELS: Record<CouponDiscountType, string> = {
+  percentage: "Percentage off",
+  fixed: "Fixed amount off",
+  "free-delivery": "Free delivery",
+};
+
+function formatCurrency(value: number | null | undefined, currency = "USD") {
+  if (value === null || value === undefined) return "$0.00";
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(value);
+  } catch {
+    return `${currency} ${value}`;
+  }
+}
+
+function toDate(value?: any): Date | null {
+  if (!value) return null;
+  const date = typeof value?.toDate === "function" ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Formats a date for a datetime-local input (local time, minute precision)
+ */
+function toDateTimeLocal(value?: any): string {
+  const date = toDate(value);
+  if (!date) return "";
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function describeDiscount(coupon: AdminCoupon): string {
+  switch (coupon.discountType) {
+    case "percentage":
+      return `${coupon.discountValue}% off${
+        coupon.maxDiscountAmount ? ` (max ${formatCurrency(coupon.maxDiscountAmount)})` : ""
+      }`;
+    case "fixed":
+      return `${formatCurrency(coupon.discountValue)} off`;
+    default:
+      return "Free delivery";
+  }
+}
+
+function couponToForm(coupon: AdminCoupon): CouponFormState {
+  return {
+    code: coupon.code,
+    description: coupon.description || "",
+    discountType: coupon.discountType,
+    discountValue: coupon.discountValue ? String(coupon.discountValue) : "",
+    maxDiscountAmount: coupon.maxDiscountAmount ? String(coupon.maxDiscountAmount) : "",
+    minOrderValue: coupon.minOrderValue ? String(coupon.minOrderValue) : "",
+    vendorIds: coupon.vendorIds,
+    categoryIds: coupon.categoryIds,
+    usageLimit: coupon.usageLimit !== null ? String(coupon.usageLimit) : "",
+    perCustomerLimit: coupon.perCustomerLimit !== null ? String(coupon.perCustomerLimit) : "",
+    startsAt: toDateTimeLocal(coupon.startsAt),
+    endsAt: toDateTimeLocal(coupon.endsAt),
+    isActive: coupon.isActive,
+  };
+}
+
+function parseOptionalNumber(value: string): number | null {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * Admin Coupons Page - Protected Route
+ * Manages promotions and shows what each one has cost
+ */
+export default function AdminCouponsPage() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+
+  const { coupons, redemptions, loading: dataLoading, error, saveCoupon } = useAdminCoupons();
+
+  const [vendors, setVendors] = useState<NamedEntry[]>([]);
+  const [categories, setCategories] = useState<NamedEntry[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCoupon, setEditingCoupon] = useState<AdminCoupon | null>(null);
+  const [formData, setFormData] = useState<CouponFormState>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [viewingCoupon, setViewingCoupon] = useState<AdminCoupon | null>(null);
+
+  // Vendors and categories for scoping
+  useEffect(() => {
+    if (!isFullyAuthorized) return;
+
+    const unsubscribeVendors = onSnapshot(
+      collection(firestore, "vendors"),
+      (snapshot) => {
+        setVendors(
+          snapshot.docs.map((vendorDoc) => ({
+            id: vendorDoc.id,
+            name: vendorDoc.data().businessName || vendorDoc.data().name || vendorDoc.id,
+          }))
+        );
+      },
+      (err) => console.error("Error fetching vendors:", err)
+    );
+    const unsubscribeCategories = onSnapshot(
+      collection(firestore, "categories"),
+      (snapshot) => {
+        setCategories(
+          snapshot.docs.map((categoryDoc) => ({
+            id: categoryDoc.id,
+            name: categoryDoc.data().name || categoryDoc.id,
+          }))
+        );
+      },
+      (err) => console.error("Error fetching categories:", err)
+    );
+
+    return () => {
+      unsubscribeVendors();
+      unsubscribeCategories();
+    };
+  }, [isFullyAuthorized]);
+
+  const handleCreate = () => {
+    setEditingCoupon(null);
+    setFormData(EMPTY_FORM);
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (coupon: AdminCoupon) => {
+    setEditingCoupon(coupon);
+    setFormData(couponToForm(coupon));
+    setFormError(null);
+    setIsModalOpen(true);
+  };
+
+  const toggleScope = (field: "vendorIds" | "categoryIds", id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(id) ? prev[field].filter((entry) => entry !== id) : [...prev[field], id],
+    }));
+  };
+
+  const buildCouponInput = (form: CouponFormState): CouponInput => ({
+    code: form.code,
+    description: form.description,
+    discountType: form.discountType,
+    discountValue: Number(form.discountValue) || 0,
+    maxDiscountAmount: parseOptionalNumber(form.maxDiscountAmount),
+    minOrderValue: Number(form.minOrderValue) || 0,
+    vendorIds: form.vendorIds,
+    categoryIds: form.categoryIds,
+    usageLimit: parseOptionalNumber(form.usageLimit),
+    perCustomerLimit: parseOptionalNumber(form.perCustomerLimit),
+    startsAt: form.startsAt ? new Date(form.startsAt) : null,
+    endsAt: form.endsAt ? new Date(form.endsAt) : null,
+    isActive: form.isActive,
+  });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = buildCouponInput(formData);
+    if (!input.code.trim()) {
+      setFormError("Coupon code is required.");
+      return;
+    }
+    if (input.discountType !== "free-delivery" && input.discountValue <= 0) {
+      setFormError("Enter a discount value greater than zero.");
+      return;
+    }
+    if (input.discountType === "percentage" && input.discountValue > 100) {
+      setFormError("A percentage discount cannot exceed 100%.");
+      return;
+    }
+    if (input.startsAt && input.endsAt && input.endsAt <= input.startsAt) {
+      setFormError("The end date must be after the start date.");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setFormError(null);
+      await saveCoupon(input, !editingCoupon);
+      toast.success(editingCoupon ? "Coupon updated" : "Coupon created");
+      setIsModalOpen(false);
+      setEditingCoupon(null);
+    } catch (err: any) {
+      console.error("Save coupon error:", err);
+      setFormError(err?.message || "Failed to save coupon.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (coupon: AdminCoupon) => {
+    try {
+      await saveCoupon(buildCouponInput({ ...couponToForm(coupon), isActive: !coupon.isActive }), false);
+      toast.success(coupon.isActive ? "Coupon deactivated" : "Coupon activated");
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to update coupon");
+    }
+  };
+
+  const columns = useMemo<ColumnDef<AdminCoupon>[]>(
+    () => [
+      {
+        accessorKey: "code",
+        header: "Code",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold font-mono text-gray-900 dark:text-white">{row.original.code}</span>
+            {row.original.description && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">{row.original.description}</span>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "discountType",
+        header: "Discount",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm text-gray-900 dark:text-white">{describeDiscount(row.original)}</span>
+            {row.original.minOrderValue > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                Min. order {formatCurrency(row.original.minOrderValue)}
+              </span>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: "scope",
+        header: "Scope",
+        cell: ({ row }) => {
+          const { vendorIds, categoryIds } = row.original;
+          return (
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              <div>{vendorIds.length ? `${vendorIds.length} vendor(s)` : "All vendors"}</div>
+              <div>{categoryIds.length ? `${categoryIds.length} category(ies)` : "All categories"}</div>
+            </div>
+          );
+        },
+        enableSorting: false,
+      },
+      {
+        accessorKey: "redemptionCount",
+        header: "Usage",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm text-gray-900 dark:text-white">
+              {row.original.redemptionCount} / {row.original.usageLimit ?? "∞"}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {row.original.perCustomerLimit !== null
+                ? `${row.original.perCustomerLimit} per customer`
+                : "No per-customer limit"}
+            </span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "discountTotal",
+        header: "Cost",
+        cell: ({ row }) => (
+          <span className="text-sm font-semibold text-gray-900 dark:text-white">
+            {formatCurrency(row.original.discountTotal)}
+          </span>
+        ),
+      },
+      {
+        id: "validity",
+        header: "Valid",
+        cell: ({ row }) => {
+          const startsAt = toDate(row.original.startsAt);
+          const endsAt = toDate(row.original.endsAt);
+          return (
+            <div className="text-xs text-gray-600 dark:text-gray-400">
+              <div>From {startsAt ? startsAt.toLocaleString() : "—"}</div>
+              <div>Until {endsAt ? endsAt.toLocaleString() : "—"}</div>
+            </div>
+          );
+        },
+        enableSorting: false,
+      },
+      {
+        accessorKey: "isActive",
+        header: "Status",
+        cell: ({ row }) => {
+          const endsAt = toDate(row.original.endsAt);
+          const expired = endsAt !== null && endsAt.getTime() < Date.now();
+          return (
+            <Badge variant={!row.original.isActive ? "secondary" : expired ? "warning" : "success"}>
+              {!row.original.isActive ? "Inactive" : expired ? "Expired" : "Active"}
+            </Badge>
+          );
+        },
+      },
+      {
+        id: "actions",
+        header: "Actions",
+        cell: ({ row }) => (
+          <ActionMenu
+            onView={() => setViewingCoupon(row.original)}
+            onEdit={() => handleEdit(row.original)}
+            customActions={[
+              {
+                label: row.original.isActive ? "Deactivate" : "Activate",
+                onClick: () => handleToggleActive(row.original),
+                variant: row.original.isActive ? ("danger" as const) : ("success" as const),
+              },
+            ]}
+          />
+        ),
+        enableSorting: false,
+      },
+    ],
+    []
+  );
+
+  const viewingRedemptions = useMemo(
+    () => (viewingCoupon ? redemptions.filter((redemption) => redemption.couponCode === viewingCoupon.code) : []),
+    [redemptions, viewingCoupon]
+  );
+
+  // Auth guard
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">
+            {authLoading ? "Loading..." : "Redirecting..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dataLoading) {
+    return (
+      <AdminLayout pageTitle="Coupons">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading coupons...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const inputClassName =
+    "w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-brand-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+  return (
+    <AdminLayout pageTitle="Coupons">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Promotions applied at order pricing. Usage and cost are tracked per order.
+            </p>
+          </div>
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors"
+          >
+            Add Coupon
+          </button>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Table */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={coupons}
+            searchableFields={["code", "description", "discountType"]}
+            searchPlaceholder="Search coupons..."
+            onRefresh={() => {}}
+            isLoading={dataLoading}
+          />
+        </div>
+      </div>
+
+      {/* Create/Edit Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+                {editingCoupon ? "Edit Coupon" : "Create Coupon"}
+              </h2>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Code <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.code}
+                      onChange={(e) => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+                      disabled={!!editingCoupon}
+                      className={`${inputClassName} font-mono disabled:opacity-60`}
+                      placeholder="SUMMER10"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Discount type
+                    </label>
+                    <select
+                      value={formData.discountType}
+                      onChange={(e) => setFormData({ ...formData, discountType: e.target.value as CouponDiscountType })}
+                      className={inputClassName}
+                    >
+                      {(Object.keys(DISCOUNT_TYPE_LABELS) as CouponDiscountType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {DISCOUNT_TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Description
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className={inputClassName}
+                    placeholder="Shown to the vendor when the coupon applies"
+                  />
+                </div>
+
+                {formData.discountType !== "free-delivery" && (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        {formData.discountType === "percentage" ? "Discount (%)" : "Discount ($)"}
+                      </label>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={formData.discountValue}
+                        onChange={(e) => setFormData({ ...formData, discountValue: e.target.value })}
+                        className={inputClassName}
+                      />
+                    </div>
+                    {formData.discountType === "percentage" && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          Maximum discount ($)
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={formData.maxDiscountAmount}
+                          onChange={(e) => setFormData({ ...formData, maxDiscountAmount: e.target.value })}
+                          className={inputClassName}
+                          placeholder="No cap"
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Minimum order ($)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.minOrderValue}
+                      onChange={(e) => setFormData({ ...formData, minOrderValue: e.target.value })}
+                      className={inputClassName}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Total uses
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={formData.usageLimit}
+                      onChange={(e) => setFormData({ ...formData, usageLimit: e.target.value })}
+                      className={inputClassName}
+                      placeholder="Unlimited"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Uses per customer
+                    </label>
+                    <input
+                      type="number"
+                      step="1"
+                      min="0"
+                      value={formData.perCustomerLimit}
+                      onChange={(e) => setFormData({ ...formData, perCustomerLimit: e.target.value })}
+                      className={inputClassName}
+                      placeholder="Unlimited"
+                    />
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Starts at
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={formData.startsAt}
+                      onChange={(e) => setFormData({ ...formData, startsAt: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      Ends at
+                    </label>
+                    <input
+                      type="datetime-local"
+                      value={formData.endsAt}
+                      onChange={(e) => setFormData({ ...formData, endsAt: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {(
+                    [
+                      { field: "vendorIds", label: "Vendors", entries: vendors, empty: "All vendors" },
+                      { field: "categoryIds", label: "Categories", entries: categories, empty: "All categories" },
+                    ] as const
+                  ).map(({ field, label, entries, empty }) => (
+                    <div key={field}>
+                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        {label}{" "}
+                        <span className="text-xs font-normal text-gray-500">
+                          ({formData[field].length ? `${formData[field].length} selected` : empty})
+                        </span>
+                      </label>
+                      <div className="max-h-40 overflow-y-auto rounded-lg border border-gray-300 dark:border-gray-600 p-2 space-y-1">
+                        {entries.length === 0 ? (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">None found.</p>
+                        ) : (
+                          entries.map((entry) => (
+                            <label key={entry.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                              <input
+                                type="checkbox"
+                                checked={formData[field].includes(entry.id)}
+                                onChange={() => toggleScope(field, entry.id)}
+                              />
+                              {entry.name}
+                            </label>
+                          ))
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={formData.isActive}
+                    onChange={(e) => setFormData({ ...formData, isActive: e.target.checked })}
+                  />
+                  Active
+                </label>
+
+                {formError && (
+                  <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                    {formError}
+                  </div>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setIsModalOpen(false);
+                      setEditingCoupon(null);
+                    }}
+                    className="px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSaving}
+                    className="px-4 py-2 bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {isSaving ? "Saving..." : editingCoupon ? "Update" : "Create"}
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Redemptions Modal */}
+      {viewingCoupon && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setViewingCoupon(null)} />
+          <div className="relative z-10 w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-xl">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Redemptions · <span className="font-mono">{viewingCoupon.code}</span>
+                </h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {viewingCoupon.redemptionCount} active redemption(s) · total cost{" "}
+                  {formatCurrency(viewingCoupon.discountTotal)}
+                </p>
+              </div>
+              <button
+                onClick={() => setViewingCoupon(null)}
+                className="px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+
+            {viewingRedemptions.length === 0 ? (
+              <p className="mt-6 text-sm text-gray-500 dark:text-gray-400">This coupon has not been used yet.</p>
+            ) : (
+              <table className="mt-6 min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <th className="py-2 pr-4">Order</th>
+                    <th className="py-2 pr-4">Customer</th>
+                    <th className="py-2 pr-4">Discount</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2">Date</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {viewingRedemptions.map((redemption) => (
+                    <tr key={redemption.id} className="text-gray-700 dark:text-gray-300">
+                      <td className="py-2 pr-4">{formatOrderId(redemption.orderCode || redemption.orderId)}</td>
+                      <td className="py-2 pr-4 font-mono text-xs">{redemption.customerId || "—"}</td>
+                      <td className="py-2 pr-4">
+                        {formatCurrency(redemption.totalDiscount)}
+                        {redemption.deliveryDiscount > 0 && (
+                          <span className="block text-xs text-gray-500 dark:text-gray-400">
+                            incl. {formatCurrency(redemption.deliveryDiscount)} delivery
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={redemption.status === "reversed" ? "secondary" : "success"} className="capitalize">
+                          {redemption.status}
+                        </Badge>
+                      </td>
+                      <td className="py-2">{toDate(redemption.createdAt)?.toLocaleString() ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </AdminLayout>
+  );
+}
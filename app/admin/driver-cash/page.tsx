@@ -0,0 +1,348 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DataTable } from "@/components/admin/DataTable";
+import type { ColumnDef } from "@tanstack/react-table";
+import { useAdminDriverCash, type DriverCashPosition } from "@/hooks/useAdminDriverCash";
+import { Badge, type BadgeVariant } from "@/components/ui/badge";
+import { formatOrderId } from "@/lib/utils";
+import toast from "react-hot-toast";
+
+function formatCurrency(value: number | null | undefined) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(value ?? 0);
+}
+
+function formatAge(value?: any) {
+  const date = value?.toDate?.() instanceof Date ? value.toDate() : value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) return "—";
+  const hours = Math.floor((Date.now() - date.getTime()) / (60 * 60 * 1000));
+  if (hours < 1) return "<1h ago";
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+function getCashStatusBadgeVariant(status: DriverCashPosition["status"]): BadgeVariant {
+  switch (status) {
+    case "over-limit":
+      return "destructive";
+    case "near-limit":
+      return "warning";
+    default:
+      return "success";
+  }
+}
+
+export default function AdminDriverCashPage() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+
+  const { settings, positions, loading: dataLoading, error, saveSettings, setDriverCashLimit } = useAdminDriverCash();
+
+  const [defaultLimit, setDefaultLimit] = useState("");
+  const [warningPercent, setWarningPercent] = useState("");
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const [editingPosition, setEditingPosition] = useState<DriverCashPosition | null>(null);
+  const [overrideValue, setOverrideValue] = useState("");
+  const [savingOverride, setSavingOverride] = useState(false);
+
+  useEffect(() => {
+    setDefaultLimit(String(settings.defaultLimit));
+    setWarningPercent(String(settings.warningPercent));
+  }, [settings.defaultLimit, settings.warningPercent]);
+
+  const visiblePositions = useMemo(
+    () => (showAll ? positions : positions.filter((position) => position.status !== "ok")),
+    [positions, showAll]
+  );
+  const overCount = positions.filter((position) => position.status === "over-limit").length;
+  const nearCount = positions.filter((position) => position.status === "near-limit").length;
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingSettings(true);
+      await saveSettings(parseFloat(defaultLimit), parseFloat(warningPercent));
+      toast.success("Cash limit settings saved");
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to save cash limit settings");
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleSaveOverride = async (useDefault: boolean) => {
+    if (!editingPosition) return;
+    try {
+      setSavingOverride(true);
+      await setDriverCashLimit(editingPosition.driverId, useDefault ? null : parseFloat(overrideValue));
+      toast.success(useDefault ? "Driver now uses the global limit" : "Driver cash limit updated");
+      setEditingPosition(null);
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to update the driver's cash limit");
+    } finally {
+      setSavingOverride(false);
+    }
+  };
+
+  const columns = useMemo<ColumnDef<DriverCashPosition>[]>(
+    () => [
+      {
+        accessorKey: "driverName",
+        header: "Driver",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">{row.original.driverName}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{row.original.phone || row.original.driverId}</span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "cashOnHand",
+        header: "Cash on Hand",
+        cell: ({ row }) => {
+          const { cashOnHand, limit, cashLimitOverride } = row.original;
+          const percent = limit > 0 ? Math.min((cashOnHand / limit) * 100, 100) : 0;
+          return (
+            <div className="flex flex-col gap-1 min-w-[160px]">
+              <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                {formatCurrency(cashOnHand)}
+                <span className="font-normal text-gray-500 dark:text-gray-400">
+                  {" "}
+                  / {limit > 0 ? formatCurrency(limit) : "no limit"}
+                </span>
+              </span>
+              {limit > 0 && (
+                <div className="h-1.5 w-full rounded-full bg-gray-200 dark:bg-gray-700">
+                  <div
+                    className={`h-1.5 rounded-full ${
+                      row.original.status === "over-limit"
+                        ? "bg-red-500"
+                        : row.original.status === "near-limit"
+                          ? "bg-amber-500"
+                          : "bg-green-500"
+                    }`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+              )}
+              {cashLimitOverride !== null && (
+                <span className="text-xs text-gray-500 dark:text-gray-400">Custom limit</span>
+              )}
+            </div>
+          );
+        },
+      },
+      {
+        accessorKey: "status",
+        header: "Status",
+        cell: ({ row }) => (
+          <Badge variant={getCashStatusBadgeVariant(row.original.status)} className="capitalize">
+            {row.original.status.replace(/-/g, " ")}
+          </Badge>
+        ),
+      },
+      {
+        id: "unremitted",
+        header: "Oldest Unremitted",
+        cell: ({ row }) => {
+          const { unremitted } = row.original;
+          if (unremitted.length === 0) return <span className="text-sm text-gray-500 dark:text-gray-400">—</span>;
+          return (
+            <div className="flex flex-col gap-0.5 text-xs">
+              {unremitted.slice(0, 3).map((txn) => (
+                <span key={txn.id} className="text-gray-700 dark:text-gray-300">
+                  {formatOrderId(txn.orderCode || txn.orderId)} · {formatCurrency(txn.netAmount)} ·{" "}
+                  <span className="text-gray-500 dark:text-gray-400">{formatAge(txn.createdAt)}</span>
+                </span>
+              ))}
+              {unremitted.length > 3 && (
+                <span className="text-gray-500 dark:text-gray-400">+{unremitted.length - 3} more</span>
+              )}
+            </div>
+          );
+        },
+        enableSorting: false,
+      },
+      {
+        id: "actions",
+        header: "Actions",
+        cell: ({ row }) => (
+          <button
+            onClick={() => {
+              setEditingPosition(row.original);
+              setOverrideValue(String(row.original.cashLimitOverride ?? row.original.limit));
+            }}
+            className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            Set limit
+          </button>
+        ),
+        enableSorting: false,
+      },
+    ],
+    []
+  );
+
+  // Auth guard
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">
+            {authLoading ? "Loading..." : "Redirecting..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dataLoading) {
+    return (
+      <AdminLayout pageTitle="Driver Cash">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading driver cash...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout pageTitle="Driver Cash">
+      <div className="space-y-6">
+        {/* Header */}
+        <p className="text-gray-600 dark:text-gray-400 max-w-2xl">
+          Drivers at their cash limit cannot take cash-on-delivery orders until a remittance is confirmed. They are
+          warned once they pass the warning threshold.
+        </p>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Settings */}
+        <form
+          onSubmit={handleSaveSettings}
+          className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 flex flex-wrap items-end gap-4"
+        >
+          <div>
+            <label htmlFor="defaultLimit" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Global Cash Limit ($)
+            </label>
+            <input
+              type="number"
+              id="defaultLimit"
+              step="0.01"
+              min="0"
+              value={defaultLimit}
+              onChange={(e) => setDefaultLimit(e.target.value)}
+              required
+              className="block w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="warningPercent" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Warn At (% of limit)
+            </label>
+            <input
+              type="number"
+              id="warningPercent"
+              step="1"
+              min="1"
+              max="100"
+              value={warningPercent}
+              onChange={(e) => setWarningPercent(e.target.value)}
+              required
+              className="block w-40 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={savingSettings}
+            className="px-4 py-2 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+          >
+            {savingSettings ? "Saving..." : "Save"}
+          </button>
+          <p className="text-xs text-gray-500 dark:text-gray-400 basis-full">
+            Set the limit to 0 to disable it. Per-driver limits below override the global one.
+          </p>
+        </form>
+
+        {/* Drivers */}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {overCount} over limit · {nearCount} near limit
+          </h2>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show all drivers holding cash
+          </label>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={visiblePositions}
+            searchableFields={["driverName", "driverId", "status"]}
+            searchPlaceholder="Search drivers..."
+            onRefresh={() => {}}
+            isLoading={dataLoading}
+          />
+        </div>
+      </div>
+
+      {/* Override Modal */}
+      {editingPosition && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Cash Limit</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {editingPosition.driverName} holds {formatCurrency(editingPosition.cashOnHand)}. The global limit is{" "}
+              {formatCurrency(settings.defaultLimit)}.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Limit for this driver ($)</label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={overrideValue}
+              onChange={(e) => setOverrideValue(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+            />
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                onClick={() => setEditingPosition(null)}
+                className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              {editingPosition.cashLimitOverride !== null && (
+                <button
+                  onClick={() => handleSaveOverride(true)}
+                  disabled={savingOverride}
+                  className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors disabled:opacity-60"
+                >
+                  Use global
+                </button>
+              )}
+              <button
+                onClick={() => handleSaveOverride(false)}
+                disabled={savingOverride || overrideValue === ""}
+                className="px-4 py-2 rounded-lg bg-brand-primary-600 text-white hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+              >
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </AdminLayout>
+  );
+}
@@ -6,17 +6,20 @@ import { AdminLayout } from "@/components/admin/AdminLayout";
 import {
   doc,
   getDoc,
-  setDoc,
-  serverTimestamp,
   onSnapshot,
 } from "firebase/firestore";
 import { firestore } from "@/firebase/init";
 import toast from "react-hot-toast";
+import Link from "next/link";
+import { computeDistanceFee, DEFAULT_DISTANCE_FEE_MODEL, type DistanceFeeModel } from "@/lib/deliveryFees";
+import { saveSystemConfig } from "@/lib/systemConfig";
 
 interface FeesConfig {
   deliveryFee: number;
   commissionRate: number; // Percentage (e.g., 15 = 15%)
   taxRate: number; // Percentage (e.g., 8.5 = 8.5%)
+  distanceFee: DistanceFeeModel;
+  version?: number;
   updatedAt?: any;
   updatedBy?: string;
 }
@@ -25,14 +28,42 @@ const DEFAULT_FEES: FeesConfig = {
   deliveryFee: 5.00,
   commissionRate: 15.0,
   taxRate: 8.5,
+  distanceFee: DEFAULT_DISTANCE_FEE_MODEL,
+};
+
+// Straight-line pickup to drop-off distances previewed under the distance model
+const PREVIEW_DISTANCES_KM = [1, 2, 5, 10, 20];
+
+const DISTANCE_FEE_FIELDS: Array<{ key: Exclude<keyof DistanceFeeModel, "enabled">; label: string; step: string }> = [
+  { key: "baseFee", label: "Base Fee ($)", step: "0.01" },
+  { key: "includedKm", label: "Included Distance (km)", step: "0.1" },
+  { key: "perKmRate", label: "Per Km Beyond ($)", step: "0.01" },
+  { key: "minimumFee", label: "Minimum Fee ($)", step: "0.01" },
+  { key: "maximumFee", label: "Maximum Fee ($, 0 = no cap)", step: "0.01" },
+  { key: "roadFactor", label: "Road Factor", step: "0.05" },
+];
+
+interface DriverCompensationConfig {
+  deliveryFeeSharePercent: number; // Share of the delivery fee paid to the driver
+  perKmRate: number;
+  perMinuteRate: number;
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+const DEFAULT_DRIVER_COMPENSATION: DriverCompensationConfig = {
+  deliveryFeeSharePercent: 100,
+  perKmRate: 0,
+  perMinuteRate: 0,
 };
 
 /**
  * Admin Fees Management Page - Protected Route
- * Allows admin to configure delivery fee, commission rate, and tax rate
+ * Allows admin to configure delivery fee, commission rate, and tax rate,
+ * and how drivers are paid for each delivery
  */
 export default function FeesManagementPage() {
-  const { userData, loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(
     ["admin"],
     false
   );
@@ -40,7 +71,12 @@ export default function FeesManagementPage() {
   const [fees, setFees] = useState<FeesConfig>(DEFAULT_FEES);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  /** datetime-local value; blank applies the fees immediately */
+  const [activateAt, setActivateAt] = useState("");
+  const [changeNote, setChangeNote] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [compensation, setCompensation] = useState<DriverCompensationConfig>(DEFAULT_DRIVER_COMPENSATION);
+  const [savingCompensation, setSavingCompensation] = useState(false);
 
   // Load fees configuration
   useEffect(() => {
@@ -57,6 +93,8 @@ export default function FeesManagementPage() {
             deliveryFee: data.deliveryFee ?? DEFAULT_FEES.deliveryFee,
             commissionRate: data.commissionRate ?? DEFAULT_FEES.commissionRate,
             taxRate: data.taxRate ?? DEFAULT_FEES.taxRate,
+            distanceFee: { ...DEFAULT_DISTANCE_FEE_MODEL, ...(data.distanceFee || {}) },
+            version: data.version,
             updatedAt: data.updatedAt,
             updatedBy: data.updatedBy,
           });
@@ -77,6 +115,32 @@ export default function FeesManagementPage() {
     return () => unsubscribe();
   }, [authLoading, isFullyAuthorized]);
 
+  // Load driver compensation model
+  useEffect(() => {
+    if (authLoading || !isFullyAuthorized) return;
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, "systemConfig", "driverCompensation"),
+      (snapshot) => {
+        const data = snapshot.exists() ? snapshot.data() : {};
+        setCompensation({
+          deliveryFeeSharePercent:
+            data.deliveryFeeSharePercent ?? DEFAULT_DRIVER_COMPENSATION.deliveryFeeSharePercent,
+          perKmRate: data.perKmRate ?? DEFAULT_DRIVER_COMPENSATION.perKmRate,
+          perMinuteRate: data.perMinuteRate ?? DEFAULT_DRIVER_COMPENSATION.perMinuteRate,
+          updatedAt: data.updatedAt,
+          updatedBy: data.updatedBy,
+        });
+      },
+      (err) => {
+        console.error("Error fetching driver compensation:", err);
+        setError(err.message || "Failed to load driver compensation");
+      }
+    );
+
+    return () => unsubscribe();
+  }, [authLoading, isFullyAuthorized]);
+
   const handleSave = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -93,21 +157,40 @@ export default function FeesManagementPage() {
       if (fees.taxRate < 0 || fees.taxRate > 100) {
         throw new Error("Tax rate must be between 0 and 100");
       }
+      const { enabled, roadFactor, ...distanceAmounts } = fees.distanceFee;
+      if (Object.values(distanceAmounts).some((value) => value < 0)) {
+        throw new Error("Distance fee amounts cannot be negative");
+      }
+      if (roadFactor < 1 || roadFactor > 3) {
+        throw new Error("Road factor must be between 1 and 3");
+      }
+      if (distanceAmounts.maximumFee > 0 && distanceAmounts.maximumFee < distanceAmounts.minimumFee) {
+        throw new Error("Maximum delivery fee must be at least the minimum");
+      }
+
+      const activateAtDate = activateAt ? new Date(activateAt) : null;
+      if (activateAtDate && activateAtDate.getTime() <= Date.now()) {
+        throw new Error("The activation time must be in the future");
+      }
 
-      const feesDocRef = doc(firestore, "systemConfig", "fees");
-      await setDoc(
-        feesDocRef,
+      const result = await saveSystemConfig(
+        "fees",
         {
           deliveryFee: fees.deliveryFee,
           commissionRate: fees.commissionRate,
           taxRate: fees.taxRate,
-          updatedAt: serverTimestamp(),
-          updatedBy: userData?.uid || "admin",
+          distanceFee: fees.distanceFee,
         },
-        { merge: true }
+        { activateAt: activateAtDate, note: changeNote.trim() || null }
       );
 
-      toast.success("Fees configuration saved successfully!");
+      setActivateAt("");
+      setChangeNote("");
+      toast.success(
+        result.scheduledChangeId
+          ? `Fees scheduled for ${activateAtDate?.toLocaleString()}`
+          : `Fees configuration saved as version ${result.version}`
+      );
     } catch (err: any) {
       console.error("Error saving fees:", err);
       setError(err.message || "Failed to save fees configuration");
@@ -117,6 +200,35 @@ export default function FeesManagementPage() {
     }
   };
 
+  const handleSaveCompensation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSavingCompensation(true);
+
+    try {
+      if (compensation.deliveryFeeSharePercent < 0 || compensation.deliveryFeeSharePercent > 100) {
+        throw new Error("Delivery fee share must be between 0 and 100");
+      }
+      if (compensation.perKmRate < 0 || compensation.perMinuteRate < 0) {
+        throw new Error("Distance and time rates cannot be negative");
+      }
+
+      await saveSystemConfig("driverCompensation", {
+        deliveryFeeSharePercent: compensation.deliveryFeeSharePercent,
+        perKmRate: compensation.perKmRate,
+        perMinuteRate: compensation.perMinuteRate,
+      });
+
+      toast.success("Driver compensation saved successfully!");
+    } catch (err: any) {
+      console.error("Error saving driver compensation:", err);
+      setError(err.message || "Failed to save driver compensation");
+      toast.error(err.message || "Failed to save driver compensation");
+    } finally {
+      setSavingCompensation(false);
+    }
+  };
+
   // Don't render anything if not authorized - wait for redirect
   if (authLoading || !isFullyAuthorized) {
     return (
@@ -194,8 +306,77 @@ export default function FeesManagementPage() {
                 />
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                Base delivery fee charged to customers
+                Flat delivery fee, also charged under the distance model when a trip has no coordinates
+              </p>
+            </div>
+
+            {/* Distance-Based Delivery Fee */}
+            <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={fees.distanceFee.enabled}
+                  onChange={(e) =>
+                    setFees({ ...fees, distanceFee: { ...fees.distanceFee, enabled: e.target.checked } })
+                  }
+                />
+                Charge delivery by distance
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {DISTANCE_FEE_FIELDS.map(({ key, label, step }) => (
+                  <div key={key}>
+                    <label
+                      htmlFor={`distanceFee-${key}`}
+                      className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1"
+                    >
+                      {label}
+                    </label>
+                    <input
+                      type="number"
+                      id={`distanceFee-${key}`}
+                      step={step}
+                      min={key === "roadFactor" ? "1" : "0"}
+                      value={fees.distanceFee[key]}
+                      disabled={!fees.distanceFee.enabled}
+                      onChange={(e) =>
+                        setFees({
+                          ...fees,
+                          distanceFee: { ...fees.distanceFee, [key]: parseFloat(e.target.value) || 0 },
+                        })
+                      }
+                      className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500 disabled:opacity-60"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Fee = base fee + per-km rate beyond the included distance, kept between the minimum and maximum. The
+                straight-line distance from pickup to drop-off is multiplied by the road factor to estimate the
+                road distance. Delivery zone fees take precedence.
               </p>
+              {fees.distanceFee.enabled && (
+                <table className="w-full text-sm">
+                  <thead className="text-xs uppercase text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="py-1 text-left">Straight line</th>
+                      <th className="py-1 text-left">Est. road distance</th>
+                      <th className="py-1 text-right">Fee</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {PREVIEW_DISTANCES_KM.map((km) => {
+                      const preview = computeDistanceFee(fees.distanceFee, km);
+                      return (
+                        <tr key={km} className="text-gray-700 dark:text-gray-300">
+                          <td className="py-1">{km} km</td>
+                          <td className="py-1">{preview.distanceKm} km</td>
+                          <td className="py-1 text-right">${preview.fee.toFixed(2)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
             </div>
 
             {/* Commission Rate */}
@@ -236,7 +417,7 @@ export default function FeesManagementPage() {
                 htmlFor="taxRate"
                 className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
               >
-                Tax Rate (%)
+                Fallback Tax Rate (%)
               </label>
               <div className="relative">
                 <input
@@ -258,15 +439,55 @@ export default function FeesManagementPage() {
                 </div>
               </div>
               <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                Tax percentage applied to orders (e.g., 8.5% = 8.5)
+                Flat tax added to orders when no tax zone applies (e.g., 8.5% = 8.5). Rates per
+                category and zone are set on the{" "}
+                <Link href="/admin/tax" className="text-brand-primary-600 hover:underline">
+                  Tax
+                </Link>{" "}
+                page.
               </p>
             </div>
 
+            {/* Activation */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Apply from (optional)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={activateAt}
+                  onChange={(e) => setActivateAt(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+                />
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  Leave blank to apply now. Scheduled changes are listed on the{" "}
+                  <Link href="/admin/config-history?config=fees" className="text-brand-primary-600 hover:underline">
+                    Config History
+                  </Link>{" "}
+                  page.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Change note (optional)
+                </label>
+                <input
+                  type="text"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  placeholder="e.g. Summer delivery promotion"
+                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+                />
+              </div>
+            </div>
+
             {/* Last Updated Info */}
             {fees.updatedAt && (
               <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
                 <p className="text-xs text-gray-500 dark:text-gray-400">
-                  Last updated: {fees.updatedAt?.toDate?.() ? new Date(fees.updatedAt.toDate()).toLocaleString() : "—"}
+                  {fees.version ? `Version ${fees.version} · ` : ""}Last updated:{" "}
+                  {fees.updatedAt?.toDate?.() ? new Date(fees.updatedAt.toDate()).toLocaleString() : "—"}
                 </p>
               </div>
             )}
@@ -327,6 +548,91 @@ export default function FeesManagementPage() {
           </form>
         </div>
 
+        {/* Driver Compensation Form */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Driver Compensation</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-6">
+            Drivers earn this share of the delivery fee, 100% of the tip, plus the optional distance and time rates
+          </p>
+          <form onSubmit={handleSaveCompensation} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label
+                  htmlFor="deliveryFeeSharePercent"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Delivery Fee Share (%)
+                </label>
+                <input
+                  type="number"
+                  id="deliveryFeeSharePercent"
+                  step="1"
+                  min="0"
+                  max="100"
+                  value={compensation.deliveryFeeSharePercent}
+                  onChange={(e) =>
+                    setCompensation({ ...compensation, deliveryFeeSharePercent: parseFloat(e.target.value) || 0 })
+                  }
+                  required
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="perKmRate"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Per Km ($)
+                </label>
+                <input
+                  type="number"
+                  id="perKmRate"
+                  step="0.01"
+                  min="0"
+                  value={compensation.perKmRate}
+                  onChange={(e) => setCompensation({ ...compensation, perKmRate: parseFloat(e.target.value) || 0 })}
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="perMinuteRate"
+                  className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+                >
+                  Per Minute ($)
+                </label>
+                <input
+                  type="number"
+                  id="perMinuteRate"
+                  step="0.01"
+                  min="0"
+                  value={compensation.perMinuteRate}
+                  onChange={(e) =>
+                    setCompensation({ ...compensation, perMinuteRate: parseFloat(e.target.value) || 0 })
+                  }
+                  className="block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Distance is measured from pickup to drop-off; time from pickup to delivery. Changes apply to deliveries
+              completed from now on.
+            </p>
+
+            <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+              <button
+                type="submit"
+                disabled={savingCompensation}
+                className={`px-6 py-2 bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors ${
+                  savingCompensation ? "opacity-50 cursor-not-allowed" : ""
+                }`}
+              >
+                {savingCompensation ? "Saving..." : "Save Compensation"}
+              </button>
+            </div>
+          </form>
+        </div>
+
         {/* Info Card */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
           <div className="flex items-start">
@@ -349,7 +655,8 @@ export default function FeesManagementPage() {
               </h3>
               <ul className="mt-2 text-sm text-blue-700 dark:text-blue-300 space-y-1 list-disc list-inside">
                 <li>
-                  <strong>Delivery Fee:</strong> Fixed amount charged per delivery order
+                  <strong>Delivery Fee:</strong> Delivery zone fee, else the distance model when enabled, else the
+                  flat amount
                 </li>
                 <li>
                   <strong>Commission Rate:</strong> Percentage of order total taken by platform
@@ -0,0 +1,332 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DataTable } from "@/components/admin/DataTable";
+import { ActionMenu } from "@/components/admin/ActionMenu";
+import { CancelOrderModal } from "@/components/admin/CancelOrderModal";
+import { OrderTimeline } from "@/components/admin/OrderTimeline";
+import type { ColumnDef } from "@tanstack/react-table";
+import { useAdminOrders, AdminOrder } from "@/hooks/useAdminOrders";
+import { Badge, type BadgeVariant } from "@/components/ui/badge";
+import { canCancelOrder, CANCELLATION_REASONS, type CancelOrderResponse } from "@/lib/orderTransitions";
+import { formatOrderId } from "@/lib/utils";
+import toast from "react-hot-toast";
+
+function formatCurrency(value: number | null | undefined, currency = "USD") {
+  if (value === null || value === undefined) return "$0.00";
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(value);
+  } catch {
+    return `${currency} ${value}`;
+  }
+}
+
+function getStatusBadgeVariant(status?: string): BadgeVariant {
+  switch ((status || "").toLowerCase()) {
+    case "delivered":
+    case "completed":
+      return "success";
+    case "cancelled":
+    case "failed":
+      return "destructive";
+    case "available":
+    case "ready":
+      return "warning";
+    default:
+      return "secondary";
+  }
+}
+
+function getReasonLabel(reasonCode?: string) {
+  if (!reasonCode) return null;
+  return CANCELLATION_REASONS.find((reason) => reason.value === reasonCode)?.label ?? reasonCode;
+}
+
+export default function AdminOrdersPage() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+
+  const { orders, loading: dataLoading, error } = useAdminOrders();
+
+  const [cancellingOrder, setCancellingOrder] = useState<AdminOrder | null>(null);
+  const [viewingOrder, setViewingOrder] = useState<AdminOrder | null>(null);
+
+  const columns = useMemo<ColumnDef<AdminOrder>[]>(
+    () => [
+      {
+        accessorKey: "orderCode",
+        header: "Order",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              {formatOrderId(row.original.code || row.original.orderCode || row.original.id)}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {row.original.vendorName || row.original.vendorId || "—"}
+            </span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "customerName",
+        header: "Customer",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm text-gray-900 dark:text-white">{row.original.customerName || "—"}</span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{row.original.customerEmail || ""}</span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "driverName",
+        header: "Driver",
+        cell: ({ row }) => (
+          <span className="text-sm text-gray-700 dark:text-gray-300">{row.original.driverName || "—"}</span>
+        ),
+      },
+      {
+        accessorKey: "totalAmount",
+        header: "Total",
+        cell: ({ row }) => (
+          <span className="text-sm font-semibold text-gray-900 dark:text-white">
+            {formatCurrency(row.original.totalAmount)}
+          </span>
+        ),
+      },
+      {
+        accessorKey: "orderStatus",
+        header: "Status",
+        cell: ({ row }) => {
+          const reasonLabel = getReasonLabel(row.original.cancellationReasonCode);
+          return (
+            <div className="flex flex-col gap-1">
+              <Badge variant={getStatusBadgeVariant(row.original.orderStatus)} className="w-fit capitalize">
+                {row.original.orderStatus.replace(/-/g, " ")}
+              </Badge>
+              {reasonLabel && (
+                <span className="text-xs text-gray-500 dark:text-gray-400" title={row.original.cancellationNote}>
+                  {reasonLabel}
+                  {row.original.cancelledByRole ? ` (by ${row.original.cancelledByRole})` : ""}
+                </span>
+              )}
+            </div>
+          );
+        },
+      },
+      {
+        accessorKey: "paymentStatus",
+        header: "Payment",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm capitalize text-gray-700 dark:text-gray-300">
+              {(row.original.paymentStatus || "unknown").replace(/-/g, " ")}
+            </span>
+            {row.original.paymentMethod && (
+              <span className="text-xs capitalize text-gray-500 dark:text-gray-400">
+                {row.original.paymentMethod.replace(/-/g, " ")}
+              </span>
+            )}
+            {row.original.refundStatus && (
+              <span className="text-xs capitalize text-gray-500 dark:text-gray-400">
+                Refund: {row.original.refundStatus.replace(/-/g, " ")}
+              </span>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "createdAt",
+        header: "Created",
+        cell: ({ row }) => {
+          const value = row.original.createdAt;
+          const date =
+            value?.toDate?.() instanceof Date
+              ? value.toDate()
+              : value
+              ? new Date(value)
+              : null;
+          return (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {date ? date.toLocaleString() : "—"}
+            </div>
+          );
+        },
+      },
+      {
+        id: "actions",
+        header: "Actions",
+        cell: ({ row }) => (
+          <ActionMenu
+            onView={() => setViewingOrder(row.original)}
+            customActions={
+              canCancelOrder(row.original.orderStatus, "admin")
+                ? [
+                    {
+                      label: "Cancel order",
+                      onClick: () => setCancellingOrder(row.original),
+                      variant: "danger" as const,
+                    },
+                  ]
+                : []
+            }
+          />
+        ),
+        enableSorting: false,
+      },
+    ],
+    []
+  );
+
+  const handleOrderCancelled = (response: CancelOrderResponse) => {
+    setViewingOrder(null);
+    if (response.refund) {
+      toast.success(
+        `Order cancelled. Refund of ${formatCurrency(response.refund.amount)} ${response.refund.status.replace(/-/g, " ")}`
+      );
+    } else {
+      toast.success("Order cancelled");
+    }
+  };
+
+  // Auth guard
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">
+            {authLoading ? "Loading..." : "Redirecting..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dataLoading) {
+    return (
+      <AdminLayout pageTitle="Orders">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading orders...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout pageTitle="Orders">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              All orders across vendors. Cancelling a paid order refunds the customer.
+            </p>
+          </div>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Table */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={orders}
+            searchableFields={["orderCode", "code", "customerName", "customerEmail", "vendorName", "driverName", "orderStatus"]}
+            searchPlaceholder="Search orders..."
+            onRefresh={() => {}}
+            isLoading={dataLoading}
+          />
+        </div>
+      </div>
+
+      {/* Order Detail Modal */}
+      {viewingOrder && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={() => setViewingOrder(null)} />
+          <div className="relative z-10 w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-xl">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Order Details</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Order ID: {formatOrderId(viewingOrder.code || viewingOrder.orderCode || viewingOrder.id)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                {canCancelOrder(viewingOrder.orderStatus, "admin") && (
+                  <button
+                    onClick={() => setCancellingOrder(viewingOrder)}
+                    className="px-3 py-1.5 text-sm font-medium text-red-600 border border-red-300 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors"
+                  >
+                    Cancel order
+                  </button>
+                )}
+                <button
+                  onClick={() => setViewingOrder(null)}
+                  className="px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+
+            <div className="mt-6 grid gap-4 sm:grid-cols-3">
+              <div>
+                <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Vendor</p>
+                <p className="text-sm text-gray-900 dark:text-white">{viewingOrder.vendorName || viewingOrder.vendorId || "—"}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Customer</p>
+                <p className="text-sm text-gray-900 dark:text-white">{viewingOrder.customerName || "—"}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Driver</p>
+                <p className="text-sm text-gray-900 dark:text-white">{viewingOrder.driverName || "—"}</p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Status</p>
+                <Badge variant={getStatusBadgeVariant(viewingOrder.orderStatus)} className="capitalize">
+                  {viewingOrder.orderStatus.replace(/-/g, " ")}
+                </Badge>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Payment</p>
+                <p className="text-sm capitalize text-gray-900 dark:text-white">
+                  {(viewingOrder.paymentStatus || "unknown").replace(/-/g, " ")} · {viewingOrder.paymentMethod || "—"}
+                </p>
+              </div>
+              <div>
+                <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Total</p>
+                <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {formatCurrency(viewingOrder.totalAmount)}
+                </p>
+              </div>
+            </div>
+
+            <div className="mt-6">
+              <p className="text-xs uppercase text-gray-500 dark:text-gray-400 mb-3">History</p>
+              <OrderTimeline orderId={viewingOrder.id} />
+            </div>
+          </div>
+        </div>
+      )}
+
+      <CancelOrderModal
+        order={cancellingOrder}
+        onClose={() => setCancellingOrder(null)}
+        onCancelled={handleOrderCancelled}
+      />
+    </AdminLayout>
+  );
+}
@@ -6,16 +6,23 @@ import { AdminLayout } from "@/components/admin/AdminLayout";
 import {
   doc,
   getDoc,
-  setDoc,
-  serverTimestamp,
   onSnapshot,
 } from "firebase/firestore";
 import { firestore } from "@/firebase/init";
 import toast from "react-hot-toast";
+import { SUPPORTED_CURRENCIES } from "@/lib/money";
+import { saveSystemConfig } from "@/lib/systemConfig";
+import {
+  getStripeSecretsStatus,
+  migrateStripeSecrets,
+  setStripeSecrets,
+  testStripeConnection,
+  type StripeSecretStatus,
+  type StripeSecretsStatus,
+} from "@/lib/stripeSecrets";
 
 interface PaymentSettings {
   stripePublishableKey?: string;
-  stripeSecretKey?: string;
   defaultCurrency?: string;
   updatedAt?: any;
   updatedBy?: string;
@@ -23,7 +30,6 @@ interface PaymentSettings {
 
 const DEFAULT_SETTINGS: PaymentSettings = {
   stripePublishableKey: "",
-  stripeSecretKey: "",
   defaultCurrency: "USD",
 };
 
@@ -32,7 +38,7 @@ const DEFAULT_SETTINGS: PaymentSettings = {
  * Manages payment method and Stripe configuration
  */
 export default function SettingsPage() {
-  const { userData, loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(
     ["admin"],
     false
   );
@@ -42,6 +48,15 @@ export default function SettingsPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSecretKey, setShowSecretKey] = useState(false);
+  const [secretsStatus, setSecretsStatus] = useState<StripeSecretsStatus | null>(null);
+  // Write-only inputs; cleared once the secrets are stored
+  const [secretKeyInput, setSecretKeyInput] = useState("");
+  const [webhookSecretInput, setWebhookSecretInput] = useState("");
+  const [savingSecrets, setSavingSecrets] = useState(false);
+  const [testingConnection, setTestingConnection] = useState(false);
+  const [migrating, setMigrating] = useState(false);
+  // Bumped to listen again once migrateStripeSecrets makes the settings readable
+  const [settingsListenKey, setSettingsListenKey] = useState(0);
 
   // Load settings configuration
   useEffect(() => {
@@ -56,7 +71,6 @@ export default function SettingsPage() {
           const data = snapshot.data();
           setSettings({
             stripePublishableKey: data.stripePublishableKey ?? DEFAULT_SETTINGS.stripePublishableKey,
-            stripeSecretKey: data.stripeSecretKey ?? DEFAULT_SETTINGS.stripeSecretKey,
             defaultCurrency: data.defaultCurrency ?? DEFAULT_SETTINGS.defaultCurrency,
             updatedAt: data.updatedAt,
             updatedBy: data.updatedBy,
@@ -76,6 +90,19 @@ export default function SettingsPage() {
     );
 
     return () => unsubscribe();
+  }, [authLoading, isFullyAuthorized, settingsListenKey]);
+
+  const loadSecretsStatus = async () => {
+    try {
+      setSecretsStatus(await getStripeSecretsStatus());
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    if (authLoading || !isFullyAuthorized) return;
+    loadSecretsStatus();
   }, [authLoading, isFullyAuthorized]);
 
   const handleSave = async (e: React.FormEvent) => {
@@ -88,27 +115,16 @@ export default function SettingsPage() {
       if (settings.stripePublishableKey && !settings.stripePublishableKey.startsWith("pk_")) {
         throw new Error("Stripe publishable key must start with 'pk_'");
       }
-      if (settings.stripeSecretKey && !settings.stripeSecretKey.startsWith("sk_")) {
-        throw new Error("Stripe secret key must start with 'sk_'");
-      }
       if (settings.defaultCurrency && settings.defaultCurrency.length !== 3) {
         throw new Error("Currency code must be 3 characters (e.g., USD, EUR)");
       }
 
-      const settingsDocRef = doc(firestore, "systemConfig", "paymentSettings");
-      await setDoc(
-        settingsDocRef,
-        {
-          stripePublishableKey: settings.stripePublishableKey || "",
-          stripeSecretKey: settings.stripeSecretKey || "",
-          defaultCurrency: settings.defaultCurrency || "USD",
-          updatedAt: serverTimestamp(),
-          updatedBy: userData?.uid || "admin",
-        },
-        { merge: true }
-      );
+      const { version } = await saveSystemConfig("paymentSettings", {
+        stripePublishableKey: settings.stripePublishableKey || "",
+        defaultCurrency: settings.defaultCurrency || "USD",
+      });
 
-      toast.success("Payment settings saved successfully!");
+      toast.success(`Payment settings saved as version ${version}`);
     } catch (err: any) {
       console.error("Error saving settings:", err);
       setError(err.message || "Failed to save payment settings");
@@ -118,9 +134,77 @@ export default function SettingsPage() {
     }
   };
 
-  const maskSecret = (value: string): string => {
-    if (!value || value.length < 8) return value;
-    return value.substring(0, 4) + "..." + value.substring(value.length - 4);
+  const handleSaveSecrets = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingSecrets(true);
+
+    try {
+      const secretKey = secretKeyInput.trim();
+      const webhookSecret = webhookSecretInput.trim();
+      if (!secretKey && !webhookSecret) {
+        throw new Error("Enter a secret key or webhook signing secret to replace");
+      }
+      if (secretKey && !secretKey.startsWith("sk_")) {
+        throw new Error("Stripe secret key must start with 'sk_'");
+      }
+      if (webhookSecret && !webhookSecret.startsWith("whsec_")) {
+        throw new Error("Stripe webhook signing secret must start with 'whsec_'");
+      }
+
+      await setStripeSecrets({
+        ...(secretKey ? { secretKey } : {}),
+        ...(webhookSecret ? { webhookSecret } : {}),
+      });
+      setSecretKeyInput("");
+      setWebhookSecretInput("");
+      setShowSecretKey(false);
+      toast.success("Stripe secrets saved");
+      await loadSecretsStatus();
+    } catch (err: any) {
+      toast.error(err.message || "Failed to save Stripe secrets");
+    } finally {
+      setSavingSecrets(false);
+    }
+  };
+
+  const handleTestConnection = async () => {
+    setTestingConnection(true);
+    try {
+      const result = await testStripeConnection();
+      if (result.ok) {
+        toast.success(`Connected to Stripe (${result.livemode ? "live" : "test"} mode)`);
+      } else {
+        toast.error(result.error || "Stripe connection failed");
+      }
+      await loadSecretsStatus();
+    } catch (err: any) {
+      toast.error(err.message || "Failed to test the Stripe connection");
+    } finally {
+      setTestingConnection(false);
+    }
+  };
+
+  const handleMigrateSecrets = async () => {
+    setMigrating(true);
+    try {
+      const { moved, wiped } = await migrateStripeSecrets();
+      toast.success(
+        `Encrypted ${moved.length} secret${moved.length === 1 ? "" : "s"} and removed ${wiped.length} plaintext field${wiped.length === 1 ? "" : "s"}`
+      );
+      await loadSecretsStatus();
+      setSettingsListenKey((key) => key + 1);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to migrate Stripe secrets");
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  const describeSecret = (status: StripeSecretStatus | null | undefined, overridden: boolean | undefined) => {
+    if (overridden) return "Set in the functions environment";
+    if (!status) return "Not set";
+    const updated = status.updatedAt ? ` · updated ${new Date(status.updatedAt).toLocaleString()}` : "";
+    return `${status.fingerprint}${updated}${status.decryptable ? "" : " · cannot be decrypted, enter it again"}`;
   };
 
   // Don't render anything if not authorized - wait for redirect
@@ -208,43 +292,6 @@ export default function SettingsPage() {
               </p>
             </div>
 
-            {/* Stripe Secret Key */}
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Stripe Secret Key
-              </label>
-              <div className="relative">
-                <input
-                  type={showSecretKey ? "text" : "password"}
-                  value={settings.stripeSecretKey || ""}
-                  onChange={(e) =>
-                    setSettings({ ...settings, stripeSecretKey: e.target.value })
-                  }
-                  className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-brand-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="sk_test_..."
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowSecretKey(!showSecretKey)}
-                  className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
-                >
-                  {showSecretKey ? (
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.906 5.06m-4.637 1.765a9.96 9.96 0 01-1.563-3.029M15.536 8.464a3 3 0 11-4.243 4.243" />
-                    </svg>
-                  ) : (
-                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
-                    </svg>
-                  )}
-                </button>
-              </div>
-              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                Your Stripe secret key (starts with sk_). Keep this secure!
-              </p>
-            </div>
-
           </div>
 
           {/* Currency Section */}
@@ -265,12 +312,11 @@ export default function SettingsPage() {
                 }
                 className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-brand-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
               >
-                <option value="USD">USD - US Dollar</option>
-                <option value="EUR">EUR - Euro</option>
-                <option value="GBP">GBP - British Pound</option>
-                <option value="NGN">NGN - Nigerian Naira</option>
-                <option value="KES">KES - Kenyan Shilling</option>
-                <option value="GHS">GHS - Ghanaian Cedi</option>
+                {SUPPORTED_CURRENCIES.map(({ code, name }) => (
+                  <option key={code} value={code}>
+                    {code} - {name}
+                  </option>
+                ))}
               </select>
             </div>
           </div>
@@ -322,6 +368,132 @@ export default function SettingsPage() {
           </div>
         </form>
 
+        {/* Stripe Secrets */}
+        <form onSubmit={handleSaveSecrets} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Stripe Secrets</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                Stored encrypted by Cloud Functions and never shown again. Enter a value only to replace it.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={handleTestConnection}
+              disabled={testingConnection}
+              className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-60 whitespace-nowrap"
+            >
+              {testingConnection ? "Testing..." : "Test connection"}
+            </button>
+          </div>
+
+          {secretsStatus && !secretsStatus.encryptionConfigured && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-800 dark:text-red-200">
+              SECRETS_ENCRYPTION_KEY is not set for Cloud Functions, so secrets cannot be saved.
+            </div>
+          )}
+
+          {secretsStatus && secretsStatus.legacyPlaintext.length > 0 && (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg p-3 flex flex-wrap items-center justify-between gap-3">
+              <p className="text-sm text-yellow-800 dark:text-yellow-200">
+                Plaintext secrets are still stored in {secretsStatus.legacyPlaintext.join(", ")}. Payment
+                settings cannot be loaded or saved until they are encrypted.
+              </p>
+              <button
+                type="button"
+                onClick={handleMigrateSecrets}
+                disabled={migrating || !secretsStatus.encryptionConfigured}
+                className="px-4 py-2 text-sm bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:opacity-60 whitespace-nowrap"
+              >
+                {migrating ? "Migrating..." : "Encrypt and remove"}
+              </button>
+            </div>
+          )}
+
+          {secretsStatus?.lastConnectionTest && (
+            <p
+              className={`text-sm ${
+                secretsStatus.lastConnectionTest.ok
+                  ? "text-green-700 dark:text-green-400"
+                  : "text-red-700 dark:text-red-400"
+              }`}
+            >
+              Last test:{" "}
+              {secretsStatus.lastConnectionTest.ok
+                ? `connected (${secretsStatus.lastConnectionTest.livemode ? "live" : "test"} mode)`
+                : secretsStatus.lastConnectionTest.error}
+              {secretsStatus.lastConnectionTest.testedAt &&
+                ` · ${new Date(secretsStatus.lastConnectionTest.testedAt).toLocaleString()}`}
+            </p>
+          )}
+
+          {/* Stripe Secret Key */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Stripe Secret Key
+            </label>
+            <div className="relative">
+              <input
+                type={showSecretKey ? "text" : "password"}
+                value={secretKeyInput}
+                onChange={(e) => setSecretKeyInput(e.target.value)}
+                autoComplete="off"
+                className="w-full px-4 py-2 pr-10 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-brand-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="sk_live_... or sk_test_..."
+              />
+              <button
+                type="button"
+                onClick={() => setShowSecretKey(!showSecretKey)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              >
+                {showSecretKey ? (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.906 5.06m-4.637 1.765a9.96 9.96 0 01-1.563-3.029M15.536 8.464a3 3 0 11-4.243 4.243" />
+                  </svg>
+                ) : (
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                  </svg>
+                )}
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Current: {describeSecret(secretsStatus?.secretKey, secretsStatus?.environmentOverrides.secretKey)}
+            </p>
+          </div>
+
+          {/* Stripe Webhook Signing Secret */}
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Stripe Webhook Signing Secret
+            </label>
+            <input
+              type="password"
+              value={webhookSecretInput}
+              onChange={(e) => setWebhookSecretInput(e.target.value)}
+              autoComplete="off"
+              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-brand-primary-500 focus:border-transparent bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              placeholder="whsec_..."
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Current: {describeSecret(secretsStatus?.webhookSecret, secretsStatus?.environmentOverrides.webhookSecret)}.
+              Signing secret of the webhook endpoint pointing at the stripeWebhook function. Wallet top-ups are
+              credited only from verified webhook events.
+            </p>
+          </div>
+
+          <div className="flex justify-end pt-4 border-t border-gray-200 dark:border-gray-700">
+            <button
+              type="submit"
+              disabled={savingSecrets || (!secretKeyInput.trim() && !webhookSecretInput.trim())}
+              className="px-6 py-2 bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {savingSecrets ? "Saving..." : "Save Secrets"}
+            </button>
+          </div>
+        </form>
+
         {/* Info Card */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
           <div className="flex items-start">
@@ -343,9 +515,8 @@ export default function SettingsPage() {
                 Security Note
               </h4>
               <p className="mt-1 text-sm text-blue-700 dark:text-blue-300">
-                Stripe secret keys are sensitive information. 
-                Make sure to keep them secure and never expose them in client-side code.
-                These settings are stored securely in Firestore and only accessible to admins.
+                Stripe secrets are encrypted by Cloud Functions and never sent back to the browser; only their
+                fingerprints are shown. Use &quot;Test connection&quot; after replacing the secret key.
               </p>
             </div>
           </div>
@@ -25,6 +25,9 @@ function getStripePromise(publishableKey: string) {
   return stripePromise;
 }
 
+const TOPUP_STATUS_ATTEMPTS = 5;
+const TOPUP_STATUS_INTERVAL_MS = 2000;
+
 interface PaymentFormProps {
   publishableKey: string;
 }
@@ -113,31 +116,48 @@ function PaymentForm({ publishableKey }: PaymentFormProps) {
       }
 
       if (paymentIntent?.status === "succeeded") {
-        // Apply wallet top-up
+        // The wallet is credited by the Stripe webhook; poll the status check until it lands
         const user = auth.currentUser;
         if (!user) {
           throw new Error("User not authenticated");
         }
         const idToken = await user.getIdToken();
-        
+
         const functionUrl = `https://us-central1-${process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID}.cloudfunctions.net/applyWalletTopup`;
-        const response = await fetch(functionUrl, {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${idToken}`,
-          },
-          body: JSON.stringify({
-            paymentIntentId: paymentIntent.id,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
-          throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+        let credited = false;
+        let mismatch = false;
+        for (let attempt = 0; attempt < TOPUP_STATUS_ATTEMPTS && !credited && !mismatch; attempt++) {
+          if (attempt > 0) {
+            await new Promise((resolve) => setTimeout(resolve, TOPUP_STATUS_INTERVAL_MS));
+          }
+          const response = await fetch(functionUrl, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${idToken}`,
+            },
+            body: JSON.stringify({
+              paymentIntentId: paymentIntent.id,
+            }),
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({ error: "Unknown error" }));
+            throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+          }
+
+          const status = await response.json();
+          credited = status.credited === true;
+          mismatch = status.status === "currency-mismatch";
         }
 
-        toast.success("Payment successful! Wallet credited.");
+        if (mismatch) {
+          toast.error("Payment received in a different currency than the wallet. It was not credited and needs a refund.");
+        } else if (credited) {
+          toast.success("Payment successful! Wallet credited.");
+        } else {
+          toast.success("Payment successful! The wallet will be credited once Stripe confirms it.");
+        }
         setClientSecret(null);
         setPaymentIntentId(null);
         setAmount("10.00");
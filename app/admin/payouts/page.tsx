@@ -0,0 +1,531 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DataTable } from "@/components/admin/DataTable";
+import type { ColumnDef } from "@tanstack/react-table";
+import { useAdminPayouts } from "@/hooks/useAdminPayouts";
+import type { Payout } from "@/lib/payouts";
+import { Badge, type BadgeVariant } from "@/components/ui/badge";
+import { formatOrderId } from "@/lib/utils";
+import toast from "react-hot-toast";
+
+function formatCurrency(value: number | null | undefined, currency = "USD") {
+  if (value === null || value === undefined) return "$0.00";
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(value);
+  } catch {
+    return `${currency} ${value}`;
+  }
+}
+
+/** Each currency is paid separately; runs from before that only have the single total */
+function formatRunTotal(totalsByCurrency: Record<string, number> | undefined, totalAmount: number, currency: string) {
+  const totals = Object.entries(totalsByCurrency ?? {});
+  if (totals.length === 0) return formatCurrency(totalAmount, currency);
+  return totals.map(([code, amount]) => formatCurrency(amount, code)).join(" + ");
+}
+
+function formatDate(value?: any) {
+  if (!value) return "—";
+  const date = value?.toDate?.() instanceof Date ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleDateString();
+}
+
+function formatPeriod(start?: any, end?: any) {
+  return `${formatDate(start)} – ${formatDate(end)}`;
+}
+
+function getPayoutBadgeVariant(status?: string): BadgeVariant {
+  switch (status) {
+    case "paid":
+    case "completed":
+      return "success";
+    case "failed":
+    case "attention-required":
+      return "destructive";
+    case "pending-approval":
+      return "warning";
+    case "rejected":
+    case "empty":
+      return "outline";
+    default:
+      return "secondary";
+  }
+}
+
+function toDateInputValue(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export default function AdminPayoutsPage() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+
+  const { runs, payouts, loading: dataLoading, error, createRun, approvePayouts, retryPayout, rejectPayout } =
+    useAdminPayouts();
+
+  const [periodStart, setPeriodStart] = useState(() => toDateInputValue(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)));
+  const [periodEnd, setPeriodEnd] = useState(() => toDateInputValue(new Date()));
+  const [creatingRun, setCreatingRun] = useState(false);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [busyPayoutId, setBusyPayoutId] = useState<string | null>(null);
+  const [viewingPayout, setViewingPayout] = useState<Payout | null>(null);
+  const [rejectingPayout, setRejectingPayout] = useState<Payout | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+
+  const visiblePayouts = useMemo(
+    () => (selectedRunId ? payouts.filter((payout) => payout.runId === selectedRunId) : payouts),
+    [payouts, selectedRunId]
+  );
+  const pendingPayoutIds = visiblePayouts
+    .filter((payout) => payout.status === "pending-approval")
+    .map((payout) => payout.id);
+
+  const handleCreateRun = async () => {
+    const start = new Date(`${periodStart}T00:00:00`);
+    // The period end date is inclusive, so the run covers up to the following midnight (or now)
+    const end = new Date(Math.min(new Date(`${periodEnd}T00:00:00`).getTime() + 24 * 60 * 60 * 1000, Date.now()));
+    try {
+      setCreatingRun(true);
+      const result = await createRun(start, end);
+      setSelectedRunId(result.runId);
+      if (result.payoutCount === 0) {
+        toast.success("Nothing to pay out for this period");
+      } else {
+        toast.success(`${result.payoutCount} payout(s) totalling ${formatRunTotal(result.totalsByCurrency, result.totalAmount, result.currency)} await approval`);
+      }
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to create payout run");
+    } finally {
+      setCreatingRun(false);
+    }
+  };
+
+  const handleApprove = async (payoutIds: string[]) => {
+    try {
+      setBusyPayoutId(payoutIds.length === 1 ? payoutIds[0] : "all");
+      const results = await approvePayouts(payoutIds);
+      const failed = Object.values(results).filter((status) => status === "failed").length;
+      const paid = Object.values(results).filter((status) => status === "paid").length;
+      if (failed > 0) {
+        toast.error(`${paid} paid, ${failed} failed. Check the errors and retry.`);
+      } else {
+        toast.success(`${paid} payout(s) sent`);
+      }
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to approve payouts");
+    } finally {
+      setBusyPayoutId(null);
+    }
+  };
+
+  const handleRetry = async (payoutId: string) => {
+    try {
+      setBusyPayoutId(payoutId);
+      const status = await retryPayout(payoutId);
+      if (status === "failed") {
+        toast.error("Transfer failed again. Check the error and the payee's Stripe account.");
+      } else {
+        toast.success("Payout sent");
+      }
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to retry payout");
+    } finally {
+      setBusyPayoutId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectingPayout) return;
+    try {
+      setBusyPayoutId(rejectingPayout.id);
+      await rejectPayout(rejectingPayout.id, rejectReason);
+      toast.success("Payout rejected. Its items return to the next run.");
+      setRejectingPayout(null);
+      setRejectReason("");
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to reject payout");
+    } finally {
+      setBusyPayoutId(null);
+    }
+  };
+
+  const columns = useMemo<ColumnDef<Payout>[]>(
+    () => [
+      {
+        accessorKey: "payeeName",
+        header: "Payee",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              {row.original.payeeName || row.original.vendorId || row.original.driverId}
+            </span>
+            <span className="text-xs capitalize text-gray-500 dark:text-gray-400">{row.original.payeeType}</span>
+          </div>
+        ),
+      },
+      {
+        id: "period",
+        header: "Period",
+        cell: ({ row }) => (
+          <span className="text-sm text-gray-600 dark:text-gray-400">
+            {formatPeriod(row.original.periodStart, row.original.periodEnd)}
+          </span>
+        ),
+        enableSorting: false,
+      },
+      {
+        accessorKey: "amount",
+        header: "Amount",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              {formatCurrency(row.original.amount, row.original.currency)}
+            </span>
+            {!!row.original.deductions && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatCurrency(row.original.grossAmount, row.original.currency)} less{" "}
+                {formatCurrency(row.original.deductions, row.original.currency)}
+              </span>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "status",
+        header: "Status",
+        cell: ({ row }) => (
+          <div className="flex flex-col gap-1">
+            <Badge variant={getPayoutBadgeVariant(row.original.status)} className="w-fit capitalize">
+              {(row.original.status || "pending-approval").replace(/-/g, " ")}
+            </Badge>
+            {row.original.status === "failed" && row.original.lastError && (
+              <span className="text-xs text-red-600 dark:text-red-400">{row.original.lastError}</span>
+            )}
+            {row.original.status === "paid" && row.original.transactionId && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">{row.original.transactionId}</span>
+            )}
+          </div>
+        ),
+      },
+      {
+        id: "actions",
+        header: "Actions",
+        cell: ({ row }) => {
+          const payout = row.original;
+          const busy = busyPayoutId === payout.id || busyPayoutId === "all";
+          return (
+            <div className="flex gap-2">
+              <button
+                onClick={() => setViewingPayout(payout)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                Details
+              </button>
+              {payout.status === "pending-approval" && (
+                <button
+                  onClick={() => handleApprove([payout.id])}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+                >
+                  {busy ? "Sending..." : "Approve"}
+                </button>
+              )}
+              {payout.status === "failed" && (
+                <button
+                  onClick={() => handleRetry(payout.id)}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+                >
+                  {busy ? "Retrying..." : "Retry"}
+                </button>
+              )}
+              {(payout.status === "pending-approval" || payout.status === "failed") && (
+                <button
+                  onClick={() => {
+                    setRejectingPayout(payout);
+                    setRejectReason("");
+                  }}
+                  disabled={busy}
+                  className="px-3 py-1.5 text-sm rounded-lg border border-red-300 dark:border-red-700 text-red-700 dark:text-red-300 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors disabled:opacity-60"
+                >
+                  Reject
+                </button>
+              )}
+            </div>
+          );
+        },
+        enableSorting: false,
+      },
+    ],
+    [busyPayoutId]
+  );
+
+  // Auth guard
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">
+            {authLoading ? "Loading..." : "Redirecting..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dataLoading) {
+    return (
+      <AdminLayout pageTitle="Payouts">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading payouts...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout pageTitle="Payouts">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <p className="text-gray-600 dark:text-gray-400 mt-1 max-w-xl">
+            Payout runs gather settled vendor and driver earnings, less commissions and COD owed to the platform.
+            Runs are created weekly; approved payouts are sent as Stripe Connect transfers.
+          </p>
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+              <input
+                type="date"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+              <input
+                type="date"
+                value={periodEnd}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+            <button
+              onClick={handleCreateRun}
+              disabled={creatingRun || !periodStart || !periodEnd}
+              className="px-4 py-2 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+            >
+              {creatingRun ? "Creating..." : "New payout run"}
+            </button>
+          </div>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Runs */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-3 text-left">Run</th>
+                <th className="px-4 py-3 text-left">Period</th>
+                <th className="px-4 py-3 text-left">Status</th>
+                <th className="px-4 py-3 text-right">Payouts</th>
+                <th className="px-4 py-3 text-right">Total</th>
+                <th className="px-4 py-3 text-left">Skipped</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {runs.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-gray-500 dark:text-gray-400">
+                    No payout runs yet.
+                  </td>
+                </tr>
+              ) : (
+                runs.map((run) => (
+                  <tr
+                    key={run.id}
+                    onClick={() => setSelectedRunId(selectedRunId === run.id ? null : run.id)}
+                    className={`cursor-pointer transition-colors ${
+                      selectedRunId === run.id
+                        ? "bg-brand-primary-50 dark:bg-brand-primary-900/20"
+                        : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                    }`}
+                  >
+                    <td className="px-4 py-3 text-gray-900 dark:text-white">
+                      <div className="flex flex-col">
+                        <span className="font-medium">{formatDate(run.createdAt)}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400">
+                          {run.createdBy ? "Manual" : "Scheduled"}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600 dark:text-gray-400">
+                      {formatPeriod(run.periodStart, run.periodEnd)}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge variant={getPayoutBadgeVariant(run.status)} className="capitalize">
+                        {run.status.replace(/-/g, " ")}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-700 dark:text-gray-300">
+                      {run.paidCount ?? 0}/{run.payoutCount} paid
+                    </td>
+                    <td className="px-4 py-3 text-right font-semibold text-gray-900 dark:text-white">
+                      {formatRunTotal(run.totalsByCurrency, run.totalAmount, run.currency)}
+                    </td>
+                    <td className="px-4 py-3 text-xs text-gray-500 dark:text-gray-400">
+                      {run.skipped.filter((skip) => skip.reason === "no-connected-account").length > 0
+                        ? `${run.skipped.filter((skip) => skip.reason === "no-connected-account").length} without Stripe account`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Payouts */}
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+            {selectedRunId ? "Payouts in selected run" : "All payouts"}
+          </h2>
+          {pendingPayoutIds.length > 0 && (
+            <button
+              onClick={() => handleApprove(pendingPayoutIds)}
+              disabled={Boolean(busyPayoutId)}
+              className="px-4 py-2 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+            >
+              {busyPayoutId === "all" ? "Sending..." : `Approve ${pendingPayoutIds.length} pending`}
+            </button>
+          )}
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={visiblePayouts}
+            searchableFields={["payeeName", "payeeType", "status", "vendorId", "driverId"]}
+            searchPlaceholder="Search payouts..."
+            onRefresh={() => {}}
+            isLoading={dataLoading}
+          />
+        </div>
+      </div>
+
+      {/* Line Items Modal */}
+      {viewingPayout && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full mx-4 p-6 max-h-[85vh] flex flex-col">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Payout Details</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {viewingPayout.payeeName || viewingPayout.vendorId || viewingPayout.driverId} ·{" "}
+                  {formatPeriod(viewingPayout.periodStart, viewingPayout.periodEnd)}
+                </p>
+              </div>
+              <button
+                onClick={() => setViewingPayout(null)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+            <div className="overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Order</th>
+                    <th className="px-3 py-2 text-left">Item</th>
+                    <th className="px-3 py-2 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {(viewingPayout.lineItems || []).map((item, index) => (
+                    <tr key={`${item.sourceId}-${item.kind}-${index}`}>
+                      <td className="px-3 py-2 text-gray-700 dark:text-gray-300">
+                        {item.orderCode || item.orderId ? formatOrderId(item.orderCode || item.orderId) : "—"}
+                      </td>
+                      <td className="px-3 py-2 text-gray-900 dark:text-white">{item.description}</td>
+                      <td
+                        className={`px-3 py-2 text-right ${
+                          item.amount < 0 ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"
+                        }`}
+                      >
+                        {formatCurrency(item.amount, viewingPayout.currency)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="border-t-2 border-gray-300 dark:border-gray-600">
+                    <td colSpan={2} className="px-3 py-2 font-semibold text-gray-900 dark:text-white">
+                      Net payout
+                    </td>
+                    <td className="px-3 py-2 text-right font-semibold text-gray-900 dark:text-white">
+                      {formatCurrency(viewingPayout.amount, viewingPayout.currency)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Modal */}
+      {rejectingPayout && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">Reject Payout</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              {formatCurrency(rejectingPayout.amount, rejectingPayout.currency)} to{" "}
+              {rejectingPayout.payeeName || rejectingPayout.vendorId || rejectingPayout.driverId}. Its line items will be
+              included in the next run.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Reason</label>
+            <textarea
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500"
+              placeholder="e.g. Disputed order, pending investigation"
+            />
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                onClick={() => setRejectingPayout(null)}
+                className="px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleReject}
+                disabled={!rejectReason.trim() || busyPayoutId === rejectingPayout.id}
+                className="px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 transition-colors disabled:opacity-60"
+              >
+                Reject
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { DataTable } from "@/components/admin/DataTable";
+import type { ColumnDef } from "@tanstack/react-table";
+import { useAdminRefunds, AdminRefund } from "@/hooks/useAdminRefunds";
+import { Badge, type BadgeVariant } from "@/components/ui/badge";
+import { CANCELLATION_REASONS } from "@/lib/orderTransitions";
+import { formatOrderId } from "@/lib/utils";
+import toast from "react-hot-toast";
+
+function formatCurrency(value: number | null | undefined, currency = "USD") {
+  if (value === null || value === undefined) return "$0.00";
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+    }).format(value);
+  } catch {
+    return `${currency} ${value}`;
+  }
+}
+
+function getRefundBadgeVariant(status: string): BadgeVariant {
+  switch (status) {
+    case "succeeded":
+      return "success";
+    case "failed":
+      return "destructive";
+    case "pending-manual":
+      return "warning";
+    default:
+      return "secondary";
+  }
+}
+
+export default function AdminRefundsPage() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+
+  const { refunds, loading: dataLoading, error, retryRefund } = useAdminRefunds();
+
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  const handleRetry = async (orderId: string) => {
+    try {
+      setRetryingId(orderId);
+      const status = await retryRefund(orderId);
+      if (status === "failed") {
+        toast.error("Refund failed again. Check the error and Stripe settings.");
+      } else {
+        toast.success(`Refund ${status}`);
+      }
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to retry refund");
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const columns = useMemo<ColumnDef<AdminRefund>[]>(
+    () => [
+      {
+        accessorKey: "orderCode",
+        header: "Order",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm font-semibold text-gray-900 dark:text-white">
+              {formatOrderId(row.original.orderCode || row.original.orderId)}
+            </span>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{row.original.customerId || "—"}</span>
+          </div>
+        ),
+      },
+      {
+        accessorKey: "amount",
+        header: "Amount",
+        cell: ({ row }) => (
+          <div className="text-sm font-semibold text-gray-900 dark:text-white">
+            {formatCurrency(row.original.amount, row.original.currency)}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "method",
+        header: "Method",
+        cell: ({ row }) => (
+          <Badge variant="outline" className="capitalize">
+            {row.original.method}
+          </Badge>
+        ),
+      },
+      {
+        accessorKey: "status",
+        header: "Status",
+        cell: ({ row }) => (
+          <div className="flex flex-col gap-1">
+            <Badge variant={getRefundBadgeVariant(row.original.status)} className="w-fit capitalize">
+              {row.original.status.replace(/-/g, " ")}
+            </Badge>
+            {row.original.error && (
+              <span className="text-xs text-red-600 dark:text-red-400">{row.original.error}</span>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "reasonCode",
+        header: "Reason",
+        cell: ({ row }) => (
+          <div className="flex flex-col">
+            <span className="text-sm text-gray-700 dark:text-gray-300">
+              {CANCELLATION_REASONS.find((reason) => reason.value === row.original.reasonCode)?.label ||
+                row.original.reasonCode ||
+                "—"}
+            </span>
+            {row.original.note && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">{row.original.note}</span>
+            )}
+          </div>
+        ),
+      },
+      {
+        accessorKey: "createdAt",
+        header: "Created",
+        cell: ({ row }) => {
+          const value = row.original.createdAt;
+          const date =
+            value?.toDate?.() instanceof Date
+              ? value.toDate()
+              : value
+              ? new Date(value)
+              : null;
+          return (
+            <div className="text-sm text-gray-600 dark:text-gray-400">
+              {date ? date.toLocaleString() : "—"}
+            </div>
+          );
+        },
+      },
+      {
+        id: "actions",
+        header: "Actions",
+        cell: ({ row }) =>
+          row.original.method === "stripe" && row.original.status === "failed" ? (
+            <button
+              onClick={() => handleRetry(row.original.orderId)}
+              disabled={retryingId === row.original.orderId}
+              className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+            >
+              {retryingId === row.original.orderId ? "Retrying..." : "Retry"}
+            </button>
+          ) : null,
+        enableSorting: false,
+      },
+    ],
+    [retryingId]
+  );
+
+  // Auth guard
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">
+            {authLoading ? "Loading..." : "Redirecting..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (dataLoading) {
+    return (
+      <AdminLayout pageTitle="Refunds">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading refunds...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout pageTitle="Refunds">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-gray-600 dark:text-gray-400 mt-1">
+              Refunds issued for cancelled orders. Failed Stripe refunds can be retried.
+            </p>
+          </div>
+        </div>
+
+        {/* Error */}
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {/* Table */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+          <DataTable
+            columns={columns}
+            data={refunds}
+            searchableFields={["orderCode", "orderId", "customerId", "status", "method"]}
+            searchPlaceholder="Search refunds..."
+            onRefresh={() => {}}
+            isLoading={dataLoading}
+          />
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
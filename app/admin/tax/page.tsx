@@ -0,0 +1,565 @@
+"use client";
+
+import { Fragment, useEffect, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { useTaxSettings, EMPTY_TAX_SETTINGS } from "@/hooks/useTaxSettings";
+import { useTaxReports } from "@/hooks/useTaxReports";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { formatMoney } from "@/lib/money";
+import { saveSystemConfig } from "@/lib/systemConfig";
+import { downloadTaxReportCsv, type TaxReport, type TaxSettings, type TaxZone } from "@/lib/tax";
+import toast from "react-hot-toast";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inputClassName =
+  "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500";
+
+/** Lower-case slug used as a stable ID; products keep referencing it after a rename */
+function toTaxId(name: string, taken: string[]) {
+  const base = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "tax";
+  let id = base;
+  for (let suffix = 2; taken.includes(id); suffix++) id = `${base}-${suffix}`;
+  return id;
+}
+
+function isValidRate(rate: number) {
+  return Number.isFinite(rate) && rate >= 0 && rate <= 100;
+}
+
+/** Report periods are whole UTC days; the stored end is exclusive */
+function formatPeriod(report: TaxReport) {
+  const start = report.periodStart?.toMillis?.();
+  const end = report.periodEnd?.toMillis?.();
+  if (!start || !end) return "—";
+  const format = (millis: number) => new Date(millis).toISOString().slice(0, 10);
+  return `${format(start)} – ${format(end - 1)}`;
+}
+
+/** A report covers every currency sold in, so its totals are listed per currency */
+function formatTotals(report: TaxReport, field: "taxableAmount" | "taxAmount") {
+  const totals = report.totals || [];
+  return totals.length > 0 ? totals.map((total) => formatMoney(total[field], total.currency)).join(" · ") : "—";
+}
+
+function previousMonth() {
+  const end = new Date();
+  end.setUTCDate(1);
+  end.setUTCHours(0, 0, 0, 0);
+  const start = new Date(end);
+  start.setUTCMonth(start.getUTCMonth() - 1);
+  return {
+    start: start.toISOString().slice(0, 10),
+    end: new Date(end.getTime() - DAY_MS).toISOString().slice(0, 10),
+  };
+}
+
+/**
+ * Admin Tax Page - Protected Route
+ * Tax categories, per-zone rates and tax-inclusive pricing (systemConfig/tax),
+ * plus period tax reports for filing
+ */
+export default function TaxPage() {
+  const { loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+  const { settings, loading: settingsLoading, error: settingsError } = useTaxSettings();
+  const { reports, error: reportsError, generating, generate } = useTaxReports(isFullyAuthorized);
+
+  const [draft, setDraft] = useState<TaxSettings>(EMPTY_TAX_SETTINGS);
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [periodStart, setPeriodStart] = useState(() => previousMonth().start);
+  const [periodEnd, setPeriodEnd] = useState(() => previousMonth().end);
+  const [expandedReportId, setExpandedReportId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const updateZone = (zoneId: string, changes: Partial<TaxZone>) => {
+    setDraft((prev) => ({
+      ...prev,
+      zones: prev.zones.map((zone) => (zone.id === zoneId ? { ...zone, ...changes } : zone)),
+    }));
+  };
+
+  const setZoneCategoryRate = (zone: TaxZone, categoryId: string, value: string) => {
+    const rates = { ...zone.rates };
+    if (value === "") {
+      delete rates[categoryId];
+    } else {
+      rates[categoryId] = parseFloat(value) || 0;
+    }
+    updateZone(zone.id, { rates });
+  };
+
+  const handleAddCategory = () => {
+    const name = newCategoryName.trim();
+    if (!name) return;
+    setDraft((prev) => ({
+      ...prev,
+      categories: [...prev.categories, { id: toTaxId(name, prev.categories.map((category) => category.id)), name }],
+    }));
+    setNewCategoryName("");
+  };
+
+  const handleRemoveCategory = (categoryId: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      categories: prev.categories.filter((category) => category.id !== categoryId),
+      zones: prev.zones.map((zone) => {
+        const rates = { ...zone.rates };
+        delete rates[categoryId];
+        return { ...zone, rates };
+      }),
+    }));
+  };
+
+  const handleAddZone = () => {
+    setDraft((prev) => {
+      const id = toTaxId(`zone ${prev.zones.length + 1}`, prev.zones.map((zone) => zone.id));
+      return {
+        ...prev,
+        zones: [
+          ...prev.zones,
+          {
+            id,
+            name: `Zone ${prev.zones.length + 1}`,
+            pricesIncludeTax: false,
+            defaultRate: 0,
+            deliveryFeeRate: 0,
+            rates: {},
+          },
+        ],
+        defaultZoneId: prev.defaultZoneId ?? id,
+      };
+    });
+  };
+
+  const handleRemoveZone = (zoneId: string) => {
+    setDraft((prev) => {
+      const zones = prev.zones.filter((zone) => zone.id !== zoneId);
+      return {
+        ...prev,
+        zones,
+        defaultZoneId: prev.defaultZoneId === zoneId ? zones[0]?.id ?? null : prev.defaultZoneId,
+      };
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      if (draft.categories.some((category) => !category.name.trim())) {
+        throw new Error("Every tax category needs a name");
+      }
+      draft.zones.forEach((zone) => {
+        if (!zone.name.trim()) {
+          throw new Error("Every tax zone needs a name");
+        }
+        const rates = [zone.defaultRate, zone.deliveryFeeRate, ...Object.values(zone.rates)];
+        if (!rates.every(isValidRate)) {
+          throw new Error(`Rates in ${zone.name} must be between 0 and 100`);
+        }
+      });
+
+      const { version } = await saveSystemConfig("tax", {
+        categories: draft.categories.map(({ id, name }) => ({ id, name: name.trim() })),
+        zones: draft.zones.map((zone) => ({ ...zone, name: zone.name.trim() })),
+        defaultZoneId: draft.zones.some((zone) => zone.id === draft.defaultZoneId) ? draft.defaultZoneId : null,
+      });
+
+      toast.success(`Tax settings saved as version ${version}`);
+    } catch (err: any) {
+      console.error("Error saving tax settings:", err);
+      toast.error(err.message || "Failed to save tax settings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    const start = new Date(`${periodStart}T00:00:00Z`);
+    // The end date is inclusive, so the report runs to the following midnight (UTC)
+    const end = new Date(new Date(`${periodEnd}T00:00:00Z`).getTime() + DAY_MS);
+    try {
+      const result = await generate(start, end);
+      setExpandedReportId(result.reportId);
+      toast.success(
+        result.totals.length === 0
+          ? "Tax report generated. No orders were delivered in this period."
+          : "Tax report generated"
+      );
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to generate the tax report");
+    }
+  };
+
+  // Don't render anything if not authorized - wait for redirect
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">{authLoading ? "Loading..." : "Redirecting..."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (settingsLoading) {
+    return (
+      <AdminLayout pageTitle="Tax">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading tax settings...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  const error = settingsError || reportsError;
+
+  return (
+    <AdminLayout pageTitle="Tax">
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Tax Configuration</h2>
+          <p className="text-gray-600 dark:text-gray-400 mt-1">
+            Assign tax categories to product categories and products, then set each zone&apos;s rates. Vendors are
+            taxed in their own zone, or the default zone. Without any zone, the fallback rate on the Fees page applies.
+          </p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSave} className="space-y-6">
+          {/* Tax Categories */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Tax Categories</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 mb-4">
+              For example groceries, prepared food or pharmacy. Items without a tax category use the zone&apos;s
+              default rate.
+            </p>
+            <div className="space-y-2">
+              {draft.categories.map((category) => (
+                <div key={category.id} className="flex items-center gap-3">
+                  <input
+                    type="text"
+                    value={category.name}
+                    onChange={(e) =>
+                      setDraft((prev) => ({
+                        ...prev,
+                        categories: prev.categories.map((item) =>
+                          item.id === category.id ? { ...item, name: e.target.value } : item
+                        ),
+                      }))
+                    }
+                    className={inputClassName}
+                  />
+                  <code className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{category.id}</code>
+                  <button
+                    type="button"
+                    onClick={() => handleRemoveCategory(category.id)}
+                    className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-3 pt-2">
+                <input
+                  type="text"
+                  value={newCategoryName}
+                  onChange={(e) => setNewCategoryName(e.target.value)}
+                  placeholder="New tax category name"
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={handleAddCategory}
+                  disabled={!newCategoryName.trim()}
+                  className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-60 whitespace-nowrap"
+                >
+                  Add category
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Tax Zones */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Tax Zones</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                  Rates are percentages. Leave a category blank to use the zone&apos;s default rate.
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleAddZone}
+                className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 whitespace-nowrap"
+              >
+                Add zone
+              </button>
+            </div>
+
+            {draft.zones.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                No tax zones yet. Orders are taxed at the fallback rate from the Fees page.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {draft.zones.map((zone) => (
+                  <div key={zone.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+                    <div className="flex flex-wrap items-end gap-4">
+                      <div className="flex-1 min-w-[12rem]">
+                        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                        <input
+                          type="text"
+                          value={zone.name}
+                          onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div className="w-32">
+                        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Default rate (%)
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          value={zone.defaultRate}
+                          onChange={(e) => updateZone(zone.id, { defaultRate: parseFloat(e.target.value) || 0 })}
+                          className={inputClassName}
+                        />
+                      </div>
+                      <div className="w-32">
+                        <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          Delivery fee (%)
+                        </label>
+                        <input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          value={zone.deliveryFeeRate}
+                          onChange={(e) => updateZone(zone.id, { deliveryFeeRate: parseFloat(e.target.value) || 0 })}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+
+                    {draft.categories.length > 0 && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {draft.categories.map((category) => (
+                          <div key={category.id}>
+                            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                              {category.name || category.id} (%)
+                            </label>
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max="100"
+                              value={zone.rates[category.id] ?? ""}
+                              placeholder={String(zone.defaultRate)}
+                              onChange={(e) => setZoneCategoryRate(zone, category.id, e.target.value)}
+                              className={inputClassName}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="flex flex-wrap items-center justify-between gap-4">
+                      <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700 dark:text-gray-300">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={zone.pricesIncludeTax}
+                            onChange={(e) => updateZone(zone.id, { pricesIncludeTax: e.target.checked })}
+                          />
+                          Prices include tax
+                        </label>
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="radio"
+                            name="defaultZoneId"
+                            checked={draft.defaultZoneId === zone.id}
+                            onChange={() => setDraft((prev) => ({ ...prev, defaultZoneId: zone.id }))}
+                          />
+                          Default zone
+                        </label>
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveZone(zone.id)}
+                        className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                      >
+                        Remove zone
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {settings.updatedAt?.toDate?.()
+                ? `Last updated: ${new Date(settings.updatedAt.toDate()).toLocaleString()}`
+                : "Changes apply to orders priced after saving."}
+            </p>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-6 py-2 bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-50"
+            >
+              {saving ? "Saving..." : "Save Changes"}
+            </button>
+          </div>
+        </form>
+
+        {/* Tax Reports */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          <div className="p-6 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Tax Reports</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1 max-w-xl">
+                Taxable sales and tax on orders delivered in the period, by currency, zone, tax category and rate.
+              </p>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">From</label>
+                <input
+                  type="date"
+                  value={periodStart}
+                  onChange={(e) => setPeriodStart(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">To</label>
+                <input
+                  type="date"
+                  value={periodEnd}
+                  onChange={(e) => setPeriodEnd(e.target.value)}
+                  className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                />
+              </div>
+              <button
+                onClick={handleGenerate}
+                disabled={generating || !periodStart || !periodEnd}
+                className="px-4 py-2 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+              >
+                {generating ? "Generating..." : "Generate report"}
+              </button>
+            </div>
+          </div>
+
+          {reports.length === 0 ? (
+            <p className="px-6 pb-6 text-sm text-gray-500 dark:text-gray-400">No tax reports yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-6 py-3 text-left">Period</th>
+                    <th className="px-6 py-3 text-right">Orders</th>
+                    <th className="px-6 py-3 text-right">Taxable Sales</th>
+                    <th className="px-6 py-3 text-right">Tax</th>
+                    <th className="px-6 py-3 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {reports.map((report) => (
+                    <Fragment key={report.id}>
+                      <tr className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                        <td className="px-6 py-3 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {formatPeriod(report)}
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-700 dark:text-gray-300">
+                          {(report.totals || []).reduce((sum, total) => sum + total.orderCount, 0)}
+                        </td>
+                        <td className="px-6 py-3 text-right text-gray-700 dark:text-gray-300">
+                          {formatTotals(report, "taxableAmount")}
+                        </td>
+                        <td className="px-6 py-3 text-right font-semibold text-gray-900 dark:text-white">
+                          {formatTotals(report, "taxAmount")}
+                        </td>
+                        <td className="px-6 py-3 text-right whitespace-nowrap space-x-3">
+                          <button
+                            onClick={() => setExpandedReportId(expandedReportId === report.id ? null : report.id)}
+                            className="text-brand-primary-600 hover:text-brand-primary-700 font-medium"
+                          >
+                            {expandedReportId === report.id ? "Hide" : "Details"}
+                          </button>
+                          <button
+                            onClick={() => downloadTaxReportCsv(report)}
+                            className="text-brand-primary-600 hover:text-brand-primary-700 font-medium"
+                          >
+                            CSV
+                          </button>
+                        </td>
+                      </tr>
+                      {expandedReportId === report.id && (
+                        <tr>
+                          <td colSpan={5} className="px-6 py-4 bg-gray-50 dark:bg-gray-900/40">
+                            {(report.rows || []).length === 0 ? (
+                              <p className="text-sm text-gray-500 dark:text-gray-400">No taxed orders in this period.</p>
+                            ) : (
+                              <table className="w-full text-xs">
+                                <thead className="text-gray-500 dark:text-gray-400 uppercase">
+                                  <tr>
+                                    <th className="py-2 text-left">Zone</th>
+                                    <th className="py-2 text-left">Tax category</th>
+                                    <th className="py-2 text-right">Rate</th>
+                                    <th className="py-2 text-right">Orders</th>
+                                    <th className="py-2 text-right">Taxable</th>
+                                    <th className="py-2 text-right">Tax</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="text-gray-700 dark:text-gray-300">
+                                  {report.rows.map((row, index) => (
+                                    <tr key={index}>
+                                      <td className="py-1">
+                                        {row.zoneName}
+                                        {row.pricesIncludeTax ? " (tax-inclusive)" : ""}
+                                      </td>
+                                      <td className="py-1">{row.taxCategoryName}</td>
+                                      <td className="py-1 text-right">{row.rate}%</td>
+                                      <td className="py-1 text-right">{row.orderCount}</td>
+                                      <td className="py-1 text-right">{formatMoney(row.taxableAmount, row.currency)}</td>
+                                      <td className="py-1 text-right">{formatMoney(row.taxAmount, row.currency)}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
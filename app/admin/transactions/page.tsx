@@ -34,7 +34,12 @@ function formatCurrency(value: number | null | undefined): string {
 function getStatusVariant(status?: string | null): "success" | "warning" | "destructive" | "default" {
   if (!status) return "default";
   const statusLower = status.toLowerCase();
-  if (statusLower.includes("completed") || statusLower.includes("paid") || statusLower.includes("remitted")) {
+  if (
+    statusLower.includes("completed") ||
+    statusLower.includes("paid") ||
+    statusLower.includes("remitted") ||
+    statusLower.includes("captured")
+  ) {
     return "success";
   }
   if (statusLower.includes("pending") || statusLower.includes("awaiting")) {
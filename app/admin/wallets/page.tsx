@@ -5,7 +5,7 @@ import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
 import { AdminLayout } from "@/components/admin/AdminLayout";
 import { DataTable } from "@/components/admin/DataTable";
 import type { ColumnDef } from "@tanstack/react-table";
-import { useAdminWallets, AdminWallet } from "@/hooks/useAdminWallets";
+import { useAdminWallets, useWalletStatement, AdminWallet } from "@/hooks/useAdminWallets";
 import { Badge } from "@/components/ui/badge";
 import toast from "react-hot-toast";
 
@@ -21,8 +21,18 @@ function formatCurrency(value: number | null | undefined, currency = "USD") {
   }
 }
 
+function formatDateTime(value?: any) {
+  if (!value) return "—";
+  const date = value?.toDate?.() instanceof Date ? value.toDate() : new Date(value);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleString();
+}
+
+function formatLedgerReason(reason: string) {
+  return reason.replace(/-/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+}
+
 export default function AdminWalletsPage() {
-  const { userData, loading: authLoading, isFullyAuthorized } =
+  const { loading: authLoading, isFullyAuthorized } =
     useRequireRoleAndApproval(["admin"], false);
 
   const { wallets, loading: dataLoading, error, adjustBalance } = useAdminWallets();
@@ -30,6 +40,8 @@ export default function AdminWalletsPage() {
   const [adjustingId, setAdjustingId] = useState<string | null>(null);
   const [amount, setAmount] = useState<string>("");
   const [reason, setReason] = useState<string>("");
+  const [statementWallet, setStatementWallet] = useState<AdminWallet | null>(null);
+  const statement = useWalletStatement(statementWallet?.id ?? null);
 
   const columns = useMemo<ColumnDef<AdminWallet>[]>(
     () => [
@@ -53,9 +65,35 @@ export default function AdminWalletsPage() {
         cell: ({ row }) => (
           <div className="text-sm font-semibold text-green-600 dark:text-green-400">
             {formatCurrency(row.original.balance, row.original.currency || "USD")}
+            {row.original.heldBalance > 0 && (
+              <div className="text-xs font-normal text-amber-600 dark:text-amber-400">
+                {formatCurrency(row.original.heldBalance, row.original.currency || "USD")} on hold
+              </div>
+            )}
           </div>
         ),
       },
+      {
+        id: "ledger",
+        header: "Ledger",
+        cell: ({ row }) => {
+          const reconciliation = row.original.reconciliation;
+          if (!reconciliation) {
+            return <span className="text-xs text-gray-500 dark:text-gray-400">Not checked</span>;
+          }
+          return reconciliation.status === "balanced" ? (
+            <Badge variant="success">Balanced</Badge>
+          ) : (
+            <div className="flex flex-col gap-1">
+              <Badge variant="destructive">Mismatch</Badge>
+              <span className="text-xs text-red-600 dark:text-red-400">
+                Off by {formatCurrency(reconciliation.difference, row.original.currency || "USD")}
+              </span>
+            </div>
+          );
+        },
+        enableSorting: false,
+      },
       {
         accessorKey: "currency",
         header: "Currency",
@@ -87,16 +125,24 @@ export default function AdminWalletsPage() {
         id: "actions",
         header: "Actions",
         cell: ({ row }) => (
-          <button
-            onClick={() => {
-              setAdjustingId(row.original.id);
-              setAmount("");
-              setReason("");
-            }}
-            className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors"
-          >
-            Adjust
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setStatementWallet(row.original)}
+              className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              Statement
+            </button>
+            <button
+              onClick={() => {
+                setAdjustingId(row.original.id);
+                setAmount("");
+                setReason("");
+              }}
+              className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors"
+            >
+              Adjust
+            </button>
+          </div>
         ),
         enableSorting: false,
       },
@@ -118,7 +164,7 @@ export default function AdminWalletsPage() {
     try {
       toast.dismiss();
       toast.loading("Updating wallet...");
-      await adjustBalance(adjustingId, numericAmount, reason, userData?.uid || "admin");
+      await adjustBalance(adjustingId, numericAmount, reason);
       toast.dismiss();
       toast.success("Wallet updated");
       setAdjustingId(null);
@@ -164,7 +210,7 @@ export default function AdminWalletsPage() {
         <div className="flex items-center justify-between">
           <div>
             <p className="text-gray-600 dark:text-gray-400 mt-1">
-              Manage customer wallet balances
+              Manage customer wallet balances. Every change is posted to the ledger and reconciled daily.
             </p>
           </div>
         </div>
@@ -189,6 +235,87 @@ export default function AdminWalletsPage() {
         </div>
       </div>
 
+      {/* Statement Modal */}
+      {statementWallet && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full mx-4 p-6 max-h-[85vh] flex flex-col">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Wallet Statement</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {statementWallet.userEmail || statementWallet.userId} · balance{" "}
+                  {formatCurrency(statementWallet.balance, statementWallet.currency || "USD")}
+                </p>
+              </div>
+              <button
+                onClick={() => setStatementWallet(null)}
+                className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+              >
+                Close
+              </button>
+            </div>
+
+            {statementWallet.reconciliation?.status === "mismatch" && (
+              <div className="mb-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3 text-sm text-red-800 dark:text-red-200">
+                Last reconciliation ({formatDateTime(statementWallet.reconciliation.checkedAt)}): stored balance{" "}
+                {formatCurrency(statementWallet.reconciliation.storedBalance, statementWallet.currency || "USD")} vs ledger{" "}
+                {formatCurrency(statementWallet.reconciliation.ledgerBalance, statementWallet.currency || "USD")}.
+              </div>
+            )}
+
+            <div className="overflow-auto">
+              {statement.error ? (
+                <p className="text-sm text-red-600 dark:text-red-400">Error: {statement.error}</p>
+              ) : statement.loading ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading statement...</p>
+              ) : statement.entries.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No ledger entries for this wallet yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                    <tr>
+                      <th className="px-3 py-2 text-left">#</th>
+                      <th className="px-3 py-2 text-left">Date</th>
+                      <th className="px-3 py-2 text-left">Reason</th>
+                      <th className="px-3 py-2 text-left">Reference</th>
+                      <th className="px-3 py-2 text-right">Debit</th>
+                      <th className="px-3 py-2 text-right">Credit</th>
+                      <th className="px-3 py-2 text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {statement.entries.map((entry) => (
+                      <tr key={entry.id}>
+                        <td className="px-3 py-2 text-gray-500 dark:text-gray-400">{entry.sequence ?? "—"}</td>
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">
+                          {formatDateTime(entry.createdAt)}
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">{formatLedgerReason(entry.reason)}</td>
+                        <td className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                          {Object.entries(entry.reference || {})
+                            .filter(([, value]) => value !== null && value !== undefined && value !== "")
+                            .map(([key, value]) => `${key}: ${String(value)}`)
+                            .join(" · ") || entry.journalId}
+                        </td>
+                        <td className="px-3 py-2 text-right text-red-600 dark:text-red-400">
+                          {entry.direction === "debit" ? formatCurrency(entry.amount, entry.currency) : ""}
+                        </td>
+                        <td className="px-3 py-2 text-right text-green-600 dark:text-green-400">
+                          {entry.direction === "credit" ? formatCurrency(entry.amount, entry.currency) : ""}
+                        </td>
+                        <td className="px-3 py-2 text-right font-semibold text-gray-900 dark:text-white">
+                          {formatCurrency(entry.balanceAfter, entry.currency)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Adjust Modal */}
       {adjustingId && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
@@ -0,0 +1,423 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
+import { useDeliveryZones } from "@/hooks/useDeliveryZones";
+import { useAdminData } from "@/hooks/useAdminData";
+import { AdminLayout } from "@/components/admin/AdminLayout";
+import { Badge } from "@/components/ui/badge";
+import { collection, deleteDoc, doc, onSnapshot, serverTimestamp, setDoc } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import {
+  formatZonePolygon,
+  parseZonePolygon,
+  type DeliveryZone,
+  type ZoneVertex,
+} from "@/lib/deliveryZones";
+import toast from "react-hot-toast";
+
+const inputClassName =
+  "w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-brand-primary-500";
+
+const PREVIEW_SIZE = 240;
+
+interface ZoneForm {
+  name: string;
+  isActive: boolean;
+  deliveryFee: string;
+  minOrderValue: string;
+  vendorTypes: string[];
+  polygonText: string;
+}
+
+const EMPTY_FORM: ZoneForm = {
+  name: "",
+  isActive: true,
+  deliveryFee: "",
+  minOrderValue: "",
+  vendorTypes: [],
+  polygonText: "",
+};
+
+/** Fits the polygon into the preview box, north up */
+function previewPoints(polygon: ZoneVertex[]) {
+  const lats = polygon.map((vertex) => vertex.lat);
+  const lngs = polygon.map((vertex) => vertex.lng);
+  const minLat = Math.min(...lats);
+  const minLng = Math.min(...lngs);
+  const span = Math.max(Math.max(...lats) - minLat, Math.max(...lngs) - minLng) || 1;
+  const scale = (PREVIEW_SIZE - 20) / span;
+  return polygon
+    .map((vertex) => `${10 + (vertex.lng - minLng) * scale},${PREVIEW_SIZE - 10 - (vertex.lat - minLat) * scale}`)
+    .join(" ");
+}
+
+/**
+ * Admin Delivery Zones Page - Protected Route
+ * Polygon service areas with their own delivery fee, minimum order and
+ * vendor types. Vendors are assigned to zones from their details on the
+ * Vendors page; createOrder rejects drop-offs outside a vendor's zones.
+ */
+export default function DeliveryZonesPage() {
+  const { userData, loading: authLoading, isFullyAuthorized } = useRequireRoleAndApproval(["admin"], false);
+  const { zones, loading, error } = useDeliveryZones();
+  const { vendors } = useAdminData();
+
+  const [vendorTypeNames, setVendorTypeNames] = useState<string[]>([]);
+  const [editingZoneId, setEditingZoneId] = useState<string | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<ZoneForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isFullyAuthorized) return;
+    const unsubscribe = onSnapshot(
+      collection(firestore, "vendorTypes"),
+      (snapshot) => {
+        setVendorTypeNames(
+          snapshot.docs.map((typeDoc) => typeDoc.data().name || typeDoc.id).sort((a, b) => a.localeCompare(b))
+        );
+      },
+      (err) => {
+        console.error("Error fetching vendor types:", err);
+      }
+    );
+    return () => unsubscribe();
+  }, [isFullyAuthorized]);
+
+  const vendorCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    vendors.forEach((vendor) => {
+      (vendor.deliveryZoneIds || []).forEach((zoneId) => counts.set(zoneId, (counts.get(zoneId) ?? 0) + 1));
+    });
+    return counts;
+  }, [vendors]);
+
+  const parsed = useMemo(() => parseZonePolygon(form.polygonText), [form.polygonText]);
+
+  const handleCreate = () => {
+    setEditingZoneId(null);
+    setForm(EMPTY_FORM);
+    setIsFormOpen(true);
+  };
+
+  const handleEdit = (zone: DeliveryZone) => {
+    setEditingZoneId(zone.id);
+    setForm({
+      name: zone.name,
+      isActive: zone.isActive,
+      deliveryFee: String(zone.deliveryFee),
+      minOrderValue: String(zone.minOrderValue),
+      vendorTypes: zone.vendorTypes,
+      polygonText: formatZonePolygon(zone.polygon),
+    });
+    setIsFormOpen(true);
+  };
+
+  const toggleVendorType = (name: string) => {
+    setForm((prev) => ({
+      ...prev,
+      vendorTypes: prev.vendorTypes.includes(name)
+        ? prev.vendorTypes.filter((type) => type !== name)
+        : [...prev.vendorTypes, name],
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      if (!form.name.trim()) {
+        throw new Error("Zone name is required");
+      }
+      if (parsed.error) {
+        throw new Error(parsed.error);
+      }
+      const deliveryFee = form.deliveryFee === "" ? 0 : parseFloat(form.deliveryFee);
+      const minOrderValue = form.minOrderValue === "" ? 0 : parseFloat(form.minOrderValue);
+      if (!Number.isFinite(deliveryFee) || deliveryFee < 0 || !Number.isFinite(minOrderValue) || minOrderValue < 0) {
+        throw new Error("Delivery fee and minimum order must be non-negative numbers");
+      }
+
+      const zoneRef = editingZoneId
+        ? doc(firestore, "deliveryZones", editingZoneId)
+        : doc(collection(firestore, "deliveryZones"));
+      await setDoc(
+        zoneRef,
+        {
+          name: form.name.trim(),
+          isActive: form.isActive,
+          polygon: parsed.polygon,
+          deliveryFee,
+          minOrderValue,
+          vendorTypes: form.vendorTypes,
+          updatedAt: serverTimestamp(),
+          updatedBy: userData?.uid || "admin",
+          ...(editingZoneId ? {} : { createdAt: serverTimestamp() }),
+        },
+        { merge: true }
+      );
+
+      toast.success(editingZoneId ? "Delivery zone updated" : "Delivery zone created");
+      setIsFormOpen(false);
+      setEditingZoneId(null);
+    } catch (err: any) {
+      console.error("Error saving delivery zone:", err);
+      toast.error(err.message || "Failed to save the delivery zone");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (zone: DeliveryZone) => {
+    const vendorCount = vendorCounts.get(zone.id) ?? 0;
+    if (vendorCount > 0) {
+      toast.error(`Remove ${zone.name} from its ${vendorCount} vendor(s) first, or deactivate it`);
+      return;
+    }
+    if (!window.confirm(`Delete the delivery zone "${zone.name}"? This cannot be undone.`)) return;
+
+    try {
+      await deleteDoc(doc(firestore, "deliveryZones", zone.id));
+      toast.success("Delivery zone deleted");
+    } catch (err: any) {
+      console.error("Error deleting delivery zone:", err);
+      toast.error(err.message || "Failed to delete the delivery zone");
+    }
+  };
+
+  // Don't render anything if not authorized - wait for redirect
+  if (authLoading || !isFullyAuthorized) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+          <p className="text-gray-600 dark:text-gray-400">{authLoading ? "Loading..." : "Redirecting..."}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <AdminLayout pageTitle="Delivery Zones">
+        <div className="flex items-center justify-center h-96">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-400">Loading delivery zones...</p>
+          </div>
+        </div>
+      </AdminLayout>
+    );
+  }
+
+  return (
+    <AdminLayout pageTitle="Delivery Zones">
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Delivery Zones</h2>
+            <p className="text-gray-600 dark:text-gray-400 mt-1 max-w-2xl">
+              Vendors assigned to zones only deliver to drop-offs inside one of their active zones, at that
+              zone&apos;s delivery fee. Vendors without zones deliver anywhere at the fee on the Fees page. Amounts are
+              in each vendor&apos;s currency.
+            </p>
+          </div>
+          <button
+            onClick={handleCreate}
+            className="px-4 py-2 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors"
+          >
+            Add zone
+          </button>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <p className="text-red-800 dark:text-red-200">Error: {error}</p>
+          </div>
+        )}
+
+        {isFormOpen && (
+          <form onSubmit={handleSave} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingZoneId ? "Edit zone" : "New zone"}
+            </h3>
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Delivery fee</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.deliveryFee}
+                  onChange={(e) => setForm((prev) => ({ ...prev, deliveryFee: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Minimum order
+                </label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.minOrderValue}
+                  onChange={(e) => setForm((prev) => ({ ...prev, minOrderValue: e.target.value }))}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Vendor types (none selected serves every type)
+              </p>
+              <div className="flex flex-wrap gap-4 text-sm text-gray-700 dark:text-gray-300">
+                {vendorTypeNames.map((name) => (
+                  <label key={name} className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={form.vendorTypes.includes(name)}
+                      onChange={() => toggleVendorType(name)}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-[1fr_auto]">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Boundary: one &quot;latitude, longitude&quot; per line, or a GeoJSON Polygon
+                </label>
+                <textarea
+                  rows={10}
+                  value={form.polygonText}
+                  onChange={(e) => setForm((prev) => ({ ...prev, polygonText: e.target.value }))}
+                  placeholder={"6.4654, 3.4064\n6.4698, 3.6011\n6.6018, 3.5107"}
+                  className={`${inputClassName} font-mono`}
+                />
+                {form.polygonText.trim() && parsed.error && (
+                  <p className="text-xs text-red-600 dark:text-red-400 mt-1">{parsed.error}</p>
+                )}
+              </div>
+              <svg
+                width={PREVIEW_SIZE}
+                height={PREVIEW_SIZE}
+                className="rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/40"
+              >
+                {!parsed.error && (
+                  <polygon
+                    points={previewPoints(parsed.polygon)}
+                    className="fill-brand-primary-600/20 stroke-brand-primary-600"
+                    strokeWidth={2}
+                  />
+                )}
+              </svg>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm((prev) => ({ ...prev, isActive: e.target.checked }))}
+                />
+                Active
+              </label>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsFormOpen(false)}
+                  className="px-4 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-6 py-2 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-50"
+                >
+                  {saving ? "Saving..." : "Save zone"}
+                </button>
+              </div>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          {zones.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No delivery zones yet. Vendors deliver anywhere until they are assigned one.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+                  <tr>
+                    <th className="px-6 py-3 text-left">Zone</th>
+                    <th className="px-6 py-3 text-left">Status</th>
+                    <th className="px-6 py-3 text-right">Delivery Fee</th>
+                    <th className="px-6 py-3 text-right">Minimum Order</th>
+                    <th className="px-6 py-3 text-left">Vendor Types</th>
+                    <th className="px-6 py-3 text-right">Vendors</th>
+                    <th className="px-6 py-3 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {zones.map((zone) => (
+                    <tr key={zone.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                      <td className="px-6 py-3">
+                        <p className="font-medium text-gray-900 dark:text-white">{zone.name}</p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{zone.polygon.length} vertices</p>
+                      </td>
+                      <td className="px-6 py-3">
+                        <Badge variant={zone.isActive ? "success" : "secondary"}>
+                          {zone.isActive ? "Active" : "Inactive"}
+                        </Badge>
+                      </td>
+                      <td className="px-6 py-3 text-right text-gray-700 dark:text-gray-300">{zone.deliveryFee}</td>
+                      <td className="px-6 py-3 text-right text-gray-700 dark:text-gray-300">{zone.minOrderValue}</td>
+                      <td className="px-6 py-3 text-gray-700 dark:text-gray-300">
+                        {zone.vendorTypes.length > 0 ? zone.vendorTypes.join(", ") : "All"}
+                      </td>
+                      <td className="px-6 py-3 text-right text-gray-700 dark:text-gray-300">
+                        {vendorCounts.get(zone.id) ?? 0}
+                      </td>
+                      <td className="px-6 py-3 text-right whitespace-nowrap space-x-3">
+                        <button
+                          onClick={() => handleEdit(zone)}
+                          className="text-brand-primary-600 hover:text-brand-primary-700 font-medium"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(zone)}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 font-medium"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -8,6 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { ShoppingBagIcon, MapPinIcon } from "@/components/ui/icons";
 import type { ColumnDef } from "@tanstack/react-table";
 import { useAvailableOrders } from "@/hooks/useAvailableOrders";
+import { formatMoney } from "@/lib/money";
+import toast from "react-hot-toast";
 
 interface AvailableOrder {
   id: string;
@@ -15,6 +17,7 @@ interface AvailableOrder {
   customerEmail?: string;
   totalAmount?: number;
   deliveryFee?: number;
+  currency?: string;
   deliveryAddress?: any;
   pickupLocation?: any;
   pickupOrder?: boolean;
@@ -29,16 +32,9 @@ interface AvailableOrder {
   }>;
 }
 
-function formatCurrency(amount?: number) {
+function formatCurrency(amount?: number, currency?: string) {
   if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
-  try {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  } catch {
-    return amount.toFixed(2);
-  }
+  return formatMoney(amount, currency);
 }
 
 function formatDate(value?: any) {
@@ -119,11 +115,18 @@ export default function AvailableOrdersPage() {
 
     try {
       setAcceptingId(orderId);
-      await acceptOrder(orderId, userData.uid);
-      // Success - order will be removed from available orders list automatically
-    } catch (error) {
+      const claim = await acceptOrder(orderId, userData.uid);
+      // Either way the order leaves the available list automatically
+      if (claim.success) {
+        toast.success(claim.message || "Order accepted");
+        setViewingOrder(null);
+      } else {
+        toast.error(claim.message || "This order is no longer available.");
+        setViewingOrder((current) => (current?.id === orderId ? null : current));
+      }
+    } catch (error: any) {
       console.error("Failed to accept order:", error);
-      // Error handling is done in the hook
+      toast.error(error?.message || "Failed to accept order");
     } finally {
       setAcceptingId(null);
     }
@@ -199,11 +202,11 @@ export default function AvailableOrdersPage() {
         cell: ({ row }) => (
           <div className="flex flex-col">
             <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-              {formatCurrency(row.original.totalAmount)}
+              {formatCurrency(row.original.totalAmount, row.original.currency)}
             </span>
             {row.original.deliveryFee && row.original.deliveryFee > 0 && (
               <span className="text-xs text-gray-500 dark:text-gray-400">
-                +{formatCurrency(row.original.deliveryFee)} delivery
+                +{formatCurrency(row.original.deliveryFee, row.original.currency)} delivery
               </span>
             )}
           </div>
@@ -373,11 +376,11 @@ export default function AvailableOrdersPage() {
               <div className="grid gap-3 sm:grid-cols-2">
                 <div>
                   <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Total Amount</p>
-                  <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(viewingOrder.totalAmount)}</p>
+                  <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(viewingOrder.totalAmount, viewingOrder.currency)}</p>
                 </div>
                 <div>
                   <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Delivery Fee</p>
-                  <p className="text-sm text-gray-700 dark:text-gray-300">{formatCurrency(viewingOrder.deliveryFee)}</p>
+                  <p className="text-sm text-gray-700 dark:text-gray-300">{formatCurrency(viewingOrder.deliveryFee, viewingOrder.currency)}</p>
                 </div>
               </div>
 
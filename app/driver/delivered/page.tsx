@@ -5,6 +5,7 @@ import { useDriverData, type DriverOrder } from "@/hooks/useDriverData";
 import { DriverLayout } from "@/components/vendor/DriverLayout";
 import { Badge } from "@/components/ui/badge";
 import { CheckCircleIcon } from "@/components/ui/icons";
+import { formatMoney } from "@/lib/money";
 
 const statusVariantMap: Record<string, string> = {
   delivered: "bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300",
@@ -112,7 +113,7 @@ export default function DeliveredOrdersPage() {
                         {formatDate(order.updatedAt ?? order.createdAt)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-gray-100">
-                        {new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(order.totalAmount ?? 0)}
+                        {formatMoney(order.totalAmount, order.currency)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Badge className={getStatusVariant(order.driverStatus || order.orderStatus)}>
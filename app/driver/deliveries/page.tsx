@@ -1,8 +1,13 @@
 "use client";
 
+import { useState } from "react";
+import toast from "react-hot-toast";
 import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
 import { useDriverData, type DriverOrder } from "@/hooks/useDriverData";
+import type { BatchStop, DeliveryBatch } from "@/lib/deliveryBatches";
+import { formatMoney } from "@/lib/money";
 import { DriverLayout } from "@/components/vendor/DriverLayout";
+import { CompleteDeliveryModal } from "@/components/driver/CompleteDeliveryModal";
 import { Badge } from "@/components/ui/badge";
 import { MapPinIcon } from "@/components/ui/icons";
 
@@ -15,8 +20,12 @@ const statusVariantMap: Record<string, string> = {
   rejected: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
   failed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300",
   pending: "bg-gray-100 text-gray-800 dark:bg-gray-900/40 dark:text-gray-300",
+  enroute: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300",
+  skipped: "bg-gray-100 text-gray-500 dark:bg-gray-800/60 dark:text-gray-400",
 };
 
+const MAX_BATCH_ORDERS = 5;
+
 function getStatusVariant(status?: string) {
   if (!status) return "bg-gray-100 text-gray-800 dark:bg-gray-800/60 dark:text-gray-200";
   const key = status.toLowerCase();
@@ -86,9 +95,14 @@ function truncateId(id: string, maxLength: number = 12): string {
   return id.length > maxLength ? `${id.substring(0, maxLength)}...` : id;
 }
 
+
+function canBatch(delivery: DriverOrder): boolean {
+  return delivery.orderStatus === "assigned" && !delivery.batchId && !delivery.pickupOrder;
+}
+
 /**
  * Driver Active Deliveries Page
- * Displays all active deliveries (assigned or in-transit status)
+ * Displays batched routes stop by stop and all active deliveries (assigned or in-transit status)
  */
 export default function DriverDeliveriesPage() {
   // Protect route: requires driver role and approval
@@ -97,10 +111,57 @@ export default function DriverDeliveriesPage() {
   // Fetch driver-specific data
   const {
     activeDeliveries,
+    activeBatches,
+    currency,
     loading: dataLoading,
     error: dataError,
+    createBatch,
+    completeBatchStop,
   } = useDriverData(userData?.uid || null);
 
+  const [selectedOrderIds, setSelectedOrderIds] = useState<string[]>([]);
+  const [isCreatingBatch, setIsCreatingBatch] = useState(false);
+  const [pendingStopId, setPendingStopId] = useState<string | null>(null);
+  const [signingStop, setSigningStop] = useState<{ batch: DeliveryBatch; stop: BatchStop } | null>(null);
+
+  const toggleSelected = (orderId: string) => {
+    setSelectedOrderIds((prev) =>
+      prev.includes(orderId) ? prev.filter((id) => id !== orderId) : [...prev, orderId]
+    );
+  };
+
+  const handleCreateBatch = async () => {
+    setIsCreatingBatch(true);
+    try {
+      await createBatch(selectedOrderIds);
+      toast.success(`Batched ${selectedOrderIds.length} orders into one route`);
+      setSelectedOrderIds([]);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to create batch");
+    } finally {
+      setIsCreatingBatch(false);
+    }
+  };
+
+  const handlePickupStop = async (batch: DeliveryBatch, stop: BatchStop) => {
+    setPendingStopId(stop.id);
+    try {
+      await completeBatchStop(batch.id, stop);
+      toast.success(`Picked up ${stop.orderIds.length} ${stop.orderIds.length === 1 ? "order" : "orders"}`);
+    } catch (err: any) {
+      toast.error(err.message || "Failed to complete pickup");
+    } finally {
+      setPendingStopId(null);
+    }
+  };
+
+  const handleDropoffSigned = async (_order: DriverOrder, signature: Blob) => {
+    if (!signingStop) return;
+    await completeBatchStop(signingStop.batch.id, signingStop.stop, signature);
+  };
+
+  const findDelivery = (orderId: string) => activeDeliveries.find((delivery) => delivery.id === orderId) ?? null;
+
   // Show loading state while checking auth or loading data
   if (loading || dataLoading || !isFullyAuthorized) {
     return (
@@ -125,6 +186,94 @@ export default function DriverDeliveriesPage() {
           </div>
         )}
 
+        {/* Batched routes */}
+        {activeBatches.map((batch) => {
+          const plannedEarnings = batch.orders.reduce((sum, order) => sum + order.earnings, 0);
+          return (
+            <div key={batch.id} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold text-gray-900 dark:text-gray-100">
+                    Batched route · {batch.orders.length} orders
+                  </h2>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">Created {formatDate(batch.createdAt)}</p>
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300">
+                  Earned <span className="font-semibold">{formatMoney(batch.totalEarnings, currency)}</span> of{" "}
+                  {formatMoney(plannedEarnings, currency)}
+                </p>
+              </div>
+
+              <ol className="space-y-3">
+                {batch.stops.map((stop) => {
+                  const order = stop.type === "dropoff" ? batch.orders.find((o) => o.orderId === stop.orderIds[0]) : null;
+                  const dropoffReady = stop.type === "dropoff" && findDelivery(stop.orderIds[0])?.orderStatus === "enroute";
+                  return (
+                    <li
+                      key={stop.id}
+                      className="flex flex-col sm:flex-row sm:items-center gap-3 rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+                    >
+                      <span className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-brand-primary-600 text-sm font-semibold text-white">
+                        {stop.sequence}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                          {stop.type === "pickup" ? "Pick up" : "Drop off"} · {stop.label}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                          {formatAddressLines(stop.address).slice(0, 2).join(", ") || "No address"}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {stop.type === "pickup"
+                            ? `${stop.orderIds.length} ${stop.orderIds.length === 1 ? "order" : "orders"}`
+                            : order
+                              ? `Order ${order.orderCode} · earns ${formatMoney(order.earnings, currency)} (fee ${formatMoney(order.deliveryFee, currency)} + tip ${formatMoney(order.driverTip, currency)})`
+                              : null}
+                        </p>
+                      </div>
+                      <Badge className={getStatusVariant(stop.status)}>{stop.status}</Badge>
+                      {stop.status === "pending" && stop.type === "pickup" && (
+                        <button
+                          onClick={() => handlePickupStop(batch, stop)}
+                          disabled={pendingStopId === stop.id}
+                          className="px-3 py-1.5 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          {pendingStopId === stop.id ? "Saving..." : "Mark picked up"}
+                        </button>
+                      )}
+                      {stop.status === "pending" && stop.type === "dropoff" && (
+                        <button
+                          onClick={() => setSigningStop({ batch, stop })}
+                          disabled={!dropoffReady}
+                          title={dropoffReady ? undefined : "Pick up this order first"}
+                          className="px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                        >
+                          Collect signature & deliver
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          );
+        })}
+
+        {selectedOrderIds.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {selectedOrderIds.length} selected · batch 2–{MAX_BATCH_ORDERS} assigned orders into one route
+            </p>
+            <button
+              onClick={handleCreateBatch}
+              disabled={isCreatingBatch || selectedOrderIds.length < 2 || selectedOrderIds.length > MAX_BATCH_ORDERS}
+              className="px-4 py-2 text-sm font-semibold text-white bg-brand-primary-600 rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-50"
+            >
+              {isCreatingBatch ? "Creating..." : "Create batch"}
+            </button>
+          </div>
+        )}
+
         {/* Active Deliveries Table */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
           {activeDeliveries.length === 0 ? (
@@ -140,6 +289,7 @@ export default function DriverDeliveriesPage() {
               <table className="w-full">
                 <thead className="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
                   <tr>
+                    <th className="px-4 py-3" aria-label="Select for batch" />
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
                       Order ID
                     </th>
@@ -163,10 +313,26 @@ export default function DriverDeliveriesPage() {
                       key={delivery.id}
                       className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
                     >
+                      <td className="px-4 py-4">
+                        {canBatch(delivery) && (
+                          <input
+                            type="checkbox"
+                            checked={selectedOrderIds.includes(delivery.id)}
+                            onChange={() => toggleSelected(delivery.id)}
+                            aria-label={`Select order ${delivery.id} for batching`}
+                            className="h-4 w-4 rounded border-gray-300 text-brand-primary-600"
+                          />
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="text-sm font-medium text-gray-900 dark:text-gray-100 cursor-help" title={delivery.id}>
                           {truncateId(delivery.id)}
                         </span>
+                        {delivery.batchId && (
+                          <Badge className="ml-2 bg-indigo-100 text-indigo-800 dark:bg-indigo-900/40 dark:text-indigo-300">
+                            Batched
+                          </Badge>
+                        )}
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-700 dark:text-gray-300">
@@ -218,6 +384,12 @@ export default function DriverDeliveriesPage() {
           </p>
         </div>
       </div>
+
+      <CompleteDeliveryModal
+        order={signingStop ? findDelivery(signingStop.stop.orderIds[0]) : null}
+        onClose={() => setSigningStop(null)}
+        onComplete={handleDropoffSigned}
+      />
     </DriverLayout>
   );
 }
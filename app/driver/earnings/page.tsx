@@ -1,21 +1,15 @@
 "use client";
 
 import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
-import { useDriverData, type DriverOrder } from "@/hooks/useDriverData";
+import { useDriverData, type DriverEarning } from "@/hooks/useDriverData";
 import { DriverLayout } from "@/components/vendor/DriverLayout";
 import { Badge } from "@/components/ui/badge";
 import { TrendingUpIcon } from "@/components/ui/icons";
+import { formatMoney } from "@/lib/money";
 
-function formatCurrency(amount?: number) {
+function formatCurrency(amount?: number, currency?: string) {
   if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
-  try {
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: "USD",
-    }).format(amount);
-  } catch {
-    return amount.toFixed(2);
-  }
+  return formatMoney(amount, currency);
 }
 
 function formatDate(value?: any) {
@@ -31,50 +25,11 @@ function formatDate(value?: any) {
   }
 }
 
-function formatAddressLines(address: any): string[] {
-  if (address === null || address === undefined) return [];
-
-  if (typeof address === "string" || typeof address === "number") {
-    return String(address)
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter(Boolean);
-  }
-
-  if (Array.isArray(address)) {
-    return address
-      .flatMap((item) => formatAddressLines(item))
-      .map((line) => line.trim())
-      .filter(Boolean);
-  }
-
-  if (typeof address === "object") {
-    const preferredKeys = [
-      "label",
-      "line1",
-      "line2",
-      "street",
-      "streetAddress",
-      "city",
-      "state",
-      "province",
-      "postalCode",
-      "zip",
-      "country",
-    ];
-    const lines: string[] = [];
-
-    for (const key of preferredKeys) {
-      const value = address[key];
-      if (value && typeof value === "string") {
-        lines.push(value);
-      }
-    }
-
-    return lines.length > 0 ? lines : [JSON.stringify(address)];
-  }
-
-  return [];
+function formatDistanceTime(earning: DriverEarning) {
+  const parts: string[] = [];
+  if (earning.distanceEarning) parts.push(`${formatCurrency(earning.distanceEarning, earning.currency)} (${earning.distanceKm ?? 0} km)`);
+  if (earning.timeEarning) parts.push(`${formatCurrency(earning.timeEarning, earning.currency)} (${earning.durationMinutes ?? 0} min)`);
+  return parts.length > 0 ? parts.join(" + ") : "—";
 }
 
 function truncateId(id: string, maxLength: number = 12): string {
@@ -83,7 +38,7 @@ function truncateId(id: string, maxLength: number = 12): string {
 
 /**
  * Driver Delivery History Page
- * Displays all completed deliveries with earnings information
+ * Displays the earnings entry recorded for each completed delivery
  */
 export default function DriverEarningsPage() {
   // Protect route: requires driver role and approval
@@ -91,8 +46,9 @@ export default function DriverEarningsPage() {
 
   // Fetch driver-specific data
   const {
-    deliveryHistory,
+    earnings,
     totalEarnings,
+    currency,
     loading: dataLoading,
     error: dataError,
   } = useDriverData(userData?.uid || null);
@@ -127,10 +83,10 @@ export default function DriverEarningsPage() {
             <div>
               <p className="text-green-700 dark:text-green-300 text-sm font-medium">Total Earnings</p>
               <p className="text-3xl font-bold text-green-900 dark:text-green-100 mt-2">
-                {formatCurrency(totalEarnings)}
+                {formatCurrency(totalEarnings, currency)}
               </p>
               <p className="text-green-600 dark:text-green-400 text-sm mt-2">
-                From {deliveryHistory.length} completed {deliveryHistory.length === 1 ? "delivery" : "deliveries"}
+                From {earnings.length} completed {earnings.length === 1 ? "delivery" : "deliveries"}
               </p>
             </div>
             <TrendingUpIcon className="w-12 h-12 text-green-300 dark:text-green-700" />
@@ -139,7 +95,7 @@ export default function DriverEarningsPage() {
 
         {/* Delivery History Table */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
-          {deliveryHistory.length === 0 ? (
+          {earnings.length === 0 ? (
             <div className="p-8 text-center">
               <TrendingUpIcon className="w-12 h-12 text-gray-400 dark:text-gray-600 mx-auto mb-4" />
               <p className="text-gray-600 dark:text-gray-400 text-lg">No delivery history</p>
@@ -156,64 +112,64 @@ export default function DriverEarningsPage() {
                       Order ID
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
-                      Pickup Location
+                      Delivered
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
+                      Delivery Fee Share
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
-                      Dropoff Location
+                      Tip
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
-                      Completion Date
+                      Distance / Time
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
-                      Earnings
+                      Total
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
+                      Payout
                     </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
-                  {deliveryHistory.map((delivery: DriverOrder) => (
+                  {earnings.map((earning: DriverEarning) => (
                     <tr
-                      key={delivery.id}
+                      key={earning.id}
                       className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors"
                     >
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span className="text-sm font-medium text-gray-900 dark:text-gray-100 cursor-help" title={delivery.id}>
-                          {truncateId(delivery.id)}
+                        <span className="text-sm font-medium text-gray-900 dark:text-gray-100 cursor-help" title={earning.orderId}>
+                          {earning.orderCode || truncateId(earning.orderId)}
                         </span>
+                        {earning.vendorName && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400">{earning.vendorName}</div>
+                        )}
                       </td>
-                      <td className="px-6 py-4">
-                        <div className="text-sm text-gray-700 dark:text-gray-300">
-                          {formatAddressLines(delivery.pickupLocation).length > 0 ? (
-                            <div className="space-y-1">
-                              {formatAddressLines(delivery.pickupLocation).slice(0, 2).map((line, idx) => (
-                                <div key={idx}>{line}</div>
-                              ))}
-                            </div>
-                          ) : (
-                            <span className="text-gray-500 dark:text-gray-400">N/A</span>
-                          )}
-                        </div>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                        {formatDate(earning.deliveredAt ?? earning.createdAt)}
                       </td>
-                      <td className="px-6 py-4">
-                        <div className="text-sm text-gray-700 dark:text-gray-300">
-                          {formatAddressLines(delivery.dropoffLocation).length > 0 ? (
-                            <div className="space-y-1">
-                              {formatAddressLines(delivery.dropoffLocation).slice(0, 2).map((line, idx) => (
-                                <div key={idx}>{line}</div>
-                              ))}
-                            </div>
-                          ) : (
-                            <span className="text-gray-500 dark:text-gray-400">N/A</span>
-                          )}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                        {formatCurrency(earning.deliveryFeeEarning, earning.currency)}
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {earning.deliveryFeeSharePercent}% of {formatCurrency(earning.deliveryFee, earning.currency)}
                         </div>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
-                        {formatDate(delivery.createdAt)}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                        {earning.tipEarning ? formatCurrency(earning.tipEarning, earning.currency) : "—"}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 dark:text-gray-300">
+                        {formatDistanceTime(earning)}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span className="text-sm font-semibold text-green-600 dark:text-green-400">
-                          {formatCurrency(delivery.deliveryFee ?? undefined)}
+                          {formatCurrency(earning.totalAmount, earning.currency)}
                         </span>
                       </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <Badge variant={earning.payoutId ? "success" : "warning"}>
+                          {earning.payoutId ? "In payout" : "Unpaid"}
+                        </Badge>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -225,8 +181,8 @@ export default function DriverEarningsPage() {
         {/* Summary */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
           <p className="text-blue-800 dark:text-blue-200 text-sm">
-            You have completed <span className="font-semibold">{deliveryHistory.length}</span> {deliveryHistory.length === 1 ? "delivery" : "deliveries"} and earned{" "}
-            <span className="font-semibold">{formatCurrency(totalEarnings)}</span>.
+            You have completed <span className="font-semibold">{earnings.length}</span> {earnings.length === 1 ? "delivery" : "deliveries"} and earned{" "}
+            <span className="font-semibold">{formatCurrency(totalEarnings, currency)}</span>.
           </p>
         </div>
       </div>
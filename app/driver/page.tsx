@@ -16,6 +16,8 @@ import {
 } from "@/components/ui/icons";
 import { Badge } from "@/components/ui/badge";
 import { CompleteDeliveryModal } from "@/components/driver/CompleteDeliveryModal";
+import { CashLimitBanner } from "@/components/driver/CashLimitBanner";
+import { formatMoney } from "@/lib/money";
 const DriverCharts = dynamic(() => import("@/components/driver/DriverCharts").then(m => m.DriverCharts), {
   ssr: false,
 });
@@ -105,6 +107,9 @@ export default function DriverDashboardPage() {
     totalEarnings,
     totalDeliveryHistory,
     cashOnHand,
+    cashLimit,
+    cashLimitStatus,
+    currency,
     loading: dataLoading,
     error: dataError,
     driverStatus,
@@ -112,7 +117,7 @@ export default function DriverDashboardPage() {
     updatingStatus,
     markDeliveryPickedUp,
     completeDelivery,
-    transactions,
+    earnings,
   } = useDriverData(userData?.uid || null);
 
   const ongoingOrder = useMemo<DriverOrder | null>(() => {
@@ -163,14 +168,8 @@ export default function DriverDashboardPage() {
   }
 
   // Format earnings for display
-  const formattedEarnings = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(totalEarnings);
-  const formattedCashOnHand = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(cashOnHand);
+  const formattedEarnings = formatMoney(totalEarnings, currency);
+  const formattedCashOnHand = formatMoney(cashOnHand, currency);
 
   return (
     <DriverLayout pageTitle="Dashboard">
@@ -207,6 +206,8 @@ export default function DriverDashboardPage() {
           </div>
         )}
 
+        <CashLimitBanner cashOnHand={cashOnHand} cashLimit={cashLimit} status={cashLimitStatus} currency={currency} />
+
         {/* Ongoing Delivery */}
         {ongoingOrder ? (
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-4">
@@ -333,7 +334,7 @@ export default function DriverDashboardPage() {
         </div>
 
         {/* Charts */}
-        <DriverCharts activeDeliveries={activeDeliveries} transactions={transactions || []} />
+        <DriverCharts earnings={earnings} />
 
       </div>
       <CompleteDeliveryModal
@@ -4,6 +4,8 @@ import { useState, useEffect, Suspense } from "react";
 import { useRequireRoleAndApproval } from "@/hooks/useAuthGuard";
 import { DriverLayout } from "@/components/vendor/DriverLayout";
 import { useDriverStripeConnect, DriverStripeAccountStatusResponse } from "@/hooks/useDriverStripeConnect";
+import { useDriverData } from "@/hooks/useDriverData";
+import { PayoutHistory } from "@/components/vendor/PayoutHistory";
 import { Badge } from "@/components/ui/badge";
 import toast from "react-hot-toast";
 import { useSearchParams } from "next/navigation";
@@ -29,6 +31,7 @@ function DriverPaymentsContent() {
   );
   const searchParams = useSearchParams();
   const { setupStripeConnect, getAccountStatus, loading, error } = useDriverStripeConnect();
+  const { payouts } = useDriverData(userData?.uid || null);
   
   const [accountStatus, setAccountStatus] = useState<DriverStripeAccountStatusResponse | null>(null);
   const [loadingStatus, setLoadingStatus] = useState(false);
@@ -303,6 +306,8 @@ function DriverPaymentsContent() {
           )}
         </div>
 
+        <PayoutHistory payouts={payouts} />
+
         {/* Info Card */}
         <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
           <div className="flex items-start">
@@ -8,15 +8,14 @@ import { StatCard } from "@/components/admin/StatCard";
 import { Badge } from "@/components/ui/badge";
 import { DollarSignIcon, ShoppingBagIcon, TrendingUpIcon } from "@/components/ui/icons";
 import { RemitCashModal } from "@/components/driver/RemitCashModal";
+import { CashLimitBanner } from "@/components/driver/CashLimitBanner";
+import { formatMoney, recordCurrency } from "@/lib/money";
+import { newRemittanceId } from "@/lib/remittance";
 import { toast } from "react-hot-toast";
 
-function formatCurrency(amount?: number | null) {
+function formatCurrency(amount?: number | null, currency?: string) {
   if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
-  try {
-    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
-  } catch {
-    return amount.toFixed(2);
-  }
+  return formatMoney(amount, currency);
 }
 
 function formatDate(value?: any) {
@@ -44,6 +43,10 @@ function getStatusVariant(status?: string | null) {
   return statusVariantMap[key] ?? "bg-gray-100 text-gray-800 dark:bg-gray-800/60 dark:text-gray-200";
 }
 
+function isRemittable(transaction: DriverTransaction) {
+  return transaction.type === "cash-on-delivery" && transaction.status === "pending-remittance";
+}
+
 export default function DriverTransactionsPage() {
   const { userData, loading, isFullyAuthorized } = useRequireRoleAndApproval(["driver"], true);
 
@@ -51,48 +54,85 @@ export default function DriverTransactionsPage() {
     transactions,
     totalCodCollected,
     pendingCodRemittance,
+    currency,
+    cashOnHand,
+    cashLimit,
+    cashLimitStatus,
     loading: dataLoading,
     error: dataError,
     remitCash,
   } = useDriverData(userData?.uid || null);
 
-  const [selectedTransaction, setSelectedTransaction] = useState<DriverTransaction | null>(null);
-  const [remittingId, setRemittingId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [remitTransactions, setRemitTransactions] = useState<DriverTransaction[]>([]);
+  // One ID per opened remittance, reused if the submission is retried
+  const [remittanceId, setRemittanceId] = useState<string | null>(null);
+  const [remitting, setRemitting] = useState(false);
+
+  // A batch is remitted to one vendor, so only their transactions can join the selection
+  const selectedTransactions = useMemo(
+    () => transactions.filter((transaction) => selectedIds.includes(transaction.id) && isRemittable(transaction)),
+    [transactions, selectedIds]
+  );
+  const selectedVendorId = selectedTransactions[0]?.vendorId ?? null;
+  const selectedTotal = selectedTransactions.reduce(
+    (sum, transaction) => sum + Number(transaction.netAmount ?? 0) - Number(transaction.remittedAmount ?? 0),
+    0
+  );
+
+  const toggleSelected = useCallback((transactionId: string) => {
+    setSelectedIds((current) =>
+      current.includes(transactionId) ? current.filter((id) => id !== transactionId) : [...current, transactionId]
+    );
+  }, []);
 
-  const handleOpenRemit = useCallback((transaction: DriverTransaction) => {
-    setSelectedTransaction(transaction);
+  const handleOpenRemit = useCallback((batch: DriverTransaction[]) => {
+    setRemitTransactions(batch);
+    setRemittanceId(newRemittanceId());
   }, []);
 
   const handleCloseRemit = useCallback(() => {
-    setSelectedTransaction(null);
+    setRemitTransactions([]);
+    setRemittanceId(null);
   }, []);
 
   const handleRemitCash = useCallback(
-    async (transaction: DriverTransaction, signature: Blob) => {
+    async (batch: DriverTransaction[], signature: Blob, amountReceived: number, note: string) => {
       try {
-        setRemittingId(transaction.id);
-        await remitCash(transaction, signature);
-        toast.success("Cash remitted successfully");
+        setRemitting(true);
+        const result = await remitCash(remittanceId ?? newRemittanceId(), batch, signature, amountReceived, note);
+        if (result.discrepancy === 0) {
+          toast.success("Cash remitted successfully");
+        } else {
+          toast.success(
+            `Cash remitted with a ${formatCurrency(Math.abs(result.discrepancy), batch[0]?.currency)} ${
+              result.discrepancy < 0 ? "shortfall" : "overpayment"
+            } recorded`
+          );
+        }
+        setSelectedIds([]);
       } catch (err: any) {
         toast.error(err?.message ?? "Failed to remit cash");
         throw err;
       } finally {
-        setRemittingId(null);
+        setRemitting(false);
       }
     },
-    [remitCash]
+    [remitCash, remittanceId]
   );
 
   const totalCommission = useMemo(
     () =>
       transactions.reduce(
         (sum, transaction) =>
-          transaction.type === "cash-on-delivery" && transaction.commissionAmount
+          transaction.type === "cash-on-delivery" &&
+          transaction.commissionAmount &&
+          recordCurrency(transaction) === currency
             ? sum + Number(transaction.commissionAmount)
             : sum,
         0
       ),
-    [transactions]
+    [transactions, currency]
   );
 
   if (loading || dataLoading || !isFullyAuthorized) {
@@ -117,27 +157,60 @@ export default function DriverTransactionsPage() {
           </div>
         )}
 
+        <CashLimitBanner
+          cashOnHand={cashOnHand}
+          cashLimit={cashLimit}
+          status={cashLimitStatus}
+          currency={currency}
+          showRemitLink={false}
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
           <StatCard
             title="Total COD Collected"
-            value={formatCurrency(totalCodCollected)}
+            value={formatCurrency(totalCodCollected, currency)}
             icon={<DollarSignIcon className="w-6 h-6" />}
             iconBgColor="bg-green-100 dark:bg-green-900/30"
           />
           <StatCard
             title="Commission Owed"
-            value={formatCurrency(totalCommission)}
+            value={formatCurrency(totalCommission, currency)}
             icon={<TrendingUpIcon className="w-6 h-6" />}
             iconBgColor="bg-purple-100 dark:bg-purple-900/30"
           />
           <StatCard
             title="Pending Remittance"
-            value={formatCurrency(pendingCodRemittance)}
+            value={formatCurrency(pendingCodRemittance, currency)}
             icon={<ShoppingBagIcon className="w-6 h-6" />}
             iconBgColor="bg-amber-100 dark:bg-amber-900/30"
           />
         </div>
 
+        {selectedTransactions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-brand-primary-200 dark:border-brand-primary-800 bg-brand-primary-50 dark:bg-brand-primary-900/20 px-4 py-3">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              {selectedTransactions.length} selected for{" "}
+              {selectedTransactions[0].vendorName || selectedTransactions[0].vendorId || "vendor"} ·{" "}
+              <span className="font-semibold">{formatCurrency(selectedTotal, selectedTransactions[0].currency)}</span>
+            </p>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setSelectedIds([])}
+                className="px-3 py-1.5 text-sm font-medium text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                Clear
+              </button>
+              <button
+                onClick={() => handleOpenRemit(selectedTransactions)}
+                disabled={remitting}
+                className="inline-flex items-center rounded-lg bg-brand-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-brand-primary-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                Remit selected ({selectedTransactions.length})
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
           {transactions.length === 0 ? (
             <div className="p-8 text-center">
@@ -152,6 +225,9 @@ export default function DriverTransactionsPage() {
               <table className="w-full">
                 <thead className="bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
                   <tr>
+                    <th className="w-10 px-4 py-3">
+                      <span className="sr-only">Select</span>
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-700 dark:text-gray-300 uppercase tracking-wider">
                       Date
                     </th>
@@ -178,6 +254,23 @@ export default function DriverTransactionsPage() {
                 <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
                   {transactions.map((transaction: DriverTransaction) => (
                     <tr key={transaction.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors">
+                      <td className="w-10 px-4 py-4">
+                        {isRemittable(transaction) && (
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(transaction.id)}
+                            onChange={() => toggleSelected(transaction.id)}
+                            disabled={
+                              remitting ||
+                              (selectedVendorId !== null &&
+                                transaction.vendorId !== selectedVendorId &&
+                                !selectedIds.includes(transaction.id))
+                            }
+                            aria-label={`Select ${transaction.orderCode || transaction.orderId}`}
+                            className="h-4 w-4 rounded border-gray-300 text-brand-primary-600 disabled:opacity-40"
+                          />
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
                         {formatDate(transaction.createdAt)}
                       </td>
@@ -195,10 +288,15 @@ export default function DriverTransactionsPage() {
                         {transaction.vendorName || transaction.vendorId || "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-gray-100">
-                        {formatCurrency(transaction.netAmount)}
+                        {formatCurrency(transaction.netAmount, transaction.currency)}
+                        {transaction.remittedAmount && isRemittable(transaction) ? (
+                          <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                            {formatCurrency(transaction.remittedAmount, transaction.currency)} remitted
+                          </span>
+                        ) : null}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
-                        {transaction.commissionAmount ? formatCurrency(transaction.commissionAmount) : "—"}
+                        {transaction.commissionAmount ? formatCurrency(transaction.commissionAmount, transaction.currency) : "—"}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <Badge className={getStatusVariant(transaction.status)}>
@@ -206,13 +304,13 @@ export default function DriverTransactionsPage() {
                         </Badge>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right">
-                        {transaction.type === "cash-on-delivery" && transaction.status === "pending-remittance" ? (
+                        {isRemittable(transaction) ? (
                           <button
-                            onClick={() => handleOpenRemit(transaction)}
-                            disabled={remittingId === transaction.id}
+                            onClick={() => handleOpenRemit([transaction])}
+                            disabled={remitting}
                             className="inline-flex items-center rounded-lg bg-brand-primary-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-brand-primary-700 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
                           >
-                            {remittingId === transaction.id ? "Processing..." : "Remit cash"}
+                            {remitting ? "Processing..." : "Remit cash"}
                           </button>
                         ) : (
                           <span className="text-xs text-gray-400 dark:text-gray-500">—</span>
@@ -227,7 +325,7 @@ export default function DriverTransactionsPage() {
         </div>
       </div>
       <RemitCashModal
-        transaction={selectedTransaction}
+        transactions={remitTransactions}
         onClose={handleCloseRemit}
         onRemit={handleRemitCash}
       />
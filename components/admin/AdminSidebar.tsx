@@ -61,6 +61,7 @@ export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
         { label: "Types", href: "/admin/vendor-types", icon: <></> },
         { label: "Zones", href: "/admin/zones", icon: <></> },
         { label: "Fees", href: "/admin/fees", icon: <></> },
+        { label: "Tax", href: "/admin/tax", icon: <></> },
       ],
     },
     {
@@ -119,6 +120,7 @@ export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
       children: [
         { label: "All Orders", href: "/admin/orders", icon: <></> },
         { label: "Refunds", href: "/admin/refunds", icon: <></> },
+        { label: "Coupons", href: "/admin/coupons", icon: <></> },
       ],
     },
     {
@@ -139,6 +141,8 @@ export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
       ),
       children: [
         { label: "Wallets", href: "/admin/wallets", icon: <></> },
+        { label: "Payouts", href: "/admin/payouts", icon: <></> },
+        { label: "Driver Cash", href: "/admin/driver-cash", icon: <></> },
         { label: "Transactions", href: "/admin/transactions", icon: <></> },
       ],
     },
@@ -162,6 +166,7 @@ export function AdminSidebar({ isOpen = true, onClose }: AdminSidebarProps) {
       ),
       children: [
         { label: "Payment method", href: "/admin/payment-method", icon: <></> },
+        { label: "Config History", href: "/admin/config-history", icon: <></> },
       ],
     },
 
@@ -0,0 +1,140 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  CANCELLATION_REASONS,
+  cancelOrder,
+  type CancelOrderResponse,
+  type CancellationReasonCode,
+} from "@/lib/orderTransitions";
+import { formatMoney } from "@/lib/money";
+import { formatOrderId } from "@/lib/utils";
+
+interface CancelOrderModalProps {
+  order: {
+    id: string;
+    code?: string | null;
+    orderCode?: string | null;
+    customerName?: string | null;
+    totalAmount?: number | null;
+    currency?: string | null;
+  } | null;
+  onClose: () => void;
+  onCancelled?: (response: CancelOrderResponse) => void;
+}
+
+function formatCurrency(amount?: number | null, currency?: string | null) {
+  if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
+  return formatMoney(amount, currency);
+}
+
+export function CancelOrderModal({ order, onClose, onCancelled }: CancelOrderModalProps) {
+  const [reasonCode, setReasonCode] = useState<CancellationReasonCode>("customer-request");
+  const [note, setNote] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!order) return;
+    setReasonCode("customer-request");
+    setNote("");
+    setError(null);
+  }, [order]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!order) return;
+
+    if (reasonCode === "other" && !note.trim()) {
+      setError("Add a note explaining why the order is cancelled.");
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      const response = await cancelOrder({
+        orderId: order.id,
+        reasonCode,
+        note: note.trim() || undefined,
+      });
+      onCancelled?.(response);
+      onClose();
+    } catch (err) {
+      console.error(err);
+      setError((err as Error)?.message ?? "Failed to cancel order. Please try again.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [order, reasonCode, note, onCancelled, onClose]);
+
+  if (!order) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative z-10 w-full max-w-lg rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-2xl">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">Cancel Order</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Order {formatOrderId(order.code || order.orderCode || order.id)}
+            {order.customerName ? ` · ${order.customerName}` : ""} · {formatCurrency(order.totalAmount, order.currency)}
+          </p>
+        </div>
+
+        <div className="mt-6 space-y-4">
+          <div>
+            <label className="block text-xs uppercase text-gray-500 dark:text-gray-400 mb-1">Reason</label>
+            <select
+              value={reasonCode}
+              onChange={(event) => setReasonCode(event.target.value as CancellationReasonCode)}
+              className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+            >
+              {CANCELLATION_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>
+                  {reason.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs uppercase text-gray-500 dark:text-gray-400 mb-1">Note</label>
+            <textarea
+              value={note}
+              onChange={(event) => setNote(event.target.value)}
+              rows={3}
+              placeholder={reasonCode === "other" ? "Required" : "Optional"}
+              className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+            />
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Paid orders are refunded automatically: wallet payments immediately, card payments through Stripe.
+          </p>
+
+          {error && (
+            <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Keep order
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSubmitting ? "Cancelling..." : "Cancel order"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, deleteDoc, doc, getDocs, serverTimestamp, setDoc, Timestamp, updateDoc } from "firebase/firestore";
+import { auth, firestore } from "@/firebase/init";
+import { useCommissionContracts } from "@/hooks/useCommissionContracts";
+import { Badge, type BadgeVariant } from "@/components/ui/badge";
+import { formatMoney } from "@/lib/money";
+import type { CommissionContract, CommissionTier } from "@/lib/commissionContracts";
+import toast from "react-hot-toast";
+
+interface CommissionContractsProps {
+  vendorId: string;
+  currency?: string | null;
+}
+
+interface ContractForm {
+  name: string;
+  effectiveFrom: string;
+  effectiveTo: string;
+  baseRate: string;
+  tiers: Array<{ minMonthlySales: string; rate: string }>;
+  categoryRates: Array<{ categoryId: string; rate: string }>;
+  notes: string;
+}
+
+const inputClassName =
+  "w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+function emptyForm(): ContractForm {
+  return {
+    name: "",
+    effectiveFrom: new Date().toISOString().slice(0, 10),
+    effectiveTo: "",
+    baseRate: "",
+    tiers: [],
+    categoryRates: [],
+    notes: "",
+  };
+}
+
+function toRate(value: string, label: string): number {
+  const rate = parseFloat(value);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new Error(`${label} must be between 0 and 100`);
+  }
+  return rate;
+}
+
+/** Contract dates are whole UTC days; the stored end is exclusive */
+function formatDate(value: any, exclusive = false) {
+  const millis = value?.toMillis?.();
+  if (!millis) return "—";
+  return new Date(exclusive ? millis - 1 : millis).toISOString().slice(0, 10);
+}
+
+function contractStatus(contract: CommissionContract, activeId: string | null): { label: string; variant: BadgeVariant } {
+  const now = Date.now();
+  if (contract.id === activeId) return { label: "Active", variant: "success" };
+  if ((contract.effectiveFrom?.toMillis?.() ?? 0) > now) return { label: "Scheduled", variant: "warning" };
+  const end = contract.effectiveTo?.toMillis?.();
+  if (end && end <= now) return { label: "Ended", variant: "secondary" };
+  return { label: "Superseded", variant: "outline" };
+}
+
+/**
+ * A vendor's commission contracts for the admin vendor details: the contract
+ * order pricing applies now, the history, and a form for a new one.
+ * Contracts are not edited once they apply; end one and add its successor.
+ */
+export function CommissionContracts({ vendorId, currency }: CommissionContractsProps) {
+  const { contracts, activeContract, loading, error } = useCommissionContracts(vendorId);
+  const [categories, setCategories] = useState<Array<{ id: string; name: string }>>([]);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<ContractForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  // Names for category rates, and the choices when adding one
+  useEffect(() => {
+    getDocs(collection(firestore, "categories"))
+      .then((snapshot) =>
+        setCategories(
+          snapshot.docs
+            .map((categoryDoc) => ({ id: categoryDoc.id, name: categoryDoc.data().name || categoryDoc.id }))
+            .sort((a, b) => a.name.localeCompare(b.name))
+        )
+      )
+      .catch((err) => console.error("Error fetching categories:", err));
+  }, []);
+
+  const categoryName = (categoryId: string) =>
+    categories.find((category) => category.id === categoryId)?.name ?? categoryId;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (!form.name.trim()) {
+        throw new Error("Contract name is required");
+      }
+      const effectiveFrom = new Date(`${form.effectiveFrom}T00:00:00Z`);
+      if (Number.isNaN(effectiveFrom.getTime())) {
+        throw new Error("Pick the date the contract starts");
+      }
+      // The end date is inclusive, so the contract runs to the following midnight (UTC)
+      const effectiveTo = form.effectiveTo
+        ? new Date(new Date(`${form.effectiveTo}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000)
+        : null;
+      if (effectiveTo && effectiveTo <= effectiveFrom) {
+        throw new Error("The contract must end after it starts");
+      }
+
+      const tiers: CommissionTier[] = form.tiers
+        .map((tier) => ({
+          minMonthlySales: parseFloat(tier.minMonthlySales),
+          rate: toRate(tier.rate, "Tier rates"),
+        }))
+        .sort((a, b) => a.minMonthlySales - b.minMonthlySales);
+      if (tiers.some((tier) => !Number.isFinite(tier.minMonthlySales) || tier.minMonthlySales < 0)) {
+        throw new Error("Tier thresholds must be non-negative amounts");
+      }
+      const categoryRates: Record<string, number> = {};
+      form.categoryRates.forEach(({ categoryId, rate }) => {
+        if (!categoryId) throw new Error("Pick a category for each category rate");
+        categoryRates[categoryId] = toRate(rate, "Category rates");
+      });
+
+      await setDoc(doc(collection(firestore, "commissionContracts")), {
+        vendorId,
+        name: form.name.trim(),
+        effectiveFrom: Timestamp.fromDate(effectiveFrom),
+        effectiveTo: effectiveTo ? Timestamp.fromDate(effectiveTo) : null,
+        baseRate: toRate(form.baseRate, "Base rate"),
+        tiers,
+        categoryRates,
+        notes: form.notes.trim() || null,
+        createdAt: serverTimestamp(),
+        createdBy: auth.currentUser?.uid || "admin",
+      });
+
+      toast.success("Commission contract added");
+      setIsFormOpen(false);
+      setForm(emptyForm());
+    } catch (err: any) {
+      console.error("Error saving commission contract:", err);
+      toast.error(err.message || "Failed to save the commission contract");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnd = async (contract: CommissionContract) => {
+    if (!window.confirm(`End "${contract.name}" now? New orders will use the next contract in effect.`)) return;
+    try {
+      await updateDoc(doc(firestore, "commissionContracts", contract.id), { effectiveTo: Timestamp.now() });
+      toast.success("Commission contract ended");
+    } catch (err: any) {
+      console.error("Error ending commission contract:", err);
+      toast.error(err.message || "Failed to end the commission contract");
+    }
+  };
+
+  // Scheduled contracts have not priced any order yet, so they can be removed outright
+  const handleDelete = async (contract: CommissionContract) => {
+    if (!window.confirm(`Delete the scheduled contract "${contract.name}"?`)) return;
+    try {
+      await deleteDoc(doc(firestore, "commissionContracts", contract.id));
+      toast.success("Commission contract deleted");
+    } catch (err: any) {
+      console.error("Error deleting commission contract:", err);
+      toast.error(err.message || "Failed to delete the commission contract");
+    }
+  };
+
+  const describeRates = (contract: CommissionContract) => (
+    <div className="space-y-1 text-sm text-gray-700 dark:text-gray-300">
+      <p>Base rate: {contract.baseRate}%</p>
+      {(contract.tiers || []).map((tier) => (
+        <p key={tier.minMonthlySales}>
+          From {formatMoney(tier.minMonthlySales, currency)} delivered this month: {tier.rate}%
+        </p>
+      ))}
+      {Object.entries(contract.categoryRates || {}).map(([categoryId, rate]) => (
+        <p key={categoryId}>
+          {categoryName(categoryId)}: {rate}%
+        </p>
+      ))}
+    </div>
+  );
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading commission contracts...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && <p className="text-sm text-red-600 dark:text-red-400">Error: {error}</p>}
+
+      <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-4">
+        <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+          Active Contract
+        </label>
+        {activeContract ? (
+          <div className="space-y-2">
+            <p className="text-base font-medium text-gray-900 dark:text-white">
+              {activeContract.name}
+              <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                {formatDate(activeContract.effectiveFrom)} – {formatDate(activeContract.effectiveTo, true)}
+              </span>
+            </p>
+            {describeRates(activeContract)}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No contract in effect. Orders use the commission rate on the Fees page.
+          </p>
+        )}
+      </div>
+
+      {contracts.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50 text-xs uppercase text-gray-600 dark:text-gray-300">
+              <tr>
+                <th className="px-4 py-2 text-left">Contract</th>
+                <th className="px-4 py-2 text-left">From</th>
+                <th className="px-4 py-2 text-left">To</th>
+                <th className="px-4 py-2 text-left">Status</th>
+                <th className="px-4 py-2 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {contracts.map((contract) => {
+                const status = contractStatus(contract, activeContract?.id ?? null);
+                return (
+                  <tr key={contract.id}>
+                    <td className="px-4 py-2 text-gray-900 dark:text-white" title={contract.notes || undefined}>
+                      {contract.name}
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{contract.baseRate}%</span>
+                    </td>
+                    <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{formatDate(contract.effectiveFrom)}</td>
+                    <td className="px-4 py-2 text-gray-700 dark:text-gray-300">
+                      {formatDate(contract.effectiveTo, true)}
+                    </td>
+                    <td className="px-4 py-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap">
+                      {status.label === "Active" && (
+                        <button
+                          onClick={() => handleEnd(contract)}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 font-medium"
+                        >
+                          End now
+                        </button>
+                      )}
+                      {status.label === "Scheduled" && (
+                        <button
+                          onClick={() => handleDelete(contract)}
+                          className="text-red-600 hover:text-red-700 dark:text-red-400 font-medium"
+                        >
+                          Delete
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {isFormOpen ? (
+        <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-4">
+          <div className="grid gap-3 md:grid-cols-4">
+            <div className="md:col-span-2">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. 2026 negotiated rate"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">From (UTC)</label>
+              <input
+                type="date"
+                value={form.effectiveFrom}
+                onChange={(e) => setForm((prev) => ({ ...prev, effectiveFrom: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">To (optional)</label>
+              <input
+                type="date"
+                value={form.effectiveTo}
+                onChange={(e) => setForm((prev) => ({ ...prev, effectiveTo: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Base rate (%)</label>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                max="100"
+                value={form.baseRate}
+                onChange={(e) => setForm((prev) => ({ ...prev, baseRate: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Notes</label>
+              <input
+                type="text"
+                value={form.notes}
+                onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+              Volume tiers: the rate once delivered sales this month reach the threshold
+            </p>
+            {form.tiers.map((tier, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={tier.minMonthlySales}
+                  placeholder={`Monthly sales (${currency || "default currency"})`}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      tiers: prev.tiers.map((item, i) => (i === index ? { ...item, minMonthlySales: e.target.value } : item)),
+                    }))
+                  }
+                  className={inputClassName}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={tier.rate}
+                  placeholder="Rate (%)"
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      tiers: prev.tiers.map((item, i) => (i === index ? { ...item, rate: e.target.value } : item)),
+                    }))
+                  }
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() => setForm((prev) => ({ ...prev, tiers: prev.tiers.filter((_, i) => i !== index) }))}
+                  className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm((prev) => ({ ...prev, tiers: [...prev.tiers, { minMonthlySales: "", rate: "" }] }))}
+              className="text-sm text-brand-primary-600 hover:text-brand-primary-700 font-medium"
+            >
+              + Add tier
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-700 dark:text-gray-300">
+              Category rates: replace the base and tier rates for products in a category
+            </p>
+            {form.categoryRates.map((categoryRate, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <select
+                  value={categoryRate.categoryId}
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      categoryRates: prev.categoryRates.map((item, i) =>
+                        i === index ? { ...item, categoryId: e.target.value } : item
+                      ),
+                    }))
+                  }
+                  className={inputClassName}
+                >
+                  <option value="">Select category</option>
+                  {categories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.1"
+                  value={categoryRate.rate}
+                  placeholder="Rate (%)"
+                  onChange={(e) =>
+                    setForm((prev) => ({
+                      ...prev,
+                      categoryRates: prev.categoryRates.map((item, i) =>
+                        i === index ? { ...item, rate: e.target.value } : item
+                      ),
+                    }))
+                  }
+                  className={inputClassName}
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setForm((prev) => ({ ...prev, categoryRates: prev.categoryRates.filter((_, i) => i !== index) }))
+                  }
+                  className="text-sm text-red-600 hover:text-red-700 dark:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                setForm((prev) => ({ ...prev, categoryRates: [...prev.categoryRates, { categoryId: "", rate: "" }] }))
+              }
+              className="text-sm text-brand-primary-600 hover:text-brand-primary-700 font-medium"
+            >
+              + Add category rate
+            </button>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setIsFormOpen(false)}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+            >
+              {saving ? "Saving..." : "Add contract"}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setIsFormOpen(true)}
+          className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          New contract
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { useOrderEvents, type OrderEvent } from "@/hooks/useOrderEvents";
+import { Badge } from "@/components/ui/badge";
+
+interface OrderTimelineProps {
+  orderId: string | null;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  created: "Created",
+  "status-changed": "Status changed",
+  "driver-assigned": "Driver assigned",
+  "payment-changed": "Payment changed",
+  dispatch: "Dispatch",
+  batched: "Batched",
+  edited: "Edited",
+};
+
+const EVENT_DOT_CLASSES: Record<string, string> = {
+  created: "bg-gray-400",
+  "status-changed": "bg-brand-primary-600",
+  "driver-assigned": "bg-cyan-500",
+  "payment-changed": "bg-green-500",
+  dispatch: "bg-purple-500",
+  batched: "bg-indigo-500",
+  edited: "bg-yellow-500",
+};
+
+function formatEventTime(value?: any) {
+  if (!value) return "Pending…";
+  try {
+    const date = typeof value?.toDate === "function" ? value.toDate() : new Date(value);
+    return new Intl.DateTimeFormat("en-US", { dateStyle: "medium", timeStyle: "medium" }).format(date);
+  } catch {
+    return "—";
+  }
+}
+
+function formatEventValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object" && typeof (value as any).toDate === "function") {
+    return formatEventTime(value);
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function EventChanges({ event }: { event: OrderEvent }) {
+  const fields = Array.from(new Set([...Object.keys(event.before), ...Object.keys(event.after)]));
+  if (fields.length === 0) return null;
+
+  return (
+    <dl className="mt-2 grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+      {fields.map((field) => (
+        <div key={field} className="contents">
+          <dt className="text-gray-500 dark:text-gray-400">{field}</dt>
+          <dd className="text-gray-800 dark:text-gray-200 break-all">
+            {field in event.before && (
+              <span className="text-gray-500 line-through mr-1">{formatEventValue(event.before[field])}</span>
+            )}
+            {formatEventValue(event.after[field])}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+export function OrderTimeline({ orderId }: OrderTimelineProps) {
+  const { events, loading, error } = useOrderEvents(orderId);
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>;
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-lg border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{error}</div>
+    );
+  }
+
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">No history recorded for this order.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-gray-200 dark:border-gray-700 ml-2 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span
+            className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-white dark:border-gray-800 ${
+              EVENT_DOT_CLASSES[event.type] ?? "bg-gray-400"
+            }`}
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+              {EVENT_LABELS[event.type] ?? event.type}
+            </span>
+            {event.message && <span className="text-sm text-gray-600 dark:text-gray-300">{event.message}</span>}
+            <Badge variant="outline" className="capitalize">
+              {event.actorRole}
+            </Badge>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatEventTime(event.createdAt)}
+            {event.actorId ? ` · ${event.actorId}` : ""}
+          </p>
+          <EventChanges event={event} />
+        </li>
+      ))}
+    </ol>
+  );
+}
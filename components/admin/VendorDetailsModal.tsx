@@ -7,6 +7,12 @@ import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { useStripeConnect, StripeAccountStatusResponse } from "@/hooks/useStripeConnect";
 import toast from "react-hot-toast";
+import { doc, updateDoc } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import { SUPPORTED_CURRENCIES } from "@/lib/money";
+import { useTaxSettings } from "@/hooks/useTaxSettings";
+import { useDeliveryZones } from "@/hooks/useDeliveryZones";
+import { CommissionContracts } from "@/components/admin/CommissionContracts";
 
 interface VendorDetailsModalProps {
   vendor: VendorData | null;
@@ -25,6 +31,19 @@ export function VendorDetailsModal({
   const [stripeStatus, setStripeStatus] = useState<StripeAccountStatusResponse | null>(null);
   const [loadingStatus, setLoadingStatus] = useState(false);
   const [generatingLink, setGeneratingLink] = useState(false);
+  const { settings: taxSettings } = useTaxSettings();
+  const [currency, setCurrency] = useState("");
+  const [taxZoneId, setTaxZoneId] = useState("");
+  const [savingPricing, setSavingPricing] = useState(false);
+  const { zones: deliveryZones } = useDeliveryZones();
+  const [deliveryZoneIds, setDeliveryZoneIds] = useState<string[]>([]);
+  const [savingZones, setSavingZones] = useState(false);
+
+  useEffect(() => {
+    setCurrency(vendor?.currency || "");
+    setTaxZoneId(vendor?.taxZoneId || "");
+    setDeliveryZoneIds(vendor?.deliveryZoneIds || []);
+  }, [vendor]);
 
   // Load Stripe status when modal opens
   useEffect(() => {
@@ -47,6 +66,44 @@ export function VendorDetailsModal({
     }
   };
 
+  // Existing orders keep the currency and tax they were priced with
+  const handleSavePricing = async () => {
+    if (!vendor) return;
+    setSavingPricing(true);
+    try {
+      await updateDoc(doc(firestore, "vendors", vendor.id), {
+        currency: currency || null,
+        taxZoneId: taxZoneId || null,
+      });
+      toast.success("Vendor pricing updated");
+    } catch (error: any) {
+      console.error("Error updating vendor pricing:", error);
+      toast.error(error.message || "Failed to update vendor pricing");
+    } finally {
+      setSavingPricing(false);
+    }
+  };
+
+  const handleSaveDeliveryZones = async () => {
+    if (!vendor) return;
+    setSavingZones(true);
+    try {
+      await updateDoc(doc(firestore, "vendors", vendor.id), { deliveryZoneIds });
+      toast.success("Vendor delivery zones updated");
+    } catch (error: any) {
+      console.error("Error updating vendor delivery zones:", error);
+      toast.error(error.message || "Failed to update vendor delivery zones");
+    } finally {
+      setSavingZones(false);
+    }
+  };
+
+  const toggleDeliveryZone = (zoneId: string) => {
+    setDeliveryZoneIds((prev) =>
+      prev.includes(zoneId) ? prev.filter((id) => id !== zoneId) : [...prev, zoneId]
+    );
+  };
+
   const handleRegenerateOnboardingLink = async () => {
     if (!vendor) return;
     setGeneratingLink(true);
@@ -199,6 +256,85 @@ export function VendorDetailsModal({
                       </a>
                     </div>
                   )}
+                  <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-4 md:col-span-2">
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+                      Currency &amp; Tax Zone
+                    </label>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={currency}
+                        onChange={(e) => setCurrency(e.target.value)}
+                        className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">Market default currency</option>
+                        {SUPPORTED_CURRENCIES.map(({ code, name }) => (
+                          <option key={code} value={code}>
+                            {code} - {name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        value={taxZoneId}
+                        onChange={(e) => setTaxZoneId(e.target.value)}
+                        className="flex-1 px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      >
+                        <option value="">Default tax zone</option>
+                        {taxSettings.zones.map((zone) => (
+                          <option key={zone.id} value={zone.id}>
+                            {zone.name}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={handleSavePricing}
+                        disabled={
+                          savingPricing ||
+                          (currency === (vendor.currency || "") && taxZoneId === (vendor.taxZoneId || ""))
+                        }
+                        className="px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+                      >
+                        {savingPricing ? "Saving..." : "Save"}
+                      </button>
+                    </div>
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Applies to new orders. Past orders keep their currency and tax.
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-800/50 rounded-lg p-4 md:col-span-2">
+                    <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-2">
+                      Delivery Zones
+                    </label>
+                    {deliveryZones.length === 0 ? (
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No delivery zones have been drawn yet.</p>
+                    ) : (
+                      <div className="flex flex-wrap items-center gap-4">
+                        {deliveryZones.map((zone) => (
+                          <label key={zone.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={deliveryZoneIds.includes(zone.id)}
+                              onChange={() => toggleDeliveryZone(zone.id)}
+                            />
+                            {zone.name}
+                            {!zone.isActive && <span className="text-xs text-gray-400">(inactive)</span>}
+                          </label>
+                        ))}
+                        <button
+                          onClick={handleSaveDeliveryZones}
+                          disabled={
+                            savingZones ||
+                            [...deliveryZoneIds].sort().join() === [...(vendor.deliveryZoneIds || [])].sort().join()
+                          }
+                          className="ml-auto px-3 py-1.5 text-sm bg-brand-primary-600 text-white rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-60"
+                        >
+                          {savingZones ? "Saving..." : "Save"}
+                        </button>
+                      </div>
+                    )}
+                    <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                      With no zones the vendor delivers anywhere at the standard fee.
+                    </p>
+                  </div>
                 </div>
               </div>
 
@@ -337,6 +473,17 @@ export function VendorDetailsModal({
                 </div>
               )}
 
+              {/* Commission Contracts */}
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
+                  <svg className="w-5 h-5 mr-2 text-brand-primary-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                  </svg>
+                  Commission Contracts
+                </h3>
+                <CommissionContracts vendorId={vendor.id} currency={vendor.currency} />
+              </div>
+
               {/* Stripe Payments Section */}
               <div>
                 <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center">
@@ -0,0 +1,55 @@
+"use client";
+
+import Link from "next/link";
+import type { CashLimitStatus } from "@/hooks/useDriverData";
+import { formatMoney } from "@/lib/money";
+
+interface CashLimitBannerProps {
+  cashOnHand: number;
+  cashLimit: number;
+  status: CashLimitStatus;
+  /** Currency the limit is set in */
+  currency?: string;
+  /** Hide the link when already on the transactions page */
+  showRemitLink?: boolean;
+}
+
+/**
+ * Warns a driver nearing their cash limit, and explains the block once they reach it
+ */
+export function CashLimitBanner({
+  cashOnHand,
+  cashLimit,
+  status,
+  currency,
+  showRemitLink = true,
+}: CashLimitBannerProps) {
+  if (status === "ok" || !(cashLimit > 0)) return null;
+
+  const overLimit = status === "over-limit";
+  return (
+    <div
+      className={`rounded-lg border p-4 ${
+        overLimit
+          ? "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200"
+          : "bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-200"
+      }`}
+    >
+      <p className="font-semibold">{overLimit ? "Cash limit reached" : "Nearing your cash limit"}</p>
+      <p className="text-sm mt-1">
+        You hold {formatMoney(cashOnHand, currency)} of your {formatMoney(cashLimit, currency)} limit.{" "}
+        {overLimit
+          ? "You can't take cash-on-delivery orders until your remittance is confirmed."
+          : "Remit collected cash soon to keep taking cash-on-delivery orders."}
+        {showRemitLink && (
+          <>
+            {" "}
+            <Link href="/driver/transactions" className="font-medium underline">
+              Remit cash
+            </Link>
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
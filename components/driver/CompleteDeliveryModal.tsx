@@ -3,6 +3,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { PointerEvent as ReactPointerEvent } from "react";
 import type { DriverOrder } from "@/hooks/useDriverData";
+import { formatMoney } from "@/lib/money";
 import { Badge } from "@/components/ui/badge";
 
 interface CompleteDeliveryModalProps {
@@ -11,13 +12,9 @@ interface CompleteDeliveryModalProps {
   onComplete: (order: DriverOrder, signature: Blob) => Promise<void>;
 }
 
-function formatCurrency(amount?: number | null) {
+function formatCurrency(amount?: number | null, currency?: string) {
   if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
-  try {
-    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
-  } catch {
-    return amount.toFixed(2);
-  }
+  return formatMoney(amount, currency);
 }
 
 function formatAddress(value: any): string {
@@ -239,7 +236,7 @@ export function CompleteDeliveryModal({ order, onClose, onComplete }: CompleteDe
             </div>
             <div>
               <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Total</p>
-              <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(order.totalAmount)}</p>
+              <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(order.totalAmount, order.currency)}</p>
             </div>
             <div>
               <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Pickup</p>
@@ -0,0 +1,128 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "react-hot-toast";
+import { useDispatchOffers } from "@/hooks/useDispatchOffers";
+import { respondToDispatchOffer } from "@/lib/dispatch";
+import { formatMoney } from "@/lib/money";
+import { formatOrderId } from "@/lib/utils";
+
+interface DispatchOfferPromptProps {
+  driverId: string | null;
+}
+
+function formatCurrency(amount?: number | null, currency?: string) {
+  if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
+  return formatMoney(amount, currency);
+}
+
+function formatLocation(location: any): string {
+  if (!location) return "—";
+  if (typeof location === "string") return location;
+  return location.address || location.label || location.line1 || location.street || "—";
+}
+
+/**
+ * Accept/decline prompt for the oldest pending dispatch offer of a driver
+ */
+export function DispatchOfferPrompt({ driverId }: DispatchOfferPromptProps) {
+  const { offers } = useDispatchOffers(driverId);
+  const offer = offers[0] ?? null;
+  const [now, setNow] = useState(() => Date.now());
+  const [responding, setResponding] = useState<"accept" | "decline" | null>(null);
+
+  useEffect(() => {
+    if (!offer) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [offer]);
+
+  const handleRespond = useCallback(
+    async (accept: boolean) => {
+      if (!offer) return;
+      try {
+        setResponding(accept ? "accept" : "decline");
+        const response = await respondToDispatchOffer(offer.id, accept);
+        if (response.result === "accepted") {
+          toast.success("Delivery accepted");
+        } else if (response.result === "declined") {
+          toast("Offer declined");
+        } else if (response.result === "cash-limit") {
+          toast.error(response.message ?? "Remit your collected cash before taking more cash orders");
+        } else {
+          toast.error(response.result === "expired" ? "This offer has expired" : "This order is no longer available");
+        }
+      } catch (error: any) {
+        toast.error(error?.message ?? "Failed to respond to the offer");
+      } finally {
+        setResponding(null);
+      }
+    },
+    [offer]
+  );
+
+  if (!offer) return null;
+
+  const expiresAtMs = offer.expiresAt?.toMillis?.() ?? 0;
+  const secondsLeft = Math.max(Math.ceil((expiresAtMs - now) / 1000), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" />
+      <div className="relative z-10 w-full max-w-md rounded-xl border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 p-6 shadow-2xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">New Delivery Offer</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Order {formatOrderId(offer.orderCode || offer.orderId)}
+              {offer.vendorName ? ` · ${offer.vendorName}` : ""}
+            </p>
+          </div>
+          <span
+            className={`text-sm font-semibold ${secondsLeft <= 10 ? "text-red-600" : "text-gray-700 dark:text-gray-300"}`}
+          >
+            {secondsLeft}s
+          </span>
+        </div>
+
+        <div className="mt-6 grid gap-4 sm:grid-cols-2">
+          <div>
+            <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Pickup</p>
+            <p className="text-sm text-gray-900 dark:text-gray-100">{formatLocation(offer.pickupLocation)}</p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Dropoff</p>
+            <p className="text-sm text-gray-900 dark:text-gray-100">{formatLocation(offer.dropoffLocation)}</p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Distance to pickup</p>
+            <p className="text-sm text-gray-900 dark:text-gray-100">
+              {offer.distanceKm !== null && offer.distanceKm !== undefined ? `${offer.distanceKm.toFixed(1)} km` : "—"}
+            </p>
+          </div>
+          <div>
+            <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Delivery Fee</p>
+            <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">{formatCurrency(offer.deliveryFee, offer.currency)}</p>
+          </div>
+        </div>
+
+        <div className="mt-6 flex items-center justify-end gap-3">
+          <button
+            onClick={() => handleRespond(false)}
+            disabled={Boolean(responding)}
+            className="px-4 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {responding === "decline" ? "Declining..." : "Decline"}
+          </button>
+          <button
+            onClick={() => handleRespond(true)}
+            disabled={Boolean(responding) || secondsLeft === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-brand-primary-600 rounded-lg hover:bg-brand-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {responding === "accept" ? "Accepting..." : "Accept"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -13,49 +13,50 @@ import {
   Bar,
 } from "recharts";
 import { ChartCard } from "@/components/admin/ChartCard";
-import { DriverOrder } from "@/hooks/useDriverData";
-import { DriverTransaction } from "@/hooks/useDriverData";
+import { DriverEarning } from "@/hooks/useDriverData";
 
 interface DriverChartsProps {
-  activeDeliveries: DriverOrder[];
-  transactions: DriverTransaction[];
+  earnings: DriverEarning[];
 }
 
 function getMonthKey(date: Date) {
   return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
 }
 
-export function DriverCharts({ activeDeliveries, transactions }: DriverChartsProps) {
+function getEarningMonthKey(earning: DriverEarning) {
+  const value = earning.deliveredAt ?? earning.createdAt;
+  if (!value) return null;
+  return getMonthKey(value.toDate ? value.toDate() : new Date(value));
+}
+
+export function DriverCharts({ earnings }: DriverChartsProps) {
   const deliveriesByMonth = useMemo(() => {
     const map = new Map<string, number>();
-    activeDeliveries.forEach((o) => {
-      if (!o.createdAt) return;
-      const d = o.createdAt.toDate ? o.createdAt.toDate() : new Date(o.createdAt);
-      const key = getMonthKey(d);
+    earnings.forEach((e) => {
+      const key = getEarningMonthKey(e);
+      if (!key) return;
       map.set(key, (map.get(key) || 0) + 1);
     });
     return Array.from(map.entries())
       .sort()
       .map(([month, count]) => ({ month, count }));
-  }, [activeDeliveries]);
+  }, [earnings]);
 
   const earningsByMonth = useMemo(() => {
     const map = new Map<string, number>();
-    transactions.forEach((t) => {
-      if (!t.createdAt) return;
-      const d = t.createdAt.toDate ? t.createdAt.toDate() : new Date(t.createdAt);
-      const key = getMonthKey(d);
-      const net = Number(t.netAmount || 0);
-      map.set(key, (map.get(key) || 0) + net);
+    earnings.forEach((e) => {
+      const key = getEarningMonthKey(e);
+      if (!key) return;
+      map.set(key, (map.get(key) || 0) + Number(e.totalAmount || 0));
     });
     return Array.from(map.entries())
       .sort()
       .map(([month, value]) => ({ month, value }));
-  }, [transactions]);
+  }, [earnings]);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-      <ChartCard title="Deliveries by Month" description="Deliveries per month">
+      <ChartCard title="Deliveries by Month" description="Completed deliveries per month">
         <div className="h-[260px]">
           <ResponsiveContainer width="100%" height="100%">
             <BarChart data={deliveriesByMonth}>
@@ -69,7 +70,7 @@ export function DriverCharts({ activeDeliveries, transactions }: DriverChartsPro
         </div>
       </ChartCard>
 
-      <ChartCard title="Earnings by Month" description="Net earnings per month">
+      <ChartCard title="Earnings by Month" description="Delivery earnings per month">
         <div className="h-[260px]">
           <ResponsiveContainer width="100%" height="100%">
             <LineChart data={earningsByMonth}>
@@ -85,4 +86,3 @@ export function DriverCharts({ activeDeliveries, transactions }: DriverChartsPro
     </div>
   );
 }
-
@@ -1,31 +1,49 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { PointerEvent as ReactPointerEvent } from "react";
 import type { DriverTransaction } from "@/hooks/useDriverData";
-import { Badge } from "@/components/ui/badge";
+import { currencyDigits, formatMoney, fromMinorUnits, recordCurrency, toMinorUnits } from "@/lib/money";
 
 interface RemitCashModalProps {
-  transaction: DriverTransaction | null;
+  /** Transactions settled together; the modal is closed when empty */
+  transactions: DriverTransaction[];
   onClose: () => void;
-  onRemit: (transaction: DriverTransaction, signature: Blob) => Promise<void>;
+  onRemit: (transactions: DriverTransaction[], signature: Blob, amountReceived: number, note: string) => Promise<void>;
 }
 
-function formatCurrency(amount?: number | null) {
+function formatCurrency(amount?: number | null, currency?: string) {
   if (amount === undefined || amount === null || Number.isNaN(amount)) return "N/A";
-  try {
-    return new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" }).format(amount);
-  } catch {
-    return amount.toFixed(2);
-  }
+  return formatMoney(amount, currency);
 }
 
-export function RemitCashModal({ transaction, onClose, onRemit }: RemitCashModalProps) {
+function getOutstandingAmount(transaction: { netAmount?: number | null; remittedAmount?: number | null }) {
+  return Math.max(Number(transaction.netAmount ?? 0) - Number(transaction.remittedAmount ?? 0), 0);
+}
+
+export function RemitCashModal({ transactions, onClose, onRemit }: RemitCashModalProps) {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
   const [hasSignature, setHasSignature] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [amountReceived, setAmountReceived] = useState("");
+  const [note, setNote] = useState("");
+
+  // A batch is between one driver and vendor, so it is in a single currency
+  const currency = recordCurrency(transactions[0]);
+  const totalOutstanding = useMemo(
+    () =>
+      fromMinorUnits(
+        transactions.reduce((sum, transaction) => sum + toMinorUnits(getOutstandingAmount(transaction), currency), 0),
+        currency
+      ),
+    [transactions, currency]
+  );
+  const receivedValue = Number(amountReceived);
+  const discrepancy = Number.isFinite(receivedValue)
+    ? fromMinorUnits(toMinorUnits(receivedValue, currency) - toMinorUnits(totalOutstanding, currency), currency)
+    : 0;
 
   const initialiseCanvas = useCallback(() => {
     const canvas = canvasRef.current;
@@ -50,13 +68,15 @@ export function RemitCashModal({ transaction, onClose, onRemit }: RemitCashModal
   }, []);
 
   useEffect(() => {
-    if (!transaction) return;
+    if (transactions.length === 0) return;
+    setAmountReceived(totalOutstanding.toFixed(currencyDigits(currency)));
+    setNote("");
     const frame = requestAnimationFrame(() => {
       initialiseCanvas();
       setError(null);
     });
     return () => cancelAnimationFrame(frame);
-  }, [transaction, initialiseCanvas]);
+  }, [transactions, totalOutstanding, currency, initialiseCanvas]);
 
   const getPoint = useCallback((event: ReactPointerEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
@@ -137,7 +157,12 @@ export function RemitCashModal({ transaction, onClose, onRemit }: RemitCashModal
   }, []);
 
   const handleSubmit = useCallback(async () => {
-    if (!transaction) return;
+    if (transactions.length === 0) return;
+
+    if (!(receivedValue > 0)) {
+      setError("Enter the amount of cash handed over.");
+      return;
+    }
 
     if (!hasSignature) {
       setError("Capture your signature before submitting the remittance.");
@@ -147,7 +172,7 @@ export function RemitCashModal({ transaction, onClose, onRemit }: RemitCashModal
     try {
       setIsSubmitting(true);
       const signatureBlob = await getSignatureBlob();
-      await onRemit(transaction, signatureBlob);
+      await onRemit(transactions, signatureBlob, receivedValue, note.trim());
       onClose();
     } catch (err) {
       console.error(err);
@@ -155,9 +180,9 @@ export function RemitCashModal({ transaction, onClose, onRemit }: RemitCashModal
     } finally {
       setIsSubmitting(false);
     }
-  }, [transaction, hasSignature, getSignatureBlob, onRemit, onClose]);
+  }, [transactions, receivedValue, note, hasSignature, getSignatureBlob, onRemit, onClose]);
 
-  if (!transaction) return null;
+  if (transactions.length === 0) return null;
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -179,45 +204,76 @@ export function RemitCashModal({ transaction, onClose, onRemit }: RemitCashModal
         </div>
 
         <div className="mt-6 space-y-4">
-          <div className="grid gap-4 sm:grid-cols-2">
-            <div>
-              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Transaction ID</p>
-              <p className="text-sm font-medium text-gray-900 dark:text-gray-100" title={transaction.id}>
-                {transaction.id}
-              </p>
-            </div>
+          <div className="grid gap-4 sm:grid-cols-3">
             <div>
-              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Status</p>
-              <Badge className="mt-1 capitalize">
-                {(transaction.status || "pending").replace(/-/g, " ")}
-              </Badge>
-            </div>
-            <div>
-              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Order</p>
-              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                {transaction.orderCode || transaction.orderId}
-              </p>
+              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Transactions</p>
+              <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{transactions.length}</p>
             </div>
             <div>
               <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Vendor</p>
               <p className="text-sm text-gray-700 dark:text-gray-300">
-                {transaction.vendorName || transaction.vendorId || "—"}
+                {transactions[0].vendorName || transactions[0].vendorId || "—"}
               </p>
             </div>
             <div>
-              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Net Amount</p>
+              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Total Owed</p>
               <p className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-                {formatCurrency(transaction.netAmount)}
-              </p>
-            </div>
-            <div>
-              <p className="text-xs uppercase text-gray-500 dark:text-gray-400">Commission</p>
-              <p className="text-sm text-gray-700 dark:text-gray-300">
-                {transaction.commissionAmount ? formatCurrency(transaction.commissionAmount) : "—"}
+                {formatCurrency(totalOutstanding, currency)}
               </p>
             </div>
           </div>
 
+          <div className="max-h-48 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-gray-700 dark:text-gray-300">{transaction.orderCode || transaction.orderId}</span>
+                <span className="font-medium text-gray-900 dark:text-gray-100">
+                  {formatCurrency(getOutstandingAmount(transaction), currency)}
+                  {transaction.remittedAmount ? (
+                    <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      of {formatCurrency(transaction.netAmount, currency)}
+                    </span>
+                  ) : null}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <label className="block">
+              <span className="text-xs uppercase text-gray-500 dark:text-gray-400">Amount Received</span>
+              <input
+                type="number"
+                min="0"
+                step={1 / 10 ** currencyDigits(currency)}
+                value={amountReceived}
+                onChange={(event) => setAmountReceived(event.target.value)}
+                className="mt-1 w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+              />
+              {discrepancy !== 0 && (
+                <span
+                  className={`mt-1 block text-xs ${
+                    discrepancy < 0 ? "text-red-600 dark:text-red-400" : "text-amber-600 dark:text-amber-400"
+                  }`}
+                >
+                  {discrepancy < 0
+                    ? `Short by ${formatCurrency(-discrepancy, currency)}; the rest stays outstanding.`
+                    : `Over by ${formatCurrency(discrepancy, currency)}; the extra is recorded as a discrepancy.`}
+                </span>
+              )}
+            </label>
+            <label className="block">
+              <span className="text-xs uppercase text-gray-500 dark:text-gray-400">Note</span>
+              <input
+                type="text"
+                value={note}
+                onChange={(event) => setNote(event.target.value)}
+                placeholder="Optional"
+                className="mt-1 w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-gray-100"
+              />
+            </label>
+          </div>
+
           <div>
             <p className="text-xs uppercase text-gray-500 dark:text-gray-400 mb-2">Driver Signature</p>
             <div className="rounded-lg border border-dashed border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900/70 p-3">
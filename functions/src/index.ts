@@ -7,11 +7,20 @@
  */
 
 import * as admin from "firebase-admin";
-import { onDocumentCreated, onDocumentUpdated, FirestoreEvent, Change } from "firebase-functions/v2/firestore";
+import {
+  onDocumentCreated,
+  onDocumentUpdated,
+  onDocumentWritten,
+  FirestoreEvent,
+  Change,
+} from "firebase-functions/v2/firestore";
 import { logger } from "firebase-functions/v2";
-import { onCall, CallableRequest, onRequest, Request } from "firebase-functions/v2/https";
+import { onCall, CallableRequest, onRequest, Request, HttpsError } from "firebase-functions/v2/https";
+import { onSchedule } from "firebase-functions/v2/scheduler";
 import cors from "cors";
+import * as crypto from "crypto";
 import Stripe from "stripe";
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
 
 // Initialize Firebase Admin SDK
 admin.initializeApp();
@@ -29,35 +38,20 @@ const stripe = stripeSecret
   : null;
 
 /**
- * Get Stripe instance from Firestore settings or environment
+ * Get Stripe instance from the environment or the encrypted secret store
  */
 async function getStripeInstance(): Promise<Stripe | null> {
   if (stripe) return stripe;
-  
+
   try {
-    // Try paymentSettings first (new location), then fallback to settings (old location)
-    const paymentSettingsDoc = await db.collection("systemConfig").doc("paymentSettings").get();
-    if (paymentSettingsDoc.exists) {
-      const data = paymentSettingsDoc.data();
-      const secretKey = data?.stripeSecretKey;
-      if (secretKey && secretKey.startsWith("sk_")) {
-        return new Stripe(secretKey, { apiVersion: "2022-11-15" });
-      }
-    }
-    
-    // Fallback to old settings location
-    const settingsDoc = await db.collection("systemConfig").doc("settings").get();
-    if (settingsDoc.exists) {
-      const data = settingsDoc.data();
-      const secretKey = data?.stripeSecretKey;
-      if (secretKey && secretKey.startsWith("sk_")) {
-        return new Stripe(secretKey, { apiVersion: "2022-11-15" });
-      }
+    const secretKey = await readStripeSecret("secretKey");
+    if (secretKey) {
+      return new Stripe(secretKey, { apiVersion: "2022-11-15" });
     }
   } catch (error) {
-    logger.error("Error getting Stripe secret from Firestore:", error);
+    logger.error("Error getting Stripe secret key:", error);
   }
-  
+
   return null;
 }
 
@@ -454,7 +448,7 @@ export const onNewOrderCreated = onDocumentCreated(
         if (vendorToken) {
           const formattedOrderId = formatOrderId(orderId, orderData);
           const vendorTitle = "🆕 New Order Received";
-          const vendorBody = `Order ${formattedOrderId} - ${orderData.totalAmount ? `$${orderData.totalAmount}` : "Amount pending"}`;
+          const vendorBody = `Order ${formattedOrderId} - ${orderData.totalAmount ? formatMoney(Number(orderData.totalAmount), recordCurrency(orderData)) : "Amount pending"}`;
 
           await sendNotification([vendorToken], vendorTitle, vendorBody, {
             orderId,
@@ -568,6 +562,7 @@ export const onOrderStatusUpdate = onDocumentUpdated(
           body = `Your order ${formattedOrderId} was rejected. Please try again.`;
           break;
         case "in-transit":
+        case "enroute":
           title = "🚗 On the Way";
           body = `Your order ${formattedOrderId} is on the way to you`;
           break;
@@ -593,156 +588,7097 @@ export const onOrderStatusUpdate = onDocumentUpdated(
 );
 
 // ============================================================================
-// WALLET TOP-UP (Stripe)
+// ORDER EVENTS (append-only audit timeline)
 // ============================================================================
 
+type OrderEventType =
+  | "created"
+  | "status-changed"
+  | "driver-assigned"
+  | "payment-changed"
+  | "dispatch"
+  | "batched"
+  | "edited";
+
+type OrderEventActorRole = OrderActorRole | "customer" | "system";
+
+interface OrderEventInput {
+  type: OrderEventType;
+  actorId: string | null;
+  actorRole: OrderEventActorRole;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  message?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
 /**
- * createWalletTopup
- * - Creates a Stripe PaymentIntent for wallet top-up
- * - Requires: auth.uid, amount (number, dollars), currency (default "usd")
- * - Returns: clientSecret, paymentIntentId
+ * Fields written only by Cloud Functions (the rules reject client edits to
+ * state and pricing fields, admins included); edits to these are recorded by
+ * the function that made them, not by the onOrderEdited trigger
  */
-export const createWalletTopup = onRequest(
-  { region: "us-central1" },
-  async (req: Request, res: any) => {
-    corsHandler(req, res, async () => {
-      try {
-        // Verify authentication
-        const userId = await verifyAuthToken(req);
+const ORDER_SERVER_MANAGED_FIELDS = new Set([
+  "orderStatus",
+  "status",
+  "driverStatus",
+  "driverId",
+  "driverName",
+  "readyAt",
+  "assignedAt",
+  "driverAcceptedAt",
+  "pickedUpAt",
+  "deliveredAt",
+  "cancelledAt",
+  "failedAt",
+  "failureReason",
+  "paymentStatus",
+  "walletCapturedAt",
+  "codCollectedAmount",
+  "codCommissionAmount",
+  "codCollectedAt",
+  "proofOfDeliverySignatureUrl",
+  "proofOfDeliverySignaturePath",
+  "cancellationReasonCode",
+  "cancellationNote",
+  "cancelledBy",
+  "cancelledByRole",
+  "refundStatus",
+  "dispatchStatus",
+  "dispatchOfferId",
+  "dispatchDriverId",
+  "dispatchOfferExpiresAt",
+  "dispatchAttempt",
+  "dispatchExcludedDriverIds",
+  "scheduledFor",
+  "availableAt",
+  "releasedAt",
+  "batchId",
+  "products",
+  "subtotal",
+  "discountAmount",
+  "taxAmount",
+  "tax",
+  "deliveryFee",
+  "commissionFee",
+  "driverTip",
+  "totalAmount",
+  "currency",
+  "minorUnits",
+  "couponCode",
+  "pricing",
+  "deliveryZoneId",
+  "configVersions",
+  "lastTransitionBy",
+  "lastTransitionRole",
+  "lastEditedBy",
+  "updatedAt",
+]);
 
-        // Try to get Stripe instance from Firestore settings if not in env
-        const stripeInstance = await getStripeInstance();
-        if (!stripeInstance) {
-          res.status(500).json({ error: "Stripe not configured. Please set Stripe keys in admin payment settings." });
-          return;
-        }
+/**
+ * Replaces values Firestore cannot store inside an event (sentinels, undefined)
+ */
+function toEventValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof admin.firestore.FieldValue) return "(server timestamp)";
+  return value;
+}
 
-        const { amount, currency = "usd" } = req.body || {};
-        const amountNumber = Number(amount);
-        if (!amountNumber || Number.isNaN(amountNumber) || amountNumber <= 0) {
-          res.status(400).json({ error: "Invalid amount" });
-          return;
-        }
+/**
+ * Appends an event to orders/{orderId}/events. Pass the surrounding
+ * transaction so the event commits atomically with the change it describes.
+ */
+function recordOrderEvent(
+  orderId: string,
+  event: OrderEventInput,
+  transaction?: admin.firestore.Transaction
+): Promise<unknown> | void {
+  const eventRef = db.collection("orders").doc(orderId).collection("events").doc();
+  const mapValues = (values: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, toEventValue(value)]));
+
+  const data = {
+    id: eventRef.id,
+    orderId,
+    type: event.type,
+    actorId: event.actorId,
+    actorRole: event.actorRole,
+    before: mapValues(event.before),
+    after: mapValues(event.after),
+    message: event.message ?? null,
+    metadata: event.metadata ?? {},
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+  };
+
+  if (transaction) {
+    transaction.set(eventRef, data);
+    return;
+  }
+  return eventRef.set(data);
+}
 
-        // Convert dollars to cents
-        const amountInCents = Math.round(amountNumber * 100);
+/**
+ * Picks the given fields from an order document, for before/after snapshots
+ */
+function pickOrderFields(orderData: admin.firestore.DocumentData, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((field) => [field, orderData[field] ?? null]));
+}
 
-        const paymentIntent = await stripeInstance.paymentIntents.create({
-          amount: amountInCents,
-          currency,
-          metadata: {
-            userId: userId,
-            type: "wallet-topup",
-          },
-          description: `Wallet top-up for user ${userId}`,
-        });
+/**
+ * Records the creation of an order as the first event of its timeline
+ */
+export const onOrderCreatedRecordEvent = onDocumentCreated(
+  "orders/{orderId}",
+  async (event: FirestoreEvent<admin.firestore.QueryDocumentSnapshot | undefined>) => {
+    const orderId = event.params.orderId;
+    try {
+      const orderData = event.data?.data();
+      if (!orderData) return;
+
+      const actorId = (orderData.createdBy ?? orderData.vendorId ?? null) as string | null;
+      await recordOrderEvent(orderId, {
+        type: "created",
+        actorId,
+        actorRole: actorId && actorId === orderData.vendorId ? "vendor" : "system",
+        before: {},
+        after: pickOrderFields(orderData, ["orderStatus", "paymentMethod", "paymentStatus", "totalAmount", "driverId"]),
+        message: "Order created",
+      });
+    } catch (error) {
+      logger.error(`Error recording created event for order ${orderId}:`, error);
+    }
+  }
+);
 
-        res.status(200).json({
-          clientSecret: paymentIntent.client_secret,
-          paymentIntentId: paymentIntent.id,
-        });
-      } catch (error: any) {
-        logger.error(`Error creating wallet topup:`, error);
-        if (error.message?.includes("UNAUTHENTICATED")) {
-          res.status(401).json({ error: error.message });
-          return;
-        }
-        res.status(500).json({ error: error.message || "Failed to create payment intent" });
+/**
+ * Records direct client edits (fields outside the state machine and pricing)
+ * as "edited" events. The editor is taken from lastEditedBy, which the rules
+ * require to be the caller on every client update, admins included.
+ */
+export const onOrderEdited = onDocumentUpdated(
+  "orders/{orderId}",
+  async (event: FirestoreEvent<Change<admin.firestore.QueryDocumentSnapshot> | undefined>) => {
+    const orderId = event.params.orderId;
+    try {
+      if (!event.data?.before || !event.data?.after) return;
+      const beforeData = event.data.before.data();
+      const afterData = event.data.after.data();
+
+      const changedFields = Array.from(new Set([...Object.keys(beforeData), ...Object.keys(afterData)])).filter(
+        (field) =>
+          !ORDER_SERVER_MANAGED_FIELDS.has(field) &&
+          JSON.stringify(beforeData[field] ?? null) !== JSON.stringify(afterData[field] ?? null)
+      );
+      if (changedFields.length === 0) return;
+
+      const actorId = (afterData.lastEditedBy ?? null) as string | null;
+      let actorRole: OrderEventActorRole = "system";
+      if (actorId) {
+        const actorDoc = await db.collection("users").doc(actorId).get();
+        const role = actorDoc.data()?.role;
+        actorRole = role === "admin" || role === "vendor" || role === "driver" ? role : "customer";
       }
-    });
+
+      const paymentFields = ["paymentMethod", "paymentIntentId"];
+      await recordOrderEvent(orderId, {
+        type: changedFields.every((field) => paymentFields.includes(field)) ? "payment-changed" : "edited",
+        actorId,
+        actorRole,
+        before: pickOrderFields(beforeData, changedFields),
+        after: pickOrderFields(afterData, changedFields),
+        message: `Updated ${changedFields.join(", ")}`,
+      });
+    } catch (error) {
+      logger.error(`Error recording edit event for order ${orderId}:`, error);
+    }
   }
 );
 
+// ============================================================================
+// ORDER STATE MACHINE
+// ============================================================================
+
+type OrderStatus =
+  | "scheduled"
+  | "available"
+  | "ready"
+  | "assigned"
+  | "enroute"
+  | "delivered"
+  | "cancelled"
+  | "failed";
+type OrderActorRole = "admin" | "vendor" | "driver";
+
 /**
- * applyWalletTopup
- * - Verifies a PaymentIntent and credits the user's wallet if succeeded
- * - Requires: auth.uid, paymentIntentId
+ * Allowed order status graph. Terminal states have no outgoing edges.
  */
-export const applyWalletTopup = onRequest(
-  { region: "us-central1" },
-  async (req: Request, res: any) => {
-    corsHandler(req, res, async () => {
-      try {
-        // Verify authentication
-        const userId = await verifyAuthToken(req);
-        
-        // Try to get Stripe instance from Firestore settings if not in env
-        const stripeInstance = await getStripeInstance();
-        if (!stripeInstance) {
-          res.status(500).json({ error: "Stripe not configured. Please set Stripe keys in admin payment settings." });
-          return;
-        }
+const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  scheduled: ["available", "cancelled"],
+  available: ["ready", "cancelled"],
+  ready: ["assigned", "cancelled"],
+  assigned: ["enroute", "cancelled", "failed"],
+  enroute: ["delivered", "cancelled", "failed"],
+  delivered: [],
+  cancelled: [],
+  failed: [],
+};
 
-        const { paymentIntentId } = req.body || {};
-        if (!paymentIntentId) {
-          res.status(400).json({ error: "paymentIntentId is required" });
-          return;
-        }
+/**
+ * Roles allowed to move an order into each status through transitionOrder.
+ * Cancellation has its own policy and goes through cancelOrder.
+ */
+const ORDER_STATUS_ROLES: Record<OrderStatus, OrderActorRole[]> = {
+  scheduled: [],
+  available: [],
+  ready: ["vendor", "admin"],
+  assigned: ["driver", "admin"],
+  enroute: ["driver", "admin"],
+  delivered: ["driver", "admin"],
+  cancelled: [],
+  failed: ["driver", "admin"],
+};
 
-        const pi = await stripeInstance.paymentIntents.retrieve(paymentIntentId);
-        if (!pi || pi.status !== "succeeded") {
-          res.status(400).json({ error: "PaymentIntent not succeeded" });
-          return;
-        }
+/**
+ * Legacy status values still present on older order documents
+ */
+const LEGACY_ORDER_STATUS_ALIASES: Record<string, OrderStatus> = {
+  pending: "available",
+  preparing: "available",
+  "in-transit": "enroute",
+  "out-for-delivery": "enroute",
+  completed: "delivered",
+  rejected: "cancelled",
+};
 
-        const paymentUserId = (pi.metadata && pi.metadata.userId) || userId;
-        if (!paymentUserId) {
-          res.status(400).json({ error: "userId missing from metadata" });
-          return;
-        }
+/**
+ * Driver-facing status that accompanies each order status
+ */
+const DRIVER_STATUS_FOR_ORDER_STATUS: Partial<Record<OrderStatus, string>> = {
+  ready: "awaiting-pickup",
+  assigned: "awaiting-pickup",
+  enroute: "enroute",
+  delivered: "delivered",
+  cancelled: "cancelled",
+  failed: "failed",
+};
 
-        const amountInCents = pi.amount_received || pi.amount || 0;
-        const amount = amountInCents / 100;
-        const currency = pi.currency || "usd";
+/**
+ * Timestamp field stamped when an order enters each status
+ */
+const ORDER_STATUS_TIMESTAMP_FIELDS: Partial<Record<OrderStatus, string>> = {
+  ready: "readyAt",
+  assigned: "assignedAt",
+  enroute: "pickedUpAt",
+  delivered: "deliveredAt",
+  cancelled: "cancelledAt",
+  failed: "failedAt",
+};
+
+function isOrderStatus(value: unknown): value is OrderStatus {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ORDER_STATUS_TRANSITIONS, value);
+}
 
-        // Credit wallet
-        const walletRef = db.collection("wallets").doc(paymentUserId);
-        await walletRef.set(
-          {
-            balance: admin.firestore.FieldValue.increment(amount),
-            currency: currency.toUpperCase(),
-            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
-            updatedBy: paymentUserId,
-            lastTopup: {
-              paymentIntentId,
-              amount,
-              currency: currency.toUpperCase(),
-              processedAt: admin.firestore.FieldValue.serverTimestamp(),
-            },
-          },
-          { merge: true }
-        );
+/**
+ * Normalizes the stored status of an order, resolving legacy aliases
+ */
+function normalizeOrderStatus(orderData: admin.firestore.DocumentData | undefined): OrderStatus | null {
+  const raw = (orderData?.orderStatus ?? orderData?.status ?? "available").toString().toLowerCase();
+  if (isOrderStatus(raw)) return raw;
+  return LEGACY_ORDER_STATUS_ALIASES[raw] ?? null;
+}
 
-        // Log wallet transaction
-        const txRef = db.collection("walletTransactions").doc();
-        await txRef.set({
-          id: txRef.id,
-          walletId: paymentUserId,
-          userId: paymentUserId,
-          amount,
-          currency: currency.toUpperCase(),
-          type: "credit",
-          reason: "wallet-topup",
-          paymentIntentId,
-          status: "succeeded",
-          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+/**
+ * Resolves the caller's role from their user document
+ */
+async function getCallerRole(uid: string): Promise<OrderActorRole | null> {
+  const userDoc = await db.collection("users").doc(uid).get();
+  const userData = userDoc.data();
+  if (!userData || userData.isApproved !== true) return null;
+  if (userData.role === "admin" || userData.role === "vendor" || userData.role === "driver") {
+    return userData.role;
+  }
+  return null;
+}
+
+interface OrderTransitionParams {
+  orderId: string;
+  toStatus: OrderStatus;
+  driverId?: string;
+  reason?: string;
+  proofOfDeliverySignatureUrl?: string;
+  proofOfDeliverySignaturePath?: string;
+}
+
+interface OrderTransitionResult {
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+  alreadyApplied: boolean;
+  driverTransactionId: string | null;
+  vendorTransactionId: string | null;
+}
+
+/**
+ * Parses and validates transition parameters from a callable payload
+ */
+function parseOrderTransitionParams(data: any, toStatusOverride?: OrderStatus): OrderTransitionParams {
+  const {
+    orderId,
+    toStatus,
+    driverId,
+    reason,
+    proofOfDeliverySignatureUrl,
+    proofOfDeliverySignaturePath,
+  } = data || {};
+
+  if (!orderId || typeof orderId !== "string") {
+    throw new HttpsError("invalid-argument", "orderId is required");
+  }
+
+  const resolvedStatus = toStatusOverride ?? toStatus;
+  if (!isOrderStatus(resolvedStatus)) {
+    throw new HttpsError("invalid-argument", `Unknown order status: ${resolvedStatus}`);
+  }
+
+  return {
+    orderId,
+    toStatus: resolvedStatus,
+    driverId: typeof driverId === "string" ? driverId : undefined,
+    reason: typeof reason === "string" ? reason : undefined,
+    proofOfDeliverySignatureUrl:
+      typeof proofOfDeliverySignatureUrl === "string" ? proofOfDeliverySignatureUrl : undefined,
+    proofOfDeliverySignaturePath:
+      typeof proofOfDeliverySignaturePath === "string" ? proofOfDeliverySignaturePath : undefined,
+  };
+}
+
+/**
+ * Applies an order transition inside a single Firestore transaction.
+ * Delivery also writes the COD ledger entries (driver + vendor transactions)
+ * keyed by orderId, so retries never create duplicates. Re-delivering an
+ * order that the same driver already delivered is a no-op.
+ */
+async function runOrderTransition(
+  uid: string,
+  role: OrderActorRole,
+  params: OrderTransitionParams
+): Promise<OrderTransitionResult> {
+  const { orderId, toStatus } = params;
+
+  if (!ORDER_STATUS_ROLES[toStatus].includes(role)) {
+    throw new HttpsError("permission-denied", `A ${role} cannot move an order to ${toStatus}`);
+  }
+
+  const orderRef = db.collection("orders").doc(orderId);
+  const driverTransactionRef = db.collection("driverTransactions").doc(orderId);
+  const vendorTransactionRef = db.collection("vendorTransactions").doc(orderId);
+
+  return db.runTransaction(async (transaction) => {
+    const orderSnap = await transaction.get(orderRef);
+    if (!orderSnap.exists) {
+      throw new HttpsError("not-found", "Order not found");
+    }
+
+    const orderData = orderSnap.data() || {};
+    const currentStatus = normalizeOrderStatus(orderData);
+    if (!currentStatus) {
+      throw new HttpsError("failed-precondition", `Order has an unrecognized status: ${orderData.orderStatus}`);
+    }
+
+    // Ownership checks
+    if (role === "vendor" && orderData.vendorId !== uid) {
+      throw new HttpsError("permission-denied", "Order does not belong to this vendor");
+    }
+    if (role === "driver" && toStatus !== "assigned" && orderData.driverId !== uid) {
+      throw new HttpsError("permission-denied", "Order is not assigned to this driver");
+    }
+
+    // Repeated claim by the driver who already holds the order (double tap or retry)
+    if (
+      toStatus === "assigned" &&
+      role === "driver" &&
+      orderData.driverId === uid &&
+      ["assigned", "enroute", "delivered"].includes(currentStatus)
+    ) {
+      return {
+        fromStatus: currentStatus,
+        toStatus: currentStatus,
+        alreadyApplied: true,
+        driverTransactionId: null,
+        vendorTransactionId: null,
+      };
+    }
+
+    // Claim races: another driver got there first
+    if (toStatus === "assigned" && (orderData.driverId || ["assigned", "enroute", "delivered"].includes(currentStatus))) {
+      throw new HttpsError("failed-precondition", "Order has already been taken by another driver", {
+        reason: "already-taken",
+      });
+    }
+
+    // Orders being offered by dispatch are reserved for the offered driver
+    if (
+      toStatus === "assigned" &&
+      role === "driver" &&
+      orderData.dispatchStatus === "offering" &&
+      orderData.dispatchDriverId !== uid
+    ) {
+      throw new HttpsError("failed-precondition", "Order is currently offered to another driver", {
+        reason: "already-taken",
+      });
+    }
+
+    // Idempotent retry of a completed delivery
+    if (currentStatus === "delivered" && toStatus === "delivered") {
+      const [existingDriverTxn, existingVendorTxn] = await Promise.all([
+        transaction.get(driverTransactionRef),
+        transaction.get(vendorTransactionRef),
+      ]);
+      return {
+        fromStatus: currentStatus,
+        toStatus,
+        alreadyApplied: true,
+        driverTransactionId: existingDriverTxn.exists ? existingDriverTxn.id : null,
+        vendorTransactionId: existingVendorTxn.exists ? existingVendorTxn.id : null,
+      };
+    }
+
+    if (!ORDER_STATUS_TRANSITIONS[currentStatus].includes(toStatus)) {
+      throw new HttpsError(
+        "failed-precondition",
+        `Illegal order transition: ${currentStatus} → ${toStatus}`
+      );
+    }
+
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+    const updatePayload: Record<string, unknown> = {
+      orderStatus: toStatus,
+      status: toStatus,
+      updatedAt: timestamp,
+      lastTransitionBy: uid,
+      lastTransitionRole: role,
+    };
+
+    const driverStatus = DRIVER_STATUS_FOR_ORDER_STATUS[toStatus];
+    if (driverStatus && (toStatus !== "ready" || orderData.driverId)) {
+      updatePayload.driverStatus = driverStatus;
+    }
+
+    const timestampField = ORDER_STATUS_TIMESTAMP_FIELDS[toStatus];
+    if (timestampField) {
+      updatePayload[timestampField] = timestamp;
+    }
+
+    let driverTransactionId: string | null = null;
+    let vendorTransactionId: string | null = null;
+
+    if (toStatus === "assigned") {
+      const assigneeId = role === "driver" ? uid : params.driverId;
+      if (!assigneeId) {
+        throw new HttpsError("invalid-argument", "driverId is required to assign an order");
+      }
+
+      const driverSnap = await transaction.get(db.collection("drivers").doc(assigneeId));
+      if (!driverSnap.exists) {
+        throw new HttpsError("not-found", "Driver profile not found");
+      }
+      if (isCashOnDeliveryOrder(orderData)) {
+        assertDriverUnderCashLimit(driverSnap.data(), await getCashLimitSettings(transaction));
+      }
+
+      updatePayload.driverId = assigneeId;
+      updatePayload.driverName = driverSnap.data()?.name || "Unknown Driver";
+      updatePayload.driverAcceptedAt = timestamp;
+      transaction.update(driverSnap.ref, { status: "busy", updatedAt: timestamp });
+
+      if (orderData.dispatchOfferId) {
+        transaction.update(db.collection("dispatchOffers").doc(orderData.dispatchOfferId), {
+          status: orderData.dispatchDriverId === assigneeId ? "accepted" : "superseded",
+          respondedAt: timestamp,
+          updatedAt: timestamp,
         });
+      }
+      updatePayload.dispatchStatus = "assigned";
+      updatePayload.dispatchOfferId = null;
+      updatePayload.dispatchDriverId = null;
+      updatePayload.dispatchOfferExpiresAt = null;
+    }
 
-        res.status(200).json({
-          success: true,
-          walletId: paymentUserId,
-          amount,
-          currency: currency.toUpperCase(),
+    if (toStatus === "delivered") {
+      const driverId = orderData.driverId as string | undefined;
+      if (!driverId) {
+        throw new HttpsError("failed-precondition", "Order has no assigned driver");
+      }
+      const driverRef = db.collection("drivers").doc(driverId);
+      const earningRef = db.collection("driverEarnings").doc(orderId);
+      const [existingDriverTxn, existingVendorTxn, walletHoldSnap, existingEarning, compensation, trip] =
+        await Promise.all([
+          transaction.get(driverTransactionRef),
+          transaction.get(vendorTransactionRef),
+          transaction.get(db.collection("walletHolds").doc(orderId)),
+          transaction.get(earningRef),
+          getDriverCompensationSettings(transaction),
+          measureDelivery(orderData),
+        ]);
+      const holdCustomerId = walletHoldSnap.data()?.userId as string | undefined;
+      const ledgerAccounts = await readLedgerAccounts(transaction, [
+        driverCashAccountId(driverId),
+        ...(holdCustomerId ? walletHoldAccountIds(holdCustomerId) : []),
+      ]);
+
+      if (params.proofOfDeliverySignatureUrl) {
+        updatePayload.proofOfDeliverySignatureUrl = params.proofOfDeliverySignatureUrl;
+        updatePayload.proofOfDeliverySignaturePath = params.proofOfDeliverySignaturePath || null;
+      }
+
+      const paymentMethod = (orderData.paymentMethod ?? orderData.payment?.method ?? "").toString().toLowerCase();
+      const vendorId = (orderData.vendorId ?? null) as string | null;
+      // A batched driver stays busy until the batch's last stop is done (see syncDeliveryBatch)
+      const driverUpdate: Record<string, unknown> = {
+        status: orderData.batchId ? "busy" : "available",
+        updatedAt: timestamp,
+      };
+
+      const currency = recordCurrency(orderData);
+
+      if (paymentMethod === "cash-on-delivery") {
+        // The driver collects the whole total; only the vendor's net share is remitted,
+        // the rest (commission and delivery charges) is owed to the platform
+        const totalAmount = Number(orderData.totalAmount ?? orderData.total ?? 0);
+        const { grossAmount, commissionAmount, netAmount } = computeVendorShare(orderData);
+        const retainedAmount = roundMoney(totalAmount - netAmount, currency);
+        const orderCode =
+          orderData.code ?? orderData.orderCode ?? orderData.reference ?? orderData.legacyCode ?? null;
+
+        updatePayload.paymentStatus = "paid";
+        updatePayload.codCollectedAmount = netAmount;
+        updatePayload.codCommissionAmount = commissionAmount;
+        updatePayload.codCollectedAt = timestamp;
+
+        if (vendorId) {
+          const sharedFields = {
+            driverId,
+            vendorId,
+            orderId,
+            orderCode,
+            batchId: orderData.batchId ?? null,
+            type: "cash-on-delivery",
+            paymentMethod,
+            commissionAmount,
+            netAmount,
+            currency,
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          };
+
+          if (!existingDriverTxn.exists) {
+            transaction.set(driverTransactionRef, {
+              ...sharedFields,
+              grossAmount: totalAmount,
+              retainedAmount,
+              minorUnits: minorUnitsOf({ grossAmount: totalAmount, commissionAmount, netAmount, retainedAmount }, currency),
+              vendorName: orderData.vendorName ?? null,
+              status: "pending-remittance",
+              vendorTransactionId: vendorTransactionRef.id,
+            });
+          }
+          if (!existingVendorTxn.exists) {
+            transaction.set(vendorTransactionRef, {
+              ...sharedFields,
+              grossAmount,
+              minorUnits: minorUnitsOf({ grossAmount, commissionAmount, netAmount }, currency),
+              driverName: orderData.driverName ?? null,
+              status: "awaiting-remittance",
+              driverTransactionId: driverTransactionRef.id,
+            });
+          }
+
+          driverTransactionId = driverTransactionRef.id;
+          vendorTransactionId = vendorTransactionRef.id;
+
+          // The driver now holds the vendor's cash
+          if (!existingDriverTxn.exists && netAmount > 0) {
+            postLedgerJournal(transaction, ledgerAccounts, {
+              journalId: `cod-${orderId}`,
+              reason: "cod-collected",
+              currency,
+              createdBy: uid,
+              reference: { orderId, driverTransactionId },
+              legs: [
+                { accountId: "system:cod-clearing", direction: "debit", amount: netAmount },
+                { accountId: driverCashAccountId(driverId), direction: "credit", amount: netAmount },
+              ],
+            });
+          }
+        }
+      }
+
+      if (paymentMethod === "wallet" && settleWalletHold(transaction, ledgerAccounts, walletHoldSnap, "captured", { uid })) {
+        const { grossAmount, commissionAmount, netAmount } = computeVendorShare(orderData);
+
+        updatePayload.paymentStatus = "paid";
+        updatePayload.walletCapturedAt = timestamp;
+
+        if (vendorId && !existingVendorTxn.exists) {
+          // The platform holds the captured funds and owes the vendor its net share
+          transaction.set(vendorTransactionRef, {
+            driverId,
+            driverName: orderData.driverName ?? null,
+            vendorId,
+            orderId,
+            orderCode: orderData.code ?? orderData.orderCode ?? null,
+            batchId: orderData.batchId ?? null,
+            type: "wallet-payment",
+            paymentMethod,
+            grossAmount,
+            commissionAmount,
+            netAmount,
+            currency,
+            minorUnits: minorUnitsOf({ grossAmount, commissionAmount, netAmount }, currency),
+            status: "captured",
+            createdAt: timestamp,
+            updatedAt: timestamp,
+          });
+          vendorTransactionId = vendorTransactionRef.id;
+        }
+      }
+
+      if (!existingEarning.exists) {
+        transaction.set(earningRef, {
+          ...buildDriverEarning(orderId, orderData, driverId, compensation, trip),
+          deliveredAt: timestamp,
+          createdAt: timestamp,
         });
-      } catch (error: any) {
-        logger.error(`Error applying wallet topup:`, error);
-        if (error.message?.includes("UNAUTHENTICATED")) {
-          res.status(401).json({ error: error.message });
-          return;
+      }
+
+      transaction.update(driverRef, driverUpdate);
+    }
+
+    if (toStatus === "failed") {
+      const failureReason = params.reason && params.reason.trim() ? params.reason.trim() : null;
+      updatePayload.failureReason = failureReason;
+
+      const walletHoldSnap = await transaction.get(db.collection("walletHolds").doc(orderId));
+      const holdCustomerId = walletHoldSnap.data()?.userId as string | undefined;
+      if (holdCustomerId) {
+        const holdAccounts = await readLedgerAccounts(transaction, walletHoldAccountIds(holdCustomerId));
+        if (
+          settleWalletHold(transaction, holdAccounts, walletHoldSnap, "released", {
+            uid,
+            reason: failureReason ?? "order-failed",
+          })
+        ) {
+          updatePayload.paymentStatus = "released";
         }
-        res.status(500).json({ error: error.message || "Failed to apply wallet topup" });
       }
-    });
+    }
+
+    transaction.update(orderRef, updatePayload);
+
+    const changedFields = Object.keys(updatePayload).filter(
+      (field) => !["updatedAt", "lastTransitionBy", "lastTransitionRole", "status"].includes(field)
+    );
+    recordOrderEvent(
+      orderId,
+      {
+        type: toStatus === "assigned" ? "driver-assigned" : "status-changed",
+        actorId: uid,
+        actorRole: role,
+        before: pickOrderFields(orderData, changedFields),
+        after: Object.fromEntries(changedFields.map((field) => [field, updatePayload[field]])),
+        message: `${currentStatus} → ${toStatus}`,
+        metadata: {
+          ...(driverTransactionId ? { driverTransactionId } : {}),
+          ...(vendorTransactionId ? { vendorTransactionId } : {}),
+        },
+      },
+      transaction
+    );
+
+    return {
+      fromStatus: currentStatus,
+      toStatus,
+      alreadyApplied: false,
+      driverTransactionId,
+      vendorTransactionId,
+    };
+  });
+}
+
+/**
+ * Authenticates a callable request and resolves the caller's order role
+ */
+async function requireOrderActor(request: CallableRequest): Promise<{ uid: string; role: OrderActorRole }> {
+  if (!request.auth || !request.auth.uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+
+  const role = await getCallerRole(request.auth.uid);
+  if (!role) {
+    throw new HttpsError("permission-denied", "Approved admin, vendor or driver account required");
+  }
+
+  return { uid: request.auth.uid, role };
+}
+
+/**
+ * transitionOrder
+ * Moves an order along the allowed status graph.
+ * - Requires: auth.uid, orderId, toStatus
+ * - Optional: driverId (admin assignment), reason (failure),
+ *   proofOfDeliverySignatureUrl/Path (delivery)
+ * - Returns: orderId, fromStatus, toStatus
+ */
+export const transitionOrder = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    const params = parseOrderTransitionParams(request.data);
+    if (params.toStatus === "cancelled") {
+      throw new HttpsError("invalid-argument", "Use cancelOrder to cancel an order");
+    }
+
+    const result = await runOrderTransition(uid, role, params);
+    logger.info(`Order ${params.orderId} transitioned ${result.fromStatus} → ${result.toStatus} by ${role} ${uid}`);
+
+    return {
+      success: true,
+      orderId: params.orderId,
+      fromStatus: result.fromStatus,
+      toStatus: result.toStatus,
+    };
+  }
+);
+
+type ClaimOrderResult = "claimed" | "already-taken" | "cash-limit" | "unavailable";
+
+/**
+ * claimOrder
+ * Lets a driver claim a ready order. The check-and-assign runs in one
+ * transaction so exactly one of several simultaneous claims wins; losers get
+ * an "already-taken" result instead of an error. A repeated claim by the
+ * driver who already holds the order succeeds without changing anything.
+ * - Requires: auth.uid (approved driver), orderId
+ * - Returns: success, result ("claimed" | "already-taken" | "cash-limit" | "unavailable"), message
+ */
+export const claimOrder = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    if (role !== "driver") {
+      throw new HttpsError("permission-denied", "Only drivers can claim orders");
+    }
+
+    const params = parseOrderTransitionParams({ orderId: request.data?.orderId }, "assigned");
+
+    const respond = (result: ClaimOrderResult, message: string) => ({
+      success: result === "claimed",
+      orderId: params.orderId,
+      result,
+      message,
+    });
+
+    let alreadyClaimed = false;
+    try {
+      alreadyClaimed = (await runOrderTransition(uid, role, params)).alreadyApplied;
+    } catch (error: any) {
+      if (error instanceof HttpsError && (error.details as { reason?: string } | undefined)?.reason === "already-taken") {
+        logger.info(`Driver ${uid} lost claim race for order ${params.orderId}`);
+        return respond("already-taken", "This order was just taken by another driver.");
+      }
+      if (error instanceof HttpsError && (error.details as { reason?: string } | undefined)?.reason === "cash-limit-reached") {
+        return respond("cash-limit", error.message);
+      }
+      if (error instanceof HttpsError && error.code === "failed-precondition") {
+        return respond("unavailable", "This order is no longer available for pickup.");
+      }
+      throw error;
+    }
+
+    if (alreadyClaimed) {
+      logger.info(`Driver ${uid} repeated the claim on order ${params.orderId}; returning the existing assignment`);
+      return respond("claimed", "You have already claimed this order.");
+    }
+
+    logger.info(`Order ${params.orderId} claimed by driver ${uid}`);
+    return respond("claimed", "Order claimed. Head to the pickup location.");
+  }
+);
+
+/**
+ * completeDelivery
+ * Marks an order delivered and records COD ledger entries atomically.
+ * Safe to retry: ledger documents are keyed by orderId.
+ * - Requires: auth.uid, orderId
+ * - Optional: proofOfDeliverySignatureUrl/Path (uploaded by the client beforehand)
+ * - Returns: orderId, alreadyCompleted, driverTransactionId, vendorTransactionId
+ */
+export const completeDelivery = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    const params = parseOrderTransitionParams(request.data, "delivered");
+
+    const result = await runOrderTransition(uid, role, params);
+    if (result.alreadyApplied) {
+      logger.info(`Order ${params.orderId} already delivered; ignoring retry from ${uid}`);
+    } else {
+      logger.info(`Order ${params.orderId} delivered by ${role} ${uid}`);
+    }
+
+    return {
+      success: true,
+      orderId: params.orderId,
+      alreadyCompleted: result.alreadyApplied,
+      driverTransactionId: result.driverTransactionId,
+      vendorTransactionId: result.vendorTransactionId,
+    };
+  }
+);
+
+// ============================================================================
+// ORDER CANCELLATION & REFUNDS
+// ============================================================================
+
+const CANCELLATION_REASON_CODES = [
+  "customer-request",
+  "vendor-unavailable",
+  "out-of-stock",
+  "no-driver-available",
+  "duplicate-order",
+  "payment-issue",
+  "suspected-fraud",
+  "other",
+] as const;
+
+type CancellationReasonCode = (typeof CANCELLATION_REASON_CODES)[number];
+type CancellationActorRole = OrderActorRole | "customer";
+type RefundMethod = "wallet" | "stripe" | "manual";
+
+/**
+ * Statuses from which each role may cancel an order
+ */
+const CANCELLATION_POLICY: Record<CancellationActorRole, OrderStatus[]> = {
+  customer: ["scheduled", "available"],
+  vendor: ["scheduled", "available", "ready"],
+  driver: [],
+  admin: ["scheduled", "available", "ready", "assigned", "enroute"],
+};
+
+function isCancellationReasonCode(value: unknown): value is CancellationReasonCode {
+  return typeof value === "string" && (CANCELLATION_REASON_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the caller's role for cancellation, including customers
+ */
+async function getCancellationActorRole(uid: string): Promise<CancellationActorRole | null> {
+  const userDoc = await db.collection("users").doc(uid).get();
+  const userData = userDoc.data();
+  if (!userData || userData.isApproved !== true) return null;
+  if (userData.role === "user" || userData.role === "customer") return "customer";
+  if (userData.role === "admin" || userData.role === "vendor" || userData.role === "driver") {
+    return userData.role;
+  }
+  return null;
+}
+
+/**
+ * Determines how a paid order should be refunded; null when nothing was charged
+ */
+function resolveRefundMethod(orderData: admin.firestore.DocumentData): RefundMethod | null {
+  const paymentStatus = (orderData.paymentStatus ?? orderData.payment?.status ?? "").toString().toLowerCase();
+  if (!["paid", "captured", "succeeded"].includes(paymentStatus)) return null;
+
+  const paymentMethod = (orderData.paymentMethod ?? orderData.payment?.method ?? "").toString().toLowerCase();
+  if (paymentMethod === "wallet") return "wallet";
+  if ((paymentMethod === "stripe" || paymentMethod === "card") && orderData.paymentIntentId) return "stripe";
+  return "manual";
+}
+
+/**
+ * Issues a Stripe refund for an order and records the outcome.
+ * Uses the orderId as idempotency key so repeated attempts never double-refund.
+ */
+async function processStripeRefund(
+  orderId: string,
+  actor: { id: string | null; role: OrderEventActorRole }
+): Promise<"succeeded" | "pending" | "failed"> {
+  const refundRef = db.collection("refunds").doc(orderId);
+  const refundSnap = await refundRef.get();
+  const refundData = refundSnap.data();
+  if (!refundData || refundData.method !== "stripe") {
+    throw new HttpsError("failed-precondition", "No Stripe refund recorded for this order");
+  }
+  if (refundData.status === "succeeded") return "succeeded";
+
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  const orderRef = db.collection("orders").doc(orderId);
+
+  try {
+    const stripeInstance = await getStripeInstance();
+    if (!stripeInstance) {
+      throw new Error("Stripe not configured. Please set Stripe keys in admin payment settings.");
+    }
+
+    const refund = await stripeInstance.refunds.create(
+      {
+        payment_intent: refundData.paymentIntentId,
+        amount: toMinorUnits(Number(refundData.amount || 0), recordCurrency(refundData)),
+        metadata: { orderId, type: "order-cancellation" },
+      },
+      { idempotencyKey: `order-refund-${orderId}` }
+    );
+
+    const status = refund.status === "succeeded" ? "succeeded" : refund.status === "failed" ? "failed" : "pending";
+    await refundRef.update({
+      status,
+      stripeRefundId: refund.id,
+      error: null,
+      attempts: admin.firestore.FieldValue.increment(1),
+      updatedAt: timestamp,
+      ...(status === "succeeded" ? { completedAt: timestamp } : {}),
+    });
+    await orderRef.update({ refundStatus: status, updatedAt: timestamp });
+    await recordOrderEvent(orderId, {
+      type: "payment-changed",
+      actorId: actor.id,
+      actorRole: actor.role,
+      before: { refundStatus: refundData.status ?? null },
+      after: { refundStatus: status },
+      message: `Stripe refund ${status}`,
+      metadata: { stripeRefundId: refund.id, amount: refundData.amount ?? null },
+    });
+    return status;
+  } catch (error: any) {
+    logger.error(`Stripe refund failed for order ${orderId}:`, error);
+    await refundRef.update({
+      status: "failed",
+      error: error.message || "Stripe refund failed",
+      attempts: admin.firestore.FieldValue.increment(1),
+      updatedAt: timestamp,
+    });
+    await orderRef.update({ refundStatus: "failed", updatedAt: timestamp });
+    await recordOrderEvent(orderId, {
+      type: "payment-changed",
+      actorId: actor.id,
+      actorRole: actor.role,
+      before: { refundStatus: refundData.status ?? null },
+      after: { refundStatus: "failed" },
+      message: `Stripe refund failed: ${error.message || "unknown error"}`,
+    });
+    return "failed";
+  }
+}
+
+/**
+ * Notifies vendor, driver and customer about a cancellation
+ */
+async function notifyOrderCancelled(
+  orderId: string,
+  orderData: admin.firestore.DocumentData,
+  cancelledBy: string,
+  refundAmount: number | null
+): Promise<void> {
+  const formattedOrderId = formatOrderId(orderId, orderData);
+  const customerId = orderData.customerId ?? orderData.userId ?? null;
+
+  const recipients: Array<{ userId: string; event: string; title: string; body: string }> = [];
+
+  if (orderData.vendorId && orderData.vendorId !== cancelledBy) {
+    recipients.push({
+      userId: orderData.vendorId,
+      event: "order_cancelled",
+      title: "Order Cancelled",
+      body: `Order ${formattedOrderId} from ${orderData.customerName || "a customer"} has been cancelled.`,
+    });
+  }
+
+  if (orderData.driverId && orderData.driverId !== cancelledBy) {
+    recipients.push({
+      userId: orderData.driverId,
+      event: "delivery_cancelled",
+      title: "Delivery Cancelled",
+      body: `Order ${formattedOrderId} has been cancelled.`,
+    });
+  }
+
+  if (customerId && customerId !== cancelledBy) {
+    recipients.push({
+      userId: customerId,
+      event: "order_cancelled",
+      title: "❌ Order Cancelled",
+      body: `Your order ${formattedOrderId} has been cancelled.`,
+    });
+  }
+
+  if (customerId && refundAmount) {
+    recipients.push({
+      userId: customerId,
+      event: "refund_initiated",
+      title: "Refund Initiated",
+      body: `Refund of ${formatMoney(refundAmount, recordCurrency(orderData))} has been initiated for order ${formattedOrderId}`,
+    });
+  }
+
+  for (const recipient of recipients) {
+    const token = await getUserToken(recipient.userId);
+    if (token) {
+      await sendNotification([token], recipient.title, recipient.body, {
+        orderId,
+        event: recipient.event,
+      });
+    }
+    await logNotification(recipient.userId, recipient.event, recipient.title, recipient.body, token ? "sent" : "failed");
+  }
+}
+
+/**
+ * cancelOrder
+ * Cancels an order, reverses any COD ledger entries and refunds the customer.
+ * - Requires: auth.uid, orderId, reasonCode
+ * - Optional: note
+ * - Who may cancel depends on the order status (see CANCELLATION_POLICY)
+ * - Wallet holds are released and captured wallet payments are credited back
+ *   in the same transaction; card payments are refunded through Stripe
+ *   afterwards; other paid methods are flagged for manual refund
+ * - Returns: orderId, fromStatus, refund (method, amount, status) or null
+ */
+export const cancelOrder = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth || !request.auth.uid) {
+      throw new HttpsError("unauthenticated", "Authentication required");
+    }
+
+    const uid = request.auth.uid;
+    const { orderId, reasonCode, note } = request.data || {};
+
+    if (!orderId || typeof orderId !== "string") {
+      throw new HttpsError("invalid-argument", "orderId is required");
+    }
+    if (!isCancellationReasonCode(reasonCode)) {
+      throw new HttpsError("invalid-argument", `reasonCode must be one of: ${CANCELLATION_REASON_CODES.join(", ")}`);
+    }
+    const cancellationNote = typeof note === "string" && note.trim() ? note.trim() : null;
+    if (reasonCode === "other" && !cancellationNote) {
+      throw new HttpsError("invalid-argument", "A note is required when the reason is \"other\"");
+    }
+
+    const role = await getCancellationActorRole(uid);
+    if (!role) {
+      throw new HttpsError("permission-denied", "Approved account required");
+    }
+
+    const orderRef = db.collection("orders").doc(orderId);
+    const refundRef = db.collection("refunds").doc(orderId);
+
+    const outcome = await db.runTransaction(async (transaction) => {
+      const orderSnap = await transaction.get(orderRef);
+      if (!orderSnap.exists) {
+        throw new HttpsError("not-found", "Order not found");
+      }
+
+      const orderData = orderSnap.data() || {};
+      const currentStatus = normalizeOrderStatus(orderData);
+      if (!currentStatus) {
+        throw new HttpsError("failed-precondition", `Order has an unrecognized status: ${orderData.orderStatus}`);
+      }
+
+      const customerId = (orderData.customerId ?? orderData.userId ?? null) as string | null;
+      if (role === "vendor" && orderData.vendorId !== uid) {
+        throw new HttpsError("permission-denied", "Order does not belong to this vendor");
+      }
+      if (role === "customer" && customerId !== uid) {
+        throw new HttpsError("permission-denied", "Order does not belong to this customer");
+      }
+      if (!CANCELLATION_POLICY[role].includes(currentStatus)) {
+        throw new HttpsError(
+          "failed-precondition",
+          `A ${role} cannot cancel an order that is ${currentStatus}`
+        );
+      }
+
+      const [refundSnap, driverTxnSnap, vendorTxnSnap, redemptionSnap, walletHoldSnap] = await Promise.all([
+        transaction.get(refundRef),
+        transaction.get(db.collection("driverTransactions").where("orderId", "==", orderId)),
+        transaction.get(db.collection("vendorTransactions").where("orderId", "==", orderId)),
+        transaction.get(db.collection("couponRedemptions").doc(orderId)),
+        transaction.get(db.collection("walletHolds").doc(orderId)),
+      ]);
+      const walletHeld = walletHoldSnap.data()?.status === "held";
+
+      const timestamp = admin.firestore.FieldValue.serverTimestamp();
+      const refundMethod = refundSnap.exists ? null : resolveRefundMethod(orderData);
+      const refundAmount = refundMethod ? Number(orderData.totalAmount ?? orderData.total ?? 0) : 0;
+      const currency = recordCurrency(orderData);
+      const ledgerAccounts = await readLedgerAccounts(transaction, [
+        ...(orderData.driverId ? [driverCashAccountId(orderData.driverId)] : []),
+        ...(refundMethod === "wallet" && customerId ? [walletAccountId(customerId)] : []),
+        ...(walletHeld ? walletHoldAccountIds(walletHoldSnap.data()!.userId) : []),
+      ]);
+
+      // Reverse COD ledger entries created for this order
+      let cashToReturn = 0;
+      driverTxnSnap.docs.forEach((txnDoc) => {
+        const txn = txnDoc.data();
+        if (txn.status === "reversed") return;
+        if (txn.status === "pending-remittance") {
+          cashToReturn += Number(txn.netAmount ?? 0) - Number(txn.remittedAmount ?? 0);
+        }
+        transaction.update(txnDoc.ref, {
+          status: "reversed",
+          statusBeforeReversal: txn.status ?? null,
+          reversedAt: timestamp,
+          reversalReason: `order-cancelled:${reasonCode}`,
+          updatedAt: timestamp,
+        });
+      });
+      vendorTxnSnap.docs.forEach((txnDoc) => {
+        const txn = txnDoc.data();
+        if (txn.status === "reversed") return;
+        transaction.update(txnDoc.ref, {
+          status: "reversed",
+          statusBeforeReversal: txn.status ?? null,
+          reversedAt: timestamp,
+          reversalReason: `order-cancelled:${reasonCode}`,
+          updatedAt: timestamp,
+        });
+      });
+
+      // Give the coupon use back to the customer and the global limit
+      reverseCouponRedemption(transaction, redemptionSnap, `order-cancelled:${reasonCode}`);
+
+      // An uncaptured wallet payment goes back to the spendable balance
+      const walletReleased = settleWalletHold(transaction, ledgerAccounts, walletHoldSnap, "released", {
+        uid,
+        reason: `order-cancelled:${reasonCode}`,
+      });
+
+      if (orderData.driverId) {
+        const driverUpdate: Record<string, unknown> = {
+          status: orderData.batchId ? "busy" : "available",
+          updatedAt: timestamp,
+        };
+        transaction.update(db.collection("drivers").doc(orderData.driverId), driverUpdate);
+        if (cashToReturn > 0) {
+          postLedgerJournal(transaction, ledgerAccounts, {
+            journalId: `cod-reversal-${orderId}`,
+            reason: "cod-reversed",
+            currency,
+            createdBy: uid,
+            reference: { orderId, reasonCode },
+            legs: [
+              { accountId: driverCashAccountId(orderData.driverId), direction: "debit", amount: cashToReturn },
+              { accountId: "system:cod-clearing", direction: "credit", amount: cashToReturn },
+            ],
+          });
+        }
+      }
+
+      let refundStatus: string | null = null;
+      if (refundMethod && refundAmount > 0) {
+        refundStatus = refundMethod === "wallet" ? "succeeded" : refundMethod === "stripe" ? "pending" : "pending-manual";
+
+        transaction.set(refundRef, {
+          id: orderId,
+          orderId,
+          orderCode: orderData.orderCode ?? orderData.code ?? null,
+          customerId,
+          vendorId: orderData.vendorId ?? null,
+          amount: refundAmount,
+          currency,
+          method: refundMethod,
+          paymentIntentId: orderData.paymentIntentId ?? null,
+          status: refundStatus,
+          reasonCode,
+          note: cancellationNote,
+          requestedBy: uid,
+          requestedByRole: role,
+          attempts: 0,
+          createdAt: timestamp,
+          updatedAt: timestamp,
+          ...(refundStatus === "succeeded" ? { completedAt: timestamp } : {}),
+        });
+
+        if (refundMethod === "wallet" && customerId) {
+          postLedgerJournal(transaction, ledgerAccounts, {
+            journalId: `refund-${orderId}`,
+            reason: "order-refund",
+            currency,
+            createdBy: uid,
+            reference: { orderId },
+            legs: [
+              { accountId: "system:order-refunds", direction: "debit", amount: refundAmount },
+              { accountId: walletAccountId(customerId), direction: "credit", amount: refundAmount },
+            ],
+          });
+          transaction.set(db.collection("wallets").doc(customerId), { updatedBy: uid }, { merge: true });
+        }
+      }
+
+      const updatePayload: Record<string, unknown> = {
+        orderStatus: "cancelled",
+        status: "cancelled",
+        cancelledAt: timestamp,
+        updatedAt: timestamp,
+        cancellationReasonCode: reasonCode,
+        cancellationNote,
+        cancelledBy: uid,
+        cancelledByRole: role,
+        lastTransitionBy: uid,
+        lastTransitionRole: role,
+      };
+      if (orderData.driverId) {
+        updatePayload.driverStatus = "cancelled";
+      }
+      if (orderData.dispatchOfferId) {
+        transaction.update(db.collection("dispatchOffers").doc(orderData.dispatchOfferId), {
+          status: "superseded",
+          respondedAt: timestamp,
+          updatedAt: timestamp,
+        });
+        updatePayload.dispatchStatus = "cancelled";
+        updatePayload.dispatchOfferId = null;
+        updatePayload.dispatchDriverId = null;
+        updatePayload.dispatchOfferExpiresAt = null;
+      }
+      if (refundStatus) {
+        updatePayload.refundStatus = refundStatus;
+        updatePayload.paymentStatus = "refunded";
+      } else if (walletReleased) {
+        updatePayload.paymentStatus = "released";
+      }
+
+      transaction.update(orderRef, updatePayload);
+
+      const changedFields = Object.keys(updatePayload).filter(
+        (field) => !["updatedAt", "lastTransitionBy", "lastTransitionRole", "status"].includes(field)
+      );
+      recordOrderEvent(
+        orderId,
+        {
+          type: "status-changed",
+          actorId: uid,
+          actorRole: role,
+          before: pickOrderFields(orderData, changedFields),
+          after: Object.fromEntries(changedFields.map((field) => [field, updatePayload[field]])),
+          message: `${currentStatus} → cancelled`,
+          metadata: {
+            reasonCode,
+            ...(refundStatus ? { refundMethod, refundAmount } : {}),
+          },
+        },
+        transaction
+      );
+
+      return {
+        orderData,
+        fromStatus: currentStatus,
+        refund: refundStatus ? { method: refundMethod as RefundMethod, amount: refundAmount, currency, status: refundStatus } : null,
+      };
+    });
+
+    logger.info(`Order ${orderId} cancelled by ${role} ${uid} (${reasonCode}) from ${outcome.fromStatus}`);
+
+    let refund = outcome.refund;
+    if (refund?.method === "stripe") {
+      refund = { ...refund, status: await processStripeRefund(orderId, { id: uid, role }) };
+    }
+
+    try {
+      await notifyOrderCancelled(orderId, outcome.orderData, uid, refund ? refund.amount : null);
+    } catch (error) {
+      logger.error(`Error sending cancellation notifications for order ${orderId}:`, error);
+    }
+
+    return {
+      success: true,
+      orderId,
+      fromStatus: outcome.fromStatus,
+      refund,
+    };
+  }
+);
+
+/**
+ * retryOrderRefund
+ * Retries a failed Stripe refund for a cancelled order (admin only)
+ * - Requires: auth.uid (admin), orderId
+ * - Returns: orderId, status
+ */
+export const retryOrderRefund = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth || !request.auth.uid) {
+      throw new HttpsError("unauthenticated", "Authentication required");
+    }
+
+    const isAdmin = await verifyAdmin(request.auth.uid);
+    if (!isAdmin) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const { orderId } = request.data || {};
+    if (!orderId || typeof orderId !== "string") {
+      throw new HttpsError("invalid-argument", "orderId is required");
+    }
+
+    const status = await processStripeRefund(orderId, { id: request.auth.uid, role: "admin" });
+    logger.info(`Refund retry for order ${orderId} by ${request.auth.uid}: ${status}`);
+
+    return { success: status !== "failed", orderId, status };
+  }
+);
+
+// ============================================================================
+// DISPATCH (automatic driver offers)
+// ============================================================================
+
+interface DispatchSettings {
+  enabled: boolean;
+  offerTimeoutSeconds: number;
+  maxAttempts: number;
+  maxRadiusKm: number;
+  locationMaxAgeMinutes: number;
+  loadPenaltyKm: number;
+}
+
+const DEFAULT_DISPATCH_SETTINGS: DispatchSettings = {
+  enabled: true,
+  offerTimeoutSeconds: 60,
+  maxAttempts: 5,
+  maxRadiusKm: 15,
+  locationMaxAgeMinutes: 10,
+  loadPenaltyKm: 3,
+};
+
+interface DispatchCandidate {
+  driverId: string;
+  driverName: string;
+  distanceKm: number | null;
+  activeOrders: number;
+  score: number;
+}
+
+/**
+ * Reads dispatch settings from systemConfig/dispatch, falling back to defaults
+ */
+async function getDispatchSettings(): Promise<DispatchSettings> {
+  const settingsDoc = await db.collection("systemConfig").doc("dispatch").get();
+  const data = settingsDoc.data() || {};
+  const numberOr = (value: unknown, fallback: number) =>
+    typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+
+  return {
+    enabled: data.enabled !== false,
+    offerTimeoutSeconds: numberOr(data.offerTimeoutSeconds, DEFAULT_DISPATCH_SETTINGS.offerTimeoutSeconds),
+    maxAttempts: numberOr(data.maxAttempts, DEFAULT_DISPATCH_SETTINGS.maxAttempts),
+    maxRadiusKm: numberOr(data.maxRadiusKm, DEFAULT_DISPATCH_SETTINGS.maxRadiusKm),
+    locationMaxAgeMinutes: numberOr(data.locationMaxAgeMinutes, DEFAULT_DISPATCH_SETTINGS.locationMaxAgeMinutes),
+    loadPenaltyKm: numberOr(data.loadPenaltyKm, DEFAULT_DISPATCH_SETTINGS.loadPenaltyKm),
+  };
+}
+
+/**
+ * Extracts lat/lng from the address shapes stored on orders and vendors
+ */
+function extractCoordinates(value: any): { lat: number; lng: number } | null {
+  if (!value || typeof value !== "object") return null;
+  const lat = value.lat ?? value.latitude ?? value._latitude;
+  const lng = value.lng ?? value.lon ?? value.longitude ?? value._longitude;
+  if (typeof lat === "number" && typeof lng === "number") return { lat, lng };
+  return extractCoordinates(value.location ?? value.coordinates ?? value.geo);
+}
+
+/**
+ * Great-circle distance between two points in kilometres
+ */
+function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+/**
+ * Resolves the pickup point of an order: its pickupLocation, else the vendor's location
+ */
+async function getOrderPickupCoordinates(
+  orderData: admin.firestore.DocumentData
+): Promise<{ lat: number; lng: number } | null> {
+  const fromOrder = extractCoordinates(orderData.pickupLocation);
+  if (fromOrder) return fromOrder;
+  if (!orderData.vendorId) return null;
+  const vendorDoc = await db.collection("vendors").doc(orderData.vendorId).get();
+  const vendorData = vendorDoc.data();
+  return extractCoordinates(vendorData) ?? extractCoordinates(vendorData?.address);
+}
+
+/**
+ * Ranks available drivers for an order by proximity to the pickup and current load.
+ * Drivers without a recent location are ranked after those with one; drivers at
+ * their cash limit are left out of cash-on-delivery orders. Load is counted from a
+ * single query of assigned and en-route orders rather than one query per driver.
+ */
+async function findDispatchCandidates(
+  orderData: admin.firestore.DocumentData,
+  excludedDriverIds: string[],
+  settings: DispatchSettings
+): Promise<DispatchCandidate[]> {
+  const [driversSnap, pendingOffersSnap, pickup, cashLimits] = await Promise.all([
+    db.collection("drivers").where("status", "==", "available").get(),
+    db.collection("dispatchOffers").where("status", "==", "pending").get(),
+    getOrderPickupCoordinates(orderData),
+    getCashLimitSettings(),
+  ]);
+
+  const busyWithOffer = new Set(pendingOffersSnap.docs.map((offer) => offer.data().driverId));
+  const codOrder = isCashOnDeliveryOrder(orderData);
+  const driverDocs = driversSnap.docs.filter((driverDoc) => {
+    if (excludedDriverIds.includes(driverDoc.id) || busyWithOffer.has(driverDoc.id)) return false;
+    if (!codOrder) return true;
+    const driverData = driverDoc.data();
+    const limit = resolveDriverCashLimit(driverData, cashLimits);
+    return getCashLimitStatus(Number(driverData.cashOnHand ?? 0), limit, cashLimits) !== "over-limit";
+  });
+  if (driverDocs.length === 0) return [];
+
+  const userDocs = await db.getAll(...driverDocs.map((driverDoc) => db.collection("users").doc(driverDoc.id)));
+  const approvedIds = new Set(
+    userDocs.filter((userDoc) => userDoc.data()?.isApproved === true).map((userDoc) => userDoc.id)
+  );
+  const eligible = driverDocs.filter((driverDoc) => approvedIds.has(driverDoc.id));
+  if (eligible.length === 0) return [];
+
+  const [locationDocs, activeOrdersSnap] = await Promise.all([
+    db.getAll(...eligible.map((driverDoc) => db.collection("driverLocations").doc(driverDoc.id))),
+    db.collection("orders").where("orderStatus", "in", ["assigned", "enroute"]).get(),
+  ]);
+  const activeOrdersByDriver = new Map<string, number>();
+  activeOrdersSnap.docs.forEach((orderDoc) => {
+    const driverId = orderDoc.data().driverId;
+    if (driverId) activeOrdersByDriver.set(driverId, (activeOrdersByDriver.get(driverId) ?? 0) + 1);
+  });
+  const freshAfter = Date.now() - settings.locationMaxAgeMinutes * 60 * 1000;
+
+  const candidates = eligible.map((driverDoc, index): DispatchCandidate | null => {
+    const location = locationDocs[index].data();
+    const updatedAtMs = location?.updatedAt?.toMillis?.() ?? 0;
+    const coords = location && updatedAtMs >= freshAfter ? extractCoordinates(location) : null;
+    const distanceKm = pickup && coords ? haversineKm(pickup, coords) : null;
+    if (distanceKm !== null && distanceKm > settings.maxRadiusKm) return null;
+
+    const activeOrders = activeOrdersByDriver.get(driverDoc.id) ?? 0;
+    const unknownDistancePenalty = settings.maxRadiusKm * 2;
+    return {
+      driverId: driverDoc.id,
+      driverName: driverDoc.data().name || "Unknown Driver",
+      distanceKm,
+      activeOrders,
+      score: (distanceKm ?? unknownDistancePenalty) + activeOrders * settings.loadPenaltyKm,
+    };
+  });
+
+  return candidates
+    .filter((candidate): candidate is DispatchCandidate => candidate !== null)
+    .sort((a, b) => a.score - b.score);
+}
+
+/**
+ * Offers a ready order to the best remaining driver, or releases it to the
+ * open pool when dispatch is disabled, attempts are exhausted or nobody fits.
+ */
+async function offerOrderToNextDriver(orderId: string): Promise<void> {
+  const orderRef = db.collection("orders").doc(orderId);
+  const orderSnap = await orderRef.get();
+  const orderData = orderSnap.data();
+  if (!orderData || normalizeOrderStatus(orderData) !== "ready" || orderData.driverId) return;
+  if (orderData.dispatchStatus === "offering") return;
+
+  const settings = await getDispatchSettings();
+  const attempt = Number(orderData.dispatchAttempt ?? 0);
+  const excludedDriverIds: string[] = Array.isArray(orderData.dispatchExcludedDriverIds)
+    ? orderData.dispatchExcludedDriverIds
+    : [];
+
+  const candidates =
+    settings.enabled && attempt < settings.maxAttempts
+      ? await findDispatchCandidates(orderData, excludedDriverIds, settings)
+      : [];
+
+  const offerRef = db.collection("dispatchOffers").doc();
+  const offeredTo = await db.runTransaction(async (transaction): Promise<DispatchCandidate | null> => {
+    const [freshSnap, pendingOffersSnap] = await Promise.all([
+      transaction.get(orderRef),
+      transaction.get(db.collection("dispatchOffers").where("status", "==", "pending")),
+    ]);
+    const fresh = freshSnap.data();
+    if (!fresh || normalizeOrderStatus(fresh) !== "ready" || fresh.driverId || fresh.dispatchStatus === "offering") {
+      return null;
+    }
+    if (Number(fresh.dispatchAttempt ?? 0) !== attempt) return null;
+
+    // Another order may have offered to a candidate since they were ranked
+    const busyWithOffer = new Set(pendingOffersSnap.docs.map((offer) => offer.data().driverId));
+    const candidate = candidates.find((entry) => !busyWithOffer.has(entry.driverId)) ?? null;
+
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+
+    if (!candidate) {
+      if (fresh.dispatchStatus === "open-pool") return null;
+      transaction.update(orderRef, {
+        dispatchStatus: "open-pool",
+        dispatchOfferId: null,
+        dispatchDriverId: null,
+        dispatchOfferExpiresAt: null,
+        updatedAt: timestamp,
+      });
+      recordOrderEvent(
+        orderId,
+        {
+          type: "dispatch",
+          actorId: null,
+          actorRole: "system",
+          before: { dispatchStatus: fresh.dispatchStatus ?? null },
+          after: { dispatchStatus: "open-pool" },
+          message: settings.enabled ? "No driver accepted; released to open pool" : "Dispatch disabled; open pool",
+          metadata: { attempts: attempt },
+        },
+        transaction
+      );
+      return null;
+    }
+
+    const expiresAt = admin.firestore.Timestamp.fromMillis(Date.now() + settings.offerTimeoutSeconds * 1000);
+    transaction.set(offerRef, {
+      id: offerRef.id,
+      orderId,
+      orderCode: fresh.orderCode ?? fresh.code ?? null,
+      vendorId: fresh.vendorId ?? null,
+      vendorName: fresh.vendorName ?? null,
+      driverId: candidate.driverId,
+      driverName: candidate.driverName,
+      attempt: attempt + 1,
+      distanceKm: candidate.distanceKm,
+      activeOrders: candidate.activeOrders,
+      deliveryFee: fresh.deliveryFee ?? null,
+      totalAmount: fresh.totalAmount ?? null,
+      currency: recordCurrency(fresh),
+      pickupLocation: fresh.pickupLocation ?? null,
+      dropoffLocation: fresh.dropoffLocation ?? fresh.deliveryAddress ?? null,
+      status: "pending",
+      expiresAt,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    transaction.update(orderRef, {
+      dispatchStatus: "offering",
+      dispatchOfferId: offerRef.id,
+      dispatchDriverId: candidate.driverId,
+      dispatchOfferExpiresAt: expiresAt,
+      dispatchAttempt: attempt + 1,
+      updatedAt: timestamp,
+    });
+    recordOrderEvent(
+      orderId,
+      {
+        type: "dispatch",
+        actorId: null,
+        actorRole: "system",
+        before: { dispatchDriverId: fresh.dispatchDriverId ?? null },
+        after: { dispatchDriverId: candidate.driverId },
+        message: `Offered to ${candidate.driverName} (attempt ${attempt + 1})`,
+        metadata: { offerId: offerRef.id, distanceKm: candidate.distanceKm, activeOrders: candidate.activeOrders },
+      },
+      transaction
+    );
+    return candidate;
+  });
+
+  if (!offeredTo) return;
+
+  logger.info(`Order ${orderId} offered to driver ${offeredTo.driverId} (attempt ${attempt + 1})`);
+
+  const token = await getUserToken(offeredTo.driverId);
+  const title = "📦 New Delivery Offer";
+  const body = `Order ${formatOrderId(orderId, orderData)}${
+    offeredTo.distanceKm !== null ? ` · ${offeredTo.distanceKm.toFixed(1)} km away` : ""
+  } — respond within ${settings.offerTimeoutSeconds}s`;
+  if (token) {
+    await sendNotification([token], title, body, { orderId, offerId: offerRef.id, event: "dispatch_offer" });
+  }
+  await logNotification(offeredTo.driverId, "dispatch_offer", title, body, token ? "sent" : "failed");
+}
+
+/**
+ * Closes a pending offer (declined or expired) and moves the order on to the next driver
+ */
+async function closeDispatchOffer(offerId: string, outcome: "declined" | "expired", driverId?: string): Promise<boolean> {
+  const offerRef = db.collection("dispatchOffers").doc(offerId);
+
+  const orderId = await db.runTransaction(async (transaction) => {
+    const offerSnap = await transaction.get(offerRef);
+    const offer = offerSnap.data();
+    if (!offer || offer.status !== "pending") return null;
+    if (driverId && offer.driverId !== driverId) {
+      throw new HttpsError("permission-denied", "Offer belongs to another driver");
+    }
+
+    const orderRef = db.collection("orders").doc(offer.orderId);
+    const orderSnap = await transaction.get(orderRef);
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+
+    transaction.update(offerRef, { status: outcome, respondedAt: timestamp, updatedAt: timestamp });
+
+    if (orderSnap.exists && orderSnap.data()?.dispatchOfferId === offerId) {
+      transaction.update(orderRef, {
+        dispatchStatus: "pending",
+        dispatchOfferId: null,
+        dispatchDriverId: null,
+        dispatchOfferExpiresAt: null,
+        dispatchExcludedDriverIds: admin.firestore.FieldValue.arrayUnion(offer.driverId),
+        updatedAt: timestamp,
+      });
+      recordOrderEvent(
+        offer.orderId,
+        {
+          type: "dispatch",
+          actorId: outcome === "declined" ? offer.driverId : null,
+          actorRole: outcome === "declined" ? "driver" : "system",
+          before: { dispatchDriverId: offer.driverId },
+          after: { dispatchDriverId: null },
+          message: `Offer ${outcome} by ${offer.driverName || offer.driverId}`,
+          metadata: { offerId },
+        },
+        transaction
+      );
+      return offer.orderId as string;
+    }
+    return null;
+  });
+
+  if (orderId) {
+    await offerOrderToNextDriver(orderId);
+  }
+  return orderId !== null;
+}
+
+/**
+ * Starts dispatch when an order becomes ready
+ */
+export const onOrderReadyDispatch = onDocumentUpdated(
+  "orders/{orderId}",
+  async (event: FirestoreEvent<Change<admin.firestore.QueryDocumentSnapshot> | undefined>) => {
+    const orderId = event.params.orderId;
+    try {
+      if (!event.data?.before || !event.data?.after) return;
+      const beforeStatus = normalizeOrderStatus(event.data.before.data());
+      const afterStatus = normalizeOrderStatus(event.data.after.data());
+      if (beforeStatus === afterStatus || afterStatus !== "ready") return;
+
+      await offerOrderToNextDriver(orderId);
+    } catch (error) {
+      logger.error(`Error dispatching order ${orderId}:`, error);
+    }
+  }
+);
+
+/**
+ * respondToDispatchOffer
+ * Accepts or declines a dispatch offer for the signed-in driver
+ * - Requires: auth.uid (driver), offerId, accept (boolean)
+ * - Accepting assigns the order through the state machine
+ * - Accepting a cash-on-delivery order at the driver's cash limit declines it instead
+ * - Returns: result "accepted" | "declined" | "expired" | "cash-limit" | "unavailable"
+ */
+export const respondToDispatchOffer = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    if (role !== "driver") {
+      throw new HttpsError("permission-denied", "Only drivers can respond to dispatch offers");
+    }
+
+    const { offerId, accept } = request.data || {};
+    if (!offerId || typeof offerId !== "string") {
+      throw new HttpsError("invalid-argument", "offerId is required");
+    }
+
+    const offerSnap = await db.collection("dispatchOffers").doc(offerId).get();
+    const offer = offerSnap.data();
+    if (!offer) {
+      throw new HttpsError("not-found", "Offer not found");
+    }
+    if (offer.driverId !== uid) {
+      throw new HttpsError("permission-denied", "Offer belongs to another driver");
+    }
+    if (offer.status !== "pending") {
+      return { success: false, offerId, orderId: offer.orderId, result: "unavailable" };
+    }
+
+    if (offer.expiresAt?.toMillis?.() <= Date.now()) {
+      await closeDispatchOffer(offerId, "expired");
+      return { success: false, offerId, orderId: offer.orderId, result: "expired" };
+    }
+
+    if (accept !== true) {
+      await closeDispatchOffer(offerId, "declined", uid);
+      return { success: true, offerId, orderId: offer.orderId, result: "declined" };
+    }
+
+    try {
+      await runOrderTransition(uid, role, { orderId: offer.orderId, toStatus: "assigned" });
+      logger.info(`Driver ${uid} accepted dispatch offer ${offerId} for order ${offer.orderId}`);
+      return { success: true, offerId, orderId: offer.orderId, result: "accepted" };
+    } catch (error) {
+      if (error instanceof HttpsError && (error.details as { reason?: string } | undefined)?.reason === "cash-limit-reached") {
+        await closeDispatchOffer(offerId, "declined", uid);
+        return { success: false, offerId, orderId: offer.orderId, result: "cash-limit", message: error.message };
+      }
+      if (error instanceof HttpsError && error.code === "failed-precondition") {
+        return { success: false, offerId, orderId: offer.orderId, result: "unavailable" };
+      }
+      throw error;
+    }
+  }
+);
+
+/**
+ * Expires unanswered dispatch offers and cascades their orders to the next driver
+ */
+export const expireDispatchOffers = onSchedule(
+  { schedule: "every 1 minutes", region: "us-central1" },
+  async () => {
+    const pendingSnap = await db.collection("dispatchOffers").where("status", "==", "pending").get();
+    const now = Date.now();
+    const expired = pendingSnap.docs.filter((offerDoc) => (offerDoc.data().expiresAt?.toMillis?.() ?? 0) <= now);
+
+    for (const offerDoc of expired) {
+      try {
+        await closeDispatchOffer(offerDoc.id, "expired");
+      } catch (error) {
+        logger.error(`Error expiring dispatch offer ${offerDoc.id}:`, error);
+      }
+    }
+
+    if (expired.length > 0) {
+      logger.info(`Expired ${expired.length} dispatch offer(s)`);
+    }
+  }
+);
+
+// ============================================================================
+// SCHEDULED ORDERS
+// ============================================================================
+
+const DEFAULT_SCHEDULED_RELEASE_LEAD_MINUTES = 60;
+
+/**
+ * Minutes before scheduledFor at which a scheduled order is released,
+ * read from systemConfig/scheduling
+ */
+async function getScheduledReleaseLeadMinutes(): Promise<number> {
+  const settingsDoc = await db.collection("systemConfig").doc("scheduling").get();
+  const value = settingsDoc.data()?.releaseLeadMinutes;
+  return typeof value === "number" && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_SCHEDULED_RELEASE_LEAD_MINUTES;
+}
+
+/**
+ * Moves a scheduled order into the live flow (scheduled → available)
+ */
+async function releaseScheduledOrder(orderId: string): Promise<boolean> {
+  const orderRef = db.collection("orders").doc(orderId);
+
+  const released = await db.runTransaction(async (transaction) => {
+    const orderSnap = await transaction.get(orderRef);
+    const orderData = orderSnap.data();
+    if (!orderData || normalizeOrderStatus(orderData) !== "scheduled") return null;
+
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+    transaction.update(orderRef, {
+      orderStatus: "available",
+      status: "available",
+      availableAt: timestamp,
+      releasedAt: timestamp,
+      updatedAt: timestamp,
+      lastTransitionBy: null,
+      lastTransitionRole: "system",
+    });
+    recordOrderEvent(
+      orderId,
+      {
+        type: "status-changed",
+        actorId: null,
+        actorRole: "system",
+        before: { orderStatus: "scheduled" },
+        after: { orderStatus: "available" },
+        message: "scheduled → available (released)",
+        metadata: { scheduledFor: orderData.scheduledFor ?? null },
+      },
+      transaction
+    );
+    return orderData;
+  });
+
+  if (!released) return false;
+
+  if (released.vendorId) {
+    const token = await getUserToken(released.vendorId);
+    const title = "⏰ Scheduled Order Released";
+    const body = `Order ${formatOrderId(orderId, released)} is due soon and is now in your active orders.`;
+    if (token) {
+      await sendNotification([token], title, body, { orderId, event: "scheduled_order_released" });
+    }
+    await logNotification(released.vendorId, "scheduled_order_released", title, body, token ? "sent" : "failed");
+  }
+  return true;
+}
+
+/**
+ * Releases scheduled orders whose scheduledFor is within the configured lead time
+ */
+export const releaseScheduledOrders = onSchedule(
+  { schedule: "every 5 minutes", region: "us-central1" },
+  async () => {
+    const leadMinutes = await getScheduledReleaseLeadMinutes();
+    const releaseBefore = Date.now() + leadMinutes * 60 * 1000;
+
+    const scheduledSnap = await db.collection("orders").where("orderStatus", "==", "scheduled").get();
+    const due = scheduledSnap.docs.filter((orderDoc) => {
+      const scheduledFor = orderDoc.data().scheduledFor;
+      const scheduledMs = scheduledFor?.toMillis?.() ?? (scheduledFor ? new Date(scheduledFor).getTime() : 0);
+      return scheduledMs <= releaseBefore;
+    });
+
+    let releasedCount = 0;
+    for (const orderDoc of due) {
+      try {
+        if (await releaseScheduledOrder(orderDoc.id)) releasedCount++;
+      } catch (error) {
+        logger.error(`Error releasing scheduled order ${orderDoc.id}:`, error);
+      }
+    }
+
+    if (releasedCount > 0) {
+      logger.info(`Released ${releasedCount} scheduled order(s) (lead ${leadMinutes} min)`);
+    }
+  }
+);
+
+// ============================================================================
+// DRIVER CASH LIMITS (COD cash on hand)
+// ============================================================================
+
+interface CashLimitSettings {
+  /** Cash a driver may hold before remitting; 0 disables the limit */
+  defaultLimit: number;
+  /** Share of the limit at which drivers are warned */
+  warningPercent: number;
+  /** Market currency the limits are set in */
+  currency: string;
+}
+
+const DEFAULT_CASH_LIMIT_SETTINGS: Omit<CashLimitSettings, "currency"> = {
+  defaultLimit: 500,
+  warningPercent: 80,
+};
+
+type CashLimitStatus = "ok" | "near-limit" | "over-limit";
+
+/**
+ * Reads cash limit settings from systemConfig/cashLimits, falling back to defaults
+ */
+async function getCashLimitSettings(transaction?: admin.firestore.Transaction): Promise<CashLimitSettings> {
+  const settingsRef = db.collection("systemConfig").doc("cashLimits");
+  const settingsDoc = transaction ? await transaction.get(settingsRef) : await settingsRef.get();
+  const data = settingsDoc.data() || {};
+  const { defaultLimit, warningPercent } = data;
+
+  return {
+    defaultLimit:
+      typeof defaultLimit === "number" && Number.isFinite(defaultLimit) && defaultLimit >= 0
+        ? defaultLimit
+        : DEFAULT_CASH_LIMIT_SETTINGS.defaultLimit,
+    warningPercent:
+      typeof warningPercent === "number" && warningPercent > 0 && warningPercent <= 100
+        ? warningPercent
+        : DEFAULT_CASH_LIMIT_SETTINGS.warningPercent,
+    currency: await getDefaultCurrency(transaction),
+  };
+}
+
+/**
+ * The driver's own cash limit when an admin set one, else the global limit
+ */
+function resolveDriverCashLimit(
+  driverData: admin.firestore.DocumentData | undefined,
+  settings: CashLimitSettings
+): number {
+  const override = driverData?.cashLimit;
+  return typeof override === "number" && Number.isFinite(override) && override >= 0
+    ? override
+    : settings.defaultLimit;
+}
+
+function getCashLimitStatus(cashOnHand: number, limit: number, settings: CashLimitSettings): CashLimitStatus {
+  if (!(limit > 0)) return "ok";
+  if (cashOnHand >= limit) return "over-limit";
+  if (cashOnHand >= (limit * settings.warningPercent) / 100) return "near-limit";
+  return "ok";
+}
+
+function isCashOnDeliveryOrder(orderData: admin.firestore.DocumentData): boolean {
+  return (orderData.paymentMethod ?? orderData.payment?.method ?? "").toString().toLowerCase() === "cash-on-delivery";
+}
+
+/**
+ * Blocks a driver at their cash limit from taking another cash-on-delivery order
+ */
+function assertDriverUnderCashLimit(
+  driverData: admin.firestore.DocumentData | undefined,
+  settings: CashLimitSettings
+): void {
+  const cashOnHand = roundMoney(Number(driverData?.cashOnHand ?? 0), settings.currency);
+  const limit = resolveDriverCashLimit(driverData, settings);
+  if (getCashLimitStatus(cashOnHand, limit, settings) === "over-limit") {
+    throw new HttpsError(
+      "failed-precondition",
+      `Cash on hand of ${formatMoney(cashOnHand, settings.currency)} has reached the ${formatMoney(limit, settings.currency)} limit. Remit collected cash before taking more cash-on-delivery orders.`,
+      { reason: "cash-limit-reached", cashOnHand, limit }
+    );
+  }
+}
+
+const CASH_LIMIT_NOTIFICATIONS: Record<CashLimitStatus, { title: string; body: (limit: string) => string }> = {
+  ok: {
+    title: "✅ Cash limit cleared",
+    body: () => "You are back under your cash limit and can take cash-on-delivery orders again.",
+  },
+  "near-limit": {
+    title: "⚠️ Nearing your cash limit",
+    body: (limit) => `You are close to your ${limit} cash limit. Remit collected cash soon.`,
+  },
+  "over-limit": {
+    title: "⛔ Cash limit reached",
+    body: (limit) =>
+      `You hold ${limit} or more in cash. Remit it to take more cash-on-delivery orders.`,
+  },
+};
+
+/**
+ * Stores the driver's effective limit and status, and notifies them when the status changes
+ */
+async function syncDriverCashLimitStatus(
+  driverId: string,
+  driverData: admin.firestore.DocumentData,
+  settings: CashLimitSettings
+): Promise<void> {
+  const limit = resolveDriverCashLimit(driverData, settings);
+  const status = getCashLimitStatus(Number(driverData.cashOnHand ?? 0), limit, settings);
+  const previousStatus = (driverData.cashLimitStatus ?? "ok") as CashLimitStatus;
+  if (status === previousStatus && driverData.effectiveCashLimit === limit) return;
+
+  const update: Record<string, unknown> = { cashLimitStatus: status, effectiveCashLimit: limit };
+  if (status !== previousStatus) {
+    update.cashLimitStatusChangedAt = admin.firestore.FieldValue.serverTimestamp();
+  }
+  await db.collection("drivers").doc(driverId).update(update);
+  if (status === previousStatus) return;
+
+  logger.info(`Driver ${driverId} cash limit status ${previousStatus} → ${status} (limit ${limit})`);
+  const { title, body } = CASH_LIMIT_NOTIFICATIONS[status];
+  const message = body(formatMoney(limit, settings.currency));
+  const token = await getUserToken(driverId);
+  if (token) {
+    await sendNotification([token], title, message, { event: "cash_limit", status });
+  }
+  await logNotification(driverId, "cash_limit", title, message, token ? "sent" : "failed");
+}
+
+/**
+ * Re-evaluates a driver's cash limit status when their cash on hand or override changes.
+ * Confirmed remittances lower cash on hand, which clears the block here.
+ */
+export const onDriverCashChanged = onDocumentUpdated(
+  "drivers/{driverId}",
+  async (event: FirestoreEvent<Change<admin.firestore.QueryDocumentSnapshot> | undefined>) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+    if (!beforeData || !afterData) return;
+    if (beforeData.cashOnHand === afterData.cashOnHand && beforeData.cashLimit === afterData.cashLimit) return;
+
+    try {
+      await syncDriverCashLimitStatus(event.params.driverId, afterData, await getCashLimitSettings());
+    } catch (error) {
+      logger.error(`Error updating cash limit status of driver ${event.params.driverId}:`, error);
+    }
+  }
+);
+
+/**
+ * Re-evaluates every driver holding cash when the global cash limit settings change
+ */
+export const onCashLimitSettingsChanged = onDocumentWritten(
+  "systemConfig/cashLimits",
+  async () => {
+    const settings = await getCashLimitSettings();
+    const driversSnap = await db.collection("drivers").where("cashOnHand", ">", 0).get();
+
+    for (const driverDoc of driversSnap.docs) {
+      try {
+        await syncDriverCashLimitStatus(driverDoc.id, driverDoc.data(), settings);
+      } catch (error) {
+        logger.error(`Error updating cash limit status of driver ${driverDoc.id}:`, error);
+      }
+    }
+  }
+);
+
+// ============================================================================
+// COD REMITTANCE (batches)
+// ============================================================================
+
+const MAX_REMITTANCE_TRANSACTIONS = 50;
+
+interface RemittanceItem {
+  driverTransactionId: string;
+  vendorTransactionId: string | null;
+  orderId: string | null;
+  orderCode: string | null;
+  /** Cash still owed on the transaction before this remittance */
+  outstandingAmount: number;
+  /** Part of the cash received applied to the transaction */
+  appliedAmount: number;
+  settled: boolean;
+}
+
+/**
+ * remitCodBatch
+ * Settles several pending COD transactions of one driver and vendor with a
+ * single signature. The cash received is applied oldest first: covered
+ * transactions are settled (driver: `remitted`, vendor: `reconciled`), a
+ * partly covered one stays pending with its `remittedAmount`, and the gap
+ * between received and owed is recorded as the batch's `discrepancy`.
+ * - Requires: auth.uid (driver or vendor of the transactions), remittanceId
+ *   (generated once per submission by the client; an ID already used is
+ *   rejected), driverTransactionIds, amountReceived, signatureUrl/Path
+ *   (uploaded beforehand)
+ * - Optional: note
+ * - Returns: remittanceId, expectedAmount, appliedAmount, discrepancy, settledCount
+ */
+export const remitCodBatch = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    if (role === "admin") {
+      throw new HttpsError("permission-denied", "Only the driver or vendor can remit cash");
+    }
+
+    const { remittanceId, driverTransactionIds, amountReceived, signatureUrl, signaturePath, note } =
+      request.data || {};
+    if (!remittanceId || typeof remittanceId !== "string") {
+      throw new HttpsError("invalid-argument", "remittanceId is required");
+    }
+    if (!Array.isArray(driverTransactionIds)) {
+      throw new HttpsError("invalid-argument", "driverTransactionIds must be an array");
+    }
+    const transactionIds = Array.from(
+      new Set(driverTransactionIds.filter((id): id is string => typeof id === "string" && id.trim() !== ""))
+    );
+    if (transactionIds.length === 0 || transactionIds.length > MAX_REMITTANCE_TRANSACTIONS) {
+      throw new HttpsError(
+        "invalid-argument",
+        `A remittance covers between 1 and ${MAX_REMITTANCE_TRANSACTIONS} transactions`
+      );
+    }
+    const received = roundMoney(Number(amountReceived));
+    if (!Number.isFinite(received) || received <= 0) {
+      throw new HttpsError("invalid-argument", "amountReceived must be a positive number");
+    }
+    if (!signatureUrl || typeof signatureUrl !== "string") {
+      throw new HttpsError("invalid-argument", "A signature is required");
+    }
+
+    const remittanceRef = db.collection("codRemittances").doc(remittanceId);
+    const driverTxnRefs = transactionIds.map((id) => db.collection("driverTransactions").doc(id));
+
+    const result = await db.runTransaction(async (transaction) => {
+      const existing = await transaction.get(remittanceRef);
+      if (existing.exists) {
+        throw new HttpsError("already-exists", "This remittance has already been recorded", {
+          reason: "remittance-exists",
+        });
+      }
+
+      const driverTxnSnaps = await transaction.getAll(...driverTxnRefs);
+      if (driverTxnSnaps.some((snap) => !snap.exists)) {
+        throw new HttpsError("not-found", "One or more transactions were not found");
+      }
+      const first = driverTxnSnaps[0].data();
+      const driverId = first?.driverId as string | undefined;
+      const vendorId = first?.vendorId as string | undefined;
+      const currency = recordCurrency(first);
+
+      for (const snap of driverTxnSnaps) {
+        const data = snap.data() || {};
+        if (data.type !== "cash-on-delivery" || data.status !== "pending-remittance") {
+          throw new HttpsError("failed-precondition", `Transaction ${snap.id} is not awaiting remittance`);
+        }
+        if (data.driverId !== driverId || data.vendorId !== vendorId) {
+          throw new HttpsError("invalid-argument", "All transactions must be between the same driver and vendor");
+        }
+        if (recordCurrency(data) !== currency) {
+          throw new HttpsError("invalid-argument", "All transactions must be in the same currency");
+        }
+      }
+      if (!driverId || !vendorId) {
+        throw new HttpsError("failed-precondition", "Transactions are missing their driver or vendor");
+      }
+      if ((role === "driver" && driverId !== uid) || (role === "vendor" && vendorId !== uid)) {
+        throw new HttpsError("permission-denied", "These transactions do not belong to you");
+      }
+
+      const vendorTxnRefs = driverTxnSnaps.map((snap) =>
+        db.collection("vendorTransactions").doc(snap.data()?.vendorTransactionId || snap.id)
+      );
+      const [vendorTxnSnaps, ledgerAccounts] = await Promise.all([
+        transaction.getAll(...vendorTxnRefs),
+        readLedgerAccounts(transaction, [driverCashAccountId(driverId)]),
+      ]);
+
+      const ordered = driverTxnSnaps
+        .map((snap, index) => ({ snap, vendorSnap: vendorTxnSnaps[index] }))
+        .sort((a, b) => (toMillis(a.snap.data()?.createdAt) ?? 0) - (toMillis(b.snap.data()?.createdAt) ?? 0));
+
+      let remaining = roundMoney(received, currency);
+      const items: RemittanceItem[] = ordered.map(({ snap, vendorSnap }) => {
+        const data = snap.data() || {};
+        const outstandingAmount = roundMoney(Number(data.netAmount ?? 0) - Number(data.remittedAmount ?? 0), currency);
+        const appliedAmount = roundMoney(Math.min(Math.max(outstandingAmount, 0), remaining), currency);
+        remaining = roundMoney(remaining - appliedAmount, currency);
+        return {
+          driverTransactionId: snap.id,
+          vendorTransactionId: vendorSnap.exists ? vendorSnap.id : null,
+          orderId: data.orderId ?? null,
+          orderCode: data.orderCode ?? null,
+          outstandingAmount,
+          appliedAmount,
+          settled: appliedAmount >= outstandingAmount,
+        };
+      });
+
+      const expectedAmount = roundMoney(items.reduce((sum, item) => sum + item.outstandingAmount, 0), currency);
+      const appliedAmount = roundMoney(items.reduce((sum, item) => sum + item.appliedAmount, 0), currency);
+      if (!(appliedAmount > 0)) {
+        throw new HttpsError("failed-precondition", "Nothing is outstanding on these transactions");
+      }
+      const discrepancy = roundMoney(received - expectedAmount, currency);
+      const timestamp = admin.firestore.FieldValue.serverTimestamp();
+      const settledStatus = role === "vendor" ? "reconciled" : "remitted";
+      const signatureFields =
+        role === "vendor"
+          ? {
+            vendorConfirmedAt: timestamp,
+            vendorConfirmedBy: uid,
+            vendorConfirmationSignatureUrl: signatureUrl,
+            vendorConfirmationSignaturePath: signaturePath ?? null,
+          }
+          : {
+            remittedAt: timestamp,
+            remittedBy: uid,
+            remittanceSignatureUrl: signatureUrl,
+            remittanceSignaturePath: signaturePath ?? null,
+          };
+
+      ordered.forEach(({ snap, vendorSnap }, index) => {
+        const item = items[index];
+        if (item.appliedAmount <= 0) return;
+        const update: Record<string, unknown> = {
+          remittedAmount: roundMoney(Number(snap.data()?.remittedAmount ?? 0) + item.appliedAmount, currency),
+          remittanceIds: admin.firestore.FieldValue.arrayUnion(remittanceId),
+          updatedAt: timestamp,
+        };
+        if (item.settled) {
+          Object.assign(update, signatureFields, { status: settledStatus, settledByRemittanceId: remittanceId });
+        }
+        transaction.update(snap.ref, update);
+        if (vendorSnap.exists) {
+          transaction.update(vendorSnap.ref, item.settled ? { ...update, status: settledStatus } : update);
+        }
+      });
+
+      // The driver no longer holds the cash that was handed over
+      const journalId = postLedgerJournal(transaction, ledgerAccounts, {
+        journalId: `cod-remittance-batch-${remittanceId}`,
+        reason: "cod-remitted",
+        currency,
+        createdBy: uid,
+        reference: { remittanceId },
+        legs: [
+          { accountId: driverCashAccountId(driverId), direction: "debit", amount: appliedAmount },
+          { accountId: "system:cod-clearing", direction: "credit", amount: appliedAmount },
+        ],
+      });
+
+      transaction.set(remittanceRef, {
+        id: remittanceId,
+        driverId,
+        driverName: vendorTxnSnaps[0].data()?.driverName ?? null,
+        vendorId,
+        vendorName: first?.vendorName ?? null,
+        driverTransactionIds: items.map((item) => item.driverTransactionId),
+        items,
+        expectedAmount,
+        amountReceived: received,
+        appliedAmount,
+        discrepancy,
+        status: discrepancy === 0 ? "settled" : "discrepancy",
+        currency,
+        signatureUrl,
+        signaturePath: signaturePath ?? null,
+        note: typeof note === "string" && note.trim() ? note.trim() : null,
+        journalId,
+        submittedBy: uid,
+        submittedByRole: role,
+        createdAt: timestamp,
+      });
+
+      return {
+        expectedAmount,
+        appliedAmount,
+        discrepancy,
+        settledCount: items.filter((item) => item.settled).length,
+      };
+    });
+
+    logger.info(
+      `COD remittance ${remittanceId} by ${role} ${uid}: ${transactionIds.length} transaction(s), discrepancy ${result.discrepancy}`
+    );
+    return { success: true, remittanceId, ...result };
+  }
+);
+
+// ============================================================================
+// DRIVER EARNINGS (compensation per delivery)
+// ============================================================================
+
+/**
+ * Drivers earn on every delivered order, whatever the payment method:
+ * a share of the delivery fee, the whole tip, and optional per-km (pickup to
+ * drop-off, straight line) and per-minute (pickup to delivery) components.
+ * Rates come from systemConfig/driverCompensation. Each delivery writes one
+ * driverEarnings/{orderId} entry, which payout runs later claim.
+ */
+interface DriverCompensationSettings {
+  /** Percentage of the delivery fee paid to the driver (e.g. 80 = 80%) */
+  deliveryFeeSharePercent: number;
+  perKmRate: number;
+  perMinuteRate: number;
+}
+
+const DEFAULT_DRIVER_COMPENSATION: DriverCompensationSettings = {
+  deliveryFeeSharePercent: 100,
+  perKmRate: 0,
+  perMinuteRate: 0,
+};
+
+/**
+ * Reads driver compensation rates from systemConfig/driverCompensation, falling back to defaults
+ */
+async function getDriverCompensationSettings(
+  transaction?: admin.firestore.Transaction
+): Promise<DriverCompensationSettings> {
+  const settingsRef = db.collection("systemConfig").doc("driverCompensation");
+  const settingsDoc = transaction ? await transaction.get(settingsRef) : await settingsRef.get();
+  const data = settingsDoc.data() || {};
+  const read = (key: keyof DriverCompensationSettings) =>
+    typeof data[key] === "number" && Number.isFinite(data[key]) && data[key] >= 0
+      ? data[key]
+      : DEFAULT_DRIVER_COMPENSATION[key];
+  return {
+    deliveryFeeSharePercent: Math.min(read("deliveryFeeSharePercent"), 100),
+    perKmRate: read("perKmRate"),
+    perMinuteRate: read("perMinuteRate"),
+  };
+}
+
+/**
+ * Trip distance (pickup to drop-off) and duration (pickup to now) of a delivery,
+ * null where the order lacks the coordinates or pickup time
+ */
+async function measureDelivery(
+  orderData: admin.firestore.DocumentData
+): Promise<{ distanceKm: number | null; durationMinutes: number | null }> {
+  const pickup = await getOrderPickupCoordinates(orderData);
+  const dropoff = extractCoordinates(orderData.dropoffLocation) ?? extractCoordinates(orderData.deliveryAddress);
+  const pickedUpMs = toMillis(orderData.pickedUpAt);
+  return {
+    distanceKm: pickup && dropoff ? Math.round(haversineKm(pickup, dropoff) * 100) / 100 : null,
+    durationMinutes: pickedUpMs ? Math.max(Math.round((Date.now() - pickedUpMs) / 60000), 0) : null,
+  };
+}
+
+/**
+ * Splits a delivered order's total between the vendor and the delivery side.
+ * The vendor's gross is what the customer paid for its items (after the item
+ * discount, plus exclusive item tax, which the vendor remits) and its net is
+ * that less commission. The rest (delivery fee, delivery tax and driver tip)
+ * funds the driver's earning, so it never reaches the vendor. Computed in
+ * minor units: grossAmount + deliveryAmount is exactly the order total, and
+ * itemTaxAmount is the part of grossAmount that is item tax.
+ */
+function computeVendorShare(orderData: admin.firestore.DocumentData): {
+  grossAmount: number;
+  itemTaxAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+  deliveryAmount: number;
+} {
+  const currency = recordCurrency(orderData);
+  const minor = (value: unknown) => toMinorUnits(Number(value ?? 0) || 0, currency);
+  const totalMinor = Math.max(minor(orderData.totalAmount ?? orderData.total), 0);
+
+  let grossMinor: number;
+  let itemTaxMinor = 0;
+  if (orderData.subtotal === undefined || orderData.subtotal === null) {
+    // Orders priced before the breakdown was stored
+    grossMinor = totalMinor - minor(orderData.deliveryFee) - minor(orderData.driverTip);
+  } else {
+    // Without the stored quote the whole discount is taken as an item discount
+    const coupon = orderData.pricing?.coupon;
+    let itemDiscountMinor = minor(orderData.discountAmount);
+    if (orderData.pricing) itemDiscountMinor = coupon?.applied ? minor(coupon.itemDiscount) : 0;
+
+    // Included tax is already in the subtotal; delivery tax belongs to the delivery side
+    const tax = orderData.tax;
+    if (!tax?.pricesIncludeTax) {
+      itemTaxMinor = Array.isArray(tax?.lines)
+        ? tax.lines
+            .filter((line: OrderTaxLine) => line.kind === "items")
+            .reduce((sum: number, line: OrderTaxLine) => sum + (line.minorUnits?.taxAmount ?? minor(line.taxAmount)), 0)
+        : minor(orderData.taxAmount);
+    }
+    grossMinor = minor(orderData.subtotal) - itemDiscountMinor + itemTaxMinor;
+  }
+  grossMinor = Math.min(Math.max(grossMinor, 0), totalMinor);
+  const commissionMinor = Math.min(Math.max(minor(orderData.commissionFee ?? orderData.platformFee), 0), grossMinor);
+
+  return {
+    grossAmount: fromMinorUnits(grossMinor, currency),
+    itemTaxAmount: fromMinorUnits(Math.min(Math.max(itemTaxMinor, 0), grossMinor), currency),
+    commissionAmount: fromMinorUnits(commissionMinor, currency),
+    netAmount: fromMinorUnits(grossMinor - commissionMinor, currency),
+    deliveryAmount: fromMinorUnits(totalMinor - grossMinor, currency),
+  };
+}
+
+/**
+ * Builds the driverEarnings entry for a delivered order
+ */
+function buildDriverEarning(
+  orderId: string,
+  orderData: admin.firestore.DocumentData,
+  driverId: string,
+  settings: DriverCompensationSettings,
+  trip: { distanceKm: number | null; durationMinutes: number | null }
+): Record<string, unknown> {
+  const currency = recordCurrency(orderData);
+  const deliveryFee = Number(orderData.deliveryFee ?? 0);
+  const deliveryFeeEarning = roundMoney((deliveryFee * settings.deliveryFeeSharePercent) / 100, currency);
+  const tipEarning = roundMoney(Number(orderData.driverTip ?? 0), currency);
+  const distanceEarning = roundMoney((trip.distanceKm ?? 0) * settings.perKmRate, currency);
+  const timeEarning = roundMoney((trip.durationMinutes ?? 0) * settings.perMinuteRate, currency);
+  const totalAmount = roundMoney(deliveryFeeEarning + tipEarning + distanceEarning + timeEarning, currency);
+
+  return {
+    id: orderId,
+    driverId,
+    orderId,
+    orderCode: orderData.orderCode ?? orderData.code ?? null,
+    vendorId: orderData.vendorId ?? null,
+    vendorName: orderData.vendorName ?? null,
+    batchId: orderData.batchId ?? null,
+    paymentMethod: orderData.paymentMethod ?? orderData.payment?.method ?? null,
+    currency,
+    deliveryFee,
+    deliveryFeeSharePercent: settings.deliveryFeeSharePercent,
+    deliveryFeeEarning,
+    tipEarning,
+    distanceKm: trip.distanceKm,
+    perKmRate: settings.perKmRate,
+    distanceEarning,
+    durationMinutes: trip.durationMinutes,
+    perMinuteRate: settings.perMinuteRate,
+    timeEarning,
+    totalAmount,
+    minorUnits: minorUnitsOf({ deliveryFeeEarning, tipEarning, distanceEarning, timeEarning, totalAmount }, currency),
+    payoutId: null,
+  };
+}
+
+// ============================================================================
+// DELIVERY BATCHES (multi-order trips)
+// ============================================================================
+
+const MAX_BATCH_ORDERS = 5;
+
+type BatchStopType = "pickup" | "dropoff";
+type BatchStopStatus = "pending" | "completed" | "skipped";
+
+interface BatchStop {
+  id: string;
+  sequence: number;
+  type: BatchStopType;
+  orderIds: string[];
+  vendorId: string | null;
+  label: string;
+  address: unknown;
+  status: BatchStopStatus;
+  completedAt: admin.firestore.Timestamp | null;
+}
+
+interface BatchOrderSummary {
+  orderId: string;
+  orderCode: string;
+  vendorId: string | null;
+  paymentMethod: string | null;
+  orderStatus: string;
+  deliveryFee: number;
+  driverTip: number;
+  earnings: number;
+}
+
+type Coordinates = { lat: number; lng: number };
+
+/**
+ * Greedy nearest-neighbour ordering from a starting point.
+ * Items without coordinates keep their input order at the end.
+ */
+function sortByProximity<T extends { coords: Coordinates | null }>(start: Coordinates | null, items: T[]): T[] {
+  const remaining = items.filter((item) => item.coords);
+  const sorted: T[] = [];
+  let current = start;
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    if (current) {
+      const origin = current;
+      remaining.forEach((item, index) => {
+        if (haversineKm(origin, item.coords!) < haversineKm(origin, remaining[bestIndex].coords!)) {
+          bestIndex = index;
+        }
+      });
+    }
+    const [next] = remaining.splice(bestIndex, 1);
+    sorted.push(next);
+    current = next.coords;
+  }
+  return sorted.concat(items.filter((item) => !item.coords));
+}
+
+/**
+ * Builds the stop list for a batch: one pickup per vendor, then one drop-off
+ * per order, each leg ordered nearest-first
+ */
+async function buildBatchStops(orderSnaps: admin.firestore.DocumentSnapshot[]): Promise<BatchStop[]> {
+  type PickupGroup = { vendorId: string | null; orders: admin.firestore.DocumentData[]; orderIds: string[] };
+  const pickupGroups = new Map<string, PickupGroup>();
+  orderSnaps.forEach((snap) => {
+    const data = snap.data() || {};
+    const key: string = data.vendorId || `order-${snap.id}`;
+    const group: PickupGroup = pickupGroups.get(key) ?? { vendorId: data.vendorId ?? null, orders: [], orderIds: [] };
+    group.orders.push(data);
+    group.orderIds.push(snap.id);
+    pickupGroups.set(key, group);
+  });
+
+  const pickups = await Promise.all(
+    Array.from(pickupGroups.entries()).map(async ([key, group]) => ({
+      ...group,
+      key,
+      coords: await getOrderPickupCoordinates(group.orders[0]),
+    }))
+  );
+  const orderedPickups = sortByProximity(null, pickups);
+
+  const dropoffs = orderSnaps.map((snap) => {
+    const data = snap.data() || {};
+    return {
+      snap,
+      data,
+      coords: extractCoordinates(data.dropoffLocation) ?? extractCoordinates(data.deliveryAddress),
+    };
+  });
+  const lastPickup = orderedPickups[orderedPickups.length - 1];
+  const orderedDropoffs = sortByProximity(lastPickup?.coords ?? null, dropoffs);
+
+  const stops: BatchStop[] = [];
+  orderedPickups.forEach((pickup) => {
+    stops.push({
+      id: `pickup-${pickup.key}`,
+      sequence: stops.length + 1,
+      type: "pickup",
+      orderIds: pickup.orderIds,
+      vendorId: pickup.vendorId,
+      label: pickup.orders[0].vendorName || "Pickup",
+      address: pickup.orders[0].pickupLocation ?? null,
+      status: "pending",
+      completedAt: null,
+    });
+  });
+  orderedDropoffs.forEach(({ snap, data }) => {
+    stops.push({
+      id: `dropoff-${snap.id}`,
+      sequence: stops.length + 1,
+      type: "dropoff",
+      orderIds: [snap.id],
+      vendorId: data.vendorId ?? null,
+      label: data.customer?.name || data.customerName || formatOrderId(snap.id, data),
+      address: data.dropoffLocation ?? data.deliveryAddress ?? null,
+      status: "pending",
+      completedAt: null,
+    });
+  });
+  return stops;
+}
+
+/**
+ * Per-order summary kept on the batch. Earnings are the recorded driverEarnings
+ * total once delivered, and the delivery fee plus tip as an estimate before.
+ */
+function toBatchOrderSummary(
+  orderId: string,
+  data: admin.firestore.DocumentData,
+  recordedEarnings?: number
+): BatchOrderSummary {
+  const deliveryFee = Number(data.deliveryFee ?? 0);
+  const driverTip = Number(data.driverTip ?? 0);
+  return {
+    orderId,
+    orderCode: formatOrderId(orderId, data),
+    vendorId: data.vendorId ?? null,
+    paymentMethod: data.paymentMethod ?? data.payment?.method ?? null,
+    orderStatus: normalizeOrderStatus(data) ?? String(data.orderStatus ?? ""),
+    deliveryFee,
+    driverTip,
+    earnings: roundMoney(recordedEarnings ?? deliveryFee + driverTip),
+  };
+}
+
+/**
+ * Recomputes stop, order and batch status from the orders' current statuses.
+ * A pickup is done once all its orders are picked up or terminal; a drop-off
+ * is completed on delivery and skipped when its order is cancelled or failed.
+ * The driver is freed when the whole batch is done.
+ */
+async function syncDeliveryBatch(batchId: string): Promise<string | null> {
+  const batchRef = db.collection("deliveryBatches").doc(batchId);
+
+  return db.runTransaction(async (transaction) => {
+    const batchSnap = await transaction.get(batchRef);
+    const batchData = batchSnap.data();
+    if (!batchData) return null;
+
+    const orderIds: string[] = batchData.orderIds || [];
+    const orderSnaps = orderIds.length
+      ? await transaction.getAll(...orderIds.map((orderId) => db.collection("orders").doc(orderId)))
+      : [];
+    const statuses = new Map<string, OrderStatus | null>(
+      orderSnaps.map((snap) => [snap.id, snap.exists ? normalizeOrderStatus(snap.data() || {}) : "cancelled"])
+    );
+    const earningSnaps = orderIds.length
+      ? await transaction.getAll(...orderIds.map((orderId) => db.collection("driverEarnings").doc(orderId)))
+      : [];
+    const recordedEarnings = new Map<string, number>(
+      earningSnaps.filter((snap) => snap.exists).map((snap) => [snap.id, Number(snap.data()?.totalAmount ?? 0)])
+    );
+
+    const now = admin.firestore.Timestamp.now();
+    const stops = ((batchData.stops || []) as BatchStop[]).map((stop) => {
+      const stopStatuses = stop.orderIds.map((orderId) => statuses.get(orderId));
+      let status: BatchStopStatus = "pending";
+      if (stop.type === "pickup") {
+        if (stopStatuses.every((s) => s === "cancelled" || s === "failed")) {
+          status = "skipped";
+        } else if (stopStatuses.every((s) => s && ["enroute", "delivered", "cancelled", "failed"].includes(s))) {
+          status = "completed";
+        }
+      } else if (stopStatuses[0] === "delivered") {
+        status = "completed";
+      } else if (stopStatuses[0] === "cancelled" || stopStatuses[0] === "failed") {
+        status = "skipped";
+      }
+      return {
+        ...stop,
+        status,
+        completedAt: status === "pending" ? null : stop.completedAt ?? now,
+      };
+    });
+
+    const orders = orderSnaps.map((snap) =>
+      toBatchOrderSummary(snap.id, snap.data() || {}, recordedEarnings.get(snap.id))
+    );
+    const isComplete = stops.every((stop) => stop.status !== "pending");
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+
+    transaction.update(batchRef, {
+      stops,
+      orders,
+      totalEarnings: roundMoney(
+        orders.filter((order) => statuses.get(order.orderId) === "delivered").reduce((sum, order) => sum + order.earnings, 0)
+      ),
+      status: isComplete ? "completed" : "active",
+      completedAt: isComplete ? batchData.completedAt ?? timestamp : null,
+      updatedAt: timestamp,
+    });
+
+    if (isComplete && batchData.status !== "completed" && batchData.driverId) {
+      transaction.update(db.collection("drivers").doc(batchData.driverId), {
+        status: "available",
+        updatedAt: timestamp,
+      });
+    }
+
+    return isComplete ? "completed" : "active";
+  });
+}
+
+/**
+ * Rejects an order that cannot join a delivery batch for the driver. With
+ * allowUnassigned, a ready order with no driver also passes, as an admin
+ * batch assigns it to the driver first.
+ */
+function assertOrderBatchable(
+  snap: admin.firestore.DocumentSnapshot,
+  driverId: string,
+  allowUnassigned: boolean
+): void {
+  const data = snap.data();
+  if (!data) {
+    throw new HttpsError("not-found", `Order ${snap.id} not found`);
+  }
+  const label = formatOrderId(snap.id, data);
+  const status = normalizeOrderStatus(data);
+  if (!(allowUnassigned && status === "ready" && !data.driverId)) {
+    if (data.driverId !== driverId) {
+      throw new HttpsError("failed-precondition", `Order ${label} is not assigned to this driver`);
+    }
+    if (status !== "assigned") {
+      throw new HttpsError("failed-precondition", `Order ${label} must be assigned and not yet picked up`);
+    }
+  }
+  if (data.batchId) {
+    throw new HttpsError("failed-precondition", `Order ${label} is already in a batch`);
+  }
+  if (data.type === "pickup") {
+    throw new HttpsError("failed-precondition", `Order ${label} is a customer pickup and has no delivery`);
+  }
+}
+
+/**
+ * createDeliveryBatch
+ * Groups a driver's orders into one trip with an ordered stop list
+ * (pickups first, then drop-offs).
+ * - Requires: auth.uid (driver or admin), orderIds (2–5)
+ * - Drivers batch orders assigned to them; admins pass driverId and may
+ *   include ready orders, which are assigned to that driver first, once
+ *   every order has been checked
+ * - Returns: batchId, stops
+ */
+export const createDeliveryBatch = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    if (role === "vendor") {
+      throw new HttpsError("permission-denied", "Only drivers and admins can batch deliveries");
+    }
+
+    const { orderIds: rawOrderIds, driverId: requestedDriverId } = request.data || {};
+    if (!Array.isArray(rawOrderIds)) {
+      throw new HttpsError("invalid-argument", "orderIds must be an array");
+    }
+    const orderIds = Array.from(
+      new Set(rawOrderIds.filter((id): id is string => typeof id === "string" && id.trim() !== "").map((id) => id.trim()))
+    );
+    if (orderIds.length < 2 || orderIds.length > MAX_BATCH_ORDERS) {
+      throw new HttpsError("invalid-argument", `A batch needs between 2 and ${MAX_BATCH_ORDERS} orders`);
+    }
+
+    const driverId = role === "driver" ? uid : requestedDriverId;
+    if (typeof driverId !== "string" || !driverId) {
+      throw new HttpsError("invalid-argument", "driverId is required");
+    }
+
+    const orderRefs = orderIds.map((orderId) => db.collection("orders").doc(orderId));
+    const driverRef = db.collection("drivers").doc(driverId);
+
+    // Dispatch: assign ready orders to the driver before batching them. Every
+    // order is checked first, so a batch that would be rejected assigns nothing.
+    if (role === "admin") {
+      const [driverSnap, ...snaps] = await db.getAll(driverRef, ...orderRefs);
+      if (!driverSnap.exists) {
+        throw new HttpsError("not-found", "Driver profile not found");
+      }
+      snaps.forEach((snap) => assertOrderBatchable(snap, driverId, true));
+      const unassigned = snaps.filter(
+        (snap) => normalizeOrderStatus(snap.data() || {}) === "ready" && !snap.data()?.driverId
+      );
+      if (unassigned.some((snap) => isCashOnDeliveryOrder(snap.data() || {}))) {
+        assertDriverUnderCashLimit(driverSnap.data(), await getCashLimitSettings());
+      }
+      for (const snap of unassigned) {
+        await runOrderTransition(uid, role, { orderId: snap.id, toStatus: "assigned", driverId });
+      }
+    }
+
+    const batchRef = db.collection("deliveryBatches").doc();
+
+    const stops = await db.runTransaction(async (transaction) => {
+      const [driverSnap, ...orderSnaps] = await transaction.getAll(driverRef, ...orderRefs);
+      if (!driverSnap.exists) {
+        throw new HttpsError("not-found", "Driver profile not found");
+      }
+      orderSnaps.forEach((snap) => assertOrderBatchable(snap, driverId, false));
+
+      const batchStops = await buildBatchStops(orderSnaps);
+      const dropoffOrder = batchStops.filter((stop) => stop.type === "dropoff").map((stop) => stop.orderIds[0]);
+      const timestamp = admin.firestore.FieldValue.serverTimestamp();
+
+      transaction.set(batchRef, {
+        id: batchRef.id,
+        driverId,
+        driverName: driverSnap.data()?.name || "Unknown Driver",
+        status: "active",
+        orderIds: dropoffOrder,
+        stops: batchStops,
+        orders: orderSnaps.map((snap) => toBatchOrderSummary(snap.id, snap.data() || {})),
+        totalEarnings: 0,
+        createdBy: uid,
+        createdByRole: role,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        completedAt: null,
+      });
+
+      orderSnaps.forEach((snap) => {
+        transaction.update(snap.ref, { batchId: batchRef.id, updatedAt: timestamp });
+        recordOrderEvent(
+          snap.id,
+          {
+            type: "batched",
+            actorId: uid,
+            actorRole: role,
+            before: { batchId: snap.data()?.batchId ?? null },
+            after: { batchId: batchRef.id },
+            message: `Added to a ${orderSnaps.length}-order delivery batch`,
+            metadata: { stopSequence: dropoffOrder.indexOf(snap.id) + 1 },
+          },
+          transaction
+        );
+      });
+
+      return batchStops;
+    });
+
+    logger.info(`Delivery batch ${batchRef.id} created for driver ${driverId} with ${orderIds.length} orders by ${role} ${uid}`);
+    return { success: true, batchId: batchRef.id, stops };
+  }
+);
+
+/**
+ * completeBatchStop
+ * Completes one stop of a batch: a pickup moves each of its orders to enroute,
+ * a drop-off delivers its order (with the signature, COD ledger included).
+ * Orders already past the step are skipped, so retries are safe.
+ * - Requires: auth.uid (batch driver or admin), batchId, stopId
+ * - Optional: proofOfDeliverySignatureUrl/Path for drop-offs
+ * - Returns: batchId, stopId, batchStatus
+ */
+export const completeBatchStop = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    const { batchId, stopId, proofOfDeliverySignatureUrl, proofOfDeliverySignaturePath } = request.data || {};
+    if (typeof batchId !== "string" || !batchId || typeof stopId !== "string" || !stopId) {
+      throw new HttpsError("invalid-argument", "batchId and stopId are required");
+    }
+
+    const batchSnap = await db.collection("deliveryBatches").doc(batchId).get();
+    const batchData = batchSnap.data();
+    if (!batchData) {
+      throw new HttpsError("not-found", "Delivery batch not found");
+    }
+    if (role === "vendor" || (role === "driver" && batchData.driverId !== uid)) {
+      throw new HttpsError("permission-denied", "This batch belongs to another driver");
+    }
+
+    const stop = ((batchData.stops || []) as BatchStop[]).find((candidate) => candidate.id === stopId);
+    if (!stop) {
+      throw new HttpsError("not-found", "Stop not found in this batch");
+    }
+
+    const toStatus: OrderStatus = stop.type === "pickup" ? "enroute" : "delivered";
+    const fromStatus: OrderStatus = stop.type === "pickup" ? "assigned" : "enroute";
+    const orderSnaps = await db.getAll(...stop.orderIds.map((orderId) => db.collection("orders").doc(orderId)));
+
+    for (const snap of orderSnaps) {
+      const status = snap.exists ? normalizeOrderStatus(snap.data() || {}) : null;
+      if (status !== fromStatus && !(toStatus === "delivered" && status === "delivered")) continue;
+      await runOrderTransition(uid, role, {
+        orderId: snap.id,
+        toStatus,
+        proofOfDeliverySignatureUrl:
+          typeof proofOfDeliverySignatureUrl === "string" ? proofOfDeliverySignatureUrl : undefined,
+        proofOfDeliverySignaturePath:
+          typeof proofOfDeliverySignaturePath === "string" ? proofOfDeliverySignaturePath : undefined,
+      });
+    }
+
+    const batchStatus = await syncDeliveryBatch(batchId);
+    logger.info(`Batch ${batchId} stop ${stopId} (${stop.type}) completed by ${role} ${uid}`);
+
+    return { success: true, batchId, stopId, batchStatus };
+  }
+);
+
+/**
+ * Keeps a batch's stops in step with status changes made outside
+ * completeBatchStop (cancellations, failures, single-order actions)
+ */
+export const onBatchedOrderStatusChange = onDocumentUpdated(
+  "orders/{orderId}",
+  async (event: FirestoreEvent<Change<admin.firestore.QueryDocumentSnapshot> | undefined>) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+    if (!beforeData || !afterData || !afterData.batchId) return;
+    if (beforeData.orderStatus === afterData.orderStatus) return;
+
+    try {
+      await syncDeliveryBatch(afterData.batchId);
+    } catch (error) {
+      logger.error(`Error syncing delivery batch ${afterData.batchId} for order ${event.params.orderId}:`, error);
+    }
+  }
+);
+
+// ============================================================================
+// MONEY (currencies and minor units)
+// ============================================================================
+
+/**
+ * Amounts are stored as decimal numbers in the document's `currency` for
+ * compatibility, with an exact integer mirror in minor units (cents, yen...)
+ * under `minorUnits`. Arithmetic that must not drift (pricing, transfers)
+ * runs on minor units. An order's currency is its vendor's `currency`, else
+ * the market default in systemConfig/paymentSettings.defaultCurrency.
+ */
+interface Money {
+  /** Integer amount in the currency's minor unit */
+  amountMinor: number;
+  /** ISO 4217 code, upper case */
+  currency: string;
+}
+
+const DEFAULT_CURRENCY = "USD";
+
+const currencyDigitsCache = new Map<string, number>();
+
+/**
+ * Upper-cased ISO 4217 code, or null when Intl does not know the currency
+ */
+function normalizeCurrency(value: unknown): string | null {
+  if (typeof value !== "string" || !/^[a-zA-Z]{3}$/.test(value.trim())) return null;
+  const currency = value.trim().toUpperCase();
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency });
+    return currency;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decimal places of the currency's minor unit: 2 for USD, 0 for JPY, 3 for KWD
+ */
+function currencyDigits(currency: string): number {
+  const code = normalizeCurrency(currency) ?? DEFAULT_CURRENCY;
+  if (!currencyDigitsCache.has(code)) {
+    const digits = new Intl.NumberFormat("en-US", { style: "currency", currency: code }).resolvedOptions()
+      .maximumFractionDigits;
+    currencyDigitsCache.set(code, digits ?? 2);
+  }
+  return currencyDigitsCache.get(code)!;
+}
+
+function toMinorUnits(amount: number, currency: string): number {
+  const factor = 10 ** currencyDigits(currency);
+  const minor = Math.round((Math.abs(amount) + Number.EPSILON) * factor);
+  return amount < 0 ? -minor : minor;
+}
+
+function fromMinorUnits(amountMinor: number, currency: string): number {
+  const digits = currencyDigits(currency);
+  return Number((amountMinor / 10 ** digits).toFixed(digits));
+}
+
+function toMoney(amount: number, currency: string): Money {
+  const code = normalizeCurrency(currency) ?? DEFAULT_CURRENCY;
+  return { amountMinor: toMinorUnits(amount, code), currency: code };
+}
+
+/**
+ * Minor-unit mirrors of a document's decimal amount fields
+ */
+function minorUnitsOf(amounts: Record<string, number>, currency: string): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(amounts).map(([field, amount]) => [field, toMinorUnits(Number(amount) || 0, currency)])
+  );
+}
+
+/**
+ * Rounds a decimal amount to the currency's minor unit
+ */
+function roundMoney(value: number, currency: string = DEFAULT_CURRENCY): number {
+  return fromMinorUnits(toMinorUnits(value, currency), currency);
+}
+
+function formatMoney(amount: number | Money, currency: string = DEFAULT_CURRENCY, locale = "en-US"): string {
+  const money = typeof amount === "number" ? toMoney(amount, currency) : amount;
+  return new Intl.NumberFormat(locale, { style: "currency", currency: money.currency }).format(
+    fromMinorUnits(money.amountMinor, money.currency)
+  );
+}
+
+/**
+ * The market's default currency from systemConfig/paymentSettings, with the settings version
+ */
+async function getMarketSettings(
+  transaction?: admin.firestore.Transaction
+): Promise<{ defaultCurrency: string; version: number | null }> {
+  const settingsRef = db.collection("systemConfig").doc("paymentSettings");
+  const settingsDoc = transaction ? await transaction.get(settingsRef) : await settingsRef.get();
+  return {
+    defaultCurrency: normalizeCurrency(settingsDoc.data()?.defaultCurrency) ?? DEFAULT_CURRENCY,
+    version: configVersionOf(settingsDoc.data()),
+  };
+}
+
+async function getDefaultCurrency(transaction?: admin.firestore.Transaction): Promise<string> {
+  return (await getMarketSettings(transaction)).defaultCurrency;
+}
+
+/**
+ * A vendor prices in its own `currency` when set, else the market default
+ */
+function resolveVendorCurrency(vendorData: admin.firestore.DocumentData | undefined, defaultCurrency: string): string {
+  return normalizeCurrency(vendorData?.currency) ?? defaultCurrency;
+}
+
+/**
+ * Currency of a stored record, defaulting for records written before currencies were tracked
+ */
+function recordCurrency(data: admin.firestore.DocumentData | undefined): string {
+  return normalizeCurrency(data?.currency) ?? DEFAULT_CURRENCY;
+}
+
+// ============================================================================
+// TAX (categories, zones and order tax breakdown)
+// ============================================================================
+
+/**
+ * Tax is configured in systemConfig/tax:
+ * - categories: [{ id, name }], assigned with `taxCategoryId` on categories
+ *   and products (a product's own value wins)
+ * - zones: [{ id, name, pricesIncludeTax, defaultRate, deliveryFeeRate, rates }]
+ *   where `rates` maps a tax category ID to a percentage
+ * - defaultZoneId: the zone for vendors without their own `taxZoneId`
+ * Without a zone, the flat systemConfig/fees.taxRate is added on top of item
+ * prices and delivery is not taxed.
+ */
+interface TaxCategory {
+  id: string;
+  name: string;
+}
+
+interface TaxZone {
+  id: string;
+  name: string;
+  /** Prices and the delivery fee already include tax (VAT/GST style) */
+  pricesIncludeTax: boolean;
+  /** Percentage for items without a tax category or with no rate in `rates` */
+  defaultRate: number;
+  /** Percentage charged on the delivery fee; 0 when delivery is not taxable */
+  deliveryFeeRate: number;
+  rates: Record<string, number>;
+}
+
+interface TaxSettings {
+  categories: TaxCategory[];
+  zones: TaxZone[];
+  defaultZoneId: string | null;
+  /** systemConfig version (see SYSTEM CONFIG VERSIONS) */
+  version: number | null;
+}
+
+interface OrderTaxLine {
+  kind: "items" | "delivery";
+  taxCategoryId: string | null;
+  taxCategoryName: string;
+  rate: number;
+  /** Amount the tax is charged on, excluding the tax itself */
+  taxableAmount: number;
+  taxAmount: number;
+  minorUnits: { taxableAmount: number; taxAmount: number };
+}
+
+interface OrderTax {
+  zoneId: string | null;
+  zoneName: string | null;
+  pricesIncludeTax: boolean;
+  lines: OrderTaxLine[];
+  taxAmount: number;
+}
+
+const DELIVERY_TAX_CATEGORY_NAME = "Delivery";
+const STANDARD_TAX_CATEGORY_NAME = "Standard rate";
+
+function toTaxRate(value: unknown): number {
+  const rate = Number(value);
+  return Number.isFinite(rate) && rate >= 0 && rate <= 100 ? rate : 0;
+}
+
+/**
+ * Reads tax categories and zones from systemConfig/tax, dropping malformed entries
+ */
+async function getTaxSettings(transaction?: admin.firestore.Transaction): Promise<TaxSettings> {
+  const taxRef = db.collection("systemConfig").doc("tax");
+  const taxDoc = transaction ? await transaction.get(taxRef) : await taxRef.get();
+  const data = taxDoc.data() || {};
+
+  const categories: TaxCategory[] = (Array.isArray(data.categories) ? data.categories : [])
+    .filter((category: any) => category && typeof category.id === "string" && category.id)
+    .map((category: any) => ({ id: category.id, name: String(category.name || category.id) }));
+
+  const zones: TaxZone[] = (Array.isArray(data.zones) ? data.zones : [])
+    .filter((zone: any) => zone && typeof zone.id === "string" && zone.id)
+    .map((zone: any) => ({
+      id: zone.id,
+      name: String(zone.name || zone.id),
+      pricesIncludeTax: zone.pricesIncludeTax === true,
+      defaultRate: toTaxRate(zone.defaultRate),
+      deliveryFeeRate: toTaxRate(zone.deliveryFeeRate),
+      rates: Object.fromEntries(
+        Object.entries(zone.rates && typeof zone.rates === "object" ? zone.rates : {}).map(([id, rate]) => [
+          id,
+          toTaxRate(rate),
+        ])
+      ),
+    }));
+
+  return {
+    categories,
+    zones,
+    defaultZoneId: typeof data.defaultZoneId === "string" && data.defaultZoneId ? data.defaultZoneId : null,
+    version: configVersionOf(data),
+  };
+}
+
+/**
+ * A vendor is taxed in its own `taxZoneId` when set, else the default zone
+ */
+function resolveTaxZone(settings: TaxSettings, vendorData: admin.firestore.DocumentData | undefined): TaxZone | null {
+  const byId = (id: unknown) => (typeof id === "string" ? settings.zones.find((zone) => zone.id === id) : undefined);
+  return byId(vendorData?.taxZoneId) ?? byId(settings.defaultZoneId) ?? null;
+}
+
+/**
+ * Splits an integer amount across weights in proportion, handing the
+ * leftover units to the largest weights so the parts add up exactly
+ */
+function allocateMinorUnits(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0 || weightSum <= 0) return weights.map(() => 0);
+
+  const parts = weights.map((weight) => Math.floor((total * weight) / weightSum));
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+  const order = weights.map((weight, index) => ({ weight, index })).sort((a, b) => b.weight - a.weight);
+  for (let i = 0; leftover > 0; i = (i + 1) % order.length, leftover--) {
+    parts[order[i].index] += 1;
+  }
+  return parts;
+}
+
+/**
+ * Tax on an amount in minor units: added on top when prices exclude tax,
+ * extracted from the amount when they include it
+ */
+function taxOnMinorUnits(amountMinor: number, rate: number, inclusive: boolean): number {
+  if (amountMinor <= 0 || rate <= 0) return 0;
+  return inclusive
+    ? amountMinor - Math.round((amountMinor * 100) / (100 + rate))
+    : Math.round((amountMinor * rate) / 100);
+}
+
+/**
+ * Works out an order's tax breakdown. Item amounts are after coupon discount;
+ * tax is rounded once per tax category so lines add up to the order total.
+ */
+function computeOrderTax(params: {
+  settings: TaxSettings;
+  zone: TaxZone | null;
+  flatRate: number;
+  currency: string;
+  items: Array<{ taxCategoryId: string | null; amountMinor: number }>;
+  deliveryFeeMinor: number;
+}): { tax: OrderTax; taxMinor: number } {
+  const { settings, zone, currency } = params;
+  const inclusive = zone?.pricesIncludeTax ?? false;
+  const categoryName = (id: string | null) =>
+    (id && settings.categories.find((category) => category.id === id)?.name) || STANDARD_TAX_CATEGORY_NAME;
+  const rateFor = (id: string | null) => {
+    if (!zone) return params.flatRate;
+    return id !== null && zone.rates[id] !== undefined ? zone.rates[id] : zone.defaultRate;
+  };
+
+  const itemBases = new Map<string | null, number>();
+  params.items.forEach((item) => {
+    itemBases.set(item.taxCategoryId, (itemBases.get(item.taxCategoryId) ?? 0) + item.amountMinor);
+  });
+
+  const buildLine = (
+    kind: OrderTaxLine["kind"],
+    taxCategoryId: string | null,
+    name: string,
+    rate: number,
+    amountMinor: number
+  ): OrderTaxLine => {
+    const taxMinor = taxOnMinorUnits(amountMinor, rate, inclusive);
+    const taxableMinor = inclusive ? amountMinor - taxMinor : amountMinor;
+    return {
+      kind,
+      taxCategoryId,
+      taxCategoryName: name,
+      rate,
+      taxableAmount: fromMinorUnits(taxableMinor, currency),
+      taxAmount: fromMinorUnits(taxMinor, currency),
+      minorUnits: { taxableAmount: taxableMinor, taxAmount: taxMinor },
+    };
+  };
+
+  const lines = Array.from(itemBases.entries())
+    .filter(([, amountMinor]) => amountMinor > 0)
+    .map(([taxCategoryId, amountMinor]) =>
+      buildLine("items", taxCategoryId, categoryName(taxCategoryId), rateFor(taxCategoryId), amountMinor)
+    );
+  if (params.deliveryFeeMinor > 0) {
+    lines.push(
+      buildLine("delivery", null, DELIVERY_TAX_CATEGORY_NAME, zone?.deliveryFeeRate ?? 0, params.deliveryFeeMinor)
+    );
+  }
+
+  const taxMinor = lines.reduce((sum, line) => sum + line.minorUnits.taxAmount, 0);
+  return {
+    tax: {
+      zoneId: zone?.id ?? null,
+      zoneName: zone?.name ?? null,
+      pricesIncludeTax: inclusive,
+      lines,
+      taxAmount: fromMinorUnits(taxMinor, currency),
+    },
+    taxMinor,
+  };
+}
+
+// ============================================================================
+// DELIVERY ZONES (polygon geofences)
+// ============================================================================
+
+/**
+ * Admins draw delivery zones as polygons in deliveryZones/{zoneId} and assign
+ * them to vendors with `deliveryZoneIds`. A vendor without zones delivers
+ * anywhere at the global fee; otherwise the drop-off must fall inside one of
+ * its active zones that serves the vendor's type, and that zone's delivery
+ * fee and minimum order apply.
+ */
+interface DeliveryZone {
+  id: string;
+  name: string;
+  isActive: boolean;
+  /** Vertices in order; the ring is closed implicitly */
+  polygon: Coordinates[];
+  /** In the vendor's currency */
+  deliveryFee: number;
+  minOrderValue: number;
+  /** Vendor types served; empty serves every type */
+  vendorTypes: string[];
+}
+
+interface DeliveryZoneMatch {
+  zone: DeliveryZone | null;
+  /** Why the drop-off cannot be served, or null */
+  issue: string | null;
+}
+
+const MIN_ZONE_VERTICES = 3;
+
+function parseDeliveryZone(snap: admin.firestore.DocumentSnapshot): DeliveryZone | null {
+  const data = snap.data();
+  if (!data) return null;
+  const polygon = (Array.isArray(data.polygon) ? data.polygon : [])
+    .map((vertex: unknown) => extractCoordinates(vertex))
+    .filter((vertex: Coordinates | null): vertex is Coordinates => vertex !== null);
+  if (polygon.length < MIN_ZONE_VERTICES) return null;
+  const amount = (value: unknown) => (typeof value === "number" && Number.isFinite(value) && value >= 0 ? value : 0);
+  return {
+    id: snap.id,
+    name: typeof data.name === "string" && data.name ? data.name : snap.id,
+    isActive: data.isActive !== false,
+    polygon,
+    deliveryFee: amount(data.deliveryFee),
+    minOrderValue: amount(data.minOrderValue),
+    vendorTypes: Array.isArray(data.vendorTypes)
+      ? data.vendorTypes.filter((type: unknown): type is string => typeof type === "string" && type !== "")
+      : [],
+  };
+}
+
+/**
+ * Ray-casting point-in-polygon test on lat/lng treated as planar coordinates,
+ * which is accurate enough for city-sized zones that do not cross the antimeridian
+ */
+function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > point.lat !== b.lat > point.lat) {
+      const crossingLng = ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+      if (point.lng < crossingLng) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Finds the vendor's zone containing the drop-off: the first active zone in
+ * its `deliveryZoneIds` that serves its vendor type
+ */
+async function resolveDeliveryZone(
+  vendorData: admin.firestore.DocumentData | undefined,
+  dropoff: Coordinates | null,
+  transaction?: admin.firestore.Transaction
+): Promise<DeliveryZoneMatch> {
+  const zoneIds: string[] = Array.isArray(vendorData?.deliveryZoneIds)
+    ? Array.from(new Set(vendorData!.deliveryZoneIds.filter((id: unknown): id is string => typeof id === "string" && id !== "")))
+    : [];
+  if (zoneIds.length === 0) return { zone: null, issue: null };
+
+  const zoneRefs = zoneIds.map((id) => db.collection("deliveryZones").doc(id));
+  const zoneSnaps = transaction ? await transaction.getAll(...zoneRefs) : await db.getAll(...zoneRefs);
+  const vendorType = typeof vendorData?.vendorType === "string" ? vendorData.vendorType.toLowerCase() : null;
+  const zones = zoneSnaps
+    .map(parseDeliveryZone)
+    .filter((zone): zone is DeliveryZone => zone !== null && zone.isActive)
+    .filter(
+      (zone) =>
+        zone.vendorTypes.length === 0 ||
+        (vendorType !== null && zone.vendorTypes.some((type) => type.toLowerCase() === vendorType))
+    );
+
+  if (zones.length === 0) {
+    return { zone: null, issue: "This vendor has no active delivery zone" };
+  }
+  if (!dropoff) {
+    return { zone: null, issue: "The drop-off needs map coordinates to check the delivery zone" };
+  }
+  const zone = zones.find((candidate) => isPointInPolygon(dropoff, candidate.polygon)) ?? null;
+  return zone
+    ? { zone, issue: null }
+    : { zone: null, issue: "The drop-off is outside this vendor's delivery zones" };
+}
+
+// ============================================================================
+// COMMISSION CONTRACTS
+// ============================================================================
+
+/**
+ * Admins attach commission contracts to vendors in commissionContracts/{contractId}.
+ * The contract in effect when an order is priced sets its commission: a
+ * category-specific rate, else the highest volume tier the vendor's delivered
+ * sales this month (UTC) have reached, else the contract's base rate. Vendors
+ * without a contract in effect pay systemConfig/fees.commissionRate.
+ */
+interface CommissionTier {
+  /** Delivered sales this month, in the vendor's currency, from which the rate applies */
+  minMonthlySales: number;
+  rate: number;
+}
+
+interface CommissionContract {
+  id: string;
+  vendorId: string;
+  name: string;
+  effectiveFrom: Date;
+  /** Exclusive; null runs until replaced */
+  effectiveTo: Date | null;
+  baseRate: number;
+  tiers: CommissionTier[];
+  /** Percentage per product category ID */
+  categoryRates: Record<string, number>;
+}
+
+function toCommissionRate(value: unknown): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100 ? value : null;
+}
+
+function parseCommissionContract(snap: admin.firestore.DocumentSnapshot): CommissionContract | null {
+  const data = snap.data();
+  const effectiveFrom = data?.effectiveFrom?.toDate?.();
+  const baseRate = toCommissionRate(data?.baseRate);
+  if (!data || !(effectiveFrom instanceof Date) || baseRate === null) return null;
+
+  const categoryRates: Record<string, number> = {};
+  Object.entries(data.categoryRates || {}).forEach(([categoryId, value]) => {
+    const rate = toCommissionRate(value);
+    if (rate !== null) categoryRates[categoryId] = rate;
+  });
+  return {
+    id: snap.id,
+    vendorId: data.vendorId,
+    name: typeof data.name === "string" && data.name ? data.name : snap.id,
+    effectiveFrom,
+    effectiveTo: data.effectiveTo?.toDate?.() ?? null,
+    baseRate,
+    tiers: (Array.isArray(data.tiers) ? data.tiers : [])
+      .map((tier: any) => ({ minMonthlySales: Number(tier?.minMonthlySales), rate: toCommissionRate(tier?.rate) }))
+      .filter(
+        (tier: { minMonthlySales: number; rate: number | null }): tier is CommissionTier =>
+          Number.isFinite(tier.minMonthlySales) && tier.minMonthlySales >= 0 && tier.rate !== null
+      )
+      .sort((a: CommissionTier, b: CommissionTier) => a.minMonthlySales - b.minMonthlySales),
+    categoryRates,
+  };
+}
+
+/**
+ * The vendor's contract in effect at `at`; when ranges overlap the latest start wins
+ */
+async function getActiveCommissionContract(
+  vendorId: string,
+  at: Date,
+  transaction?: admin.firestore.Transaction
+): Promise<CommissionContract | null> {
+  const contractsQuery = db.collection("commissionContracts").where("vendorId", "==", vendorId);
+  const snapshot = transaction ? await transaction.get(contractsQuery) : await contractsQuery.get();
+  const active = snapshot.docs
+    .map(parseCommissionContract)
+    .filter(
+      (contract): contract is CommissionContract =>
+        contract !== null && contract.effectiveFrom <= at && (contract.effectiveTo === null || at < contract.effectiveTo)
+    )
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime());
+  return active[0] ?? null;
+}
+
+/**
+ * Subtotal of the vendor's orders delivered since the start of the month (UTC).
+ * Read outside any transaction: a sale landing mid-quote only shifts the tier
+ * by one order. Needs the orders (vendorId, deliveredAt) index in
+ * firestore.indexes.json.
+ */
+async function getVendorMonthlySales(vendorId: string, at: Date): Promise<number> {
+  const monthStart = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  const snapshot = await db
+    .collection("orders")
+    .where("vendorId", "==", vendorId)
+    .where("deliveredAt", ">=", admin.firestore.Timestamp.fromDate(monthStart))
+    .aggregate({ sales: admin.firestore.AggregateField.sum("subtotal") })
+    .get();
+  return Number(snapshot.data().sales) || 0;
+}
+
+/**
+ * Rate for items outside the contract's category rates: the highest tier reached, else the base rate
+ */
+function contractVolumeRate(contract: CommissionContract, monthlySales: number): number {
+  const reached = contract.tiers.filter((tier) => monthlySales >= tier.minMonthlySales);
+  return reached.length > 0 ? reached[reached.length - 1].rate : contract.baseRate;
+}
+
+// ============================================================================
+// ORDER PRICING
+// ============================================================================
+
+const DEFAULT_FEES = {
+  deliveryFee: 5,
+  commissionRate: 15,
+  taxRate: 8.5,
+};
+
+const MAX_ORDER_LINE_QUANTITY = 1000;
+
+/**
+ * Distance-based delivery fee (systemConfig/fees.distanceFee):
+ * baseFee + perKmRate × (km beyond includedKm), kept between minimumFee and
+ * maximumFee (0 = no cap). The straight-line distance is multiplied by
+ * roadFactor to estimate the road distance.
+ */
+interface DistanceFeeModel {
+  baseFee: number;
+  includedKm: number;
+  perKmRate: number;
+  minimumFee: number;
+  maximumFee: number;
+  roadFactor: number;
+}
+
+const DEFAULT_ROAD_FACTOR = 1.3;
+
+interface FeeSettings {
+  /** Flat fee; also used when the distance model is off or a trip has no coordinates */
+  deliveryFee: number;
+  /** Percentage of the subtotal, e.g. 15 for 15% */
+  commissionRate: number;
+  /** Flat percentage of the discounted subtotal when no tax zone applies, e.g. 8.5 for 8.5% */
+  taxRate: number;
+  /** Null when the distance model is disabled */
+  distanceFee: DistanceFeeModel | null;
+  /** systemConfig version (see SYSTEM CONFIG VERSIONS) */
+  version: number | null;
+}
+
+interface OrderQuoteLineInput {
+  productId: string;
+  optionIds: string[];
+  quantity: number;
+}
+
+interface OrderQuoteInput {
+  vendorId: string;
+  /** Needed to check per-customer coupon limits; optional for previews */
+  customerId: string | null;
+  lines: OrderQuoteLineInput[];
+  pickupOrder: boolean;
+  driverTip: number;
+  couponCode: string | null;
+  /** Pickup point when it differs from the vendor's location */
+  pickup: Coordinates | null;
+  /** Drop-off point checked against the vendor's delivery zones */
+  dropoff: Coordinates | null;
+}
+
+interface OrderQuoteLine {
+  productId: string;
+  productName: string;
+  optionIds: string[];
+  options: Array<{ id: string; name: string; price: number }>;
+  quantity: number;
+  unitPrice: number;
+  optionsPrice: number;
+  lineTotal: number;
+}
+
+interface OrderQuoteCoupon {
+  code: string;
+  applied: boolean;
+  message: string | null;
+  discountType: CouponDiscountType | null;
+  /** Discount on eligible items; tax is charged after it */
+  itemDiscount: number;
+  /** Delivery fee waived by a free-delivery coupon */
+  deliveryDiscount: number;
+}
+
+/** Integer minor-unit mirrors of the quote's decimal amounts */
+interface OrderQuoteMinorUnits {
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  deliveryFee: number;
+  driverTip: number;
+  totalAmount: number;
+  commissionFee: number;
+}
+
+interface OrderQuote {
+  vendorId: string;
+  currency: string;
+  lines: OrderQuoteLine[];
+  subtotal: number;
+  coupon: OrderQuoteCoupon | null;
+  discountAmount: number;
+  /** The rate charged when every taxed line shares one, else 0 */
+  taxRate: number;
+  taxAmount: number;
+  tax: OrderTax;
+  deliveryFee: number;
+  /** Estimated road distance the distance-based fee was charged on, else null */
+  deliveryDistanceKm: number | null;
+  /** The vendor's zone containing the drop-off; null for pickups and vendors without zones */
+  deliveryZone: { id: string; name: string } | null;
+  /** Why the order cannot be delivered (outside the zones, below the zone minimum), or null */
+  deliveryIssue: string | null;
+  driverTip: number;
+  totalAmount: number;
+  /** The rate charged when every line shares one, else 0 */
+  commissionRate: number;
+  /** Commission contract in effect, or null for the systemConfig/fees rate */
+  commissionContractId: string | null;
+  commissionFee: number;
+  minorUnits: OrderQuoteMinorUnits;
+  /** Versions of the systemConfig documents the quote was priced with; null before a document was versioned */
+  configVersions: { fees: number | null; tax: number | null; paymentSettings: number | null };
+}
+
+function toPrice(value: unknown): number {
+  const parsed = typeof value === "number" ? value : Number.parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+/**
+ * Reads delivery fee, commission and tax rates from systemConfig/fees
+ */
+async function getFeeSettings(transaction?: admin.firestore.Transaction): Promise<FeeSettings> {
+  const feesRef = db.collection("systemConfig").doc("fees");
+  const feesDoc = transaction ? await transaction.get(feesRef) : await feesRef.get();
+  const data = feesDoc.data() || {};
+  const read = (key: keyof typeof DEFAULT_FEES) =>
+    typeof data[key] === "number" && Number.isFinite(data[key]) && data[key] >= 0 ? data[key] : DEFAULT_FEES[key];
+  return {
+    deliveryFee: read("deliveryFee"),
+    commissionRate: read("commissionRate"),
+    taxRate: read("taxRate"),
+    distanceFee: parseDistanceFeeModel(data.distanceFee),
+    version: configVersionOf(data),
+  };
+}
+
+function parseDistanceFeeModel(value: any): DistanceFeeModel | null {
+  if (!value || typeof value !== "object" || value.enabled !== true) return null;
+  const amount = (field: string) =>
+    typeof value[field] === "number" && Number.isFinite(value[field]) && value[field] >= 0 ? value[field] : 0;
+  return {
+    baseFee: amount("baseFee"),
+    includedKm: amount("includedKm"),
+    perKmRate: amount("perKmRate"),
+    minimumFee: amount("minimumFee"),
+    maximumFee: amount("maximumFee"),
+    roadFactor:
+      typeof value.roadFactor === "number" && value.roadFactor >= 1 && value.roadFactor <= 3
+        ? value.roadFactor
+        : DEFAULT_ROAD_FACTOR,
+  };
+}
+
+/**
+ * Estimated road distance in km (rounded to 0.1) and the fee the model charges for it
+ */
+function computeDistanceDeliveryFee(
+  model: DistanceFeeModel,
+  pickup: Coordinates,
+  dropoff: Coordinates,
+  currency: string
+): { distanceKm: number; fee: number } {
+  const distanceKm = Math.round(haversineKm(pickup, dropoff) * model.roadFactor * 10) / 10;
+  let fee = model.baseFee + Math.max(distanceKm - model.includedKm, 0) * model.perKmRate;
+  fee = Math.max(fee, model.minimumFee);
+  if (model.maximumFee > 0) fee = Math.min(fee, model.maximumFee);
+  return { distanceKm, fee: roundMoney(fee, currency) };
+}
+
+/**
+ * Parses and validates the pricing inputs of a quoteOrder/createOrder payload
+ */
+function parseOrderQuoteInput(data: any, vendorId: string): OrderQuoteInput {
+  const { customerId, lines, pickupOrder, driverTip, couponCode, pickupLocation, dropoffLocation, deliveryAddress } =
+    data || {};
+
+  if (!Array.isArray(lines) || lines.length === 0) {
+    throw new HttpsError("invalid-argument", "At least one order line is required");
+  }
+
+  const parsedLines = lines
+    .filter((line: any) => line && typeof line.productId === "string" && line.productId)
+    .map((line: any) => {
+      const quantity = Number(line.quantity);
+      if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_ORDER_LINE_QUANTITY) {
+        throw new HttpsError("invalid-argument", `Quantity must be a whole number between 1 and ${MAX_ORDER_LINE_QUANTITY}`);
+      }
+      const optionIds = Array.isArray(line.optionIds)
+        ? Array.from(new Set<string>(line.optionIds.filter((id: unknown) => typeof id === "string" && id)))
+        : [];
+      return { productId: line.productId as string, optionIds, quantity };
+    });
+
+  if (parsedLines.length === 0) {
+    throw new HttpsError("invalid-argument", "At least one product is required");
+  }
+
+  const tip = driverTip === undefined || driverTip === null || driverTip === "" ? 0 : Number(driverTip);
+  if (!Number.isFinite(tip) || tip < 0) {
+    throw new HttpsError("invalid-argument", "driverTip must be a non-negative number");
+  }
+
+  return {
+    vendorId,
+    customerId: typeof customerId === "string" && customerId ? customerId : null,
+    lines: parsedLines,
+    pickupOrder: pickupOrder === true,
+    driverTip: tip,
+    couponCode: typeof couponCode === "string" && couponCode.trim() ? couponCode.trim().toUpperCase() : null,
+    pickup: extractCoordinates(pickupLocation),
+    dropoff: extractCoordinates(dropoffLocation || deliveryAddress),
+  };
+}
+
+/**
+ * Prices an order from the catalog: product and option prices per line,
+ * then coupon discount, tax (see computeOrderTax), delivery fee (the vendor's
+ * delivery zone fee, else the distance model, else the flat fee), tip and
+ * platform commission (see COMMISSION CONTRACTS). Commission is charged on item
+ * sales net of any tax included in prices. Totals are summed in the vendor currency's minor units so they never drift
+ * by a rounding cent. Reads through the transaction when given so createOrder prices and writes
+ * against the same snapshot. Returns the product snapshots for stock updates
+ * and the coupon evaluation for redemption.
+ */
+async function computeOrderQuote(
+  input: OrderQuoteInput,
+  transaction?: admin.firestore.Transaction
+): Promise<{
+  quote: OrderQuote;
+  productSnaps: Map<string, admin.firestore.DocumentSnapshot>;
+  couponEvaluation: CouponEvaluation | null;
+}> {
+  const productIds = Array.from(new Set(input.lines.map((line) => line.productId)));
+  const optionIds = Array.from(new Set(input.lines.flatMap((line) => line.optionIds)));
+  const productRefs = productIds.map((id) => db.collection("products").doc(id));
+  const optionRefs = optionIds.map((id) => db.collection("options").doc(id));
+  const vendorRef = db.collection("vendors").doc(input.vendorId);
+  const refs = [...productRefs, ...optionRefs, vendorRef];
+
+  const snaps = transaction ? await transaction.getAll(...refs) : await db.getAll(...refs);
+  const fees = await getFeeSettings(transaction);
+  const taxSettings = await getTaxSettings(transaction);
+  const vendorData = snaps[snaps.length - 1].data();
+  const marketSettings = await getMarketSettings(transaction);
+  const currency = resolveVendorCurrency(vendorData, marketSettings.defaultCurrency);
+  const minor = (amount: number) => toMinorUnits(amount, currency);
+  const major = (amountMinor: number) => fromMinorUnits(amountMinor, currency);
+
+  const productSnaps = new Map(snaps.slice(0, productRefs.length).map((snap) => [snap.id, snap]));
+  const optionSnaps = new Map(snaps.slice(productRefs.length, refs.length - 1).map((snap) => [snap.id, snap]));
+
+  const lineCategories: Array<string | null> = [];
+  const lineTaxCategories: Array<string | null> = [];
+  const lines: OrderQuoteLine[] = input.lines.map((line) => {
+    const productData = productSnaps.get(line.productId)?.data();
+    if (!productData || productData.vendorId !== input.vendorId) {
+      throw new HttpsError("not-found", `Product ${line.productId} not found for this vendor`);
+    }
+    if (productData.isActive === false) {
+      throw new HttpsError("failed-precondition", `${productData.name || "Product"} is not available`);
+    }
+
+    const options = line.optionIds.map((optionId) => {
+      const optionData = optionSnaps.get(optionId)?.data();
+      if (!optionData || optionData.vendorId !== input.vendorId || optionData.isActive === false) {
+        throw new HttpsError("not-found", `Option ${optionId} is not available`);
+      }
+      return { id: optionId, name: optionData.name || "Option", price: roundMoney(toPrice(optionData.price), currency) };
+    });
+
+    lineCategories.push(productData.categoryId ?? null);
+    lineTaxCategories.push(
+      typeof productData.taxCategoryId === "string" && productData.taxCategoryId ? productData.taxCategoryId : null
+    );
+    const unitPrice = roundMoney(toPrice(productData.price), currency);
+    const optionsPrice = major(options.reduce((sum, option) => sum + minor(option.price), 0));
+    return {
+      productId: line.productId,
+      productName: productData.name || "",
+      optionIds: line.optionIds,
+      options,
+      quantity: line.quantity,
+      unitPrice,
+      optionsPrice,
+      lineTotal: major((minor(unitPrice) + minor(optionsPrice)) * line.quantity),
+    };
+  });
+
+  // Products without their own tax category take their category's
+  const inheritedCategoryIds = Array.from(
+    new Set(
+      lineCategories.filter(
+        (categoryId, index): categoryId is string => !!categoryId && lineTaxCategories[index] === null
+      )
+    )
+  );
+  if (inheritedCategoryIds.length > 0) {
+    const categoryRefs = inheritedCategoryIds.map((id) => db.collection("categories").doc(id));
+    const categorySnaps = transaction ? await transaction.getAll(...categoryRefs) : await db.getAll(...categoryRefs);
+    const taxCategoryByCategory = new Map(categorySnaps.map((snap) => [snap.id, snap.data()?.taxCategoryId]));
+    lineCategories.forEach((categoryId, index) => {
+      const inherited = categoryId ? taxCategoryByCategory.get(categoryId) : null;
+      if (lineTaxCategories[index] === null && typeof inherited === "string" && inherited) {
+        lineTaxCategories[index] = inherited;
+      }
+    });
+  }
+
+  const subtotalMinor = lines.reduce((sum, line) => sum + minor(line.lineTotal), 0);
+  const delivery: DeliveryZoneMatch = input.pickupOrder
+    ? { zone: null, issue: null }
+    : await resolveDeliveryZone(vendorData, input.dropoff, transaction);
+  if (delivery.zone && subtotalMinor < minor(delivery.zone.minOrderValue)) {
+    delivery.issue = `${delivery.zone.name} requires a minimum order of ${formatMoney(delivery.zone.minOrderValue, currency)}`;
+  }
+  const pickup = input.pickup ?? extractCoordinates(vendorData) ?? extractCoordinates(vendorData?.address);
+  const distanceFee =
+    !input.pickupOrder && !delivery.zone && fees.distanceFee && pickup && input.dropoff
+      ? computeDistanceDeliveryFee(fees.distanceFee, pickup, input.dropoff, currency)
+      : null;
+  const deliveryFeeMinor = input.pickupOrder
+    ? 0
+    : minor(delivery.zone?.deliveryFee ?? distanceFee?.fee ?? fees.deliveryFee);
+  const couponEvaluation = input.couponCode
+    ? await evaluateCoupon(
+        input.couponCode,
+        {
+          vendorId: input.vendorId,
+          customerId: input.customerId,
+          currency,
+          subtotal: major(subtotalMinor),
+          deliveryFee: major(deliveryFeeMinor),
+          lines: lines.map((line, index) => ({ categoryId: lineCategories[index], lineTotal: line.lineTotal })),
+        },
+        transaction
+      )
+    : null;
+  const coupon = couponEvaluation?.coupon ?? null;
+  const itemDiscountMinor = minor(coupon?.itemDiscount ?? 0);
+  const deliveryDiscountMinor = minor(coupon?.deliveryDiscount ?? 0);
+
+  // The item discount is spread over the lines it applies to, so each tax category is taxed on what was paid
+  const couponCategoryIds = couponEvaluation?.eligibleCategoryIds ?? [];
+  const lineMinors = lines.map((line) => minor(line.lineTotal));
+  const lineDiscounts = allocateMinorUnits(
+    itemDiscountMinor,
+    lineMinors.map((amount, index) => {
+      const categoryId = lineCategories[index];
+      const eligible = couponCategoryIds.length === 0 || (categoryId !== null && couponCategoryIds.includes(categoryId));
+      return eligible ? amount : 0;
+    })
+  );
+  const { tax, taxMinor } = computeOrderTax({
+    settings: taxSettings,
+    zone: resolveTaxZone(taxSettings, vendorData),
+    flatRate: fees.taxRate,
+    currency,
+    items: lines.map((_, index) => ({
+      taxCategoryId: lineTaxCategories[index],
+      amountMinor: lineMinors[index] - lineDiscounts[index],
+    })),
+    deliveryFeeMinor: deliveryFeeMinor - deliveryDiscountMinor,
+  });
+  const includedItemTaxMinor = tax.pricesIncludeTax
+    ? tax.lines.filter((line) => line.kind === "items").reduce((sum, line) => sum + line.minorUnits.taxAmount, 0)
+    : 0;
+  const chargedRates = new Set(tax.lines.filter((line) => line.minorUnits.taxAmount > 0).map((line) => line.rate));
+
+  // Commission per contract rate on item sales net of included tax, spread over the lines by their totals
+  const now = new Date();
+  const contract = await getActiveCommissionContract(input.vendorId, now, transaction);
+  const volumeRate = contract
+    ? contractVolumeRate(contract, contract.tiers.length > 0 ? await getVendorMonthlySales(input.vendorId, now) : 0)
+    : fees.commissionRate;
+  const lineIncludedTax = allocateMinorUnits(includedItemTaxMinor, lineMinors);
+  const commissionBases = new Map<number, number>();
+  lineMinors.forEach((amount, index) => {
+    const categoryId = lineCategories[index];
+    const rate =
+      contract && categoryId !== null && contract.categoryRates[categoryId] !== undefined
+        ? contract.categoryRates[categoryId]
+        : volumeRate;
+    commissionBases.set(rate, (commissionBases.get(rate) ?? 0) + amount - lineIncludedTax[index]);
+  });
+  const commissionRates = Array.from(commissionBases.keys());
+
+  const minorUnits: OrderQuoteMinorUnits = {
+    subtotal: subtotalMinor,
+    discountAmount: itemDiscountMinor + deliveryDiscountMinor,
+    taxAmount: taxMinor,
+    deliveryFee: deliveryFeeMinor,
+    driverTip: minor(input.driverTip),
+    totalAmount: 0,
+    commissionFee: Array.from(commissionBases.entries()).reduce(
+      (sum, [rate, baseMinor]) => sum + Math.round((baseMinor * rate) / 100),
+      0
+    ),
+  };
+  minorUnits.totalAmount =
+    minorUnits.subtotal -
+    minorUnits.discountAmount +
+    (tax.pricesIncludeTax ? 0 : minorUnits.taxAmount) +
+    minorUnits.deliveryFee +
+    minorUnits.driverTip;
+
+  return {
+    quote: {
+      vendorId: input.vendorId,
+      currency,
+      lines,
+      subtotal: major(minorUnits.subtotal),
+      coupon,
+      discountAmount: major(minorUnits.discountAmount),
+      taxRate: chargedRates.size === 1 ? Array.from(chargedRates)[0] : 0,
+      taxAmount: major(minorUnits.taxAmount),
+      tax,
+      deliveryFee: major(minorUnits.deliveryFee),
+      deliveryDistanceKm: distanceFee?.distanceKm ?? null,
+      deliveryZone: delivery.zone ? { id: delivery.zone.id, name: delivery.zone.name } : null,
+      deliveryIssue: delivery.issue,
+      driverTip: major(minorUnits.driverTip),
+      totalAmount: major(minorUnits.totalAmount),
+      commissionRate: commissionRates.length === 1 ? commissionRates[0] : 0,
+      commissionContractId: contract?.id ?? null,
+      commissionFee: major(minorUnits.commissionFee),
+      minorUnits,
+      configVersions: { fees: fees.version, tax: taxSettings.version, paymentSettings: marketSettings.version },
+    },
+    productSnaps,
+    couponEvaluation,
+  };
+}
+
+/**
+ * Resolves which vendor an order is priced for: vendors price their own
+ * catalog, admins and customers must name the vendor. Customers always order
+ * for themselves.
+ */
+async function requirePricingVendor(
+  request: CallableRequest
+): Promise<{ uid: string; role: CancellationActorRole; vendorId: string }> {
+  if (!request.auth || !request.auth.uid) {
+    throw new HttpsError("unauthenticated", "Authentication required");
+  }
+  const uid = request.auth.uid;
+  const role = await getCancellationActorRole(uid);
+  if (role === "vendor") return { uid, role, vendorId: uid };
+  if (role === "admin" || role === "customer") {
+    const vendorId = request.data?.vendorId;
+    if (!vendorId || typeof vendorId !== "string") {
+      throw new HttpsError("invalid-argument", "vendorId is required");
+    }
+    if (role === "customer") {
+      const customerId = request.data?.customerId;
+      if (customerId !== undefined && customerId !== null && customerId !== uid) {
+        throw new HttpsError("permission-denied", "Customers can only order for themselves");
+      }
+    }
+    return { uid, role, vendorId };
+  }
+  throw new HttpsError("permission-denied", "Only customers, vendors and admins can price orders");
+}
+
+/**
+ * Generates a random 8-digit order code that is not used by another order
+ */
+async function generateUniqueOrderCode(): Promise<string> {
+  const randomCode = () => `#${Math.floor(Math.random() * 90000000) + 10000000}`;
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const code = randomCode();
+    const existing = await db.collection("orders").where("orderCode", "==", code).limit(1).get();
+    if (existing.empty) return code;
+  }
+  return `#${randomCode().substring(1, 5)}${Date.now().toString().slice(-4)}`;
+}
+
+/**
+ * quoteOrder
+ * Returns an itemized price quote for an order without writing anything.
+ * - Requires: auth.uid (approved vendor, or admin or customer with vendorId),
+ *   lines [{ productId, optionIds, quantity }]
+ * - Optional: pickupOrder, driverTip, couponCode, pickupLocation,
+ *   dropoffLocation (checked against the vendor's delivery zones; see
+ *   quote.deliveryIssue, and used for the distance-based delivery fee)
+ * - Returns: quote (lines, subtotal, discount, tax, delivery fee, tip, total, commission)
+ */
+export const quoteOrder = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role, vendorId } = await requirePricingVendor(request);
+    const data = role === "customer" ? { ...request.data, customerId: uid } : request.data;
+    const input = parseOrderQuoteInput(data, vendorId);
+    const { quote } = await computeOrderQuote(input);
+    return { success: true, quote };
+  }
+);
+
+/**
+ * createOrder
+ * Prices an order on the server and writes it with the quoted amounts,
+ * decrementing product stock in the same transaction. When expectedTotal is
+ * passed and the price moved since the caller's quote, nothing is written.
+ * Delivery orders are rejected when the drop-off is outside the vendor's
+ * delivery zones or below the zone's minimum order.
+ * - Requires: auth.uid (approved vendor, or admin with vendorId and customerId,
+ *   or customer with vendorId), lines [{ productId, optionIds, quantity }]
+ * - Optional: pickupOrder, driverTip, couponCode, paymentMethod ("wallet" only
+ *   when the customer places the order, since it holds their balance), note,
+ *   deliveryAddress, pickupLocation, dropoffLocation, scheduledFor (ms or ISO),
+ *   expectedTotal
+ * - Returns: orderId, orderCode, quote
+ */
+export const createOrder = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    const { uid, role, vendorId } = await requirePricingVendor(request);
+    const data = role === "customer" ? { ...request.data, customerId: uid } : request.data;
+    const input = parseOrderQuoteInput(data, vendorId);
+    const {
+      customerId,
+      paymentMethod,
+      note,
+      deliveryAddress,
+      pickupLocation,
+      dropoffLocation,
+      scheduledFor,
+      expectedTotal,
+    } = data || {};
+
+    if (!customerId || typeof customerId !== "string") {
+      throw new HttpsError("invalid-argument", "customerId is required");
+    }
+
+    let scheduledDate: Date | null = null;
+    if (scheduledFor !== undefined && scheduledFor !== null && scheduledFor !== "") {
+      scheduledDate = new Date(scheduledFor);
+      if (Number.isNaN(scheduledDate.getTime()) || scheduledDate.getTime() <= Date.now()) {
+        throw new HttpsError("invalid-argument", "scheduledFor must be a future date");
+      }
+    }
+
+    const method = typeof paymentMethod === "string" && paymentMethod ? paymentMethod : "cash-on-delivery";
+    // Vendors and admins cannot spend someone else's wallet
+    if (method === "wallet" && role !== "customer") {
+      throw new HttpsError("permission-denied", "Only the customer can pay from their wallet", {
+        reason: "wallet-not-authorized",
+      });
+    }
+    const paymentStatus =
+      method === "cash-on-delivery" ? "pending" : method === "wallet" ? "authorized" : "awaiting-confirmation";
+    const initialStatus: OrderStatus = scheduledDate ? "scheduled" : "available";
+
+    const [customerDoc, vendorDoc] = await Promise.all([
+      db.collection("users").doc(customerId).get(),
+      db.collection("vendors").doc(vendorId).get(),
+    ]);
+    const customerData = customerDoc.data();
+    if (!customerData) {
+      throw new HttpsError("not-found", "Customer not found");
+    }
+    const customerName = customerData.displayName || customerData.name || customerData.email || null;
+    const customerEmail = customerData.email ?? null;
+    const resolvedDeliveryAddress = input.pickupOrder ? null : deliveryAddress || customerData.deliveryAddress || null;
+    const resolvedDropoff = input.pickupOrder ? null : dropoffLocation || resolvedDeliveryAddress;
+    input.dropoff = extractCoordinates(resolvedDropoff);
+
+    const orderCode = await generateUniqueOrderCode();
+    const orderRef = db.collection("orders").doc();
+
+    const quote = await db.runTransaction(async (transaction) => {
+      const { quote: pricedQuote, productSnaps, couponEvaluation } = await computeOrderQuote(input, transaction);
+
+      if (pricedQuote.deliveryIssue) {
+        throw new HttpsError("failed-precondition", pricedQuote.deliveryIssue, { quote: pricedQuote });
+      }
+
+      if (
+        typeof expectedTotal === "number" &&
+        toMinorUnits(expectedTotal, pricedQuote.currency) !== pricedQuote.minorUnits.totalAmount
+      ) {
+        throw new HttpsError("failed-precondition", "Prices changed since the quote. Review the new total.", {
+          quote: pricedQuote,
+        });
+      }
+
+      const holdAccounts =
+        method === "wallet" ? await readLedgerAccounts(transaction, walletHoldAccountIds(customerId)) : null;
+
+      const timestamp = admin.firestore.FieldValue.serverTimestamp();
+
+      transaction.set(orderRef, {
+        id: orderRef.id,
+        orderCode,
+        code: orderCode,
+        customerId,
+        customerName,
+        vendorId,
+        vendorName: vendorDoc.data()?.businessName || null,
+        createdBy: uid,
+        driverId: null,
+        driverName: null,
+        paymentStatus,
+        orderStatus: initialStatus,
+        scheduledFor: scheduledDate ? admin.firestore.Timestamp.fromDate(scheduledDate) : null,
+        deliveryAddress: resolvedDeliveryAddress,
+        pickupLocation: pickupLocation || null,
+        dropoffLocation: resolvedDropoff,
+        deliveryZoneId: pricedQuote.deliveryZone?.id ?? null,
+        products: pricedQuote.lines.map((line) => ({
+          productId: line.productId,
+          productName: line.productName,
+          optionIds: line.optionIds,
+          quantity: line.quantity,
+          unitPrice: line.unitPrice,
+          optionsPrice: line.optionsPrice,
+          lineTotal: line.lineTotal,
+        })),
+        subtotal: pricedQuote.subtotal,
+        discountAmount: pricedQuote.discountAmount,
+        taxAmount: pricedQuote.taxAmount,
+        tax: pricedQuote.tax,
+        deliveryFee: pricedQuote.deliveryFee,
+        commissionFee: pricedQuote.commissionFee,
+        driverTip: pricedQuote.driverTip,
+        totalAmount: pricedQuote.totalAmount,
+        currency: pricedQuote.currency,
+        minorUnits: pricedQuote.minorUnits,
+        configVersions: pricedQuote.configVersions,
+        couponCode: pricedQuote.coupon?.applied ? pricedQuote.coupon.code : null,
+        pricing: { ...pricedQuote, pricedAt: timestamp },
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        availableAt: scheduledDate ? null : timestamp,
+        // Legacy compatibility fields
+        userId: customerId,
+        status: initialStatus,
+        paymentMethod: method,
+        payment: {
+          method,
+          status: paymentStatus,
+          type: input.pickupOrder ? "pickup" : "delivery",
+        },
+        type: input.pickupOrder ? "pickup" : "delivery",
+        customer: { name: customerName, email: customerEmail },
+        customerEmail,
+        note: typeof note === "string" && note.trim() ? note.trim() : null,
+        pickupOrder: input.pickupOrder,
+      });
+
+      const quantities = new Map<string, number>();
+      input.lines.forEach((line) => {
+        quantities.set(line.productId, (quantities.get(line.productId) ?? 0) + line.quantity);
+      });
+      quantities.forEach((quantity, productId) => {
+        const productSnap = productSnaps.get(productId);
+        const productData = productSnap?.data();
+        if (!productSnap || !productData) return;
+        transaction.update(productSnap.ref, {
+          availableQty: Math.max((productData.availableQty ?? productData.capacity ?? 0) - quantity, 0),
+          updatedAt: timestamp,
+        });
+      });
+
+      if (couponEvaluation && pricedQuote.coupon?.applied) {
+        redeemCoupon(transaction, couponEvaluation, {
+          orderId: orderRef.id,
+          orderCode,
+          customerId,
+          vendorId,
+          coupon: pricedQuote.coupon,
+        });
+      }
+
+      if (holdAccounts && pricedQuote.totalAmount > 0) {
+        placeWalletHold(transaction, holdAccounts, {
+          orderId: orderRef.id,
+          orderCode,
+          customerId,
+          amount: pricedQuote.totalAmount,
+          currency: pricedQuote.currency,
+          createdBy: uid,
+        });
+      }
+
+      return pricedQuote;
+    });
+
+    logger.info(`Order ${orderRef.id} created by ${uid} for vendor ${vendorId}: total ${quote.totalAmount}`);
+    return { success: true, orderId: orderRef.id, orderCode, quote };
+  }
+);
+
+// ============================================================================
+// PROMOTIONS (coupons)
+// ============================================================================
+
+const COUPON_DISCOUNT_TYPES = ["percentage", "fixed", "free-delivery"] as const;
+
+type CouponDiscountType = (typeof COUPON_DISCOUNT_TYPES)[number];
+
+interface CouponContext {
+  vendorId: string;
+  customerId: string | null;
+  currency: string;
+  subtotal: number;
+  deliveryFee: number;
+  lines: Array<{ categoryId: string | null; lineTotal: number }>;
+}
+
+interface CouponEvaluation {
+  coupon: OrderQuoteCoupon;
+  /** Categories the item discount applies to; empty for the whole order */
+  eligibleCategoryIds: string[];
+  couponRef: admin.firestore.DocumentReference;
+  usageRef: admin.firestore.DocumentReference | null;
+}
+
+function toMillis(value: any): number | null {
+  if (!value) return null;
+  const millis = value.toMillis?.() ?? new Date(value).getTime();
+  return Number.isFinite(millis) ? millis : null;
+}
+
+/**
+ * Checks a coupon from coupons/{code} against an order and works out its
+ * discount. Problems come back as a not-applied coupon with a message rather
+ * than an error, so a quote still prices. Reads through the transaction when
+ * given so redemption limits are enforced atomically by createOrder.
+ */
+async function evaluateCoupon(
+  code: string,
+  context: CouponContext,
+  transaction?: admin.firestore.Transaction
+): Promise<CouponEvaluation> {
+  const couponRef = db.collection("coupons").doc(code);
+  const usageRef = context.customerId ? couponRef.collection("usage").doc(context.customerId) : null;
+  const refs = usageRef ? [couponRef, usageRef] : [couponRef];
+  const [couponSnap, usageSnap] = transaction ? await transaction.getAll(...refs) : await db.getAll(...refs);
+
+  const rejected = (message: string): CouponEvaluation => ({
+    coupon: { code, applied: false, message, discountType: null, itemDiscount: 0, deliveryDiscount: 0 },
+    eligibleCategoryIds: [],
+    couponRef,
+    usageRef,
+  });
+
+  const couponData = couponSnap.data();
+  if (!couponData || couponData.isActive === false) {
+    return rejected("Coupon not found or inactive");
+  }
+
+  const discountType = couponData.discountType as CouponDiscountType;
+  if (!(COUPON_DISCOUNT_TYPES as readonly string[]).includes(discountType)) {
+    return rejected("Coupon is misconfigured");
+  }
+
+  const now = Date.now();
+  const startsAt = toMillis(couponData.startsAt);
+  const endsAt = toMillis(couponData.endsAt);
+  if (startsAt !== null && now < startsAt) return rejected("Coupon is not active yet");
+  if (endsAt !== null && now > endsAt) return rejected("Coupon has expired");
+
+  const vendorIds: string[] = Array.isArray(couponData.vendorIds) ? couponData.vendorIds : [];
+  if (vendorIds.length > 0 && !vendorIds.includes(context.vendorId)) {
+    return rejected("Coupon is not valid for this vendor");
+  }
+
+  const minOrderValue = toPrice(couponData.minOrderValue);
+  if (context.subtotal < minOrderValue) {
+    return rejected(`Order subtotal must be at least ${formatMoney(minOrderValue, context.currency)}`);
+  }
+
+  const usageLimit = typeof couponData.usageLimit === "number" ? couponData.usageLimit : null;
+  if (usageLimit !== null && Number(couponData.redemptionCount ?? 0) >= usageLimit) {
+    return rejected("Coupon usage limit reached");
+  }
+
+  const perCustomerLimit = typeof couponData.perCustomerLimit === "number" ? couponData.perCustomerLimit : null;
+  if (perCustomerLimit !== null && usageSnap && Number(usageSnap.data()?.count ?? 0) >= perCustomerLimit) {
+    return rejected("Customer has already used this coupon the maximum number of times");
+  }
+
+  const categoryIds: string[] = Array.isArray(couponData.categoryIds) ? couponData.categoryIds : [];
+  const eligibleSubtotal = roundMoney(
+    context.lines
+      .filter((line) => categoryIds.length === 0 || (line.categoryId !== null && categoryIds.includes(line.categoryId)))
+      .reduce((sum, line) => sum + line.lineTotal, 0),
+    context.currency
+  );
+
+  let itemDiscount = 0;
+  let deliveryDiscount = 0;
+  if (discountType === "free-delivery") {
+    if (context.deliveryFee <= 0) return rejected("Order has no delivery fee to waive");
+    deliveryDiscount = context.deliveryFee;
+  } else {
+    if (eligibleSubtotal <= 0) return rejected("No items in this order qualify for the coupon");
+    const value = toPrice(couponData.discountValue);
+    itemDiscount = discountType === "percentage" ? (eligibleSubtotal * Math.min(value, 100)) / 100 : value;
+    const maxDiscount = toPrice(couponData.maxDiscountAmount);
+    if (maxDiscount > 0) itemDiscount = Math.min(itemDiscount, maxDiscount);
+    itemDiscount = roundMoney(Math.min(itemDiscount, eligibleSubtotal), context.currency);
+  }
+
+  return {
+    coupon: {
+      code,
+      applied: true,
+      message: couponData.description || null,
+      discountType,
+      itemDiscount,
+      deliveryDiscount: roundMoney(deliveryDiscount, context.currency),
+    },
+    eligibleCategoryIds: categoryIds,
+    couponRef,
+    usageRef,
+  };
+}
+
+/**
+ * Records a coupon redemption for an order and bumps the coupon's global and
+ * per-customer counters. Must run in the transaction that evaluated the coupon.
+ */
+function redeemCoupon(
+  transaction: admin.firestore.Transaction,
+  evaluation: CouponEvaluation,
+  redemption: { orderId: string; orderCode: string; customerId: string; vendorId: string; coupon: OrderQuoteCoupon }
+): void {
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  const totalDiscount = roundMoney(redemption.coupon.itemDiscount + redemption.coupon.deliveryDiscount);
+
+  transaction.set(db.collection("couponRedemptions").doc(redemption.orderId), {
+    id: redemption.orderId,
+    orderId: redemption.orderId,
+    orderCode: redemption.orderCode,
+    couponCode: redemption.coupon.code,
+    discountType: redemption.coupon.discountType,
+    customerId: redemption.customerId,
+    vendorId: redemption.vendorId,
+    itemDiscount: redemption.coupon.itemDiscount,
+    deliveryDiscount: redemption.coupon.deliveryDiscount,
+    totalDiscount,
+    status: "redeemed",
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+  transaction.update(evaluation.couponRef, {
+    redemptionCount: admin.firestore.FieldValue.increment(1),
+    discountTotal: admin.firestore.FieldValue.increment(totalDiscount),
+    lastRedeemedAt: timestamp,
+  });
+  const usageRef = evaluation.usageRef ?? evaluation.couponRef.collection("usage").doc(redemption.customerId);
+  transaction.set(
+    usageRef,
+    { customerId: redemption.customerId, count: admin.firestore.FieldValue.increment(1), updatedAt: timestamp },
+    { merge: true }
+  );
+}
+
+/**
+ * Marks an order's coupon redemption reversed and releases its usage counts.
+ * Write-only: the caller reads couponRedemptions/{orderId} in its transaction.
+ */
+function reverseCouponRedemption(
+  transaction: admin.firestore.Transaction,
+  redemptionSnap: admin.firestore.DocumentSnapshot,
+  reason: string
+): void {
+  const redemption = redemptionSnap.data();
+  if (!redemption || redemption.status !== "redeemed") return;
+
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  const couponRef = db.collection("coupons").doc(redemption.couponCode);
+  transaction.update(redemptionSnap.ref, {
+    status: "reversed",
+    reversedAt: timestamp,
+    reversalReason: reason,
+    updatedAt: timestamp,
+  });
+  transaction.update(couponRef, {
+    redemptionCount: admin.firestore.FieldValue.increment(-1),
+    discountTotal: admin.firestore.FieldValue.increment(-Number(redemption.totalDiscount ?? 0)),
+  });
+  if (redemption.customerId) {
+    transaction.set(
+      couponRef.collection("usage").doc(redemption.customerId),
+      { count: admin.firestore.FieldValue.increment(-1), updatedAt: timestamp },
+      { merge: true }
+    );
+  }
+}
+
+// ============================================================================
+// WALLET LEDGER (double-entry)
+// ============================================================================
+
+/**
+ * Every balance movement is a journal of balanced debit/credit entries.
+ * Tracked accounts store their balance on a document:
+ * - wallet:{uid}         → wallets/{uid}.balance
+ * - wallet-hold:{uid}    → wallets/{uid}.heldBalance (see WALLET PAYMENTS)
+ * - driver-cash:{uid}    → drivers/{uid}.cashOnHand
+ * System accounts (system:*) have no stored balance. Balances follow the
+ * account holder's view: a credit raises the balance, a debit lowers it.
+ * Amounts are also recorded in integer minor units (`minorUnits`), and an
+ * account whose document names a currency only takes journals in it.
+ */
+type LedgerDirection = "debit" | "credit";
+
+interface LedgerLeg {
+  accountId: string;
+  direction: LedgerDirection;
+  amount: number;
+}
+
+interface LedgerJournalInput {
+  /** Deterministic ID for idempotent postings; random when omitted */
+  journalId?: string;
+  reason: string;
+  currency: string;
+  createdBy: string | null;
+  legs: LedgerLeg[];
+  reference?: Record<string, unknown>;
+}
+
+interface LedgerAccountState {
+  balance: number;
+  sequence: number;
+  /** Currency stored on the account document, when it has one */
+  currency: string | null;
+}
+
+const LEDGER_TRACKED_ACCOUNTS = {
+  wallet: { collection: "wallets", balanceField: "balance", sequenceField: "ledgerSequence" },
+  "wallet-hold": { collection: "wallets", balanceField: "heldBalance", sequenceField: "holdLedgerSequence" },
+  "driver-cash": { collection: "drivers", balanceField: "cashOnHand", sequenceField: "cashLedgerSequence" },
+} as const;
+
+const walletAccountId = (uid: string) => `wallet:${uid}`;
+const driverCashAccountId = (driverId: string) => `driver-cash:${driverId}`;
+
+/**
+ * Resolves the document and fields holding a tracked account's balance
+ */
+function resolveLedgerAccount(accountId: string) {
+  const separator = accountId.indexOf(":");
+  const type = accountId.slice(0, separator) as keyof typeof LEDGER_TRACKED_ACCOUNTS;
+  const id = accountId.slice(separator + 1);
+  const fields = LEDGER_TRACKED_ACCOUNTS[type];
+  if (separator < 0 || !fields || !id) return null;
+  return { ...fields, type, ref: db.collection(fields.collection).doc(id) };
+}
+
+/**
+ * Reads the balances of the tracked accounts a journal will touch.
+ * Call during the transaction's read phase.
+ */
+async function readLedgerAccounts(
+  transaction: admin.firestore.Transaction,
+  accountIds: string[]
+): Promise<Map<string, LedgerAccountState>> {
+  const tracked = Array.from(new Set(accountIds))
+    .map((accountId) => ({ accountId, account: resolveLedgerAccount(accountId) }))
+    .filter((item) => item.account);
+  const snaps = tracked.length ? await transaction.getAll(...tracked.map((item) => item.account!.ref)) : [];
+
+  return new Map(
+    tracked.map(({ accountId, account }, index) => {
+      const data = snaps[index].data() || {};
+      return [
+        accountId,
+        {
+          balance: roundMoney(Number(data[account!.balanceField] ?? 0), recordCurrency(data)),
+          sequence: Number(data[account!.sequenceField] ?? 0),
+          currency: normalizeCurrency(data.currency),
+        },
+      ];
+    })
+  );
+}
+
+/**
+ * Writes a balanced journal, its entries (with running balances) and the new
+ * stored balances. `accounts` must come from readLedgerAccounts in the same
+ * transaction and is updated in place, so several journals can be posted.
+ * Accounts that predate the ledger first get an opening-balance journal.
+ */
+function postLedgerJournal(
+  transaction: admin.firestore.Transaction,
+  accounts: Map<string, LedgerAccountState>,
+  input: LedgerJournalInput
+): string {
+  const currency = normalizeCurrency(input.currency) ?? DEFAULT_CURRENCY;
+  const minor = (amount: number) => toMinorUnits(amount, currency);
+  const legs = input.legs
+    .map((leg) => ({ ...leg, amount: roundMoney(leg.amount, currency) }))
+    .filter((leg) => leg.amount > 0);
+  const totalDebitsMinor = legs.filter((leg) => leg.direction === "debit").reduce((sum, leg) => sum + minor(leg.amount), 0);
+  const totalCreditsMinor = legs.filter((leg) => leg.direction === "credit").reduce((sum, leg) => sum + minor(leg.amount), 0);
+  if (legs.length < 2 || totalDebitsMinor !== totalCreditsMinor) {
+    throw new Error(
+      `Unbalanced ledger journal (${input.reason}): debits ${totalDebitsMinor}, credits ${totalCreditsMinor} (${currency} minor units)`
+    );
+  }
+  for (const leg of legs) {
+    const accountCurrency = accounts.get(leg.accountId)?.currency;
+    if (accountCurrency && accountCurrency !== currency) {
+      throw new Error(`Ledger account ${leg.accountId} is in ${accountCurrency}, not ${currency} (${input.reason})`);
+    }
+  }
+
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  const touched = new Set<string>();
+
+  const writeJournal = (journalRef: admin.firestore.DocumentReference, journal: LedgerJournalInput, total: number) => {
+    const entryIds = journal.legs.map((leg) => {
+      const account = resolveLedgerAccount(leg.accountId);
+      let balanceAfter: number | null = null;
+      let sequence: number | null = null;
+      if (account) {
+        const state = accounts.get(leg.accountId);
+        if (!state) {
+          throw new Error(`Ledger account ${leg.accountId} was not read before posting`);
+        }
+        state.balance = fromMinorUnits(
+          minor(state.balance) + (leg.direction === "credit" ? minor(leg.amount) : -minor(leg.amount)),
+          currency
+        );
+        state.sequence += 1;
+        balanceAfter = state.balance;
+        sequence = state.sequence;
+        touched.add(leg.accountId);
+      }
+
+      const entryRef = db.collection("ledgerEntries").doc();
+      transaction.set(entryRef, {
+        id: entryRef.id,
+        journalId: journalRef.id,
+        accountId: leg.accountId,
+        accountType: account ? account.type : "system",
+        direction: leg.direction,
+        amount: leg.amount,
+        balanceAfter,
+        sequence,
+        currency,
+        minorUnits: {
+          amount: minor(leg.amount),
+          balanceAfter: balanceAfter === null ? null : minor(balanceAfter),
+        },
+        reason: journal.reason,
+        reference: journal.reference ?? {},
+        createdBy: journal.createdBy,
+        createdAt: timestamp,
+      });
+      return entryRef.id;
+    });
+
+    transaction.set(journalRef, {
+      id: journalRef.id,
+      reason: journal.reason,
+      currency,
+      amount: total,
+      minorUnits: { amount: minor(total) },
+      legs: journal.legs,
+      entryIds,
+      reference: journal.reference ?? {},
+      createdBy: journal.createdBy,
+      createdAt: timestamp,
+    });
+  };
+
+  for (const accountId of new Set(legs.map((leg) => leg.accountId))) {
+    const state = accounts.get(accountId);
+    if (!state || state.sequence > 0 || state.balance === 0) continue;
+    const openingBalance = state.balance;
+    state.balance = 0;
+    writeJournal(
+      db.collection("ledgerJournals").doc(`opening-${accountId.replace(/[:/]/g, "-")}`),
+      {
+        reason: "opening-balance",
+        currency,
+        createdBy: null,
+        legs: [
+          { accountId, direction: openingBalance > 0 ? "credit" : "debit", amount: Math.abs(openingBalance) },
+          { accountId: "system:opening-balances", direction: openingBalance > 0 ? "debit" : "credit", amount: Math.abs(openingBalance) },
+        ],
+      },
+      Math.abs(openingBalance)
+    );
+  }
+
+  const journalRef = input.journalId
+    ? db.collection("ledgerJournals").doc(input.journalId)
+    : db.collection("ledgerJournals").doc();
+  writeJournal(journalRef, { ...input, legs }, fromMinorUnits(totalDebitsMinor, currency));
+
+  touched.forEach((accountId) => {
+    const account = resolveLedgerAccount(accountId)!;
+    const state = accounts.get(accountId)!;
+    transaction.set(
+      account.ref,
+      {
+        [account.balanceField]: state.balance,
+        [account.sequenceField]: state.sequence,
+        minorUnits: { [account.balanceField]: minor(state.balance) },
+        updatedAt: timestamp,
+      },
+      { merge: true }
+    );
+  });
+
+  return journalRef.id;
+}
+
+/**
+ * adjustWalletBalance
+ * Admin credit (positive amount) or debit (negative amount) of a wallet,
+ * posted against the system adjustments account.
+ * - Requires: auth.uid (admin), walletId, amount, reason
+ * - Returns: journalId, balance
+ */
+export const adjustWalletBalance = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const adminId = request.auth.uid;
+
+    const { walletId, amount, reason } = request.data || {};
+    const numericAmount = roundMoney(Number(amount));
+    if (typeof walletId !== "string" || !walletId) {
+      throw new HttpsError("invalid-argument", "walletId is required");
+    }
+    if (!Number.isFinite(numericAmount) || numericAmount === 0) {
+      throw new HttpsError("invalid-argument", "amount must be a non-zero number");
+    }
+    if (typeof reason !== "string" || !reason.trim()) {
+      throw new HttpsError("invalid-argument", "reason is required");
+    }
+
+    const accountId = walletAccountId(walletId);
+    const result = await db.runTransaction(async (transaction) => {
+      const walletSnap = await transaction.get(db.collection("wallets").doc(walletId));
+      const accounts = await readLedgerAccounts(transaction, [accountId]);
+      const currency = recordCurrency(walletSnap.data());
+      if (numericAmount < 0 && accounts.get(accountId)!.balance + numericAmount < 0) {
+        throw new HttpsError("failed-precondition", "Debit would make the wallet balance negative");
+      }
+
+      const isCredit = numericAmount > 0;
+      const journalId = postLedgerJournal(transaction, accounts, {
+        reason: "admin-adjustment",
+        currency,
+        createdBy: adminId,
+        reference: { note: reason.trim() },
+        legs: [
+          { accountId, direction: isCredit ? "credit" : "debit", amount: Math.abs(numericAmount) },
+          { accountId: "system:adjustments", direction: isCredit ? "debit" : "credit", amount: Math.abs(numericAmount) },
+        ],
+      });
+
+      transaction.set(
+        walletSnap.ref,
+        {
+          currency,
+          updatedBy: adminId,
+          lastAdjustment: {
+            amount: numericAmount,
+            reason: reason.trim(),
+            journalId,
+            updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+            updatedBy: adminId,
+          },
+        },
+        { merge: true }
+      );
+
+      return { journalId, balance: accounts.get(accountId)!.balance };
+    });
+
+    logger.info(`Wallet ${walletId} adjusted by ${numericAmount} by admin ${adminId} (journal ${result.journalId})`);
+    return { success: true, walletId, ...result };
+  }
+);
+
+/**
+ * Moves a driver's cash on hand down when a COD collection is handed over.
+ * Keyed by the driver transaction, so repeated updates post once. A failed
+ * post is recorded as `ledgerError` on the transaction and rethrown, so the
+ * event is retried until the ledger settles it.
+ */
+export const onDriverTransactionRemitted = onDocumentUpdated(
+  { document: "driverTransactions/{transactionId}", retry: true },
+  async (event: FirestoreEvent<Change<admin.firestore.QueryDocumentSnapshot> | undefined>) => {
+    const beforeData = event.data?.before.data();
+    const afterData = event.data?.after.data();
+    if (!beforeData || !afterData) return;
+    if (beforeData.status !== "pending-remittance" || !["remitted", "reconciled"].includes(afterData.status)) return;
+
+    // Batch remittances post their own journal in remitCodBatch
+    if (afterData.settledByRemittanceId) return;
+
+    const transactionId = event.params.transactionId;
+    const driverId = afterData.driverId as string | undefined;
+    const netAmount = roundMoney(Number(afterData.netAmount ?? 0) - Number(afterData.remittedAmount ?? 0));
+    if (!driverId || !(netAmount > 0)) return;
+
+    const journalRef = db.collection("ledgerJournals").doc(`cod-remittance-${transactionId}`);
+    const accountId = driverCashAccountId(driverId);
+
+    try {
+      await db.runTransaction(async (transaction) => {
+        const journalSnap = await transaction.get(journalRef);
+        if (journalSnap.exists) return;
+        const accounts = await readLedgerAccounts(transaction, [accountId]);
+        transaction.update(event.data!.after.ref, {
+          ledgerJournalId: journalRef.id,
+          ledgerError: admin.firestore.FieldValue.delete(),
+          ledgerFailedAt: admin.firestore.FieldValue.delete(),
+        });
+        postLedgerJournal(transaction, accounts, {
+          journalId: journalRef.id,
+          reason: "cod-remitted",
+          currency: recordCurrency(afterData),
+          createdBy: (afterData.remittedBy ?? afterData.vendorConfirmedBy ?? null) as string | null,
+          reference: { driverTransactionId: transactionId, orderId: afterData.orderId ?? null },
+          legs: [
+            { accountId, direction: "debit", amount: netAmount },
+            { accountId: "system:cod-clearing", direction: "credit", amount: netAmount },
+          ],
+        });
+      });
+    } catch (error) {
+      logger.error(`Error posting COD remittance ${transactionId} to the ledger:`, error);
+      await event.data!.after.ref.update({
+        ledgerError: (error as Error).message || "Ledger post failed",
+        ledgerFailedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      throw error;
+    }
+  }
+);
+
+/**
+ * Compares every wallet's stored balance with the sum of its ledger entries.
+ * Each wallet gets a `reconciliation` summary and each run is recorded in
+ * ledgerReconciliations.
+ */
+export const reconcileWalletLedger = onSchedule(
+  { schedule: "every day 03:00", region: "us-central1" },
+  async () => {
+    const startedAt = admin.firestore.Timestamp.now();
+    const walletsSnap = await db.collection("wallets").get();
+    const mismatches: Array<Record<string, unknown>> = [];
+
+    for (const walletDoc of walletsSnap.docs) {
+      try {
+        const entriesSnap = await db
+          .collection("ledgerEntries")
+          .where("accountId", "==", walletAccountId(walletDoc.id))
+          .get();
+        const ledgerBalance = roundMoney(
+          entriesSnap.docs.reduce((sum, entryDoc) => {
+            const entry = entryDoc.data();
+            return sum + (entry.direction === "credit" ? 1 : -1) * Number(entry.amount ?? 0);
+          }, 0)
+        );
+        const storedBalance = roundMoney(Number(walletDoc.data().balance ?? 0));
+        const difference = roundMoney(storedBalance - ledgerBalance);
+
+        if (difference !== 0) {
+          mismatches.push({ walletId: walletDoc.id, storedBalance, ledgerBalance, difference, entryCount: entriesSnap.size });
+        }
+        await walletDoc.ref.update({
+          reconciliation: {
+            status: difference === 0 ? "balanced" : "mismatch",
+            storedBalance,
+            ledgerBalance,
+            difference,
+            entryCount: entriesSnap.size,
+            checkedAt: admin.firestore.FieldValue.serverTimestamp(),
+          },
+        });
+      } catch (error) {
+        logger.error(`Error reconciling wallet ${walletDoc.id}:`, error);
+      }
+    }
+
+    const runRef = db.collection("ledgerReconciliations").doc();
+    await runRef.set({
+      id: runRef.id,
+      walletCount: walletsSnap.size,
+      mismatchCount: mismatches.length,
+      mismatches,
+      startedAt,
+      completedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (mismatches.length > 0) {
+      logger.warn(`Wallet ledger reconciliation found ${mismatches.length} mismatched wallet(s)`, { runId: runRef.id });
+    } else {
+      logger.info(`Wallet ledger reconciliation: ${walletsSnap.size} wallet(s) balanced`);
+    }
+  }
+);
+
+// ============================================================================
+// WALLET PAYMENTS (holds)
+// ============================================================================
+
+/**
+ * Orders paid by wallet hold the total when placed: the amount moves from the
+ * spendable balance into wallets/{uid}.heldBalance. Delivery captures the hold
+ * for the platform; cancellation or failure releases it back to the balance.
+ * Holds run inside the order's transaction, so concurrent orders cannot
+ * overspend one balance.
+ */
+const walletHoldAccountId = (uid: string) => `wallet-hold:${uid}`;
+
+/**
+ * Ledger accounts read before placing, capturing or releasing a customer's hold
+ */
+function walletHoldAccountIds(customerId: string): string[] {
+  return [walletAccountId(customerId), walletHoldAccountId(customerId)];
+}
+
+/**
+ * Moves an order total from the customer's balance into a hold
+ */
+function placeWalletHold(
+  transaction: admin.firestore.Transaction,
+  accounts: Map<string, LedgerAccountState>,
+  hold: { orderId: string; orderCode: string | null; customerId: string; amount: number; currency: string; createdBy: string }
+): void {
+  const wallet = accounts.get(walletAccountId(hold.customerId));
+  if (wallet?.currency && wallet.currency !== hold.currency) {
+    throw new HttpsError("failed-precondition", `This wallet holds ${wallet.currency}, but the order is priced in ${hold.currency}`, {
+      reason: "currency-mismatch",
+      walletCurrency: wallet.currency,
+      orderCurrency: hold.currency,
+    });
+  }
+
+  const balance = wallet?.balance ?? 0;
+  if (balance < hold.amount) {
+    throw new HttpsError("failed-precondition", "Insufficient wallet balance for this order", {
+      reason: "insufficient-funds",
+      balance,
+      required: hold.amount,
+    });
+  }
+
+  const journalId = postLedgerJournal(transaction, accounts, {
+    journalId: `hold-${hold.orderId}`,
+    reason: "wallet-hold",
+    currency: hold.currency,
+    createdBy: hold.createdBy,
+    reference: { orderId: hold.orderId, orderCode: hold.orderCode },
+    legs: [
+      { accountId: walletAccountId(hold.customerId), direction: "debit", amount: hold.amount },
+      { accountId: walletHoldAccountId(hold.customerId), direction: "credit", amount: hold.amount },
+    ],
+  });
+
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  transaction.set(db.collection("walletHolds").doc(hold.orderId), {
+    id: hold.orderId,
+    orderId: hold.orderId,
+    orderCode: hold.orderCode,
+    userId: hold.customerId,
+    amount: hold.amount,
+    currency: hold.currency,
+    status: "held",
+    holdJournalId: journalId,
+    createdBy: hold.createdBy,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  });
+}
+
+/**
+ * Settles a held amount: captured for the platform on delivery, or released
+ * back to the customer's balance. No-op unless the hold is still held.
+ */
+function settleWalletHold(
+  transaction: admin.firestore.Transaction,
+  accounts: Map<string, LedgerAccountState>,
+  holdSnap: admin.firestore.DocumentSnapshot,
+  outcome: "captured" | "released",
+  actor: { uid: string | null; reason?: string }
+): boolean {
+  const hold = holdSnap.data();
+  if (!hold || hold.status !== "held") return false;
+
+  const holdAccount = walletHoldAccountId(hold.userId);
+  const journalId = postLedgerJournal(transaction, accounts, {
+    journalId: `${outcome === "captured" ? "capture" : "release"}-${hold.orderId}`,
+    reason: outcome === "captured" ? "wallet-payment" : "wallet-hold-released",
+    currency: hold.currency,
+    createdBy: actor.uid,
+    reference: { orderId: hold.orderId, orderCode: hold.orderCode ?? null, ...(actor.reason ? { note: actor.reason } : {}) },
+    legs: [
+      { accountId: holdAccount, direction: "debit", amount: hold.amount },
+      outcome === "captured"
+        ? { accountId: "system:wallet-payments", direction: "credit", amount: hold.amount }
+        : { accountId: walletAccountId(hold.userId), direction: "credit", amount: hold.amount },
+    ],
+  });
+
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  transaction.update(holdSnap.ref, {
+    status: outcome,
+    [outcome === "captured" ? "captureJournalId" : "releaseJournalId"]: journalId,
+    [outcome === "captured" ? "capturedAt" : "releasedAt"]: timestamp,
+    ...(actor.reason ? { releaseReason: actor.reason } : {}),
+    updatedAt: timestamp,
+  });
+  return true;
+}
+
+// ============================================================================
+// WALLET TOP-UP (Stripe)
+// ============================================================================
+
+/**
+ * createWalletTopup
+ * - Creates a Stripe PaymentIntent for wallet top-up
+ * - Requires: auth.uid, amount (number, in major units such as dollars)
+ * - Optional: currency (defaults to the wallet's currency, else the market default);
+ *   a wallet only takes top-ups in its own currency
+ * - Returns: clientSecret, paymentIntentId
+ */
+export const createWalletTopup = onRequest(
+  { region: "us-central1" },
+  async (req: Request, res: any) => {
+    corsHandler(req, res, async () => {
+      try {
+        // Verify authentication
+        const userId = await verifyAuthToken(req);
+
+        // Try to get Stripe instance from Firestore settings if not in env
+        const stripeInstance = await getStripeInstance();
+        if (!stripeInstance) {
+          res.status(500).json({ error: "Stripe not configured. Please set Stripe keys in admin payment settings." });
+          return;
+        }
+
+        const { amount, currency: requestedCurrency } = req.body || {};
+        const amountNumber = Number(amount);
+        if (!amountNumber || Number.isNaN(amountNumber) || amountNumber <= 0) {
+          res.status(400).json({ error: "Invalid amount" });
+          return;
+        }
+
+        const walletDoc = await db.collection("wallets").doc(userId).get();
+        const walletCurrency = normalizeCurrency(walletDoc.data()?.currency);
+        const currency = requestedCurrency
+          ? normalizeCurrency(requestedCurrency)
+          : walletCurrency ?? (await getDefaultCurrency());
+        if (!currency) {
+          res.status(400).json({ error: "Invalid currency" });
+          return;
+        }
+        if (walletCurrency && walletCurrency !== currency) {
+          res.status(400).json({ error: `This wallet holds ${walletCurrency} and cannot be topped up in ${currency}` });
+          return;
+        }
+
+        const amountInMinorUnits = toMinorUnits(amountNumber, currency);
+        if (amountInMinorUnits <= 0) {
+          res.status(400).json({ error: "Invalid amount" });
+          return;
+        }
+
+        const paymentIntent = await stripeInstance.paymentIntents.create({
+          amount: amountInMinorUnits,
+          currency: currency.toLowerCase(),
+          metadata: {
+            userId: userId,
+            type: "wallet-topup",
+          },
+          description: `Wallet top-up for user ${userId}`,
+        });
+
+        res.status(200).json({
+          clientSecret: paymentIntent.client_secret,
+          paymentIntentId: paymentIntent.id,
+        });
+      } catch (error: any) {
+        logger.error(`Error creating wallet topup:`, error);
+        if (error.message?.includes("UNAUTHENTICATED")) {
+          res.status(401).json({ error: error.message });
+          return;
+        }
+        res.status(500).json({ error: error.message || "Failed to create payment intent" });
+      }
+    });
+  }
+);
+
+/**
+ * Webhook signing secret from the environment or the encrypted secret store
+ */
+async function getStripeWebhookSecret(): Promise<string | null> {
+  if (process.env.STRIPE_WEBHOOK_SECRET) return process.env.STRIPE_WEBHOOK_SECRET;
+
+  try {
+    return await readStripeSecret("webhookSecret");
+  } catch (error) {
+    logger.error("Error getting Stripe webhook secret:", error);
+  }
+
+  return null;
+}
+
+type WalletTopupCreditResult = "credited" | "already-credited" | "duplicate-event" | "currency-mismatch";
+
+/**
+ * Credits a succeeded wallet top-up PaymentIntent exactly once.
+ * walletTopups/{paymentIntentId} guards the credit and stripeEvents/{eventId}
+ * records every delivery, so replays and retried events are no-ops.
+ * A payment in another currency than the wallet's is recorded uncredited
+ * for a manual refund instead of failing, so Stripe does not retry it.
+ */
+async function creditWalletTopup(
+  paymentIntent: Stripe.PaymentIntent,
+  eventId: string
+): Promise<WalletTopupCreditResult> {
+  const userId = paymentIntent.metadata?.userId;
+  if (!userId) {
+    throw new Error(`PaymentIntent ${paymentIntent.id} has no userId in metadata`);
+  }
+
+  const eventRef = db.collection("stripeEvents").doc(eventId);
+  const topupRef = db.collection("walletTopups").doc(paymentIntent.id);
+  const walletRef = db.collection("wallets").doc(userId);
+  const accountId = walletAccountId(userId);
+
+  const currency = normalizeCurrency(paymentIntent.currency) ?? DEFAULT_CURRENCY;
+  const amount = fromMinorUnits(paymentIntent.amount_received || paymentIntent.amount || 0, currency);
+
+  return db.runTransaction(async (transaction) => {
+    const [eventSnap, topupSnap] = await transaction.getAll(eventRef, topupRef);
+    if (eventSnap.exists) return "duplicate-event";
+    const accounts = await readLedgerAccounts(transaction, [accountId]);
+
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+    const eventRecord = {
+      id: eventId,
+      type: "payment_intent.succeeded",
+      paymentIntentId: paymentIntent.id,
+      userId,
+      processedAt: timestamp,
+    };
+
+    if (topupSnap.exists) {
+      transaction.set(eventRef, { ...eventRecord, result: "already-credited" });
+      return "already-credited";
+    }
+
+    const walletCurrency = accounts.get(accountId)?.currency;
+    if (walletCurrency && walletCurrency !== currency) {
+      transaction.set(topupRef, {
+        id: paymentIntent.id,
+        userId,
+        amount,
+        currency,
+        walletCurrency,
+        status: "currency-mismatch",
+        journalId: null,
+        stripeEventId: eventId,
+        creditedAt: null,
+      });
+      transaction.set(eventRef, { ...eventRecord, result: "currency-mismatch" });
+      return "currency-mismatch";
+    }
+
+    const journalId = postLedgerJournal(transaction, accounts, {
+      journalId: `topup-${paymentIntent.id}`,
+      reason: "wallet-topup",
+      currency,
+      createdBy: userId,
+      reference: { paymentIntentId: paymentIntent.id, stripeEventId: eventId },
+      legs: [
+        { accountId: "system:stripe-topups", direction: "debit", amount },
+        { accountId, direction: "credit", amount },
+      ],
+    });
+    transaction.set(
+      walletRef,
+      {
+        currency,
+        updatedBy: userId,
+        lastTopup: {
+          paymentIntentId: paymentIntent.id,
+          amount,
+          currency,
+          processedAt: timestamp,
+        },
+      },
+      { merge: true }
+    );
+    transaction.set(topupRef, {
+      id: paymentIntent.id,
+      userId,
+      amount,
+      currency,
+      status: "credited",
+      journalId,
+      stripeEventId: eventId,
+      creditedAt: timestamp,
+    });
+    transaction.set(eventRef, { ...eventRecord, result: "credited" });
+    return "credited";
+  });
+}
+
+/**
+ * stripeWebhook
+ * - Receives Stripe events; the Stripe-Signature header is verified against
+ *   the webhook signing secret before anything is processed
+ * - payment_intent.succeeded for a wallet top-up credits the wallet once
+ * - Other events are acknowledged and ignored
+ */
+export const stripeWebhook = onRequest(
+  { region: "us-central1" },
+  async (req: Request, res: any) => {
+    if (req.method !== "POST") {
+      res.status(405).json({ error: "Method not allowed" });
+      return;
+    }
+
+    const stripeInstance = await getStripeInstance();
+    const webhookSecret = await getStripeWebhookSecret();
+    if (!stripeInstance || !webhookSecret) {
+      logger.error("Stripe webhook received but Stripe or the webhook secret is not configured");
+      res.status(500).json({ error: "Stripe webhook not configured" });
+      return;
+    }
+
+    const signature = req.headers["stripe-signature"];
+    if (typeof signature !== "string") {
+      res.status(400).json({ error: "Missing Stripe-Signature header" });
+      return;
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = stripeInstance.webhooks.constructEvent(req.rawBody, signature, webhookSecret);
+    } catch (error: any) {
+      logger.warn(`Rejected Stripe webhook with invalid signature: ${error.message}`);
+      res.status(400).json({ error: "Invalid signature" });
+      return;
+    }
+
+    try {
+      if (event.type === "payment_intent.succeeded") {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+        if (paymentIntent.metadata?.type === "wallet-topup") {
+          const result = await creditWalletTopup(paymentIntent, event.id);
+          if (result === "currency-mismatch") {
+            logger.error(`Stripe event ${event.id}: wallet top-up ${paymentIntent.id} is not in the wallet's currency; refund it manually`);
+          } else {
+            logger.info(`Stripe event ${event.id}: wallet top-up ${paymentIntent.id} ${result}`);
+          }
+          res.status(200).json({ received: true, result });
+          return;
+        }
+      }
+
+      res.status(200).json({ received: true, result: "ignored" });
+    } catch (error: any) {
+      // A non-2xx response makes Stripe retry the event later
+      logger.error(`Error processing Stripe event ${event.id}:`, error);
+      res.status(500).json({ error: error.message || "Failed to process event" });
+    }
+  }
+);
+
+/**
+ * applyWalletTopup
+ * - Read-only status check for a top-up; the wallet is credited by stripeWebhook
+ * - Requires: auth.uid, paymentIntentId (must belong to the caller)
+ * - Returns: status ("credited" | "currency-mismatch" | "processing" | Stripe
+ *   PaymentIntent status), credited, amount, currency
+ */
+export const applyWalletTopup = onRequest(
+  { region: "us-central1" },
+  async (req: Request, res: any) => {
+    corsHandler(req, res, async () => {
+      try {
+        // Verify authentication
+        const userId = await verifyAuthToken(req);
+
+        const { paymentIntentId } = req.body || {};
+        if (!paymentIntentId || typeof paymentIntentId !== "string") {
+          res.status(400).json({ error: "paymentIntentId is required" });
+          return;
+        }
+
+        const topupDoc = await db.collection("walletTopups").doc(paymentIntentId).get();
+        if (topupDoc.exists) {
+          const topup = topupDoc.data() || {};
+          if (topup.userId !== userId) {
+            res.status(403).json({ error: "This payment belongs to another user" });
+            return;
+          }
+          res.status(200).json({
+            success: true,
+            status: topup.status ?? "credited",
+            credited: (topup.status ?? "credited") === "credited",
+            walletId: topup.userId,
+            amount: topup.amount,
+            currency: topup.currency,
+          });
+          return;
+        }
+
+        // Not credited yet: report the PaymentIntent state while the webhook catches up
+        const stripeInstance = await getStripeInstance();
+        if (!stripeInstance) {
+          res.status(500).json({ error: "Stripe not configured. Please set Stripe keys in admin payment settings." });
+          return;
+        }
+
+        const pi = await stripeInstance.paymentIntents.retrieve(paymentIntentId);
+        if (pi.metadata?.userId !== userId || pi.metadata?.type !== "wallet-topup") {
+          res.status(403).json({ error: "This payment belongs to another user" });
+          return;
+        }
+
+        const currency = normalizeCurrency(pi.currency) ?? DEFAULT_CURRENCY;
+        res.status(200).json({
+          success: true,
+          status: pi.status === "succeeded" ? "processing" : pi.status,
+          credited: false,
+          walletId: userId,
+          amount: fromMinorUnits(pi.amount_received || pi.amount || 0, currency),
+          currency,
+        });
+      } catch (error: any) {
+        logger.error(`Error checking wallet topup:`, error);
+        if (error.message?.includes("UNAUTHENTICATED")) {
+          res.status(401).json({ error: error.message });
+          return;
+        }
+        res.status(500).json({ error: error.message || "Failed to check wallet topup" });
+      }
+    });
+  }
+);
+
+// ============================================================================
+// PAYOUTS (Stripe Connect transfers)
+// ============================================================================
+
+/**
+ * A payout run gathers each payee's not-yet-paid earnings settled before the
+ * end of its period, however old, into one `payouts` document per payee, with
+ * signed line items:
+ * - Vendors: their share of captured wallet payments (items and item tax,
+ *   see computeVendorShare), less the platform commission
+ * - Drivers: their driverEarnings entries, less what they kept in cash on
+ *   remitted COD orders beyond the vendor's share (owed to the platform)
+ * Each source is claimed by setting its `payoutId`, so it is never paid twice. Payouts wait for admin approval, then a
+ * Stripe transfer is sent to the payee's connected account. A payee earning
+ * in several currencies gets one payout per currency.
+ */
+type PayeeType = "vendor" | "driver";
+
+interface PayoutLineItem {
+  kind: "earning" | "commission" | "cod-owed";
+  sourceCollection: "vendorTransactions" | "driverTransactions" | "driverEarnings";
+  sourceId: string;
+  orderId: string | null;
+  orderCode: string | null;
+  description: string;
+  /** Earnings are positive, deductions negative */
+  amount: number;
+}
+
+interface PayeeStatement {
+  payeeType: PayeeType;
+  payeeId: string;
+  currency: string;
+  lineItems: PayoutLineItem[];
+}
+
+/**
+ * Builds unpaid line items per payee from sources settled before periodEnd.
+ * There is no lower bound, so items skipped or released by an earlier run
+ * are picked up by the next one. Single-field queries only; the rest is
+ * filtered in code.
+ */
+async function collectPayeeStatements(periodEnd: Date): Promise<PayeeStatement[]> {
+  const settledBeforeEnd = (value: any) => {
+    const millis = toMillis(value);
+    return millis !== null && millis < periodEnd.getTime();
+  };
+  const statements = new Map<string, PayeeStatement>();
+  const addLineItem = (payeeType: PayeeType, payeeId: string, currency: string, item: PayoutLineItem) => {
+    const key = `${payeeType}:${payeeId}:${currency}`;
+    if (!statements.has(key)) statements.set(key, { payeeType, payeeId, currency, lineItems: [] });
+    statements.get(key)!.lineItems.push({ ...item, amount: roundMoney(item.amount, currency) });
+  };
+
+  const [walletPaymentsSnap, codTransactionsSnap, earningsSnap] = await Promise.all([
+    db.collection("vendorTransactions").where("type", "==", "wallet-payment").get(),
+    db.collection("driverTransactions").where("type", "==", "cash-on-delivery").get(),
+    db.collection("driverEarnings").where("payoutId", "==", null).get(),
+  ]);
+
+  walletPaymentsSnap.docs.forEach((txnDoc) => {
+    const txn = txnDoc.data();
+    if (txn.payoutId || txn.status !== "captured" || !txn.vendorId || !settledBeforeEnd(txn.createdAt)) return;
+    const reference = { sourceCollection: "vendorTransactions" as const, sourceId: txnDoc.id, orderId: txn.orderId ?? null, orderCode: txn.orderCode ?? null };
+    const currency = recordCurrency(txn);
+    addLineItem("vendor", txn.vendorId, currency, { ...reference, kind: "earning", description: "Wallet payment", amount: Number(txn.grossAmount ?? 0) });
+    if (Number(txn.commissionAmount ?? 0) > 0) {
+      addLineItem("vendor", txn.vendorId, currency, { ...reference, kind: "commission", description: "Platform commission", amount: -Number(txn.commissionAmount) });
+    }
+  });
+
+  codTransactionsSnap.docs.forEach((txnDoc) => {
+    const txn = txnDoc.data();
+    if (txn.payoutId || !["remitted", "reconciled"].includes(txn.status) || !txn.driverId) return;
+    // Everything collected beyond the vendor's share: commission, delivery fee, delivery tax and tip
+    const currency = recordCurrency(txn);
+    const retainedAmount = Number(txn.retainedAmount ?? roundMoney(Number(txn.grossAmount ?? 0) - Number(txn.netAmount ?? 0), currency));
+    if (retainedAmount <= 0 || !settledBeforeEnd(txn.remittedAt ?? txn.createdAt)) return;
+    addLineItem("driver", txn.driverId, currency, {
+      kind: "cod-owed",
+      sourceCollection: "driverTransactions",
+      sourceId: txnDoc.id,
+      orderId: txn.orderId ?? null,
+      orderCode: txn.orderCode ?? null,
+      description: "Commission and delivery charges collected in cash",
+      amount: -retainedAmount,
+    });
+  });
+
+  earningsSnap.docs.forEach((earningDoc) => {
+    const earning = earningDoc.data();
+    if (!earning.driverId || Number(earning.totalAmount ?? 0) <= 0 || !settledBeforeEnd(earning.deliveredAt)) return;
+    addLineItem("driver", earning.driverId, recordCurrency(earning), {
+      kind: "earning",
+      sourceCollection: "driverEarnings",
+      sourceId: earningDoc.id,
+      orderId: earning.orderId ?? earningDoc.id,
+      orderCode: earning.orderCode ?? null,
+      description: "Delivery earnings",
+      amount: Number(earning.totalAmount),
+    });
+  });
+
+  return Array.from(statements.values());
+}
+
+/**
+ * Claims a payee's line items and writes their payout, in one transaction.
+ * Items claimed by a concurrent run are dropped. Nothing is written when the
+ * payee is owed nothing or has no connected account; the items stay unclaimed
+ * for the next run.
+ */
+async function createPayeePayout(
+  runId: string,
+  statement: PayeeStatement,
+  period: { start: Date; end: Date },
+  createdBy: string | null
+): Promise<{ payoutId: string; amount: number } | { skipped: string; amount: number }> {
+  const payeeRef = db.collection(statement.payeeType === "vendor" ? "vendors" : "drivers").doc(statement.payeeId);
+  const sourceRefs = new Map<string, admin.firestore.DocumentReference>();
+  statement.lineItems.forEach((item) => {
+    sourceRefs.set(`${item.sourceCollection}/${item.sourceId}`, db.collection(item.sourceCollection).doc(item.sourceId));
+  });
+
+  return db.runTransaction(async (transaction) => {
+    const [payeeSnap, ...sourceSnaps] = await transaction.getAll(payeeRef, ...sourceRefs.values());
+    const unclaimed = new Set(
+      sourceSnaps.filter((snap) => snap.exists && !snap.data()?.payoutId).map((snap) => snap.ref.path)
+    );
+    const lineItems = statement.lineItems.filter((item) => unclaimed.has(`${item.sourceCollection}/${item.sourceId}`));
+    const { currency } = statement;
+    const sumMinor = (items: PayoutLineItem[]) => items.reduce((sum, item) => sum + toMinorUnits(item.amount, currency), 0);
+    const amount = fromMinorUnits(sumMinor(lineItems), currency);
+    if (lineItems.length === 0 || amount <= 0) return { skipped: "nothing-owed", amount };
+
+    const payee = payeeSnap.data() || {};
+    if (!payee.stripeAccountId) return { skipped: "no-connected-account", amount };
+
+    const payoutRef = db.collection("payouts").doc();
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+    const grossAmount = fromMinorUnits(sumMinor(lineItems.filter((item) => item.amount > 0)), currency);
+    transaction.set(payoutRef, {
+      id: payoutRef.id,
+      runId,
+      payeeType: statement.payeeType,
+      [statement.payeeType === "vendor" ? "vendorId" : "driverId"]: statement.payeeId,
+      payeeName: payee.businessName || payee.name || payee.displayName || null,
+      stripeAccountId: payee.stripeAccountId,
+      amount,
+      grossAmount,
+      deductions: roundMoney(grossAmount - amount, currency),
+      currency,
+      minorUnits: minorUnitsOf({ amount, grossAmount }, currency),
+      lineItems,
+      periodStart: admin.firestore.Timestamp.fromDate(period.start),
+      periodEnd: admin.firestore.Timestamp.fromDate(period.end),
+      status: "pending-approval",
+      paymentMethod: "stripe-connect",
+      transactionId: null,
+      attempts: 0,
+      lastError: null,
+      createdBy,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+    sourceSnaps
+      .filter((snap) => unclaimed.has(snap.ref.path))
+      .forEach((snap) => transaction.update(snap.ref, { payoutId: payoutRef.id }));
+
+    return { payoutId: payoutRef.id, amount };
+  });
+}
+
+/**
+ * Creates a payout run for the period with one pending payout per payee and currency.
+ * `totalAmount` is in the market currency; `totalsByCurrency` covers every currency paid.
+ */
+async function buildPayoutRun(periodStart: Date, periodEnd: Date, createdBy: string | null) {
+  const runRef = db.collection("payoutRuns").doc();
+  const [statements, currency] = await Promise.all([collectPayeeStatements(periodEnd), getDefaultCurrency()]);
+
+  const payoutIds: string[] = [];
+  const skipped: Array<{ payeeType: PayeeType; payeeId: string; currency: string; reason: string; amount: number }> = [];
+  const totalsByCurrency: Record<string, number> = {};
+  for (const statement of statements) {
+    const result = await createPayeePayout(runRef.id, statement, { start: periodStart, end: periodEnd }, createdBy);
+    if ("payoutId" in result) {
+      payoutIds.push(result.payoutId);
+      totalsByCurrency[statement.currency] = roundMoney(
+        (totalsByCurrency[statement.currency] ?? 0) + result.amount,
+        statement.currency
+      );
+    } else {
+      skipped.push({
+        payeeType: statement.payeeType,
+        payeeId: statement.payeeId,
+        currency: statement.currency,
+        reason: result.skipped,
+        amount: result.amount,
+      });
+    }
+  }
+  const totalAmount = totalsByCurrency[currency] ?? 0;
+
+  await runRef.set({
+    id: runRef.id,
+    periodStart: admin.firestore.Timestamp.fromDate(periodStart),
+    periodEnd: admin.firestore.Timestamp.fromDate(periodEnd),
+    status: payoutIds.length ? "pending-approval" : "empty",
+    payoutIds,
+    payoutCount: payoutIds.length,
+    totalAmount,
+    currency,
+    totalsByCurrency,
+    skipped,
+    createdBy,
+    createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  const totals = Object.entries(totalsByCurrency).map(([code, amount]) => formatMoney(amount, code)).join(", ");
+  logger.info(`Payout run ${runRef.id}: ${payoutIds.length} payout(s) totalling ${totals || "nothing"}, ${skipped.length} skipped`);
+  return { runId: runRef.id, payoutCount: payoutIds.length, totalAmount, currency, totalsByCurrency, skipped };
+}
+
+/**
+ * Recomputes a run's status from its payouts
+ */
+async function syncPayoutRun(runId: string): Promise<void> {
+  const payoutsSnap = await db.collection("payouts").where("runId", "==", runId).get();
+  const counts: Record<string, number> = {};
+  payoutsSnap.docs.forEach((payoutDoc) => {
+    const status = payoutDoc.data().status as string;
+    counts[status] = (counts[status] ?? 0) + 1;
+  });
+
+  let status = "completed";
+  if (counts["pending-approval"]) status = "pending-approval";
+  else if (counts.failed) status = "attention-required";
+  else if (counts.approved || counts.processing) status = "processing";
+
+  await db.collection("payoutRuns").doc(runId).update({
+    status,
+    paidCount: counts.paid ?? 0,
+    failedCount: counts.failed ?? 0,
+    rejectedCount: counts.rejected ?? 0,
+    updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Sends the Stripe transfer for an approved (or failed, on retry) payout.
+ * The transfer group is the payout ID, so a transfer that reached Stripe
+ * before a failure was recorded is found instead of being sent again.
+ */
+async function executePayoutTransfer(payoutId: string, actorId: string): Promise<"paid" | "failed"> {
+  const payoutRef = db.collection("payouts").doc(payoutId);
+
+  const claimed = await db.runTransaction(async (transaction) => {
+    const payoutSnap = await transaction.get(payoutRef);
+    const payout = payoutSnap.data();
+    if (!payout) {
+      throw new HttpsError("not-found", "Payout not found");
+    }
+    if (payout.status === "paid") return null;
+    if (!["approved", "failed"].includes(payout.status)) {
+      throw new HttpsError("failed-precondition", `A ${payout.status} payout cannot be transferred`);
+    }
+    const attempt = Number(payout.attempts ?? 0) + 1;
+    transaction.update(payoutRef, {
+      status: "processing",
+      attempts: attempt,
+      lastAttemptBy: actorId,
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return { payout, attempt };
+  });
+  if (!claimed) return "paid";
+
+  const { payout, attempt } = claimed;
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  let outcome: "paid" | "failed";
+  try {
+    const stripeInstance = await getStripeInstance();
+    if (!stripeInstance) {
+      throw new Error("Stripe not configured. Please set Stripe keys in admin payment settings.");
+    }
+
+    const existing = await stripeInstance.transfers.list({ transfer_group: payoutId, limit: 1 });
+    const transfer =
+      existing.data[0] ??
+      (await stripeInstance.transfers.create(
+        {
+          amount: toMinorUnits(Number(payout.amount), recordCurrency(payout)),
+          currency: recordCurrency(payout).toLowerCase(),
+          destination: payout.stripeAccountId,
+          transfer_group: payoutId,
+          metadata: { payoutId, runId: payout.runId, payeeType: payout.payeeType },
+        },
+        { idempotencyKey: `payout-${payoutId}-${attempt}` }
+      ));
+
+    await payoutRef.update({ status: "paid", transactionId: transfer.id, lastError: null, paidAt: timestamp, updatedAt: timestamp });
+    outcome = "paid";
+  } catch (error: any) {
+    logger.error(`Payout transfer failed for ${payoutId}:`, error);
+    await payoutRef.update({ status: "failed", lastError: error.message || "Stripe transfer failed", updatedAt: timestamp });
+    outcome = "failed";
+  }
+
+  await syncPayoutRun(payout.runId);
+  return outcome;
+}
+
+/**
+ * createPayoutRun
+ * Admin: gathers unpaid earnings settled before periodEnd, including those
+ * left over from earlier runs, into payouts awaiting approval for the period
+ * [periodStart, periodEnd)
+ */
+export const createPayoutRun = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const { periodStart, periodEnd } = request.data || {};
+    const start = new Date(periodStart);
+    const end = periodEnd ? new Date(periodEnd) : new Date();
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+      throw new HttpsError("invalid-argument", "periodStart must be a date before periodEnd");
+    }
+    if (end.getTime() > Date.now()) {
+      throw new HttpsError("invalid-argument", "periodEnd cannot be in the future");
+    }
+
+    const result = await buildPayoutRun(start, end, request.auth.uid);
+    return { success: true, ...result };
+  }
+);
+
+/**
+ * Weekly run for the previous seven days (to midnight UTC), which also picks
+ * up anything earlier that is still unpaid
+ */
+export const runWeeklyPayouts = onSchedule(
+  { schedule: "every monday 04:00", region: "us-central1" },
+  async () => {
+    const periodEnd = new Date();
+    periodEnd.setUTCHours(0, 0, 0, 0);
+    const periodStart = new Date(periodEnd.getTime() - 7 * 24 * 60 * 60 * 1000);
+    await buildPayoutRun(periodStart, periodEnd, null);
+  }
+);
+
+/**
+ * approvePayouts
+ * Admin: approves pending payouts and sends their transfers
+ * - Returns the outcome per payout
+ */
+export const approvePayouts = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const adminId = request.auth.uid;
+
+    const { payoutIds } = request.data || {};
+    if (!Array.isArray(payoutIds) || payoutIds.length === 0 || !payoutIds.every((id) => typeof id === "string" && id)) {
+      throw new HttpsError("invalid-argument", "payoutIds must be a non-empty array");
+    }
+
+    const results: Record<string, "paid" | "failed" | "skipped"> = {};
+    for (const payoutId of payoutIds as string[]) {
+      const approved = await db.runTransaction(async (transaction) => {
+        const payoutRef = db.collection("payouts").doc(payoutId);
+        const payoutSnap = await transaction.get(payoutRef);
+        if (payoutSnap.data()?.status !== "pending-approval") return false;
+        transaction.update(payoutRef, {
+          status: "approved",
+          approvedBy: adminId,
+          approvedAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return true;
+      });
+      results[payoutId] = approved ? await executePayoutTransfer(payoutId, adminId) : "skipped";
+    }
+
+    logger.info(`Payouts approved by ${adminId}`, { results });
+    return { success: true, results };
+  }
+);
+
+/**
+ * retryPayout
+ * Admin: re-sends the transfer of a failed payout
+ */
+export const retryPayout = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const { payoutId } = request.data || {};
+    if (typeof payoutId !== "string" || !payoutId) {
+      throw new HttpsError("invalid-argument", "payoutId is required");
+    }
+    const payoutSnap = await db.collection("payouts").doc(payoutId).get();
+    if (payoutSnap.data()?.status !== "failed") {
+      throw new HttpsError("failed-precondition", "Only failed payouts can be retried");
+    }
+
+    const status = await executePayoutTransfer(payoutId, request.auth.uid);
+    return { success: true, status };
+  }
+);
+
+/**
+ * rejectPayout
+ * Admin: rejects a pending or failed payout and releases its line items for
+ * a later run
+ */
+export const rejectPayout = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const adminId = request.auth.uid;
+
+    const { payoutId, reason } = request.data || {};
+    if (typeof payoutId !== "string" || !payoutId) {
+      throw new HttpsError("invalid-argument", "payoutId is required");
+    }
+
+    const runId = await db.runTransaction(async (transaction) => {
+      const payoutRef = db.collection("payouts").doc(payoutId);
+      const payoutSnap = await transaction.get(payoutRef);
+      const payout = payoutSnap.data();
+      if (!payout) {
+        throw new HttpsError("not-found", "Payout not found");
+      }
+      if (!["pending-approval", "failed"].includes(payout.status)) {
+        throw new HttpsError("failed-precondition", `A ${payout.status} payout cannot be rejected`);
+      }
+
+      const sourceRefs = new Map<string, admin.firestore.DocumentReference>();
+      (payout.lineItems as PayoutLineItem[]).forEach((item) => {
+        sourceRefs.set(`${item.sourceCollection}/${item.sourceId}`, db.collection(item.sourceCollection).doc(item.sourceId));
+      });
+      const sourceSnaps = sourceRefs.size ? await transaction.getAll(...sourceRefs.values()) : [];
+
+      sourceSnaps.forEach((snap) => {
+        if (snap.exists && snap.data()?.payoutId === payoutId) {
+          transaction.update(snap.ref, { payoutId: null });
+        }
+      });
+      transaction.update(payoutRef, {
+        status: "rejected",
+        rejectedBy: adminId,
+        rejectionReason: typeof reason === "string" && reason.trim() ? reason.trim() : null,
+        rejectedAt: admin.firestore.FieldValue.serverTimestamp(),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      return payout.runId as string;
+    });
+
+    await syncPayoutRun(runId);
+    return { success: true };
+  }
+);
+
+// ============================================================================
+// VENDOR STATEMENTS (PDF)
+// ============================================================================
+
+/**
+ * A vendor statement summarises one period: sales split into items (after the
+ * item discount) and item tax, with platform commission (vendorTransactions +
+ * orders; delivery charges are not the vendor's), COD cash remitted to
+ * the vendor (codRemittances) and payouts paid. Each statement is rendered
+ * server-side with pdf-lib together with a platform commission invoice, and
+ * both files are stored under vendors/{vendorId}/statements/{statementId}/.
+ * Regenerating a period overwrites its files.
+ */
+interface VendorStatementLine {
+  orderId: string;
+  orderCode: string | null;
+  date: number | null;
+  paymentMethod: string;
+  /** Items after the item discount; itemsAmount + itemTax = grossAmount */
+  itemsAmount: number;
+  itemTax: number;
+  grossAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+}
+
+interface VendorStatementEntry {
+  id: string;
+  date: number | null;
+  description: string;
+  amount: number;
+}
+
+interface VendorStatementTotals {
+  orderCount: number;
+  grossSales: number;
+  itemTax: number;
+  commissions: number;
+  netSales: number;
+  codRemitted: number;
+  payoutsPaid: number;
+}
+
+interface VendorStatementData {
+  vendorId: string;
+  vendorName: string;
+  periodStart: Date;
+  periodEnd: Date;
+  currency: string;
+  lines: VendorStatementLine[];
+  remittances: VendorStatementEntry[];
+  payouts: VendorStatementEntry[];
+  totals: VendorStatementTotals;
+}
+
+const STATEMENT_PLATFORM_NAME = "LiWAS";
+const MAX_STATEMENT_PERIOD_DAYS = 366;
+
+function formatStatementDate(value: Date | number | null): string {
+  if (value === null) return "-";
+  return new Date(value).toISOString().slice(0, 10);
+}
+
+function formatStatementMoney(amount: number, currency: string): string {
+  return formatMoney(amount, currency);
+}
+
+/**
+ * Statement period as shown to vendors; the stored end is exclusive
+ */
+function formatStatementPeriod(start: Date, end: Date): string {
+  return `${formatStatementDate(start)} to ${formatStatementDate(end.getTime() - 1)}`;
+}
+
+async function collectVendorStatement(vendorId: string, periodStart: Date, periodEnd: Date): Promise<VendorStatementData> {
+  const inPeriod = (value: any) => {
+    const millis = toMillis(value);
+    return millis !== null && millis >= periodStart.getTime() && millis < periodEnd.getTime();
+  };
+
+  const [vendorSnap, transactionsSnap, remittancesSnap, payoutsSnap] = await Promise.all([
+    db.collection("vendors").doc(vendorId).get(),
+    db.collection("vendorTransactions").where("vendorId", "==", vendorId).get(),
+    db.collection("codRemittances").where("vendorId", "==", vendorId).get(),
+    db.collection("payouts").where("vendorId", "==", vendorId).get(),
+  ]);
+  if (!vendorSnap.exists) {
+    throw new HttpsError("not-found", "Vendor not found");
+  }
+  const vendorData = vendorSnap.data() || {};
+  // Statements are in the vendor's currency; records in another currency are left out
+  const currency = resolveVendorCurrency(vendorData, await getDefaultCurrency());
+  const inCurrency = (data: admin.firestore.DocumentData) => recordCurrency(data) === currency;
+
+  const sales = transactionsSnap.docs
+    .map((txnDoc) => ({ id: txnDoc.id, ...txnDoc.data() }) as Record<string, any>)
+    .filter((txn) => txn.status !== "reversed" && inCurrency(txn) && inPeriod(txn.createdAt));
+
+  const orderIds = Array.from(new Set(sales.map((txn) => txn.orderId).filter(Boolean))) as string[];
+  const orders = new Map<string, admin.firestore.DocumentData>();
+  for (let i = 0; i < orderIds.length; i += 100) {
+    const snaps = await db.getAll(...orderIds.slice(i, i + 100).map((id) => db.collection("orders").doc(id)));
+    snaps.forEach((snap) => {
+      if (snap.exists) orders.set(snap.id, snap.data() || {});
+    });
+  }
+
+  const lines: VendorStatementLine[] = sales
+    .map((txn) => {
+      const order = orders.get(txn.orderId) || {};
+      const grossAmount = roundMoney(Number(txn.grossAmount ?? 0), currency);
+      // The transaction's gross is authoritative; the order only says how much of it is tax
+      const itemTax = Math.min(computeVendorShare({ currency, ...order }).itemTaxAmount, Math.max(grossAmount, 0));
+      return {
+        orderId: txn.orderId,
+        orderCode: txn.orderCode ?? null,
+        date: toMillis(txn.createdAt),
+        paymentMethod: (txn.paymentMethod || txn.type || "").toString(),
+        itemsAmount: fromMinorUnits(toMinorUnits(grossAmount, currency) - toMinorUnits(itemTax, currency), currency),
+        itemTax,
+        grossAmount,
+        commissionAmount: roundMoney(Number(txn.commissionAmount ?? 0), currency),
+        netAmount: roundMoney(Number(txn.netAmount ?? 0), currency),
+      };
+    })
+    .sort((a, b) => (a.date ?? 0) - (b.date ?? 0));
+
+  // Batch remittances, plus COD transactions settled one by one before batches existed
+  const remittances: VendorStatementEntry[] = remittancesSnap.docs
+    .map((remittanceDoc) => remittanceDoc.data())
+    .filter(
+      (remittance) => inCurrency(remittance) && inPeriod(remittance.createdAt) && Number(remittance.appliedAmount ?? 0) > 0
+    )
+    .map((remittance) => ({
+      id: remittance.id,
+      date: toMillis(remittance.createdAt),
+      description: `Cash from ${remittance.driverName || "driver"} (${(remittance.items || []).length} orders)`,
+      amount: roundMoney(Number(remittance.appliedAmount), currency),
+    }));
+  transactionsSnap.docs.forEach((txnDoc) => {
+    const txn = txnDoc.data();
+    const settledAt = txn.vendorConfirmedAt ?? txn.remittedAt;
+    if (txn.type !== "cash-on-delivery" || !["remitted", "reconciled"].includes(txn.status)) return;
+    if (txn.settledByRemittanceId || !inCurrency(txn) || !inPeriod(settledAt)) return;
+    remittances.push({
+      id: txnDoc.id,
+      date: toMillis(settledAt),
+      description: `Cash for order ${txn.orderCode || txn.orderId}`,
+      amount: roundMoney(Number(txn.netAmount ?? 0), currency),
+    });
+  });
+  remittances.sort((a, b) => (a.date ?? 0) - (b.date ?? 0));
+
+  const payouts: VendorStatementEntry[] = payoutsSnap.docs
+    .filter(
+      (payoutDoc) => payoutDoc.data().status === "paid" && inCurrency(payoutDoc.data()) && inPeriod(payoutDoc.data().paidAt)
+    )
+    .map((payoutDoc) => {
+      const payout = payoutDoc.data();
+      return {
+        id: payoutDoc.id,
+        date: toMillis(payout.paidAt),
+        description: `Payout ${formatStatementDate(toMillis(payout.periodStart))} to ${formatStatementDate(toMillis(payout.periodEnd))}`,
+        amount: roundMoney(Number(payout.amount ?? 0), currency),
+      };
+    })
+    .sort((a, b) => (a.date ?? 0) - (b.date ?? 0));
+
+  const sum = <T>(items: T[], pick: (item: T) => number) => roundMoney(items.reduce((total, item) => total + pick(item), 0), currency);
+
+  return {
+    vendorId,
+    vendorName: vendorData.businessName || vendorData.name || "Vendor",
+    periodStart,
+    periodEnd,
+    currency,
+    lines,
+    remittances,
+    payouts,
+    totals: {
+      orderCount: lines.length,
+      grossSales: sum(lines, (line) => line.grossAmount),
+      itemTax: sum(lines, (line) => line.itemTax),
+      commissions: sum(lines, (line) => line.commissionAmount),
+      netSales: sum(lines, (line) => line.netAmount),
+      codRemitted: sum(remittances, (entry) => entry.amount),
+      payoutsPaid: sum(payouts, (entry) => entry.amount),
+    },
+  };
+}
+
+interface PdfColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+/**
+ * Minimal top-to-bottom PDF writer over pdf-lib: text, tables and rules,
+ * adding pages as the content runs out of room. Standard fonts only cover
+ * WinAnsi, so other characters are replaced.
+ */
+async function createPdfWriter(title: string) {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(title);
+  pdf.setProducer(STATEMENT_PLATFORM_NAME);
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const margin = 48;
+  const pageSize: [number, number] = [595.28, 841.89]; // A4
+  let page = pdf.addPage(pageSize);
+  let y = pageSize[1] - margin;
+
+  const safe = (value: string) => value.replace(/[^\x20-\x7E]/g, "?");
+  const ensureSpace = (height: number) => {
+    if (y - height >= margin) return;
+    page = pdf.addPage(pageSize);
+    y = pageSize[1] - margin;
+  };
+
+  const text = (value: string, options: { size?: number; bold?: boolean; color?: number } = {}) => {
+    const size = options.size ?? 10;
+    ensureSpace(size + 4);
+    y -= size + 4;
+    page.drawText(safe(value), {
+      x: margin,
+      y,
+      size,
+      font: options.bold ? bold : regular,
+      color: rgb(options.color ?? 0, options.color ?? 0, options.color ?? 0),
+    });
+  };
+
+  const row = (columns: PdfColumn[], values: string[], options: { bold?: boolean } = {}) => {
+    const size = 9;
+    const font = options.bold ? bold : regular;
+    ensureSpace(size + 6);
+    y -= size + 6;
+    let x = margin;
+    columns.forEach((column, index) => {
+      let value = safe(values[index] ?? "");
+      while (value.length > 1 && font.widthOfTextAtSize(value, size) > column.width - 4) {
+        value = value.slice(0, -1);
+      }
+      const width = font.widthOfTextAtSize(value, size);
+      page.drawText(value, { x: column.align === "right" ? x + column.width - width : x, y, size, font });
+      x += column.width;
+    });
+  };
+
+  const table = (columns: PdfColumn[], rows: string[][], totals?: string[]) => {
+    row(columns, columns.map((column) => column.header), { bold: true });
+    rule();
+    rows.forEach((values) => row(columns, values));
+    if (totals) {
+      rule();
+      row(columns, totals, { bold: true });
+    }
+  };
+
+  const rule = () => {
+    ensureSpace(6);
+    y -= 4;
+    page.drawLine({
+      start: { x: margin, y },
+      end: { x: pageSize[0] - margin, y },
+      thickness: 0.5,
+      color: rgb(0.7, 0.7, 0.7),
+    });
+  };
+
+  return {
+    text,
+    row,
+    table,
+    rule,
+    space: (height: number) => {
+      y -= height;
+    },
+    save: () => pdf.save(),
+  };
+}
+
+async function renderVendorStatementPdf(data: VendorStatementData): Promise<Uint8Array> {
+  const money = (amount: number) => formatStatementMoney(amount, data.currency);
+  const writer = await createPdfWriter(`Statement ${formatStatementPeriod(data.periodStart, data.periodEnd)}`);
+
+  writer.text(`${STATEMENT_PLATFORM_NAME} vendor statement`, { size: 18, bold: true });
+  writer.text(data.vendorName, { size: 12 });
+  writer.text(`Period: ${formatStatementPeriod(data.periodStart, data.periodEnd)}`, { color: 0.35 });
+  writer.text(`Generated: ${formatStatementDate(Date.now())}`, { color: 0.35 });
+  writer.space(12);
+
+  writer.text("Summary", { size: 13, bold: true });
+  const summaryColumns: PdfColumn[] = [
+    { header: "", width: 320 },
+    { header: "", width: 179, align: "right" },
+  ];
+  [
+    ["Orders", String(data.totals.orderCount)],
+    ["Gross sales (items after discounts, with item tax)", money(data.totals.grossSales)],
+    ["  of which item tax", money(data.totals.itemTax)],
+    ["Platform commission", money(-data.totals.commissions)],
+    ["Net sales", money(data.totals.netSales)],
+    ["COD cash remitted to you", money(data.totals.codRemitted)],
+    ["Payouts paid", money(data.totals.payoutsPaid)],
+  ].forEach((values) => writer.row(summaryColumns, values));
+  writer.space(16);
+
+  writer.text("Sales", { size: 13, bold: true });
+  if (data.lines.length === 0) {
+    writer.text("No sales in this period.", { color: 0.35 });
+  } else {
+    writer.table(
+      [
+        { header: "Date", width: 62 },
+        { header: "Order", width: 78 },
+        { header: "Payment", width: 84 },
+        { header: "Items", width: 55, align: "right" },
+        { header: "Tax", width: 55, align: "right" },
+        { header: "Total", width: 55, align: "right" },
+        { header: "Commission", width: 55, align: "right" },
+        { header: "Net", width: 55, align: "right" },
+      ],
+      data.lines.map((line) => [
+        formatStatementDate(line.date),
+        line.orderCode || line.orderId,
+        line.paymentMethod.replace(/-/g, " "),
+        money(line.itemsAmount),
+        money(line.itemTax),
+        money(line.grossAmount),
+        money(line.commissionAmount),
+        money(line.netAmount),
+      ]),
+      [
+        "Total",
+        "",
+        "",
+        money(roundMoney(data.totals.grossSales - data.totals.itemTax, data.currency)),
+        money(data.totals.itemTax),
+        money(data.totals.grossSales),
+        money(data.totals.commissions),
+        money(data.totals.netSales),
+      ]
+    );
+  }
+  writer.space(16);
+
+  const entryColumns: PdfColumn[] = [
+    { header: "Date", width: 80 },
+    { header: "Description", width: 320 },
+    { header: "Amount", width: 99, align: "right" },
+  ];
+  const entryRows = (entries: VendorStatementEntry[]) =>
+    entries.map((entry) => [formatStatementDate(entry.date), entry.description, money(entry.amount)]);
+
+  writer.text("COD cash remitted", { size: 13, bold: true });
+  if (data.remittances.length === 0) {
+    writer.text("No cash remitted in this period.", { color: 0.35 });
+  } else {
+    writer.table(entryColumns, entryRows(data.remittances), ["Total", "", money(data.totals.codRemitted)]);
+  }
+  writer.space(16);
+
+  writer.text("Payouts", { size: 13, bold: true });
+  if (data.payouts.length === 0) {
+    writer.text("No payouts paid in this period.", { color: 0.35 });
+  } else {
+    writer.table(entryColumns, entryRows(data.payouts), ["Total", "", money(data.totals.payoutsPaid)]);
+  }
+
+  return writer.save();
+}
+
+async function renderCommissionInvoicePdf(data: VendorStatementData, invoiceNumber: string): Promise<Uint8Array> {
+  const money = (amount: number) => formatStatementMoney(amount, data.currency);
+  const writer = await createPdfWriter(`Invoice ${invoiceNumber}`);
+
+  writer.text(`${STATEMENT_PLATFORM_NAME} commission invoice`, { size: 18, bold: true });
+  writer.text(`Invoice number: ${invoiceNumber}`);
+  writer.text(`Issued: ${formatStatementDate(Date.now())}`);
+  writer.text(`Billed to: ${data.vendorName}`);
+  writer.text(`Service period: ${formatStatementPeriod(data.periodStart, data.periodEnd)}`);
+  writer.space(16);
+
+  const lines = data.lines.filter((line) => line.commissionAmount > 0);
+  if (lines.length === 0) {
+    writer.text("No commission was charged in this period.", { color: 0.35 });
+  } else {
+    writer.table(
+      [
+        { header: "Date", width: 80 },
+        { header: "Description", width: 240 },
+        { header: "Order total", width: 90, align: "right" },
+        { header: "Commission", width: 89, align: "right" },
+      ],
+      lines.map((line) => [
+        formatStatementDate(line.date),
+        `Platform commission, order ${line.orderCode || line.orderId}`,
+        money(line.grossAmount),
+        money(line.commissionAmount),
+      ]),
+      ["Total", "", "", money(data.totals.commissions)]
+    );
+  }
+  writer.space(16);
+  writer.text(`Amount due: ${money(0)}`, { size: 12, bold: true });
+  writer.text(
+    "Commission is deducted at source: from payouts for wallet orders and from the cash remitted for COD orders.",
+    { size: 9, color: 0.35 }
+  );
+
+  return writer.save();
+}
+
+/**
+ * Collects, renders and stores a vendor statement and its commission
+ * invoice; the vendorStatements document points at both files.
+ */
+async function buildVendorStatement(
+  vendorId: string,
+  periodStart: Date,
+  periodEnd: Date,
+  generatedBy: string | null
+) {
+  const data = await collectVendorStatement(vendorId, periodStart, periodEnd);
+  const periodKey = `${formatStatementDate(periodStart).replace(/-/g, "")}-${formatStatementDate(
+    periodEnd.getTime() - 1
+  ).replace(/-/g, "")}`;
+  const statementId = `${vendorId}_${periodKey}`;
+  const invoiceNumber = `INV-${periodKey}-${vendorId.slice(0, 6).toUpperCase()}`;
+
+  const [statementPdf, invoicePdf] = await Promise.all([
+    renderVendorStatementPdf(data),
+    renderCommissionInvoicePdf(data, invoiceNumber),
+  ]);
+
+  const folder = `vendors/${vendorId}/statements/${statementId}`;
+  const statementPath = `${folder}/statement-${periodKey}.pdf`;
+  const invoicePath = `${folder}/${invoiceNumber}.pdf`;
+  const bucket = admin.storage().bucket();
+  await Promise.all([
+    bucket.file(statementPath).save(Buffer.from(statementPdf), { contentType: "application/pdf", resumable: false }),
+    bucket.file(invoicePath).save(Buffer.from(invoicePdf), { contentType: "application/pdf", resumable: false }),
+  ]);
+
+  await db.collection("vendorStatements").doc(statementId).set({
+    id: statementId,
+    vendorId,
+    vendorName: data.vendorName,
+    periodStart: admin.firestore.Timestamp.fromDate(periodStart),
+    periodEnd: admin.firestore.Timestamp.fromDate(periodEnd),
+    currency: data.currency,
+    totals: data.totals,
+    invoiceNumber,
+    statementPath,
+    invoicePath,
+    generatedBy,
+    generatedAt: admin.firestore.FieldValue.serverTimestamp(),
+  });
+
+  return { statementId, invoiceNumber, statementPath, invoicePath, totals: data.totals };
+}
+
+/**
+ * generateVendorStatement
+ * Generates the statement and commission invoice PDFs for [periodStart, periodEnd)
+ * - Vendors: their own statements; admins: any vendor (vendorId required)
+ * - Returns: statementId, invoiceNumber, storage paths and totals
+ */
+export const generateVendorStatement = onCall(
+  { region: "us-central1", memory: "512MiB" },
+  async (request: CallableRequest) => {
+    const { uid, role } = await requireOrderActor(request);
+    if (role === "driver") {
+      throw new HttpsError("permission-denied", "Only vendors and admins can generate statements");
+    }
+
+    const { vendorId: requestedVendorId, periodStart, periodEnd } = request.data || {};
+    const vendorId = role === "vendor" ? uid : requestedVendorId;
+    if (!vendorId || typeof vendorId !== "string") {
+      throw new HttpsError("invalid-argument", "vendorId is required");
+    }
+
+    const start = new Date(periodStart);
+    const end = new Date(periodEnd);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+      throw new HttpsError("invalid-argument", "periodStart must be a date before periodEnd");
+    }
+    if (end.getTime() - start.getTime() > MAX_STATEMENT_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new HttpsError("invalid-argument", `A statement covers at most ${MAX_STATEMENT_PERIOD_DAYS} days`);
+    }
+
+    const result = await buildVendorStatement(vendorId, start, end, uid);
+    logger.info(`Vendor statement ${result.statementId} generated by ${role} ${uid}`);
+    return { success: true, ...result };
+  }
+);
+
+/**
+ * Statements for the previous calendar month (UTC), for every vendor with
+ * sales in it
+ */
+export const generateMonthlyVendorStatements = onSchedule(
+  { schedule: "0 5 1 * *", timeZone: "UTC", region: "us-central1", memory: "512MiB" },
+  async () => {
+    const periodEnd = new Date();
+    periodEnd.setUTCDate(1);
+    periodEnd.setUTCHours(0, 0, 0, 0);
+    const periodStart = new Date(periodEnd);
+    periodStart.setUTCMonth(periodStart.getUTCMonth() - 1);
+
+    const salesSnap = await db
+      .collection("vendorTransactions")
+      .where("createdAt", ">=", admin.firestore.Timestamp.fromDate(periodStart))
+      .where("createdAt", "<", admin.firestore.Timestamp.fromDate(periodEnd))
+      .get();
+    const vendorIds = new Set(salesSnap.docs.map((txnDoc) => txnDoc.data().vendorId).filter(Boolean) as string[]);
+
+    for (const vendorId of vendorIds) {
+      try {
+        await buildVendorStatement(vendorId, periodStart, periodEnd, null);
+      } catch (error) {
+        logger.error(`Error generating the monthly statement for vendor ${vendorId}:`, error);
+      }
+    }
+    logger.info(`Generated ${vendorIds.size} vendor statement(s) for ${formatStatementPeriod(periodStart, periodEnd)}`);
+  }
+);
+
+// ============================================================================
+// TAX REPORTS
+// ============================================================================
+
+/**
+ * A tax report totals the tax on orders delivered in [periodStart, periodEnd)
+ * by currency, zone, tax category and rate, for finance to file from. Orders
+ * priced before tax zones existed are reported from their flat `taxAmount`.
+ * Rows are stored on taxReports/{reportId} together with a CSV export of
+ * them. Regenerating a period overwrites the report.
+ */
+interface TaxReportRow {
+  currency: string;
+  zoneId: string | null;
+  zoneName: string;
+  pricesIncludeTax: boolean;
+  kind: OrderTaxLine["kind"];
+  taxCategoryId: string | null;
+  taxCategoryName: string;
+  rate: number;
+  orderCount: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+interface TaxReportTotal {
+  currency: string;
+  orderCount: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+const MAX_TAX_REPORT_PERIOD_DAYS = 366;
+const NO_TAX_ZONE_NAME = "No zone (flat rate)";
+
+/**
+ * Tax lines of a delivered order, rebuilding a single flat-rate line for
+ * orders without a stored breakdown
+ */
+function orderTaxLines(order: admin.firestore.DocumentData, currency: string): OrderTax {
+  if (order.tax && Array.isArray(order.tax.lines)) {
+    return order.tax as OrderTax;
+  }
+  const storedMinor = (field: string) =>
+    typeof order.minorUnits?.[field] === "number"
+      ? order.minorUnits[field]
+      : toMinorUnits(Number(order[field] ?? 0), currency);
+  const taxMinor = storedMinor("taxAmount");
+  const itemDiscountMinor = toMinorUnits(Number(order.pricing?.coupon?.itemDiscount ?? 0), currency);
+  const taxableMinor = storedMinor("subtotal") - itemDiscountMinor;
+  return {
+    zoneId: null,
+    zoneName: null,
+    pricesIncludeTax: false,
+    taxAmount: fromMinorUnits(taxMinor, currency),
+    lines: [
+      {
+        kind: "items",
+        taxCategoryId: null,
+        taxCategoryName: STANDARD_TAX_CATEGORY_NAME,
+        rate: toTaxRate(order.pricing?.taxRate),
+        taxableAmount: fromMinorUnits(taxableMinor, currency),
+        taxAmount: fromMinorUnits(taxMinor, currency),
+        minorUnits: { taxableAmount: taxableMinor, taxAmount: taxMinor },
+      },
+    ],
+  };
+}
+
+async function collectTaxReport(periodStart: Date, periodEnd: Date) {
+  const ordersSnap = await db
+    .collection("orders")
+    .where("deliveredAt", ">=", admin.firestore.Timestamp.fromDate(periodStart))
+    .where("deliveredAt", "<", admin.firestore.Timestamp.fromDate(periodEnd))
+    .get();
+
+  const rows = new Map<string, Omit<TaxReportRow, "orderCount" | "taxableAmount" | "taxAmount"> & {
+    orderIds: Set<string>;
+    taxableMinor: number;
+    taxMinor: number;
+  }>();
+  const totals = new Map<string, { orderIds: Set<string>; taxableMinor: number; taxMinor: number }>();
+
+  ordersSnap.docs.forEach((orderDoc) => {
+    const order = orderDoc.data();
+    if (normalizeOrderStatus(order) !== "delivered") return;
+
+    const currency = recordCurrency(order);
+    const tax = orderTaxLines(order, currency);
+    const total = totals.get(currency) ?? { orderIds: new Set<string>(), taxableMinor: 0, taxMinor: 0 };
+    totals.set(currency, total);
+    total.orderIds.add(orderDoc.id);
+
+    tax.lines.forEach((line) => {
+      const taxableMinor = line.minorUnits?.taxableAmount ?? toMinorUnits(Number(line.taxableAmount ?? 0), currency);
+      const taxMinor = line.minorUnits?.taxAmount ?? toMinorUnits(Number(line.taxAmount ?? 0), currency);
+      const key = JSON.stringify([currency, tax.zoneId, tax.pricesIncludeTax, line.kind, line.taxCategoryId, line.rate]);
+      const row = rows.get(key) ?? {
+        currency,
+        zoneId: tax.zoneId,
+        zoneName: tax.zoneName ?? NO_TAX_ZONE_NAME,
+        pricesIncludeTax: tax.pricesIncludeTax,
+        kind: line.kind,
+        taxCategoryId: line.taxCategoryId,
+        taxCategoryName: line.taxCategoryName,
+        rate: line.rate,
+        orderIds: new Set<string>(),
+        taxableMinor: 0,
+        taxMinor: 0,
+      };
+      rows.set(key, row);
+      row.orderIds.add(orderDoc.id);
+      row.taxableMinor += taxableMinor;
+      row.taxMinor += taxMinor;
+      total.taxableMinor += taxableMinor;
+      total.taxMinor += taxMinor;
+    });
+  });
+
+  const reportRows: TaxReportRow[] = Array.from(rows.values())
+    .map(({ orderIds, taxableMinor, taxMinor, ...row }) => ({
+      ...row,
+      orderCount: orderIds.size,
+      taxableAmount: fromMinorUnits(taxableMinor, row.currency),
+      taxAmount: fromMinorUnits(taxMinor, row.currency),
+    }))
+    .sort(
+      (a, b) =>
+        a.currency.localeCompare(b.currency) ||
+        a.zoneName.localeCompare(b.zoneName) ||
+        a.kind.localeCompare(b.kind) ||
+        a.taxCategoryName.localeCompare(b.taxCategoryName) ||
+        a.rate - b.rate
+    );
+  const reportTotals: TaxReportTotal[] = Array.from(totals.entries())
+    .map(([currency, total]) => ({
+      currency,
+      orderCount: total.orderIds.size,
+      taxableAmount: fromMinorUnits(total.taxableMinor, currency),
+      taxAmount: fromMinorUnits(total.taxMinor, currency),
+    }))
+    .sort((a, b) => a.currency.localeCompare(b.currency));
+
+  return { rows: reportRows, totals: reportTotals };
+}
+
+function toCsvValue(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderTaxReportCsv(rows: TaxReportRow[], periodStart: Date, periodEnd: Date): string {
+  const header = [
+    "Period start",
+    "Period end",
+    "Currency",
+    "Zone",
+    "Prices include tax",
+    "Type",
+    "Tax category",
+    "Rate (%)",
+    "Orders",
+    "Taxable amount",
+    "Tax amount",
+  ];
+  const amount = (value: number, currency: string) => value.toFixed(currencyDigits(currency));
+  const lines = rows.map((row) => [
+    formatStatementDate(periodStart),
+    formatStatementDate(periodEnd.getTime() - 1),
+    row.currency,
+    row.zoneName,
+    row.pricesIncludeTax ? "yes" : "no",
+    row.kind,
+    row.taxCategoryName,
+    row.rate,
+    row.orderCount,
+    amount(row.taxableAmount, row.currency),
+    amount(row.taxAmount, row.currency),
+  ]);
+  return [header, ...lines].map((line) => line.map(toCsvValue).join(",")).join("\n") + "\n";
+}
+
+/**
+ * generateTaxReport
+ * Totals the tax on orders delivered in [periodStart, periodEnd) and stores
+ * the report with its CSV export
+ * - Requires: auth.uid (admin), periodStart, periodEnd
+ * - Returns: reportId, totals per currency
+ */
+export const generateTaxReport = onCall(
+  { region: "us-central1", memory: "512MiB" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const { periodStart, periodEnd } = request.data || {};
+    const start = new Date(periodStart);
+    const end = new Date(periodEnd);
+    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime()) || start >= end) {
+      throw new HttpsError("invalid-argument", "periodStart must be a date before periodEnd");
+    }
+    if (end.getTime() - start.getTime() > MAX_TAX_REPORT_PERIOD_DAYS * 24 * 60 * 60 * 1000) {
+      throw new HttpsError("invalid-argument", `A tax report covers at most ${MAX_TAX_REPORT_PERIOD_DAYS} days`);
+    }
+
+    const { rows, totals } = await collectTaxReport(start, end);
+    const periodKey = `${formatStatementDate(start).replace(/-/g, "")}-${formatStatementDate(end.getTime() - 1).replace(
+      /-/g,
+      ""
+    )}`;
+    const reportId = `tax_${periodKey}`;
+
+    await db.collection("taxReports").doc(reportId).set({
+      id: reportId,
+      periodStart: admin.firestore.Timestamp.fromDate(start),
+      periodEnd: admin.firestore.Timestamp.fromDate(end),
+      rows,
+      totals,
+      csv: renderTaxReportCsv(rows, start, end),
+      generatedBy: request.auth.uid,
+      generatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    logger.info(`Tax report ${reportId} generated by ${request.auth.uid}: ${rows.length} row(s)`);
+    return { success: true, reportId, totals };
+  }
+);
+
+// ============================================================================
+// SYSTEM CONFIG VERSIONS
+// ============================================================================
+
+/**
+ * Admin pages save systemConfig documents through saveSystemConfig, which
+ * bumps the document's `version` and keeps a full snapshot in
+ * systemConfig/{configId}/versions/{version}. Changes can be scheduled in
+ * scheduledConfigChanges (applied by activateScheduledConfigChanges), and
+ * rollbackSystemConfig restores an old snapshot as a new version. Stripe
+ * secrets are saved with setStripeSecrets instead; plaintext ones left from
+ * before that are never copied into the history, and a rollback keeps them.
+ */
+const VERSIONED_CONFIG_IDS = [
+  "fees",
+  "paymentSettings",
+  "tax",
+  "driverCompensation",
+  "cashLimits",
+  "dispatch",
+  "scheduling",
+];
+const CONFIG_METADATA_FIELDS = ["version", "updatedAt", "updatedBy"];
+const CONFIG_SECRET_FIELDS = ["stripeSecretKey", "stripeWebhookSecret"];
+const MAX_CONFIG_NOTE_LENGTH = 500;
+
+type ConfigVersionSource = "baseline" | "save" | "scheduled" | "rollback";
+
+interface ConfigVersionParams {
+  changedBy: string | null;
+  source: ConfigVersionSource;
+  note: string | null;
+  restoredVersion?: number;
+  scheduledChangeId?: string;
+}
+
+function requireVersionedConfigId(value: unknown): string {
+  if (typeof value !== "string" || !VERSIONED_CONFIG_IDS.includes(value)) {
+    throw new HttpsError("invalid-argument", `configId must be one of: ${VERSIONED_CONFIG_IDS.join(", ")}`);
+  }
+  return value;
+}
+
+function toConfigNote(value: unknown): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_CONFIG_NOTE_LENGTH) : null;
+}
+
+/**
+ * Settings fields of a config document, without versioning metadata
+ */
+function configContent(data: admin.firestore.DocumentData | undefined): Record<string, unknown> {
+  const content: Record<string, unknown> = { ...(data || {}) };
+  CONFIG_METADATA_FIELDS.forEach((field) => delete content[field]);
+  return content;
+}
+
+function withoutSecrets(content: Record<string, unknown>): Record<string, unknown> {
+  const copy = { ...content };
+  CONFIG_SECRET_FIELDS.forEach((field) => delete copy[field]);
+  return copy;
+}
+
+/**
+ * Validates the settings an admin submits: a plain object without versioning metadata
+ */
+function parseConfigChanges(value: unknown): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new HttpsError("invalid-argument", "values must be an object");
+  }
+  const changes = configContent(value as Record<string, unknown>);
+  if (CONFIG_SECRET_FIELDS.some((field) => field in changes)) {
+    throw new HttpsError("invalid-argument", "Stripe secrets are saved with setStripeSecrets");
+  }
+  if (Object.keys(changes).length === 0) {
+    throw new HttpsError("invalid-argument", "values has no settings to save");
+  }
+  return changes;
+}
+
+function configVersionOf(data: admin.firestore.DocumentData | undefined): number | null {
+  return typeof data?.version === "number" ? data.version : null;
+}
+
+/**
+ * Writes the next version of a config document and its history snapshot.
+ * `changes` are merged over the current settings, or replace them (keeping
+ * secrets) for a rollback. A document saved before versioning is first
+ * recorded as version 1, so that state can be restored too.
+ */
+function writeConfigVersion(
+  transaction: admin.firestore.Transaction,
+  configSnap: admin.firestore.DocumentSnapshot,
+  changes: Record<string, unknown>,
+  params: ConfigVersionParams & { replace?: boolean }
+): number {
+  const current = configSnap.data();
+  const versionsRef = configSnap.ref.collection("versions");
+  const timestamp = admin.firestore.FieldValue.serverTimestamp();
+  let version = configVersionOf(current) ?? 0;
+
+  if (configSnap.exists && version === 0) {
+    version = 1;
+    transaction.set(versionsRef.doc(String(version)), {
+      version,
+      data: withoutSecrets(configContent(current)),
+      source: "baseline",
+      changedBy: current?.updatedBy ?? null,
+      note: null,
+      restoredVersion: null,
+      scheduledChangeId: null,
+      createdAt: timestamp,
+    });
+  }
+
+  const currentContent = configContent(current);
+  const secrets = Object.fromEntries(
+    CONFIG_SECRET_FIELDS.filter((field) => field in currentContent).map((field) => [field, currentContent[field]])
+  );
+  const content = params.replace ? { ...secrets, ...changes } : { ...currentContent, ...changes };
+  const nextVersion = version + 1;
+
+  transaction.set(configSnap.ref, { ...content, version: nextVersion, updatedAt: timestamp, updatedBy: params.changedBy });
+  transaction.set(versionsRef.doc(String(nextVersion)), {
+    version: nextVersion,
+    data: withoutSecrets(content),
+    source: params.source,
+    changedBy: params.changedBy,
+    note: params.note,
+    restoredVersion: params.restoredVersion ?? null,
+    scheduledChangeId: params.scheduledChangeId ?? null,
+    createdAt: timestamp,
+  });
+  return nextVersion;
+}
+
+/**
+ * saveSystemConfig
+ * Saves settings to a systemConfig document as a new version, or schedules
+ * them when activateAt is in the future
+ * - Requires: auth.uid (admin), configId, values
+ * - Optional: activateAt (ms or ISO), note
+ * - Returns: version, or scheduledChangeId
+ */
+export const saveSystemConfig = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const uid = request.auth.uid;
+    const configId = requireVersionedConfigId(request.data?.configId);
+    const changes = parseConfigChanges(request.data?.values);
+    const note = toConfigNote(request.data?.note);
+
+    const { activateAt } = request.data || {};
+    if (activateAt !== undefined && activateAt !== null && activateAt !== "") {
+      const activateDate = new Date(activateAt);
+      if (Number.isNaN(activateDate.getTime()) || activateDate.getTime() <= Date.now()) {
+        throw new HttpsError("invalid-argument", "activateAt must be a future date");
+      }
+      const changeRef = db.collection("scheduledConfigChanges").doc();
+      await changeRef.set({
+        id: changeRef.id,
+        configId,
+        changes,
+        note,
+        activateAt: admin.firestore.Timestamp.fromDate(activateDate),
+        status: "scheduled",
+        appliedVersion: null,
+        createdBy: uid,
+        createdAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+      logger.info(`Config ${configId} change ${changeRef.id} scheduled for ${activateDate.toISOString()} by ${uid}`);
+      return { success: true, scheduledChangeId: changeRef.id };
+    }
+
+    const configRef = db.collection("systemConfig").doc(configId);
+    const version = await db.runTransaction(async (transaction) => {
+      const configSnap = await transaction.get(configRef);
+      return writeConfigVersion(transaction, configSnap, changes, { changedBy: uid, source: "save", note });
+    });
+
+    logger.info(`Config ${configId} saved as version ${version} by ${uid}`);
+    return { success: true, version };
+  }
+);
+
+/**
+ * rollbackSystemConfig
+ * Restores an earlier version of a systemConfig document as a new version
+ * - Requires: auth.uid (admin), configId, version
+ * - Optional: note
+ * - Returns: version (the new one)
+ */
+export const rollbackSystemConfig = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const uid = request.auth.uid;
+    const configId = requireVersionedConfigId(request.data?.configId);
+    const restoredVersion = Number(request.data?.version);
+    if (!Number.isInteger(restoredVersion) || restoredVersion < 1) {
+      throw new HttpsError("invalid-argument", "version must be a positive whole number");
+    }
+
+    const configRef = db.collection("systemConfig").doc(configId);
+    const version = await db.runTransaction(async (transaction) => {
+      const [configSnap, versionSnap] = await Promise.all([
+        transaction.get(configRef),
+        transaction.get(configRef.collection("versions").doc(String(restoredVersion))),
+      ]);
+      const restored = versionSnap.data();
+      if (!restored) {
+        throw new HttpsError("not-found", `Version ${restoredVersion} of ${configId} not found`);
+      }
+      if (configVersionOf(configSnap.data()) === restoredVersion) {
+        throw new HttpsError("failed-precondition", `Version ${restoredVersion} is already in effect`);
+      }
+      return writeConfigVersion(transaction, configSnap, restored.data || {}, {
+        changedBy: uid,
+        source: "rollback",
+        note: toConfigNote(request.data?.note) ?? `Rolled back to version ${restoredVersion}`,
+        restoredVersion,
+        replace: true,
+      });
+    });
+
+    logger.info(`Config ${configId} rolled back to version ${restoredVersion} as version ${version} by ${uid}`);
+    return { success: true, version };
+  }
+);
+
+/**
+ * cancelScheduledConfigChange
+ * Cancels a scheduled config change that has not been applied yet
+ * - Requires: auth.uid (admin), changeId
+ */
+export const cancelScheduledConfigChange = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const { changeId } = request.data || {};
+    if (!changeId || typeof changeId !== "string") {
+      throw new HttpsError("invalid-argument", "changeId is required");
+    }
+
+    const changeRef = db.collection("scheduledConfigChanges").doc(changeId);
+    await db.runTransaction(async (transaction) => {
+      const changeSnap = await transaction.get(changeRef);
+      if (!changeSnap.exists) {
+        throw new HttpsError("not-found", "Scheduled change not found");
+      }
+      if (changeSnap.data()?.status !== "scheduled") {
+        throw new HttpsError("failed-precondition", `This change is already ${changeSnap.data()?.status}`);
+      }
+      transaction.update(changeRef, {
+        status: "cancelled",
+        cancelledBy: request.auth!.uid,
+        cancelledAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    });
+
+    return { success: true };
+  }
+);
+
+/**
+ * Applies scheduled config changes that are due, oldest first
+ */
+export const activateScheduledConfigChanges = onSchedule(
+  { schedule: "every 1 minutes", region: "us-central1" },
+  async () => {
+    const scheduledSnap = await db.collection("scheduledConfigChanges").where("status", "==", "scheduled").get();
+    const now = Date.now();
+    const due = scheduledSnap.docs
+      .filter((changeDoc) => (changeDoc.data().activateAt?.toMillis?.() ?? Infinity) <= now)
+      .sort((a, b) => a.data().activateAt.toMillis() - b.data().activateAt.toMillis());
+
+    for (const changeDoc of due) {
+      try {
+        const version = await db.runTransaction(async (transaction) => {
+          const changeSnap = await transaction.get(changeDoc.ref);
+          const change = changeSnap.data();
+          if (!change || change.status !== "scheduled") return null;
+          const configSnap = await transaction.get(db.collection("systemConfig").doc(change.configId));
+          const applied = writeConfigVersion(transaction, configSnap, change.changes || {}, {
+            changedBy: change.createdBy ?? null,
+            source: "scheduled",
+            note: change.note ?? null,
+            scheduledChangeId: changeSnap.id,
+          });
+          transaction.update(changeDoc.ref, {
+            status: "applied",
+            appliedVersion: applied,
+            appliedAt: admin.firestore.FieldValue.serverTimestamp(),
+          });
+          return applied;
+        });
+        if (version !== null) {
+          logger.info(`Scheduled change ${changeDoc.id} applied to ${changeDoc.data().configId} as version ${version}`);
+        }
+      } catch (error) {
+        logger.error(`Error applying scheduled config change ${changeDoc.id}:`, error);
+        await changeDoc.ref.update({ status: "failed", failureReason: (error as Error).message || "Unknown error" });
+      }
+    }
+  }
+);
+
+// ============================================================================
+// STRIPE SECRETS (encrypted, server-only)
+// ============================================================================
+
+/**
+ * The Stripe secret key and webhook signing secret are kept in
+ * serverSecrets/stripe, encrypted with AES-256-GCM under SECRETS_ENCRYPTION_KEY
+ * (32 bytes, base64) from the functions environment. Clients cannot read that
+ * document: admins submit secrets through setStripeSecrets and only get back a
+ * fingerprint. STRIPE_SECRET_KEY / STRIPE_WEBHOOK_SECRET in the environment
+ * still take precedence. migrateStripeSecrets moves the plaintext values that
+ * used to live in systemConfig into the store, deletes them and records
+ * `legacyMigratedAt`; from then on plaintext values are never read again.
+ */
+type StripeSecretName = "secretKey" | "webhookSecret";
+
+const STRIPE_SECRET_NAMES: StripeSecretName[] = ["secretKey", "webhookSecret"];
+const STRIPE_SECRET_PREFIXES: Record<StripeSecretName, string> = {
+  secretKey: "sk_",
+  webhookSecret: "whsec_",
+};
+/** Plaintext fields the secrets were kept in, in systemConfig/{paymentSettings,settings} */
+const LEGACY_STRIPE_SECRET_FIELDS: Record<StripeSecretName, string> = {
+  secretKey: "stripeSecretKey",
+  webhookSecret: "stripeWebhookSecret",
+};
+const LEGACY_STRIPE_SECRET_DOCS = ["paymentSettings", "settings"];
+
+interface EncryptedSecret {
+  ciphertext: string;
+  iv: string;
+  authTag: string;
+  /** Identifies the encryption key, so secrets written under a rotated key are detected */
+  keyId: string;
+  fingerprint: string;
+}
+
+function stripeSecretsRef() {
+  return db.collection("serverSecrets").doc("stripe");
+}
+
+function getSecretsEncryptionKey(): Buffer | null {
+  const encoded = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!encoded) return null;
+  const key = Buffer.from(encoded, "base64");
+  if (key.length !== 32) {
+    logger.error("SECRETS_ENCRYPTION_KEY must be 32 bytes, base64 encoded");
+    return null;
+  }
+  return key;
+}
+
+function requireSecretsEncryptionKey(): Buffer {
+  const key = getSecretsEncryptionKey();
+  if (!key) {
+    throw new HttpsError(
+      "failed-precondition",
+      "SECRETS_ENCRYPTION_KEY is not configured for Cloud Functions"
+    );
+  }
+  return key;
+}
+
+function encryptionKeyId(key: Buffer): string {
+  return crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+}
+
+/**
+ * Key prefix and last four characters, e.g. "sk_live_…4f2a"
+ */
+function secretFingerprint(value: string): string {
+  const prefix = value.match(/^(?:sk|rk)_(?:live|test)_|^whsec_/)?.[0] ?? value.slice(0, 3);
+  return `${prefix}…${value.slice(-4)}`;
+}
+
+function encryptSecret(value: string, key: Buffer): EncryptedSecret {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+    keyId: encryptionKeyId(key),
+    fingerprint: secretFingerprint(value),
+  };
+}
+
+function decryptSecret(secret: EncryptedSecret, key: Buffer): string {
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, Buffer.from(secret.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(secret.authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(secret.ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+function isEncryptedSecret(value: unknown): value is EncryptedSecret {
+  return typeof (value as EncryptedSecret | undefined)?.ciphertext === "string";
+}
+
+function parseStripeSecret(name: StripeSecretName, value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  const prefix = STRIPE_SECRET_PREFIXES[name];
+  if (typeof value !== "string" || !value.trim().startsWith(prefix)) {
+    throw new HttpsError("invalid-argument", `${name} must start with '${prefix}'`);
+  }
+  return value.trim();
+}
+
+/**
+ * A Stripe secret from the encrypted store. Plaintext values in systemConfig
+ * are only used until migrateStripeSecrets has run.
+ */
+async function readStripeSecret(name: StripeSecretName): Promise<string | null> {
+  const secrets = (await stripeSecretsRef().get()).data() || {};
+  const stored = secrets[name];
+  if (isEncryptedSecret(stored)) {
+    const key = getSecretsEncryptionKey();
+    if (!key || stored.keyId !== encryptionKeyId(key)) {
+      logger.error(`Stripe ${name} cannot be decrypted: SECRETS_ENCRYPTION_KEY is missing or has changed`);
+      return null;
+    }
+    return decryptSecret(stored, key);
+  }
+  if (secrets.legacyMigratedAt) return null;
+
+  for (const docId of LEGACY_STRIPE_SECRET_DOCS) {
+    const value = (await db.collection("systemConfig").doc(docId).get()).data()?.[LEGACY_STRIPE_SECRET_FIELDS[name]];
+    if (typeof value === "string" && value.startsWith(STRIPE_SECRET_PREFIXES[name])) {
+      logger.warn(`Using the plaintext Stripe ${name} in systemConfig/${docId}; run migrateStripeSecrets`);
+      return value;
+    }
+  }
+  return null;
+}
+
+function toIsoString(value: unknown): string | null {
+  return value instanceof admin.firestore.Timestamp ? value.toDate().toISOString() : null;
+}
+
+/**
+ * getStripeSecretsStatus
+ * What an admin may know about the Stripe secrets: fingerprints, not values
+ * - Requires: auth.uid (admin)
+ * - Returns: per secret { fingerprint, updatedAt, updatedBy, decryptable } or null,
+ *   environment overrides, plaintext fields awaiting migration, when the
+ *   migration ran and the last connection test
+ */
+export const getStripeSecretsStatus = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    const [secretsSnap, ...legacySnaps] = await Promise.all([
+      stripeSecretsRef().get(),
+      ...LEGACY_STRIPE_SECRET_DOCS.map((docId) => db.collection("systemConfig").doc(docId).get()),
+    ]);
+    const data = secretsSnap.data() || {};
+    const key = getSecretsEncryptionKey();
+
+    const secretStatus = (name: StripeSecretName) => {
+      const stored = data[name];
+      if (!isEncryptedSecret(stored)) return null;
+      return {
+        fingerprint: stored.fingerprint,
+        updatedAt: toIsoString(data[`${name}UpdatedAt`]),
+        updatedBy: data[`${name}UpdatedBy`] ?? null,
+        decryptable: !!key && stored.keyId === encryptionKeyId(key),
+      };
+    };
+
+    const legacyPlaintext = legacySnaps.flatMap((snap) =>
+      STRIPE_SECRET_NAMES.map((name) => LEGACY_STRIPE_SECRET_FIELDS[name])
+        .filter((field) => snap.data()?.[field])
+        .map((field) => `systemConfig/${snap.id}.${field}`)
+    );
+
+    const lastTest = data.lastConnectionTest;
+    return {
+      encryptionConfigured: !!key,
+      secretKey: secretStatus("secretKey"),
+      webhookSecret: secretStatus("webhookSecret"),
+      environmentOverrides: {
+        secretKey: !!process.env.STRIPE_SECRET_KEY,
+        webhookSecret: !!process.env.STRIPE_WEBHOOK_SECRET,
+      },
+      legacyPlaintext,
+      legacyMigratedAt: toIsoString(data.legacyMigratedAt),
+      lastConnectionTest: lastTest ? { ...lastTest, testedAt: toIsoString(lastTest.testedAt) } : null,
+    };
+  }
+);
+
+/**
+ * setStripeSecrets
+ * Encrypts and stores the Stripe secret key and/or webhook signing secret.
+ * Write-only: the values are never returned. Plaintext copies in systemConfig
+ * are deleted.
+ * - Requires: auth.uid (admin), secretKey and/or webhookSecret
+ * - Returns: fingerprints of the stored secrets
+ */
+export const setStripeSecrets = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const uid = request.auth.uid;
+    const key = requireSecretsEncryptionKey();
+
+    const values = STRIPE_SECRET_NAMES.map((name) => [name, parseStripeSecret(name, request.data?.[name])] as const)
+      .filter((entry): entry is readonly [StripeSecretName, string] => entry[1] !== null);
+    if (values.length === 0) {
+      throw new HttpsError("invalid-argument", "Provide secretKey and/or webhookSecret");
+    }
+
+    const timestamp = admin.firestore.FieldValue.serverTimestamp();
+    const update: Record<string, unknown> = {};
+    const fingerprints: Partial<Record<StripeSecretName, string>> = {};
+    values.forEach(([name, value]) => {
+      const encrypted = encryptSecret(value, key);
+      update[name] = encrypted;
+      update[`${name}UpdatedAt`] = timestamp;
+      update[`${name}UpdatedBy`] = uid;
+      fingerprints[name] = encrypted.fingerprint;
+    });
+    // A new key has not been tested yet
+    if (fingerprints.secretKey) update.lastConnectionTest = null;
+
+    const legacySnaps = await Promise.all(
+      LEGACY_STRIPE_SECRET_DOCS.map((docId) => db.collection("systemConfig").doc(docId).get())
+    );
+    const batch = db.batch();
+    batch.set(stripeSecretsRef(), update, { merge: true });
+    legacySnaps.forEach((snap) => {
+      const fields = values
+        .map(([name]) => LEGACY_STRIPE_SECRET_FIELDS[name])
+        .filter((field) => snap.data()?.[field] !== undefined);
+      if (fields.length > 0) {
+        batch.update(snap.ref, Object.fromEntries(fields.map((field) => [field, admin.firestore.FieldValue.delete()])));
+      }
+    });
+    await batch.commit();
+
+    logger.info(`Stripe secrets updated by ${uid}: ${Object.keys(fingerprints).join(", ")}`);
+    return { success: true, fingerprints };
+  }
+);
+
+/**
+ * testStripeConnection
+ * Calls Stripe with the secret key in effect and records the result
+ * - Requires: auth.uid (admin)
+ * - Returns: ok, livemode, error
+ */
+export const testStripeConnection = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+
+    let result: { ok: boolean; livemode: boolean | null; error: string | null };
+    const stripeInstance = await getStripeInstance();
+    if (!stripeInstance) {
+      result = { ok: false, livemode: null, error: "No Stripe secret key is configured" };
+    } else {
+      try {
+        const balance = await stripeInstance.balance.retrieve();
+        result = { ok: true, livemode: balance.livemode, error: null };
+      } catch (error: any) {
+        result = { ok: false, livemode: null, error: error.message || "Stripe rejected the request" };
+      }
+    }
+
+    await stripeSecretsRef().set(
+      {
+        lastConnectionTest: {
+          ...result,
+          testedAt: admin.firestore.FieldValue.serverTimestamp(),
+          testedBy: request.auth.uid,
+        },
+      },
+      { merge: true }
+    );
+    return result;
+  }
+);
+
+/**
+ * migrateStripeSecrets
+ * One-off migration: encrypts plaintext Stripe secrets found in
+ * systemConfig/paymentSettings (or the older systemConfig/settings) into the
+ * secret store and deletes the plaintext fields. A secret already in the store
+ * is kept, and the plaintext copy is still deleted. Records `legacyMigratedAt`,
+ * which turns the plaintext fallback in readStripeSecret off for good. Safe to
+ * run again.
+ * - Requires: auth.uid (admin)
+ * - Returns: moved (secret names), wiped (document paths)
+ */
+export const migrateStripeSecrets = onCall(
+  { region: "us-central1" },
+  async (request: CallableRequest) => {
+    if (!request.auth?.uid || !(await verifyAdmin(request.auth.uid))) {
+      throw new HttpsError("permission-denied", "Admin access required");
+    }
+    const uid = request.auth.uid;
+    const key = requireSecretsEncryptionKey();
+    const legacyRefs = LEGACY_STRIPE_SECRET_DOCS.map((docId) => db.collection("systemConfig").doc(docId));
+
+    const { moved, wiped } = await db.runTransaction(async (transaction) => {
+      const [secretsSnap, ...legacySnaps] = await Promise.all([
+        transaction.get(stripeSecretsRef()),
+        ...legacyRefs.map((ref) => transaction.get(ref)),
+      ]);
+      const stored = secretsSnap.data() || {};
+      const timestamp = admin.firestore.FieldValue.serverTimestamp();
+      const update: Record<string, unknown> = {};
+      const movedNames: StripeSecretName[] = [];
+      const wipedPaths: string[] = [];
+
+      STRIPE_SECRET_NAMES.forEach((name) => {
+        const field = LEGACY_STRIPE_SECRET_FIELDS[name];
+        // paymentSettings comes first, so its value wins over the older settings document
+        const value = legacySnaps
+          .map((snap) => snap.data()?.[field])
+          .find((candidate) => typeof candidate === "string" && candidate.startsWith(STRIPE_SECRET_PREFIXES[name]));
+        if (value && !isEncryptedSecret(stored[name]) && !update[name]) {
+          update[name] = encryptSecret(value, key);
+          update[`${name}UpdatedAt`] = timestamp;
+          update[`${name}UpdatedBy`] = uid;
+          movedNames.push(name);
+        }
+      });
+
+      legacySnaps.forEach((snap) => {
+        const fields = STRIPE_SECRET_NAMES.map((name) => LEGACY_STRIPE_SECRET_FIELDS[name]).filter(
+          (field) => snap.data()?.[field] !== undefined
+        );
+        if (fields.length === 0) return;
+        transaction.update(
+          snap.ref,
+          Object.fromEntries(fields.map((field) => [field, admin.firestore.FieldValue.delete()]))
+        );
+        wipedPaths.push(...fields.map((field) => `systemConfig/${snap.id}.${field}`));
+      });
+
+      transaction.set(
+        stripeSecretsRef(),
+        { ...update, legacyMigratedAt: timestamp, legacyMigratedBy: uid },
+        { merge: true }
+      );
+      return { moved: movedNames, wiped: wipedPaths };
+    });
+
+    logger.info(`Stripe secrets migrated by ${uid}: moved [${moved.join(", ")}], wiped [${wiped.join(", ")}]`);
+    return { success: true, moved, wiped };
   }
 );
 
@@ -0,0 +1,49 @@
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+import { expectConsistentLedger } from "./support/ledger";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { adjustWalletBalance } from "../src/index";
+
+const adjust = (amount: number) =>
+  (adjustWalletBalance as any).run({
+    auth: { uid: "admin-1" },
+    data: { walletId: "customer-1", amount, reason: "Goodwill" },
+  });
+
+describe("adjustWalletBalance ledger postings", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/admin-1", { role: "admin", isApproved: true });
+    fakeDb.seed("wallets/customer-1", { balance: 10, currency: "USD" });
+  });
+
+  it("opens a pre-ledger balance and keeps entries in sequence", async () => {
+    await adjust(0.1);
+    await adjust(0.2);
+    const debit = await adjust(-5.3);
+
+    expect(debit.balance).toBe(5);
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({
+      balance: 5,
+      ledgerSequence: 4,
+      minorUnits: { balance: 500 },
+    });
+    expect(fakeDb.read("ledgerJournals/opening-wallet-customer-1")).toMatchObject({ reason: "opening-balance", amount: 10 });
+
+    const walletEntries = fakeDb
+      .list("ledgerEntries")
+      .filter((entry) => entry.accountId === "wallet:customer-1")
+      .sort((a, b) => a.sequence - b.sequence);
+    expect(walletEntries.map((entry) => entry.balanceAfter)).toEqual([10, 10.1, 10.3, 5]);
+    expectConsistentLedger();
+  });
+
+  it("posts nothing when a debit would overdraw the wallet", async () => {
+    await expect(adjust(-10.01)).rejects.toMatchObject({ code: "failed-precondition" });
+
+    expect(fakeDb.read("wallets/customer-1")).toEqual({ balance: 10, currency: "USD" });
+    expect(fakeDb.list("ledgerJournals")).toHaveLength(0);
+    expect(fakeDb.list("ledgerEntries")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,92 @@
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+import { expectConsistentLedger, journalReasonsFor } from "./support/ledger";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { cancelOrder, createOrder } from "../src/index";
+
+const cancel = (uid: string, orderId: string) =>
+  (cancelOrder as any).run({ auth: { uid }, data: { orderId, reasonCode: "customer-request" } });
+
+function seedPaidOrder(orderId: string, paymentMethod: string) {
+  fakeDb.seed(`orders/${orderId}`, {
+    orderStatus: "enroute",
+    status: "enroute",
+    vendorId: "vendor-1",
+    driverId: "driver-1",
+    customerId: "customer-1",
+    paymentMethod,
+    paymentStatus: "paid",
+    currency: "USD",
+    totalAmount: 30,
+  });
+}
+
+describe("cancelOrder", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/admin-1", { role: "admin", isApproved: true });
+    fakeDb.seed("users/vendor-1", { role: "vendor", isApproved: true });
+    fakeDb.seed("users/customer-1", { role: "customer", isApproved: true });
+    fakeDb.seed("vendors/vendor-1", { businessName: "Corner Shop", currency: "USD" });
+    fakeDb.seed("drivers/driver-1", { name: "Sam", status: "busy", cashOnHand: 0, currency: "USD" });
+    fakeDb.seed("systemConfig/fees", { deliveryFee: 0, commissionRate: 10, taxRate: 0 });
+    fakeDb.seed("products/product-1", { vendorId: "vendor-1", name: "Bread", price: 12.5, availableQty: 10 });
+    fakeDb.seed("wallets/customer-1", { balance: 100, heldBalance: 0, currency: "USD", ledgerSequence: 0 });
+  });
+
+  it("releases a wallet hold once when the cancellation is repeated", async () => {
+    const { orderId } = await (createOrder as any).run({
+      auth: { uid: "customer-1" },
+      data: { vendorId: "vendor-1", paymentMethod: "wallet", lines: [{ productId: "product-1", quantity: 2 }], pickupOrder: true },
+    });
+
+    const result = await cancel("customer-1", orderId);
+    await expect(cancel("customer-1", orderId)).rejects.toMatchObject({ code: "failed-precondition" });
+
+    expect(result.refund).toBeNull();
+    expect(fakeDb.read(`orders/${orderId}`)).toMatchObject({ orderStatus: "cancelled", paymentStatus: "released" });
+    expect(fakeDb.read(`walletHolds/${orderId}`)).toMatchObject({ status: "released", releaseJournalId: `release-${orderId}` });
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({ balance: 100, heldBalance: 0 });
+    expect(journalReasonsFor(orderId)).toEqual(["wallet-hold", "wallet-hold-released"]);
+    expect(fakeDb.list("refunds")).toHaveLength(0);
+    expectConsistentLedger();
+  });
+
+  it("credits a captured wallet payment back once", async () => {
+    seedPaidOrder("order-1", "wallet");
+    fakeDb.seed("wallets/customer-1", { balance: 10, currency: "USD" });
+
+    const result = await cancel("admin-1", "order-1");
+    await expect(cancel("admin-1", "order-1")).rejects.toMatchObject({ code: "failed-precondition" });
+
+    expect(result.refund).toEqual({ method: "wallet", amount: 30, currency: "USD", status: "succeeded" });
+    expect(fakeDb.list("refunds")).toEqual([
+      expect.objectContaining({ id: "order-1", method: "wallet", amount: 30, status: "succeeded", requestedByRole: "admin" }),
+    ]);
+    expect(fakeDb.read("orders/order-1")).toMatchObject({ refundStatus: "succeeded", paymentStatus: "refunded" });
+    // The balance held before the ledger existed is opened first, then credited
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({ balance: 40, ledgerSequence: 2 });
+    expect(journalReasonsFor("order-1")).toEqual(["order-refund"]);
+    expect(fakeDb.read("drivers/driver-1")?.status).toBe("available");
+    expectConsistentLedger();
+  });
+
+  it("flags a paid order without a Stripe payment for manual refund", async () => {
+    seedPaidOrder("order-1", "cash-on-delivery");
+
+    const result = await cancel("admin-1", "order-1");
+
+    expect(result.refund).toEqual({ method: "manual", amount: 30, currency: "USD", status: "pending-manual" });
+    expect(fakeDb.read("refunds/order-1")).toMatchObject({ method: "manual", status: "pending-manual", attempts: 0 });
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({ balance: 100 });
+    expect(fakeDb.list("ledgerJournals")).toHaveLength(0);
+  });
+
+  it("lets a customer cancel only their own order", async () => {
+    fakeDb.seed("orders/order-2", { orderStatus: "available", status: "available", vendorId: "vendor-1", customerId: "customer-2" });
+
+    await expect(cancel("customer-1", "order-2")).rejects.toMatchObject({ code: "permission-denied" });
+    expect(fakeDb.read("orders/order-2")?.orderStatus).toBe("available");
+  });
+});
@@ -0,0 +1,59 @@
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { claimOrder } from "../src/index";
+
+const claim = (driverId: string) =>
+  (claimOrder as any).run({ auth: { uid: driverId }, data: { orderId: "order-1" } });
+
+describe("claimOrder", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    ["driver-1", "driver-2"].forEach((driverId, index) => {
+      fakeDb.seed(`users/${driverId}`, { role: "driver", isApproved: true });
+      fakeDb.seed(`drivers/${driverId}`, { name: index ? "Kai" : "Sam", status: "available", cashOnHand: 0 });
+    });
+    fakeDb.seed("orders/order-1", {
+      orderStatus: "ready",
+      status: "ready",
+      vendorId: "vendor-1",
+      driverId: null,
+      paymentMethod: "card",
+      totalAmount: 20,
+      currency: "USD",
+    });
+  });
+
+  it("treats a repeated claim by the same driver as already claimed", async () => {
+    const first = await claim("driver-1");
+    const assigned = fakeDb.read("orders/order-1");
+    const retry = await claim("driver-1");
+
+    expect(first).toMatchObject({ success: true, result: "claimed" });
+    expect(retry).toMatchObject({ success: true, result: "claimed", message: "You have already claimed this order." });
+    expect(fakeDb.read("orders/order-1")).toEqual(assigned);
+    expect(assigned).toMatchObject({ orderStatus: "assigned", driverId: "driver-1", driverName: "Sam" });
+    expect(fakeDb.list("orders/order-1/events")).toHaveLength(1);
+  });
+
+  it("tells the second driver the order was already taken", async () => {
+    await claim("driver-1");
+
+    await expect(claim("driver-2")).resolves.toMatchObject({ success: false, result: "already-taken" });
+    expect(fakeDb.read("orders/order-1")?.driverId).toBe("driver-1");
+    expect(fakeDb.read("drivers/driver-2")?.status).toBe("available");
+  });
+
+  it("keeps an order being offered to another driver out of reach", async () => {
+    fakeDb.seed("orders/order-1", {
+      ...fakeDb.read("orders/order-1"),
+      dispatchStatus: "offering",
+      dispatchDriverId: "driver-2",
+      dispatchOfferId: "offer-1",
+    });
+
+    await expect(claim("driver-1")).resolves.toMatchObject({ success: false, result: "already-taken" });
+    expect(fakeDb.read("orders/order-1")?.driverId).toBeNull();
+  });
+});
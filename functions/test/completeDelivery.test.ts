@@ -0,0 +1,59 @@
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+import { expectConsistentLedger, journalReasonsFor } from "./support/ledger";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { completeDelivery } from "../src/index";
+
+const deliver = (uid = "driver-1") =>
+  (completeDelivery as any).run({ auth: { uid }, data: { orderId: "order-1" } });
+
+describe("completeDelivery", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/driver-1", { role: "driver", isApproved: true });
+    fakeDb.seed("users/driver-2", { role: "driver", isApproved: true });
+    fakeDb.seed("drivers/driver-1", { name: "Sam", status: "busy", cashOnHand: 0, currency: "USD" });
+    fakeDb.seed("orders/order-1", {
+      orderStatus: "enroute",
+      status: "enroute",
+      vendorId: "vendor-1",
+      vendorName: "Corner Shop",
+      driverId: "driver-1",
+      driverName: "Sam",
+      customerId: "customer-1",
+      paymentMethod: "cash-on-delivery",
+      currency: "USD",
+      subtotal: 40,
+      deliveryFee: 5,
+      commissionFee: 4,
+      totalAmount: 45,
+    });
+  });
+
+  it("records cash-on-delivery entries once when the delivery is retried", async () => {
+    const first = await deliver();
+    const retry = await deliver();
+
+    expect(first).toMatchObject({ alreadyCompleted: false, driverTransactionId: "order-1", vendorTransactionId: "order-1" });
+    expect(retry).toMatchObject({ alreadyCompleted: true, driverTransactionId: "order-1", vendorTransactionId: "order-1" });
+
+    expect(fakeDb.read("orders/order-1")).toMatchObject({ orderStatus: "delivered", paymentStatus: "paid" });
+    expect(fakeDb.list("driverTransactions")).toEqual([
+      expect.objectContaining({ id: "order-1", grossAmount: 45, netAmount: 36, status: "pending-remittance" }),
+    ]);
+    expect(fakeDb.list("vendorTransactions")).toEqual([
+      expect.objectContaining({ id: "order-1", netAmount: 36, status: "awaiting-remittance" }),
+    ]);
+    expect(journalReasonsFor("order-1")).toEqual(["cod-collected"]);
+    expect(fakeDb.read("drivers/driver-1")).toMatchObject({ cashOnHand: 36, cashLedgerSequence: 1, status: "available" });
+    expectConsistentLedger();
+  });
+
+  it("rejects a delivery by a driver the order is not assigned to", async () => {
+    await expect(deliver("driver-2")).rejects.toMatchObject({ code: "permission-denied" });
+
+    expect(fakeDb.read("orders/order-1")?.orderStatus).toBe("enroute");
+    expect(fakeDb.list("driverTransactions")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,67 @@
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { createDeliveryBatch } from "../src/index";
+
+function seedReadyOrder(orderId: string, overrides: Record<string, unknown> = {}) {
+  fakeDb.seed(`orders/${orderId}`, {
+    orderStatus: "ready",
+    status: "ready",
+    vendorId: "vendor-1",
+    driverId: null,
+    type: "delivery",
+    paymentMethod: "cash-on-delivery",
+    totalAmount: 20,
+    currency: "USD",
+    pickupLocation: { lat: 40.0, lng: -74.0 },
+    dropoffLocation: { lat: 40.01, lng: -74.01 },
+    ...overrides,
+  });
+}
+
+const batch = (orderIds: string[]) =>
+  (createDeliveryBatch as any).run({ auth: { uid: "admin-1" }, data: { orderIds, driverId: "driver-1" } });
+
+describe("createDeliveryBatch", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/admin-1", { role: "admin", isApproved: true });
+    fakeDb.seed("drivers/driver-1", { name: "Sam", status: "available", cashOnHand: 0, currency: "USD" });
+  });
+
+  it("assigns nothing when an admin batch includes an order that cannot be batched", async () => {
+    seedReadyOrder("order-1");
+    seedReadyOrder("order-2", { type: "pickup" });
+
+    await expect(batch(["order-1", "order-2"])).rejects.toMatchObject({ code: "failed-precondition" });
+
+    expect(fakeDb.read("orders/order-1")).toMatchObject({ orderStatus: "ready", driverId: null });
+    expect(fakeDb.read("drivers/driver-1")?.status).toBe("available");
+    expect(fakeDb.list("deliveryBatches")).toHaveLength(0);
+  });
+
+  it("assigns nothing when one of the orders is missing", async () => {
+    seedReadyOrder("order-1");
+
+    await expect(batch(["order-1", "order-missing"])).rejects.toMatchObject({ code: "not-found" });
+
+    expect(fakeDb.read("orders/order-1")).toMatchObject({ orderStatus: "ready", driverId: null });
+  });
+
+  it("assigns ready orders to the driver and batches them", async () => {
+    seedReadyOrder("order-1");
+    seedReadyOrder("order-2");
+
+    const result = await batch(["order-1", "order-2"]);
+
+    ["order-1", "order-2"].forEach((orderId) => {
+      expect(fakeDb.read(`orders/${orderId}`)).toMatchObject({
+        orderStatus: "assigned",
+        driverId: "driver-1",
+        batchId: result.batchId,
+      });
+    });
+    expect(fakeDb.read(`deliveryBatches/${result.batchId}`)).toMatchObject({ driverId: "driver-1", status: "active" });
+  });
+});
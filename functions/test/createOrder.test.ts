@@ -0,0 +1,86 @@
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { completeDelivery, createOrder } from "../src/index";
+
+const walletOrder = (uid: string, data: Record<string, unknown> = {}) =>
+  (createOrder as any).run({
+    auth: { uid },
+    data: {
+      vendorId: "vendor-1",
+      paymentMethod: "wallet",
+      lines: [{ productId: "product-1", quantity: 2 }],
+      pickupOrder: true,
+      ...data,
+    },
+  });
+
+describe("createOrder wallet payments", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/vendor-1", { role: "vendor", isApproved: true });
+    fakeDb.seed("users/driver-1", { role: "driver", isApproved: true });
+    fakeDb.seed("users/customer-1", { role: "customer", isApproved: true, name: "Alex" });
+    fakeDb.seed("vendors/vendor-1", { businessName: "Corner Shop", currency: "USD" });
+    fakeDb.seed("drivers/driver-1", { status: "busy", currency: "USD" });
+    fakeDb.seed("systemConfig/fees", { deliveryFee: 0, commissionRate: 10, taxRate: 0 });
+    fakeDb.seed("products/product-1", { vendorId: "vendor-1", name: "Bread", price: 12.5, availableQty: 10 });
+    fakeDb.seed("wallets/customer-1", { balance: 100, heldBalance: 0, currency: "USD", ledgerSequence: 0 });
+  });
+
+  it("rejects a vendor paying from a customer's wallet", async () => {
+    const call = (createOrder as any).run({
+      auth: { uid: "vendor-1" },
+      data: {
+        customerId: "customer-1",
+        paymentMethod: "wallet",
+        lines: [{ productId: "product-1", quantity: 1 }],
+      },
+    });
+
+    await expect(call).rejects.toMatchObject({
+      code: "permission-denied",
+      details: { reason: "wallet-not-authorized" },
+    });
+    expect(fakeDb.list("orders")).toHaveLength(0);
+    expect(fakeDb.list("walletHolds")).toHaveLength(0);
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({ balance: 100, heldBalance: 0 });
+  });
+
+  it("rejects a customer ordering for someone else", async () => {
+    await expect(walletOrder("customer-1", { customerId: "customer-2" })).rejects.toMatchObject({
+      code: "permission-denied",
+    });
+    expect(fakeDb.list("orders")).toHaveLength(0);
+  });
+
+  it("holds the customer's balance when they order and captures it on delivery", async () => {
+    const { orderId, quote } = await walletOrder("customer-1");
+
+    expect(quote.totalAmount).toBe(25);
+    expect(fakeDb.read(`orders/${orderId}`)).toMatchObject({
+      customerId: "customer-1",
+      createdBy: "customer-1",
+      paymentMethod: "wallet",
+      paymentStatus: "authorized",
+    });
+    expect(fakeDb.read(`walletHolds/${orderId}`)).toMatchObject({ userId: "customer-1", amount: 25, status: "held" });
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({ balance: 75, heldBalance: 25 });
+
+    const order = fakeDb.read(`orders/${orderId}`)!;
+    fakeDb.seed(`orders/${orderId}`, { ...order, orderStatus: "enroute", status: "enroute", driverId: "driver-1" });
+    await (completeDelivery as any).run({ auth: { uid: "driver-1" }, data: { orderId } });
+    const retry = await (completeDelivery as any).run({ auth: { uid: "driver-1" }, data: { orderId } });
+
+    expect(retry.alreadyCompleted).toBe(true);
+
+    expect(fakeDb.read(`walletHolds/${orderId}`)).toMatchObject({
+      status: "captured",
+      captureJournalId: `capture-${orderId}`,
+    });
+    expect(fakeDb.read("wallets/customer-1")).toMatchObject({ balance: 75, heldBalance: 0 });
+    expect(fakeDb.read(`orders/${orderId}`)).toMatchObject({ orderStatus: "delivered", paymentStatus: "paid" });
+    expect(fakeDb.read(`vendorTransactions/${orderId}`)).toMatchObject({ type: "wallet-payment", grossAmount: 25 });
+  });
+});
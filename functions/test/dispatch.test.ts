@@ -0,0 +1,70 @@
+import { FakeFirestore, Timestamp, fakeDb } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { onOrderReadyDispatch } from "../src/index";
+
+const PICKUP = { lat: 40.0, lng: -74.0 };
+
+function seedDriver(driverId: string, name: string) {
+  fakeDb.seed(`users/${driverId}`, { role: "driver", isApproved: true });
+  fakeDb.seed(`drivers/${driverId}`, { name, status: "available", cashOnHand: 0, currency: "USD" });
+  fakeDb.seed(`driverLocations/${driverId}`, { ...PICKUP, updatedAt: Timestamp.now() });
+}
+
+function markReady(orderId: string) {
+  const order = {
+    orderStatus: "ready",
+    status: "ready",
+    vendorId: "vendor-1",
+    driverId: null,
+    paymentMethod: "card",
+    totalAmount: 20,
+    currency: "USD",
+    pickupLocation: PICKUP,
+  };
+  fakeDb.seed(`orders/${orderId}`, order);
+  return (onOrderReadyDispatch as any).run({
+    params: { orderId },
+    data: {
+      before: { data: () => ({ ...order, orderStatus: "preparing", status: "preparing" }) },
+      after: { data: () => order },
+    },
+  });
+}
+
+describe("dispatch offers", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    seedDriver("driver-1", "Sam");
+    seedDriver("driver-2", "Kai");
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it("ranks drivers with active orders after idle drivers", async () => {
+    fakeDb.seed("orders/busy-1", { orderStatus: "enroute", driverId: "driver-1" });
+    fakeDb.seed("orders/busy-2", { orderStatus: "assigned", driverId: "driver-1" });
+
+    await markReady("order-1");
+
+    expect(fakeDb.read("orders/order-1")).toMatchObject({ dispatchStatus: "offering", dispatchDriverId: "driver-2" });
+    expect(fakeDb.list("dispatchOffers")).toEqual([
+      expect.objectContaining({ orderId: "order-1", driverId: "driver-2", activeOrders: 0 }),
+    ]);
+  });
+
+  it("skips a driver who received another offer after candidates were ranked", async () => {
+    fakeDb.seed("orders/busy-1", { orderStatus: "enroute", driverId: "driver-2" });
+    const runTransaction = FakeFirestore.prototype.runTransaction;
+    jest.spyOn(FakeFirestore.prototype, "runTransaction").mockImplementationOnce(function (this: FakeFirestore, fn) {
+      fakeDb.seed("dispatchOffers/other", { orderId: "order-0", driverId: "driver-1", status: "pending" });
+      return runTransaction.call(this, fn);
+    });
+
+    await markReady("order-1");
+
+    expect(fakeDb.read("orders/order-1")).toMatchObject({ dispatchStatus: "offering", dispatchDriverId: "driver-2" });
+    expect(fakeDb.list("dispatchOffers").filter((offer) => offer.driverId === "driver-1")).toHaveLength(1);
+  });
+});
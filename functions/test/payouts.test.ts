@@ -0,0 +1,204 @@
+import { fakeDb, fakeStorageFiles, Timestamp } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { completeDelivery, createPayoutRun, generateVendorStatement } from "../src/index";
+
+const minor = (amount: number) => Math.round(amount * 100);
+
+/**
+ * A USD order priced the way computeOrderQuote prices it:
+ * items 40.00, less a 5.00 item coupon; delivery 6.00, less 1.00 waived;
+ * 10% tax on top (3.50 on items, 0.50 on delivery); 3.00 tip; 15% commission.
+ * Total = 40.00 - 6.00 + 4.00 + 6.00 + 3.00 = 47.00
+ */
+function seedOrder(orderId: string, paymentMethod: "wallet" | "cash-on-delivery") {
+  fakeDb.seed(`orders/${orderId}`, {
+    orderStatus: "enroute",
+    status: "enroute",
+    vendorId: "vendor-1",
+    vendorName: "Corner Shop",
+    driverId: "driver-1",
+    driverName: "Sam",
+    customerId: "customer-1",
+    userId: "customer-1",
+    orderCode: `CODE-${orderId}`,
+    paymentMethod,
+    paymentStatus: paymentMethod === "wallet" ? "authorized" : "pending",
+    currency: "USD",
+    subtotal: 40,
+    discountAmount: 6,
+    taxAmount: 4,
+    tax: {
+      zoneId: null,
+      zoneName: null,
+      pricesIncludeTax: false,
+      taxAmount: 4,
+      lines: [
+        { kind: "items", taxCategoryId: null, taxCategoryName: "Standard rate", rate: 10, taxableAmount: 35, taxAmount: 3.5, minorUnits: { taxableAmount: 3500, taxAmount: 350 } },
+        { kind: "delivery", taxCategoryId: null, taxCategoryName: "Delivery", rate: 10, taxableAmount: 5, taxAmount: 0.5, minorUnits: { taxableAmount: 500, taxAmount: 50 } },
+      ],
+    },
+    deliveryFee: 6,
+    driverTip: 3,
+    commissionFee: 5.25,
+    totalAmount: 47,
+    pricing: {
+      coupon: { code: "SAVE5", applied: true, message: null, discountType: "fixed", itemDiscount: 5, deliveryDiscount: 1 },
+    },
+  });
+}
+
+async function deliver(orderId: string) {
+  await (completeDelivery as any).run({ auth: { uid: "driver-1" }, data: { orderId } });
+  // Payout periods end at the call time, after the delivery timestamps
+  await new Promise((resolve) => setTimeout(resolve, 5));
+}
+
+async function runPayouts(periodStart = new Date(Date.now() - 60 * 60 * 1000)) {
+  return (createPayoutRun as any).run({
+    auth: { uid: "admin-1" },
+    data: { periodStart: periodStart.toISOString() },
+  });
+}
+
+const payoutFor = (field: "vendorId" | "driverId", payeeId: string) =>
+  fakeDb.list("payouts").find((payout) => payout[field] === payeeId);
+
+describe("payee statements", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/admin-1", { role: "admin", isApproved: true });
+    fakeDb.seed("users/driver-1", { role: "driver", isApproved: true });
+    fakeDb.seed("drivers/driver-1", { status: "busy", stripeAccountId: "acct_driver", currency: "USD" });
+    fakeDb.seed("vendors/vendor-1", { businessName: "Corner Shop", stripeAccountId: "acct_vendor", currency: "USD" });
+    fakeDb.seed("systemConfig/driverCompensation", { deliveryFeeSharePercent: 80, perKmRate: 0, perMinuteRate: 0 });
+  });
+
+  it("splits a wallet order's total exactly between vendor, driver and platform", async () => {
+    fakeDb.seed("wallets/customer-1", { balance: 0, heldBalance: 47, currency: "USD", ledgerSequence: 0, holdLedgerSequence: 0 });
+    fakeDb.seed("walletHolds/order-wallet", {
+      orderId: "order-wallet",
+      userId: "customer-1",
+      amount: 47,
+      currency: "USD",
+      status: "held",
+    });
+    seedOrder("order-wallet", "wallet");
+
+    await deliver("order-wallet");
+    const run = await runPayouts();
+
+    const vendorPayout = payoutFor("vendorId", "vendor-1")!;
+    const driverPayout = payoutFor("driverId", "driver-1")!;
+    expect(run.payoutCount).toBe(2);
+    // Items 40.00 - 5.00 discount + 3.50 item tax, less 5.25 commission
+    expect(vendorPayout.lineItems.map((item: any) => [item.kind, item.amount])).toEqual([
+      ["earning", 38.5],
+      ["commission", -5.25],
+    ]);
+    expect(vendorPayout.amount).toBe(33.25);
+    // 80% of the 6.00 delivery fee plus the 3.00 tip
+    expect(driverPayout.amount).toBe(7.8);
+
+    // Commission + delivery charges (5.00 fee, 0.50 tax, 3.00 tip) - driver earning
+    const platformMinor = minor(5.25) + minor(5) + minor(0.5) + minor(3) - minor(driverPayout.amount);
+    expect(minor(vendorPayout.amount) + minor(driverPayout.amount) + platformMinor).toBe(minor(47));
+  });
+
+  it("remits only the vendor's share of a COD order and charges the rest to the driver", async () => {
+    seedOrder("order-cod", "cash-on-delivery");
+
+    await deliver("order-cod");
+
+    const vendorTxn = fakeDb.read("vendorTransactions/order-cod")!;
+    const driverTxn = fakeDb.read("driverTransactions/order-cod")!;
+    expect(vendorTxn).toMatchObject({ grossAmount: 38.5, commissionAmount: 5.25, netAmount: 33.25 });
+    expect(driverTxn).toMatchObject({ grossAmount: 47, netAmount: 33.25, retainedAmount: 13.75 });
+    expect(fakeDb.read("orders/order-cod")?.codCollectedAmount).toBe(33.25);
+    expect(fakeDb.read("drivers/driver-1")?.cashOnHand).toBe(33.25);
+
+    // The driver hands the vendor's share over
+    fakeDb.seed("driverTransactions/order-cod", { ...driverTxn, status: "remitted", remittedAt: Timestamp.now() });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const run = await runPayouts();
+
+    // Earning 7.80 less the 13.75 kept in cash: the driver owes 5.95, carried over
+    expect(payoutFor("driverId", "driver-1")).toBeUndefined();
+    expect(run.skipped).toEqual([
+      { payeeType: "driver", payeeId: "driver-1", currency: "USD", reason: "nothing-owed", amount: -5.95 },
+    ]);
+
+    const vendorMinor = minor(vendorTxn.netAmount);
+    const driverMinor = minor(fakeDb.read("driverEarnings/order-cod")!.totalAmount);
+    const platformMinor = minor(driverTxn.retainedAmount) - driverMinor;
+    expect(vendorMinor + driverMinor + platformMinor).toBe(minor(47));
+    expect(platformMinor).toBe(minor(5.25) + minor(5) + minor(0.5) + minor(3) - driverMinor);
+  });
+
+  it("states the vendor's sales as items and item tax, without delivery charges", async () => {
+    fakeDb.seed("users/vendor-1", { role: "vendor", isApproved: true });
+    fakeDb.seed("wallets/customer-1", { balance: 0, heldBalance: 47, currency: "USD", ledgerSequence: 0, holdLedgerSequence: 0 });
+    fakeDb.seed("walletHolds/order-wallet", {
+      orderId: "order-wallet",
+      userId: "customer-1",
+      amount: 47,
+      currency: "USD",
+      status: "held",
+    });
+    seedOrder("order-wallet", "wallet");
+    await deliver("order-wallet");
+
+    const result = await (generateVendorStatement as any).run({
+      auth: { uid: "vendor-1" },
+      data: {
+        periodStart: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+        periodEnd: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+      },
+    });
+
+    // Items 40.00 - 5.00 discount = 35.00, plus 3.50 item tax
+    expect(fakeDb.read(`vendorStatements/${result.statementId}`)?.totals).toEqual({
+      orderCount: 1,
+      grossSales: 38.5,
+      itemTax: 3.5,
+      commissions: 5.25,
+      netSales: 33.25,
+      codRemitted: 0,
+      payoutsPaid: 0,
+    });
+    expect(fakeStorageFiles.has(result.statementPath)).toBe(true);
+  });
+
+  it("pays a driver who connects Stripe after the period they earned in", async () => {
+    fakeDb.seed("drivers/driver-1", { status: "busy", stripeAccountId: null, currency: "USD" });
+    fakeDb.seed("wallets/customer-1", { balance: 0, heldBalance: 47, currency: "USD", ledgerSequence: 0, holdLedgerSequence: 0 });
+    fakeDb.seed("walletHolds/order-wallet", {
+      orderId: "order-wallet",
+      userId: "customer-1",
+      amount: 47,
+      currency: "USD",
+      status: "held",
+    });
+    seedOrder("order-wallet", "wallet");
+    await deliver("order-wallet");
+
+    const first = await runPayouts();
+    expect(first.skipped).toEqual([
+      { payeeType: "driver", payeeId: "driver-1", currency: "USD", reason: "no-connected-account", amount: 7.8 },
+    ]);
+
+    // The driver onboards; the next run's period starts after the delivery
+    fakeDb.seed("drivers/driver-1", { status: "available", stripeAccountId: "acct_driver", currency: "USD" });
+    const nextPeriodStart = new Date();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await runPayouts(nextPeriodStart);
+
+    expect(second.payoutCount).toBe(1);
+    expect(payoutFor("driverId", "driver-1")).toMatchObject({
+      amount: 7.8,
+      lineItems: [expect.objectContaining({ kind: "earning", sourceId: "order-wallet", amount: 7.8 })],
+    });
+    expect(fakeDb.read("driverEarnings/order-wallet")?.payoutId).toBe(payoutFor("driverId", "driver-1")!.id);
+  });
+});
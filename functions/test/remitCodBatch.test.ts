@@ -0,0 +1,58 @@
+import { fakeDb, Timestamp } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+import { remitCodBatch } from "../src/index";
+
+const remit = (remittanceId: string) =>
+  (remitCodBatch as any).run({
+    auth: { uid: "driver-1" },
+    data: {
+      remittanceId,
+      driverTransactionIds: ["order-1"],
+      amountReceived: 33.25,
+      signatureUrl: "https://storage.example/signature.png",
+      signaturePath: `drivers/driver-1/remittances/${remittanceId}/signature.png`,
+      note: null,
+    },
+  });
+
+describe("remitCodBatch", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/driver-1", { role: "driver", isApproved: true });
+    fakeDb.seed("drivers/driver-1", { cashOnHand: 33.25, cashLedgerSequence: 1, currency: "USD" });
+    fakeDb.seed("driverTransactions/order-1", {
+      driverId: "driver-1",
+      vendorId: "vendor-1",
+      orderId: "order-1",
+      type: "cash-on-delivery",
+      status: "pending-remittance",
+      netAmount: 33.25,
+      currency: "USD",
+      vendorTransactionId: "order-1",
+      createdAt: Timestamp.now(),
+    });
+    fakeDb.seed("vendorTransactions/order-1", {
+      driverId: "driver-1",
+      vendorId: "vendor-1",
+      orderId: "order-1",
+      type: "cash-on-delivery",
+      status: "awaiting-remittance",
+      netAmount: 33.25,
+      currency: "USD",
+    });
+  });
+
+  it("rejects a remittance ID that has already been used", async () => {
+    const first = await remit("remit-1");
+    expect(first).toMatchObject({ remittanceId: "remit-1", appliedAmount: 33.25, settledCount: 1 });
+
+    await expect(remit("remit-1")).rejects.toMatchObject({
+      code: "already-exists",
+      details: { reason: "remittance-exists" },
+    });
+    expect(fakeDb.list("codRemittances")).toHaveLength(1);
+    expect(fakeDb.read("drivers/driver-1")?.cashOnHand).toBe(0);
+  });
+});
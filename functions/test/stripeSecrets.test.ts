@@ -0,0 +1,75 @@
+import Stripe from "stripe";
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+const WEBHOOK_SECRET = "whsec_legacy_secret";
+delete process.env.STRIPE_SECRET_KEY;
+delete process.env.STRIPE_WEBHOOK_SECRET;
+process.env.SECRETS_ENCRYPTION_KEY = Buffer.alloc(32, 7).toString("base64");
+
+// Loaded after the environment above, which index.ts reads at import time
+const { migrateStripeSecrets, stripeWebhook } = require("../src/index") as typeof import("../src/index");
+
+const stripe = new Stripe("sk_test_legacy", { apiVersion: "2022-11-15" });
+
+async function deliver(secret: string) {
+  const payload = JSON.stringify({ id: "evt_ping", object: "event", type: "customer.created", data: { object: {} } });
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const response = { statusCode: 0, body: undefined as any };
+  const res = {
+    status(code: number) {
+      response.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      response.body = body;
+      return res;
+    },
+  };
+  const req = {
+    method: "POST",
+    headers: { "stripe-signature": signature },
+    rawBody: Buffer.from(payload),
+    body: JSON.parse(payload),
+  };
+  await (stripeWebhook as any)(req, res);
+  return response;
+}
+
+describe("plaintext Stripe secret fallback", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("users/admin-1", { role: "admin", isApproved: true });
+    fakeDb.seed("systemConfig/paymentSettings", {
+      defaultCurrency: "USD",
+      stripeSecretKey: "sk_test_legacy",
+      stripeWebhookSecret: WEBHOOK_SECRET,
+    });
+  });
+
+  it("uses plaintext secrets until they are migrated", async () => {
+    expect((await deliver(WEBHOOK_SECRET)).statusCode).toBe(200);
+
+    const result = await (migrateStripeSecrets as any).run({ auth: { uid: "admin-1" }, data: {} });
+
+    expect(result.moved).toEqual(["secretKey", "webhookSecret"]);
+    expect(fakeDb.read("systemConfig/paymentSettings")).toEqual({ defaultCurrency: "USD" });
+    expect(fakeDb.read("serverSecrets/stripe")).toMatchObject({ legacyMigratedBy: "admin-1" });
+    expect(fakeDb.read("serverSecrets/stripe")?.legacyMigratedAt).toBeDefined();
+    expect((await deliver(WEBHOOK_SECRET)).statusCode).toBe(200);
+
+    // A plaintext secret written back later is ignored
+    fakeDb.seed("systemConfig/paymentSettings", { defaultCurrency: "USD", stripeWebhookSecret: "whsec_stale_copy" });
+    expect((await deliver("whsec_stale_copy")).statusCode).toBe(400);
+  });
+
+  it("does not fall back to plaintext once the migration has run", async () => {
+    fakeDb.seed("serverSecrets/stripe", { legacyMigratedAt: new Date(), legacyMigratedBy: "admin-1" });
+
+    const response = await deliver(WEBHOOK_SECRET);
+
+    expect(response.statusCode).toBe(500);
+    expect(response.body).toEqual({ error: "Stripe webhook not configured" });
+  });
+});
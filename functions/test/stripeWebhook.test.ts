@@ -0,0 +1,131 @@
+import Stripe from "stripe";
+import { fakeDb } from "./support/fakeFirebaseAdmin";
+
+jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+
+const WEBHOOK_SECRET = "whsec_test_secret";
+process.env.STRIPE_SECRET_KEY = "sk_test_webhook";
+process.env.STRIPE_WEBHOOK_SECRET = WEBHOOK_SECRET;
+
+// Loaded after the environment above, which index.ts reads at import time
+const { stripeWebhook } = require("../src/index") as typeof import("../src/index");
+
+const stripe = new Stripe("sk_test_webhook", { apiVersion: "2022-11-15" });
+
+function topupEvent(eventId: string, overrides: { amount?: number; currency?: string } = {}) {
+  return {
+    id: eventId,
+    object: "event",
+    type: "payment_intent.succeeded",
+    data: {
+      object: {
+        id: "pi_topup_1",
+        object: "payment_intent",
+        amount: overrides.amount ?? 2500,
+        amount_received: overrides.amount ?? 2500,
+        currency: overrides.currency ?? "usd",
+        status: "succeeded",
+        metadata: { userId: "customer-1", type: "wallet-topup" },
+      },
+    },
+  };
+}
+
+async function deliver(event: object, secret = WEBHOOK_SECRET) {
+  const payload = JSON.stringify(event);
+  const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+  const response = { statusCode: 0, body: undefined as any };
+  const res = {
+    status(code: number) {
+      response.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      response.body = body;
+      return res;
+    },
+  };
+  const req = {
+    method: "POST",
+    headers: { "stripe-signature": signature },
+    rawBody: Buffer.from(payload),
+    body: JSON.parse(payload),
+  };
+  await (stripeWebhook as any)(req, res);
+  return response;
+}
+
+const walletBalance = () => fakeDb.read("wallets/customer-1")?.balance ?? 0;
+
+describe("stripeWebhook wallet top-ups", () => {
+  beforeEach(() => {
+    fakeDb.reset();
+    fakeDb.seed("wallets/customer-1", { balance: 10, currency: "USD", ledgerSequence: 0 });
+  });
+
+  it("credits a signed payment_intent.succeeded top-up", async () => {
+    const response = await deliver(topupEvent("evt_valid"));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toEqual({ received: true, result: "credited" });
+    expect(walletBalance()).toBe(35);
+    expect(fakeDb.read("walletTopups/pi_topup_1")).toMatchObject({
+      userId: "customer-1",
+      amount: 25,
+      currency: "USD",
+      status: "credited",
+      journalId: "topup-pi_topup_1",
+      stripeEventId: "evt_valid",
+    });
+    expect(fakeDb.read("stripeEvents/evt_valid")).toMatchObject({ result: "credited" });
+  });
+
+  it("rejects an event with a bad signature without crediting", async () => {
+    const response = await deliver(topupEvent("evt_forged"), "whsec_wrong_secret");
+
+    expect(response.statusCode).toBe(400);
+    expect(response.body).toEqual({ error: "Invalid signature" });
+    expect(walletBalance()).toBe(10);
+    expect(fakeDb.read("walletTopups/pi_topup_1")).toBeUndefined();
+    expect(fakeDb.read("stripeEvents/evt_forged")).toBeUndefined();
+  });
+
+  it("credits a replayed event only once", async () => {
+    const first = await deliver(topupEvent("evt_replayed"));
+    const replay = await deliver(topupEvent("evt_replayed"));
+
+    expect(first.body.result).toBe("credited");
+    expect(replay.statusCode).toBe(200);
+    expect(replay.body.result).toBe("duplicate-event");
+    expect(walletBalance()).toBe(35);
+  });
+
+  it("credits a PaymentIntent once when Stripe sends it in a second event", async () => {
+    await deliver(topupEvent("evt_first"));
+    const second = await deliver(topupEvent("evt_second"));
+
+    expect(second.body.result).toBe("already-credited");
+    expect(fakeDb.read("stripeEvents/evt_second")).toMatchObject({ result: "already-credited" });
+    expect(walletBalance()).toBe(35);
+  });
+
+  it("records a top-up in another currency uncredited instead of failing", async () => {
+    const response = await deliver(topupEvent("evt_eur", { currency: "eur" }));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body.result).toBe("currency-mismatch");
+    expect(walletBalance()).toBe(10);
+    expect(fakeDb.read("walletTopups/pi_topup_1")).toMatchObject({
+      amount: 25,
+      currency: "EUR",
+      walletCurrency: "USD",
+      status: "currency-mismatch",
+      journalId: null,
+    });
+    expect(fakeDb.list("ledgerJournals")).toHaveLength(0);
+
+    const replay = await deliver(topupEvent("evt_eur", { currency: "eur" }));
+    expect(replay.body.result).toBe("duplicate-event");
+    expect(walletBalance()).toBe(10);
+  });
+});
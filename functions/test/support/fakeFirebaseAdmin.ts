@@ -0,0 +1,528 @@
+/**
+ * In-memory stand-in for the parts of firebase-admin that src/index.ts uses,
+ * so functions can be exercised without the emulator:
+ *   jest.mock("firebase-admin", () => require("./support/fakeFirebaseAdmin"));
+ * Transaction and batch writes are buffered and applied atomically on commit.
+ */
+
+type Data = Record<string, any>;
+
+export class Timestamp {
+  constructor(readonly seconds: number, readonly nanoseconds: number) {}
+
+  static fromMillis(millis: number): Timestamp {
+    const seconds = Math.floor(millis / 1000);
+    return new Timestamp(seconds, Math.round((millis - seconds * 1000) * 1e6));
+  }
+
+  static fromDate(date: Date): Timestamp {
+    return Timestamp.fromMillis(date.getTime());
+  }
+
+  static now(): Timestamp {
+    return Timestamp.fromMillis(Date.now());
+  }
+
+  toMillis(): number {
+    return this.seconds * 1000 + Math.floor(this.nanoseconds / 1e6);
+  }
+
+  toDate(): Date {
+    return new Date(this.toMillis());
+  }
+
+  isEqual(other: Timestamp): boolean {
+    return other instanceof Timestamp && other.seconds === this.seconds && other.nanoseconds === this.nanoseconds;
+  }
+}
+
+/** Base class so `instanceof FieldValue` works as in firebase-admin */
+export class FieldValue {
+  static serverTimestamp() {
+    return new FieldValueSentinel("serverTimestamp");
+  }
+
+  static increment(amount: number) {
+    return new FieldValueSentinel("increment", amount);
+  }
+
+  static delete() {
+    return new FieldValueSentinel("delete");
+  }
+
+  static arrayUnion(...values: any[]) {
+    return new FieldValueSentinel("arrayUnion", values);
+  }
+
+  static arrayRemove(...values: any[]) {
+    return new FieldValueSentinel("arrayRemove", values);
+  }
+}
+
+class FieldValueSentinel extends FieldValue {
+  constructor(readonly kind: "serverTimestamp" | "increment" | "delete" | "arrayUnion" | "arrayRemove", readonly operand?: any) {
+    super();
+  }
+}
+
+export const AggregateField = {
+  sum: (field: string) => ({ aggregateType: "sum", field }),
+  count: () => ({ aggregateType: "count" }),
+};
+
+/** Error shaped like the gRPC errors firebase-admin throws */
+class FirestoreError extends Error {
+  constructor(readonly code: number, message: string) {
+    super(`${code} ${message}`);
+  }
+}
+
+const isPlainObject = (value: unknown): value is Data =>
+  value !== null &&
+  typeof value === "object" &&
+  (Object.getPrototypeOf(value) === Object.prototype || Object.getPrototypeOf(value) === null);
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as unknown as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, clone(child)])) as T;
+  }
+  return value;
+}
+
+function resolveSentinel(current: any, sentinel: FieldValueSentinel): any {
+  switch (sentinel.kind) {
+    case "serverTimestamp":
+      return Timestamp.now();
+    case "increment":
+      return (typeof current === "number" ? current : 0) + sentinel.operand;
+    case "arrayUnion": {
+      const values = Array.isArray(current) ? [...current] : [];
+      sentinel.operand.forEach((item: any) => {
+        if (!values.some((existing) => JSON.stringify(existing) === JSON.stringify(item))) values.push(item);
+      });
+      return values;
+    }
+    case "arrayRemove":
+      return (Array.isArray(current) ? current : []).filter(
+        (existing: any) => !sentinel.operand.some((item: any) => JSON.stringify(existing) === JSON.stringify(item))
+      );
+    default:
+      throw new Error(`Unsupported field value ${sentinel.kind}`);
+  }
+}
+
+/** Writes `value` into `target` at `path`, resolving sentinels; `merge` deep-merges maps */
+function writeField(target: Data, path: string[], value: any, merge: boolean) {
+  const [head, ...rest] = path;
+  if (rest.length) {
+    if (!isPlainObject(target[head])) target[head] = {};
+    writeField(target[head], rest, value, merge);
+    return;
+  }
+  if (value instanceof FieldValueSentinel) {
+    if (value.kind === "delete") delete target[head];
+    else target[head] = resolveSentinel(target[head], value);
+    return;
+  }
+  if (isPlainObject(value)) {
+    if (!merge || !isPlainObject(target[head])) target[head] = {};
+    Object.entries(value).forEach(([key, child]) => writeField(target[head], [key], child, merge));
+    return;
+  }
+  target[head] = clone(value);
+}
+
+export function getField(data: Data | undefined, field: string): any {
+  return field.split(".").reduce((value: any, key) => (value == null ? undefined : value[key]), data);
+}
+
+function compareValues(a: any, b: any): number {
+  const normalize = (value: any) => (value instanceof Timestamp ? value.toMillis() : value);
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 0;
+  if (left === undefined || left === null) return -1;
+  if (right === undefined || right === null) return 1;
+  return left < right ? -1 : 1;
+}
+
+function matches(value: any, op: string, operand: any): boolean {
+  const equal = (a: any, b: any) => compareValues(a, b) === 0 && (a === undefined) === (b === undefined);
+  switch (op) {
+    case "==":
+      return value !== undefined && equal(value, operand);
+    case "!=":
+      return value !== undefined && value !== null && !equal(value, operand);
+    case "<":
+      return value !== undefined && value !== null && compareValues(value, operand) < 0;
+    case "<=":
+      return value !== undefined && value !== null && compareValues(value, operand) <= 0;
+    case ">":
+      return value !== undefined && value !== null && compareValues(value, operand) > 0;
+    case ">=":
+      return value !== undefined && value !== null && compareValues(value, operand) >= 0;
+    case "in":
+      return value !== undefined && (operand as any[]).some((item) => equal(value, item));
+    case "not-in":
+      return value !== undefined && value !== null && !(operand as any[]).some((item) => equal(value, item));
+    case "array-contains":
+      return Array.isArray(value) && value.some((item) => equal(item, operand));
+    case "array-contains-any":
+      return Array.isArray(value) && value.some((item) => (operand as any[]).some((candidate) => equal(item, candidate)));
+    default:
+      throw new Error(`Unsupported query operator ${op}`);
+  }
+}
+
+export class DocumentSnapshot {
+  constructor(readonly ref: DocumentReference, private readonly stored: Data | undefined) {}
+
+  get id(): string {
+    return this.ref.id;
+  }
+
+  get exists(): boolean {
+    return this.stored !== undefined;
+  }
+
+  data(): Data | undefined {
+    return this.stored === undefined ? undefined : clone(this.stored);
+  }
+
+  get(field: string): any {
+    return clone(getField(this.stored, field));
+  }
+}
+
+class QuerySnapshot {
+  constructor(readonly docs: DocumentSnapshot[]) {}
+
+  get empty(): boolean {
+    return this.docs.length === 0;
+  }
+
+  get size(): number {
+    return this.docs.length;
+  }
+
+  forEach(callback: (doc: DocumentSnapshot) => void) {
+    this.docs.forEach(callback);
+  }
+}
+
+type Write =
+  | { type: "set"; ref: DocumentReference; data: Data; merge: boolean }
+  | { type: "update"; ref: DocumentReference; data: Data }
+  | { type: "create"; ref: DocumentReference; data: Data }
+  | { type: "delete"; ref: DocumentReference };
+
+export class DocumentReference {
+  constructor(readonly firestore: FakeFirestore, readonly path: string) {}
+
+  get id(): string {
+    return this.path.slice(this.path.lastIndexOf("/") + 1);
+  }
+
+  get parent(): CollectionReference {
+    return new CollectionReference(this.firestore, this.path.slice(0, this.path.lastIndexOf("/")));
+  }
+
+  collection(collectionId: string): CollectionReference {
+    return new CollectionReference(this.firestore, `${this.path}/${collectionId}`);
+  }
+
+  isEqual(other: DocumentReference): boolean {
+    return other instanceof DocumentReference && other.path === this.path;
+  }
+
+  async get(): Promise<DocumentSnapshot> {
+    return this.firestore.snapshot(this);
+  }
+
+  async set(data: Data, options?: { merge?: boolean }) {
+    this.firestore.commit([{ type: "set", ref: this, data, merge: options?.merge === true }]);
+  }
+
+  async update(data: Data) {
+    this.firestore.commit([{ type: "update", ref: this, data }]);
+  }
+
+  async create(data: Data) {
+    this.firestore.commit([{ type: "create", ref: this, data }]);
+  }
+
+  async delete() {
+    this.firestore.commit([{ type: "delete", ref: this }]);
+  }
+}
+
+interface QueryState {
+  filters: Array<{ field: string; op: string; value: any }>;
+  orders: Array<{ field: string; direction: "asc" | "desc" }>;
+  limit: number | null;
+}
+
+export class Query {
+  constructor(
+    readonly firestore: FakeFirestore,
+    readonly collectionPath: string,
+    protected readonly state: QueryState = { filters: [], orders: [], limit: null }
+  ) {}
+
+  where(field: string, op: string, value: any): Query {
+    return new Query(this.firestore, this.collectionPath, {
+      ...this.state,
+      filters: [...this.state.filters, { field, op, value }],
+    });
+  }
+
+  orderBy(field: string, direction: "asc" | "desc" = "asc"): Query {
+    return new Query(this.firestore, this.collectionPath, {
+      ...this.state,
+      orders: [...this.state.orders, { field, direction }],
+    });
+  }
+
+  limit(limit: number): Query {
+    return new Query(this.firestore, this.collectionPath, { ...this.state, limit });
+  }
+
+  async get(): Promise<QuerySnapshot> {
+    let docs = this.firestore
+      .listDocuments(this.collectionPath)
+      .filter((snap) => this.state.filters.every(({ field, op, value }) => matches(snap.get(field), op, value)));
+    this.state.orders.forEach(({ field }) => {
+      docs = docs.filter((snap) => snap.get(field) !== undefined);
+    });
+    docs.sort((a, b) => {
+      for (const { field, direction } of this.state.orders) {
+        const order = compareValues(a.get(field), b.get(field));
+        if (order) return direction === "desc" ? -order : order;
+      }
+      return 0;
+    });
+    return new QuerySnapshot(this.state.limit === null ? docs : docs.slice(0, this.state.limit));
+  }
+
+  count() {
+    return {
+      get: async () => {
+        const snapshot = await this.get();
+        return { data: () => ({ count: snapshot.size }) };
+      },
+    };
+  }
+
+  aggregate(spec: Record<string, { aggregateType: string; field?: string }>) {
+    return {
+      get: async () => {
+        const snapshot = await this.get();
+        const result = Object.fromEntries(
+          Object.entries(spec).map(([key, aggregate]) => [
+            key,
+            aggregate.aggregateType === "count"
+              ? snapshot.size
+              : snapshot.docs.reduce((sum, doc) => sum + Number(doc.get(aggregate.field!) ?? 0), 0),
+          ])
+        );
+        return { data: () => result };
+      },
+    };
+  }
+}
+
+export class CollectionReference extends Query {
+  constructor(firestore: FakeFirestore, readonly path: string) {
+    super(firestore, path);
+  }
+
+  get id(): string {
+    return this.path.slice(this.path.lastIndexOf("/") + 1);
+  }
+
+  doc(documentId?: string): DocumentReference {
+    return new DocumentReference(this.firestore, `${this.path}/${documentId ?? this.firestore.autoId()}`);
+  }
+
+  async add(data: Data): Promise<DocumentReference> {
+    const ref = this.doc();
+    await ref.create(data);
+    return ref;
+  }
+}
+
+class WriteBatch {
+  protected readonly writes: Write[] = [];
+
+  constructor(protected readonly firestore: FakeFirestore) {}
+
+  set(ref: DocumentReference, data: Data, options?: { merge?: boolean }) {
+    this.writes.push({ type: "set", ref, data, merge: options?.merge === true });
+    return this;
+  }
+
+  update(ref: DocumentReference, data: Data) {
+    this.writes.push({ type: "update", ref, data });
+    return this;
+  }
+
+  create(ref: DocumentReference, data: Data) {
+    this.writes.push({ type: "create", ref, data });
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.writes.push({ type: "delete", ref });
+    return this;
+  }
+
+  async commit() {
+    this.firestore.commit(this.writes);
+  }
+}
+
+class Transaction extends WriteBatch {
+  private assertReadPhase() {
+    if (this.writes.length) {
+      throw new Error("Firestore transactions require all reads to be executed before all writes.");
+    }
+  }
+
+  async get(target: DocumentReference | Query): Promise<any> {
+    this.assertReadPhase();
+    return target.get();
+  }
+
+  async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+    this.assertReadPhase();
+    return refs.map((ref) => this.firestore.snapshot(ref));
+  }
+
+  flush() {
+    this.firestore.commit(this.writes);
+  }
+}
+
+export class FakeFirestore {
+  private documents = new Map<string, Data>();
+  private nextId = 0;
+
+  autoId(): string {
+    this.nextId += 1;
+    return `auto${String(this.nextId).padStart(6, "0")}`;
+  }
+
+  collection(path: string): CollectionReference {
+    return new CollectionReference(this, path);
+  }
+
+  doc(path: string): DocumentReference {
+    return new DocumentReference(this, path);
+  }
+
+  batch(): WriteBatch {
+    return new WriteBatch(this);
+  }
+
+  async getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]> {
+    return refs.map((ref) => this.snapshot(ref));
+  }
+
+  async runTransaction<T>(updateFunction: (transaction: Transaction) => Promise<T>): Promise<T> {
+    const transaction = new Transaction(this);
+    const result = await updateFunction(transaction);
+    transaction.flush();
+    return result;
+  }
+
+  snapshot(ref: DocumentReference): DocumentSnapshot {
+    return new DocumentSnapshot(ref, this.documents.get(ref.path));
+  }
+
+  /** Direct children of a collection */
+  listDocuments(collectionPath: string): DocumentSnapshot[] {
+    const depth = collectionPath.split("/").length + 1;
+    return Array.from(this.documents.keys())
+      .filter((path) => path.startsWith(`${collectionPath}/`) && path.split("/").length === depth)
+      .sort()
+      .map((path) => this.snapshot(this.doc(path)));
+  }
+
+  /** Applies writes all-or-nothing */
+  commit(writes: Write[]) {
+    const staged = new Map(this.documents);
+    for (const write of writes) {
+      const existing = staged.get(write.ref.path);
+      if (write.type === "delete") {
+        staged.delete(write.ref.path);
+        continue;
+      }
+      if (write.type === "update" && existing === undefined) {
+        throw new FirestoreError(5, `NOT_FOUND: No document to update: ${write.ref.path}`);
+      }
+      if (write.type === "create" && existing !== undefined) {
+        throw new FirestoreError(6, `ALREADY_EXISTS: Document already exists: ${write.ref.path}`);
+      }
+
+      const merge = write.type === "update" || (write.type === "set" && write.merge);
+      const next: Data = merge && existing ? clone(existing) : {};
+      Object.entries(write.data).forEach(([key, value]) => {
+        writeField(next, write.type === "update" ? key.split(".") : [key], value, merge);
+      });
+      staged.set(write.ref.path, next);
+    }
+    this.documents = staged;
+  }
+
+  /** Test helpers */
+  reset() {
+    this.documents.clear();
+    this.nextId = 0;
+  }
+
+  seed(path: string, data: Data) {
+    this.commit([{ type: "set", ref: this.doc(path), data, merge: false }]);
+  }
+
+  read(path: string): Data | undefined {
+    return this.snapshot(this.doc(path)).data();
+  }
+
+  list(collectionPath: string): Data[] {
+    return this.listDocuments(collectionPath).map((snap) => ({ id: snap.id, ...snap.data() }));
+  }
+}
+
+export const fakeDb = new FakeFirestore();
+
+export const firestore = Object.assign(() => fakeDb, { FieldValue, Timestamp, AggregateField });
+
+export const initializeApp = () => ({});
+
+export const messaging = () => ({
+  sendMulticast: async (message: { tokens: string[] }) => ({
+    successCount: message.tokens.length,
+    failureCount: 0,
+    responses: message.tokens.map(() => ({ success: true })),
+  }),
+  send: async () => "message-id",
+});
+
+/** ID tokens are the caller's uid */
+export const auth = () => ({
+  verifyIdToken: async (idToken: string) => ({ uid: idToken }),
+});
+
+/** Files saved to the default bucket, by path */
+export const fakeStorageFiles = new Map<string, Buffer>();
+
+export const storage = () => ({
+  bucket: () => ({
+    file: (path: string) => ({
+      save: async (data: Buffer) => {
+        fakeStorageFiles.set(path, Buffer.from(data));
+      },
+    }),
+  }),
+});
@@ -0,0 +1,33 @@
+import { fakeDb } from "./fakeFirebaseAdmin";
+
+/**
+ * Checks every posted journal balances and every tracked account's entries
+ * run in an unbroken sequence from 1
+ */
+export function expectConsistentLedger() {
+  const entries = fakeDb.list("ledgerEntries");
+
+  fakeDb.list("ledgerJournals").forEach((journal) => {
+    const legs = entries.filter((entry) => entry.journalId === journal.id);
+    const total = (direction: string) =>
+      legs.filter((leg) => leg.direction === direction).reduce((sum, leg) => sum + leg.minorUnits.amount, 0);
+    expect(legs.map((leg) => leg.id).sort()).toEqual([...journal.entryIds].sort());
+    expect(total("debit")).toBe(total("credit"));
+  });
+
+  const sequences = new Map<string, number[]>();
+  entries
+    .filter((entry) => entry.sequence !== null)
+    .forEach((entry) => sequences.set(entry.accountId, [...(sequences.get(entry.accountId) ?? []), entry.sequence]));
+  sequences.forEach((values) => {
+    expect(values.sort((a, b) => a - b)).toEqual(values.map((_, index) => index + 1));
+  });
+}
+
+/** Journals posted against an order, by reason */
+export const journalReasonsFor = (orderId: string) =>
+  fakeDb
+    .list("ledgerJournals")
+    .filter((journal) => journal.reference?.orderId === orderId)
+    .map((journal) => journal.reason)
+    .sort();
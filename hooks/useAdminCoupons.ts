@@ -0,0 +1,208 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  collection,
+  doc,
+  getDoc,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import type { CouponDiscountType } from "@/lib/pricing";
+
+export interface AdminCoupon {
+  id: string; // normalized code
+  code: string;
+  description?: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  maxDiscountAmount: number | null;
+  minOrderValue: number;
+  vendorIds: string[];
+  categoryIds: string[];
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  startsAt?: any;
+  endsAt?: any;
+  isActive: boolean;
+  redemptionCount: number;
+  discountTotal: number;
+  lastRedeemedAt?: any;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface CouponRedemption {
+  id: string; // orderId
+  orderId: string;
+  orderCode?: string;
+  couponCode: string;
+  discountType?: CouponDiscountType;
+  customerId?: string;
+  vendorId?: string;
+  itemDiscount: number;
+  deliveryDiscount: number;
+  totalDiscount: number;
+  status: "redeemed" | "reversed";
+  createdAt?: any;
+  reversedAt?: any;
+}
+
+export interface CouponInput {
+  code: string;
+  description: string;
+  discountType: CouponDiscountType;
+  discountValue: number;
+  maxDiscountAmount: number | null;
+  minOrderValue: number;
+  vendorIds: string[];
+  categoryIds: string[];
+  usageLimit: number | null;
+  perCustomerLimit: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  isActive: boolean;
+}
+
+export interface AdminCouponsHookResult {
+  coupons: AdminCoupon[];
+  redemptions: CouponRedemption[];
+  loading: boolean;
+  error: string | null;
+  saveCoupon: (input: CouponInput, isNew: boolean) => Promise<void>;
+}
+
+/**
+ * Normalizes a coupon code the way the pricing function looks it up
+ */
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Admin coupons hook
+ * - Listens to coupon definitions and their per-order redemptions
+ * - Provides saveCoupon; redemption counters are maintained by Cloud Functions
+ */
+export function useAdminCoupons(): AdminCouponsHookResult {
+  const [coupons, setCoupons] = useState<AdminCoupon[]>([]);
+  const [redemptions, setRedemptions] = useState<CouponRedemption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribeCoupons = onSnapshot(
+      collection(firestore, "coupons"),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map((couponDoc) => {
+          const c = couponDoc.data();
+          return {
+            id: couponDoc.id,
+            code: c.code || couponDoc.id,
+            description: c.description,
+            discountType: c.discountType || "percentage",
+            discountValue: c.discountValue ?? 0,
+            maxDiscountAmount: c.maxDiscountAmount ?? null,
+            minOrderValue: c.minOrderValue ?? 0,
+            vendorIds: c.vendorIds || [],
+            categoryIds: c.categoryIds || [],
+            usageLimit: c.usageLimit ?? null,
+            perCustomerLimit: c.perCustomerLimit ?? null,
+            startsAt: c.startsAt,
+            endsAt: c.endsAt,
+            isActive: c.isActive !== false,
+            redemptionCount: c.redemptionCount ?? 0,
+            discountTotal: c.discountTotal ?? 0,
+            lastRedeemedAt: c.lastRedeemedAt,
+            createdAt: c.createdAt,
+            updatedAt: c.updatedAt,
+          } as AdminCoupon;
+        });
+        setCoupons(data);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Coupons snapshot error:", err);
+        setError(err.message || "Failed to fetch coupons");
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeRedemptions = onSnapshot(
+      query(collection(firestore, "couponRedemptions"), orderBy("createdAt", "desc")),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map((redemptionDoc) => {
+          const r = redemptionDoc.data();
+          return {
+            id: redemptionDoc.id,
+            orderId: r.orderId || redemptionDoc.id,
+            orderCode: r.orderCode,
+            couponCode: r.couponCode,
+            discountType: r.discountType,
+            customerId: r.customerId,
+            vendorId: r.vendorId,
+            itemDiscount: r.itemDiscount ?? 0,
+            deliveryDiscount: r.deliveryDiscount ?? 0,
+            totalDiscount: r.totalDiscount ?? 0,
+            status: r.status || "redeemed",
+            createdAt: r.createdAt,
+            reversedAt: r.reversedAt,
+          } as CouponRedemption;
+        });
+        setRedemptions(data);
+      },
+      (err) => {
+        console.error("Coupon redemptions snapshot error:", err);
+      }
+    );
+
+    return () => {
+      unsubscribeCoupons();
+      unsubscribeRedemptions();
+    };
+  }, []);
+
+  const saveCoupon = async (input: CouponInput, isNew: boolean) => {
+    const code = normalizeCouponCode(input.code);
+    if (!code) {
+      throw new Error("Coupon code is required");
+    }
+
+    const couponRef = doc(firestore, "coupons", code);
+    if (isNew && (await getDoc(couponRef)).exists()) {
+      throw new Error(`Coupon ${code} already exists`);
+    }
+
+    await setDoc(
+      couponRef,
+      {
+        code,
+        description: input.description.trim() || null,
+        discountType: input.discountType,
+        discountValue: input.discountType === "free-delivery" ? 0 : input.discountValue,
+        maxDiscountAmount: input.discountType === "percentage" ? input.maxDiscountAmount : null,
+        minOrderValue: input.minOrderValue,
+        vendorIds: input.vendorIds,
+        categoryIds: input.categoryIds,
+        usageLimit: input.usageLimit,
+        perCustomerLimit: input.perCustomerLimit,
+        startsAt: input.startsAt ? Timestamp.fromDate(input.startsAt) : null,
+        endsAt: input.endsAt ? Timestamp.fromDate(input.endsAt) : null,
+        isActive: input.isActive,
+        updatedAt: serverTimestamp(),
+        ...(isNew ? { redemptionCount: 0, discountTotal: 0, createdAt: serverTimestamp() } : {}),
+      },
+      { merge: true }
+    );
+  };
+
+  return { coupons, redemptions, loading, error, saveCoupon };
+}
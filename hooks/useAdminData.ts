@@ -20,6 +20,12 @@ export interface VendorData {
   role?: string;
   // Stripe Connect
   stripeAccountId?: string;
+  /** Catalog and settlement currency; unset means the market default */
+  currency?: string | null;
+  /** Tax zone from systemConfig/tax; unset means the default zone */
+  taxZoneId?: string | null;
+  /** Delivery zones the vendor serves; empty means no zone restriction */
+  deliveryZoneIds?: string[];
 }
 
 export interface DriverData {
@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  collection,
+  doc,
+  onSnapshot,
+  query,
+  updateDoc,
+  where,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import { saveSystemConfig } from "@/lib/systemConfig";
+import type { CashLimitStatus, DriverTransaction } from "@/hooks/useDriverData";
+
+export interface CashLimitSettings {
+  /** Cash a driver may hold before remitting; 0 disables the limit */
+  defaultLimit: number;
+  /** Share of the limit at which drivers are warned */
+  warningPercent: number;
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+/** Mirror of the server-side defaults used when systemConfig/cashLimits is unset */
+export const DEFAULT_CASH_LIMIT_SETTINGS: CashLimitSettings = {
+  defaultLimit: 500,
+  warningPercent: 80,
+};
+
+export interface DriverCashPosition {
+  driverId: string;
+  driverName: string;
+  phone?: string | null;
+  cashOnHand: number;
+  /** Per-driver override, null when the global limit applies */
+  cashLimitOverride: number | null;
+  limit: number;
+  status: CashLimitStatus;
+  /** Unremitted COD transactions, oldest first */
+  unremitted: DriverTransaction[];
+}
+
+export interface AdminDriverCashHookResult {
+  settings: CashLimitSettings;
+  positions: DriverCashPosition[];
+  loading: boolean;
+  error: string | null;
+  saveSettings: (defaultLimit: number, warningPercent: number) => Promise<void>;
+  setDriverCashLimit: (driverId: string, limit: number | null) => Promise<void>;
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? 0 : date.getTime();
+}
+
+function getCashLimitStatus(cashOnHand: number, limit: number, warningPercent: number): CashLimitStatus {
+  if (!(limit > 0)) return "ok";
+  if (cashOnHand >= limit) return "over-limit";
+  if (cashOnHand >= (limit * warningPercent) / 100) return "near-limit";
+  return "ok";
+}
+
+/**
+ * Admin driver cash hook
+ * - Listens to the cash limit settings, drivers holding cash and unremitted COD transactions
+ * - Statuses are computed live from the current settings
+ */
+export function useAdminDriverCash(): AdminDriverCashHookResult {
+  const [settings, setSettings] = useState<CashLimitSettings>(DEFAULT_CASH_LIMIT_SETTINGS);
+  const [drivers, setDrivers] = useState<{ id: string; data: DocumentData }[]>([]);
+  const [pendingTransactions, setPendingTransactions] = useState<DriverTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribeSettings = onSnapshot(
+      doc(firestore, "systemConfig", "cashLimits"),
+      (snapshot) => {
+        const data = snapshot.exists() ? snapshot.data() : {};
+        setSettings({
+          defaultLimit: data.defaultLimit ?? DEFAULT_CASH_LIMIT_SETTINGS.defaultLimit,
+          warningPercent: data.warningPercent ?? DEFAULT_CASH_LIMIT_SETTINGS.warningPercent,
+          updatedAt: data.updatedAt,
+          updatedBy: data.updatedBy,
+        });
+      },
+      (err) => {
+        console.error("Cash limit settings snapshot error:", err);
+        setError(err.message || "Failed to load cash limit settings");
+      }
+    );
+
+    const unsubscribeDrivers = onSnapshot(
+      query(collection(firestore, "drivers"), where("cashOnHand", ">", 0)),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setDrivers(snapshot.docs.map((driverDoc) => ({ id: driverDoc.id, data: driverDoc.data() })));
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Drivers cash snapshot error:", err);
+        setError(err.message || "Failed to fetch drivers");
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeTransactions = onSnapshot(
+      query(collection(firestore, "driverTransactions"), where("status", "==", "pending-remittance")),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setPendingTransactions(
+          snapshot.docs
+            .map((txnDoc) => ({ id: txnDoc.id, ...txnDoc.data() }) as DriverTransaction)
+            .filter((txn) => txn.type === "cash-on-delivery")
+            .sort((a, b) => toMillis(a.createdAt) - toMillis(b.createdAt))
+        );
+      },
+      (err) => {
+        console.error("Unremitted transactions snapshot error:", err);
+        setError(err.message || "Failed to fetch unremitted transactions");
+      }
+    );
+
+    return () => {
+      unsubscribeSettings();
+      unsubscribeDrivers();
+      unsubscribeTransactions();
+    };
+  }, []);
+
+  const positions = useMemo(() => {
+    const unremittedByDriver = new Map<string, DriverTransaction[]>();
+    pendingTransactions.forEach((txn) => {
+      unremittedByDriver.set(txn.driverId, [...(unremittedByDriver.get(txn.driverId) || []), txn]);
+    });
+
+    return drivers
+      .map(({ id, data }) => {
+        const cashOnHand = Number(data.cashOnHand ?? 0);
+        const cashLimitOverride = typeof data.cashLimit === "number" ? data.cashLimit : null;
+        const limit = cashLimitOverride ?? settings.defaultLimit;
+        return {
+          driverId: id,
+          driverName: data.name || "Unknown Driver",
+          phone: data.phone ?? null,
+          cashOnHand,
+          cashLimitOverride,
+          limit,
+          status: getCashLimitStatus(cashOnHand, limit, settings.warningPercent),
+          unremitted: unremittedByDriver.get(id) || [],
+        } as DriverCashPosition;
+      })
+      .sort((a, b) => (b.limit > 0 ? b.cashOnHand / b.limit : 0) - (a.limit > 0 ? a.cashOnHand / a.limit : 0));
+  }, [drivers, pendingTransactions, settings]);
+
+  const saveSettings = async (defaultLimit: number, warningPercent: number) => {
+    if (Number.isNaN(defaultLimit) || defaultLimit < 0) throw new Error("The cash limit cannot be negative");
+    if (!(warningPercent > 0 && warningPercent <= 100)) {
+      throw new Error("The warning threshold must be between 1 and 100");
+    }
+
+    await saveSystemConfig("cashLimits", { defaultLimit, warningPercent });
+  };
+
+  const setDriverCashLimit = async (driverId: string, limit: number | null) => {
+    if (limit !== null && (Number.isNaN(limit) || limit < 0)) throw new Error("The cash limit cannot be negative");
+    await updateDoc(doc(firestore, "drivers", driverId), { cashLimit: limit, updatedAt: new Date() });
+  };
+
+  return { settings, positions, loading, error, saveSettings, setDriverCashLimit };
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  collection,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+
+export interface AdminOrder {
+  id: string;
+  code?: string;
+  orderCode?: string;
+  vendorId?: string;
+  vendorName?: string;
+  customerId?: string;
+  customerName?: string;
+  customerEmail?: string;
+  driverId?: string;
+  driverName?: string;
+  orderStatus: string;
+  paymentStatus?: string;
+  paymentMethod?: string;
+  totalAmount: number;
+  refundStatus?: string;
+  cancellationReasonCode?: string;
+  cancellationNote?: string;
+  cancelledByRole?: string;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface AdminOrdersHookResult {
+  orders: AdminOrder[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Admin orders hook
+ * - Listens to all orders, newest first
+ */
+export function useAdminOrders(): AdminOrdersHookResult {
+  const [orders, setOrders] = useState<AdminOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const ordersRef = collection(firestore, "orders");
+    const ordersQuery = query(ordersRef, orderBy("createdAt", "desc"));
+
+    const unsubscribe = onSnapshot(
+      ordersQuery,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        try {
+          const data = snapshot.docs.map((doc) => {
+            const o = doc.data();
+            return {
+              id: doc.id,
+              code: o.code,
+              orderCode: o.orderCode,
+              vendorId: o.vendorId,
+              vendorName: o.vendorName,
+              customerId: o.customerId ?? o.userId,
+              customerName: o.customerName,
+              customerEmail: o.customerEmail,
+              driverId: o.driverId,
+              driverName: o.driverName,
+              orderStatus: o.orderStatus || o.status || "available",
+              paymentStatus: o.paymentStatus,
+              paymentMethod: o.paymentMethod,
+              totalAmount: o.totalAmount ?? o.total ?? 0,
+              refundStatus: o.refundStatus,
+              cancellationReasonCode: o.cancellationReasonCode,
+              cancellationNote: o.cancellationNote,
+              cancelledByRole: o.cancelledByRole,
+              createdAt: o.createdAt,
+              updatedAt: o.updatedAt,
+            } as AdminOrder;
+          });
+          setOrders(data);
+          setLoading(false);
+          setError(null);
+        } catch (err: any) {
+          console.error("Error processing orders:", err);
+          setError(err.message || "Failed to process orders");
+          setLoading(false);
+        }
+      },
+      (err) => {
+        console.error("Orders snapshot error:", err);
+        setError(err.message || "Failed to fetch orders");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return { orders, loading, error };
+}
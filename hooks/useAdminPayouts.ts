@@ -0,0 +1,120 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  collection,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import {
+  approvePayouts as approvePayoutsCallable,
+  createPayoutRun,
+  rejectPayout as rejectPayoutCallable,
+  retryPayout as retryPayoutCallable,
+  type CreatePayoutRunResponse,
+  type Payout,
+  type PayoutRun,
+} from "@/lib/payouts";
+
+export interface AdminPayoutsHookResult {
+  runs: PayoutRun[];
+  payouts: Payout[];
+  loading: boolean;
+  error: string | null;
+  createRun: (periodStart: Date, periodEnd: Date) => Promise<CreatePayoutRunResponse>;
+  approvePayouts: (payoutIds: string[]) => Promise<Record<string, "paid" | "failed" | "skipped">>;
+  retryPayout: (payoutId: string) => Promise<"paid" | "failed">;
+  rejectPayout: (payoutId: string, reason: string) => Promise<void>;
+}
+
+/**
+ * Admin payouts hook
+ * - Listens to payout runs and the payouts they created
+ * - Runs, approvals, retries and rejections go through Cloud Functions
+ */
+export function useAdminPayouts(): AdminPayoutsHookResult {
+  const [runs, setRuns] = useState<PayoutRun[]>([]);
+  const [payouts, setPayouts] = useState<Payout[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribeRuns = onSnapshot(
+      query(collection(firestore, "payoutRuns"), orderBy("createdAt", "desc")),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map((runDoc) => {
+          const r = runDoc.data();
+          return {
+            id: runDoc.id,
+            periodStart: r.periodStart,
+            periodEnd: r.periodEnd,
+            status: r.status || "pending-approval",
+            payoutIds: r.payoutIds || [],
+            payoutCount: r.payoutCount ?? 0,
+            totalAmount: r.totalAmount ?? 0,
+            currency: r.currency || "USD",
+            totalsByCurrency: r.totalsByCurrency,
+            skipped: r.skipped || [],
+            paidCount: r.paidCount ?? 0,
+            failedCount: r.failedCount ?? 0,
+            rejectedCount: r.rejectedCount ?? 0,
+            createdBy: r.createdBy ?? null,
+            createdAt: r.createdAt,
+            updatedAt: r.updatedAt,
+          } as PayoutRun;
+        });
+        setRuns(data);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Payout runs snapshot error:", err);
+        setError(err.message || "Failed to fetch payout runs");
+        setLoading(false);
+      }
+    );
+
+    const unsubscribePayouts = onSnapshot(
+      query(collection(firestore, "payouts"), orderBy("createdAt", "desc")),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setPayouts(snapshot.docs.map((payoutDoc) => ({ id: payoutDoc.id, ...payoutDoc.data() }) as Payout));
+      },
+      (err) => {
+        console.error("Payouts snapshot error:", err);
+        setError(err.message || "Failed to fetch payouts");
+      }
+    );
+
+    return () => {
+      unsubscribeRuns();
+      unsubscribePayouts();
+    };
+  }, []);
+
+  const createRun = async (periodStart: Date, periodEnd: Date) => {
+    if (periodStart >= periodEnd) {
+      throw new Error("The period start must be before its end");
+    }
+    return createPayoutRun(periodStart, periodEnd);
+  };
+
+  const rejectPayout = async (payoutId: string, reason: string) => {
+    if (!reason.trim()) throw new Error("Reason is required");
+    await rejectPayoutCallable(payoutId, reason.trim());
+  };
+
+  return {
+    runs,
+    payouts,
+    loading,
+    error,
+    createRun,
+    approvePayouts: approvePayoutsCallable,
+    retryPayout: retryPayoutCallable,
+    rejectPayout,
+  };
+}
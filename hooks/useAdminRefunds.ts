@@ -0,0 +1,116 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  collection,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
+import { firestore, functions } from "@/firebase/init";
+
+export interface AdminRefund {
+  id: string; // orderId
+  orderId: string;
+  orderCode?: string;
+  customerId?: string;
+  vendorId?: string;
+  amount: number;
+  currency: string;
+  method: "wallet" | "stripe" | "manual";
+  status: string;
+  reasonCode?: string;
+  note?: string;
+  stripeRefundId?: string;
+  error?: string;
+  attempts: number;
+  requestedByRole?: string;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface AdminRefundsHookResult {
+  refunds: AdminRefund[];
+  loading: boolean;
+  error: string | null;
+  retryRefund: (orderId: string) => Promise<string>;
+}
+
+/**
+ * Admin refunds hook
+ * - Listens to the refunds collection (one document per cancelled order)
+ * - Provides retryRefund to re-run a failed Stripe refund
+ */
+export function useAdminRefunds(): AdminRefundsHookResult {
+  const [refunds, setRefunds] = useState<AdminRefund[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const refundsRef = collection(firestore, "refunds");
+    const refundsQuery = query(refundsRef, orderBy("createdAt", "desc"));
+
+    const unsubscribe = onSnapshot(
+      refundsQuery,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        try {
+          const data = snapshot.docs.map((doc) => {
+            const r = doc.data();
+            return {
+              id: doc.id,
+              orderId: r.orderId || doc.id,
+              orderCode: r.orderCode,
+              customerId: r.customerId,
+              vendorId: r.vendorId,
+              amount: r.amount ?? 0,
+              currency: r.currency || "USD",
+              method: r.method,
+              status: r.status || "pending",
+              reasonCode: r.reasonCode,
+              note: r.note,
+              stripeRefundId: r.stripeRefundId,
+              error: r.error,
+              attempts: r.attempts ?? 0,
+              requestedByRole: r.requestedByRole,
+              createdAt: r.createdAt,
+              updatedAt: r.updatedAt,
+            } as AdminRefund;
+          });
+          setRefunds(data);
+          setLoading(false);
+          setError(null);
+        } catch (err: any) {
+          console.error("Error processing refunds:", err);
+          setError(err.message || "Failed to process refunds");
+          setLoading(false);
+        }
+      },
+      (err) => {
+        console.error("Refunds snapshot error:", err);
+        setError(err.message || "Failed to fetch refunds");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  const retryRefund = async (orderId: string) => {
+    try {
+      const retryFunction = httpsCallable<{ orderId: string }, { success: boolean; status: string }>(
+        functions,
+        "retryOrderRefund"
+      );
+      const result = await retryFunction({ orderId });
+      return result.data.status;
+    } catch (err: any) {
+      console.error(`Error retrying refund for order ${orderId}:`, err);
+      throw new Error(err.message || "Failed to retry refund");
+    }
+  };
+
+  return { refunds, loading, error, retryRefund };
+}
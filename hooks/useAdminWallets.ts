@@ -6,41 +6,43 @@ import {
   onSnapshot,
   orderBy,
   query,
-  doc,
-  setDoc,
-  serverTimestamp,
-  increment,
+  where,
   QuerySnapshot,
   DocumentData,
 } from "firebase/firestore";
 import { firestore } from "@/firebase/init";
+import { adjustWalletBalance, type LedgerEntry, type WalletReconciliation } from "@/lib/wallets";
 
 export interface AdminWallet {
   id: string; // userId
   userId: string;
   userEmail?: string;
   balance: number;
+  /** Amount reserved for wallet-paid orders awaiting delivery */
+  heldBalance: number;
   currency: string;
   updatedAt?: any;
   updatedBy?: string;
+  reconciliation?: WalletReconciliation | null;
 }
 
 export interface WalletsHookResult {
   wallets: AdminWallet[];
   loading: boolean;
   error: string | null;
-  adjustBalance: (
-    walletId: string,
-    amount: number,
-    reason: string,
-    updatedBy?: string
-  ) => Promise<void>;
+  adjustBalance: (walletId: string, amount: number, reason: string) => Promise<void>;
+}
+
+export interface WalletStatementHookResult {
+  entries: LedgerEntry[];
+  loading: boolean;
+  error: string | null;
 }
 
 /**
  * Admin wallets hook
  * - Listens to wallets collection
- * - Provides adjustBalance to credit/debit a wallet
+ * - Provides adjustBalance to credit/debit a wallet through the ledger
  */
 export function useAdminWallets(): WalletsHookResult {
   const [wallets, setWallets] = useState<AdminWallet[]>([]);
@@ -62,9 +64,11 @@ export function useAdminWallets(): WalletsHookResult {
               userId: doc.id,
               userEmail: w.userEmail || w.email || "",
               balance: w.balance ?? 0,
+              heldBalance: w.heldBalance ?? 0,
               currency: w.currency || "USD",
               updatedAt: w.updatedAt,
               updatedBy: w.updatedBy,
+              reconciliation: w.reconciliation ?? null,
             } as AdminWallet;
           });
           setWallets(data);
@@ -86,46 +90,58 @@ export function useAdminWallets(): WalletsHookResult {
     return () => unsubscribe();
   }, []);
 
-  const adjustBalance = async (
-    walletId: string,
-    amount: number,
-    reason: string,
-    updatedBy?: string
-  ) => {
+  const adjustBalance = async (walletId: string, amount: number, reason: string) => {
     if (!walletId) throw new Error("walletId is required");
     if (!reason.trim()) throw new Error("Reason is required");
     if (!amount || Number.isNaN(amount)) throw new Error("Amount is required");
 
-    const walletRef = doc(firestore, "wallets", walletId);
-    await setDoc(
-      walletRef,
-      {
-        balance: increment(amount),
-        updatedAt: serverTimestamp(),
-        updatedBy: updatedBy || "admin",
-        lastAdjustment: {
-          amount,
-          reason,
-          updatedAt: serverTimestamp(),
-          updatedBy: updatedBy || "admin",
-        },
-      },
-      { merge: true }
-    );
-
-    // Log wallet transaction
-    const txRef = doc(collection(firestore, "walletTransactions"));
-    await setDoc(txRef, {
-      id: txRef.id,
-      walletId,
-      amount,
-      reason,
-      type: amount >= 0 ? "credit" : "debit",
-      createdAt: serverTimestamp(),
-      createdBy: updatedBy || "admin",
-    });
+    await adjustWalletBalance(walletId, amount, reason.trim());
   };
 
   return { wallets, loading, error, adjustBalance };
 }
 
+
+/**
+ * Ledger statement of one wallet, in posting order (oldest first)
+ */
+export function useWalletStatement(walletId: string | null): WalletStatementHookResult {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!walletId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const entriesQuery = query(
+      collection(firestore, "ledgerEntries"),
+      where("accountId", "==", `wallet:${walletId}`)
+    );
+
+    const unsubscribe = onSnapshot(
+      entriesQuery,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs
+          .map((entryDoc) => ({ id: entryDoc.id, ...entryDoc.data() }) as LedgerEntry)
+          .sort((a, b) => (a.sequence ?? 0) - (b.sequence ?? 0));
+        setEntries(data);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Wallet statement snapshot error:", err);
+        setError(err.message || "Failed to load wallet statement");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [walletId]);
+
+  return { entries, loading, error };
+}
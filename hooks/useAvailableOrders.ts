@@ -7,12 +7,11 @@ import {
   where,
   onSnapshot,
   doc,
-  updateDoc,
-  serverTimestamp,
   getDoc,
   type DocumentData,
 } from "firebase/firestore";
 import { firestore } from "@/firebase/init";
+import { claimOrder, type ClaimOrderResponse } from "@/lib/orderTransitions";
 
 export interface AvailableOrder {
   id: string;
@@ -24,6 +23,7 @@ export interface AvailableOrder {
   orderStatus?: string;
   totalAmount?: number;
   deliveryFee?: number;
+  currency?: string;
   deliveryAddress?: any;
   pickupLocation?: any;
   pickupOrder?: boolean;
@@ -43,7 +43,7 @@ export interface UseAvailableOrdersResult {
   orders: AvailableOrder[];
   loading: boolean;
   error: string | null;
-  acceptOrder: (orderId: string, driverId: string) => Promise<void>;
+  acceptOrder: (orderId: string, driverId: string) => Promise<ClaimOrderResponse>;
   acceptingOrderId: string | null;
 }
 
@@ -74,8 +74,11 @@ export function useAvailableOrders(): UseAvailableOrdersResult {
             try {
               console.log(`Found ${snapshot.docs.length} ready-for-pickup orders`);
 
+              // Orders currently offered to a driver by dispatch are reserved
+              const poolDocs = snapshot.docs.filter((orderDoc) => orderDoc.data().dispatchStatus !== "offering");
+
               const availableOrders = await Promise.all(
-                snapshot.docs.map(async (orderDoc) => {
+                poolDocs.map(async (orderDoc) => {
                   const orderData = orderDoc.data();
 
                   // Get vendor information
@@ -101,6 +104,7 @@ export function useAvailableOrders(): UseAvailableOrdersResult {
                     orderStatus: orderData.orderStatus ?? orderData.status ?? "pending",
                     totalAmount: orderData.totalAmount,
                     deliveryFee: orderData.deliveryFee,
+                    currency: orderData.currency,
                     deliveryAddress: orderData.deliveryAddress,
                     pickupLocation: orderData.pickupLocation,
                     pickupOrder: orderData.pickupOrder,
@@ -163,43 +167,18 @@ export function useAvailableOrders(): UseAvailableOrdersResult {
       setAcceptingOrderId(orderId);
       console.log(`Driver ${driverId} accepting order ${orderId}`);
 
-      // Update order with driver assignment
-      const orderRef = doc(firestore, "orders", orderId);
+      // Claiming runs in a server-side transaction so only one driver can win
+      const claim = await claimOrder(orderId);
 
-      // Get driver name for the order
-      let driverName = "Unknown Driver";
-      try {
-        const driverDoc = await getDoc(doc(firestore, "drivers", driverId));
-        if (driverDoc.exists()) {
-          const driverData = driverDoc.data();
-          driverName = driverData?.name || "Unknown Driver";
-        }
-
-        // Set driver status to busy immediately
-        await updateDoc(doc(firestore, "drivers", driverId), {
-          status: "busy",
-          updatedAt: new Date(),
-        });
-      } catch (err) {
-        console.error("Error fetching driver info:", err);
+      if (claim.success) {
+        console.log(`Order ${orderId} successfully assigned to driver ${driverId}`);
+      } else {
+        console.log(`Order ${orderId} could not be claimed by driver ${driverId}: ${claim.result}`);
       }
 
-      await updateDoc(orderRef, {
-        driverId,
-        driverName,
-        orderStatus: "assigned",
-        status: "assigned",
-        driverStatus: "awaiting-pickup",
-        assignedAt: serverTimestamp(),
-        driverAcceptedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
-
-      console.log(`Order ${orderId} successfully assigned to driver ${driverId}`);
-
       // The order will automatically be removed from available orders list
-      // due to the status change from "available" to "assigned"
-
+      // due to the status change from "ready" to "assigned"
+      return claim;
     } catch (err: any) {
       console.error("Error accepting order:", err);
       setError(err.message || "Failed to accept order");
@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { collection, onSnapshot, query, where, QuerySnapshot, DocumentData } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import { findActiveContract, type CommissionContract } from "@/lib/commissionContracts";
+
+export interface CommissionContractsHookResult {
+  /** Newest start first */
+  contracts: CommissionContract[];
+  activeContract: CommissionContract | null;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * A vendor's commission contracts, with the one order pricing uses right now
+ */
+export function useCommissionContracts(vendorId: string | null): CommissionContractsHookResult {
+  const [contracts, setContracts] = useState<CommissionContract[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!vendorId) {
+      setContracts([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, "commissionContracts"), where("vendorId", "==", vendorId)),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setContracts(
+          snapshot.docs
+            .map((contractDoc) => ({ id: contractDoc.id, ...contractDoc.data() }) as CommissionContract)
+            .sort((a, b) => (b.effectiveFrom?.toMillis?.() ?? 0) - (a.effectiveFrom?.toMillis?.() ?? 0))
+        );
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Commission contracts snapshot error:", err);
+        setError(err.message || "Failed to load commission contracts");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [vendorId]);
+
+  const activeContract = useMemo(() => findActiveContract(contracts), [contracts]);
+
+  return { contracts, activeContract, loading, error };
+}
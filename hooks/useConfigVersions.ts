@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where, QuerySnapshot, DocumentData } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import type { ConfigVersion, ScheduledConfigChange, VersionedConfigId } from "@/lib/systemConfig";
+
+export interface ConfigVersionsHookResult {
+  /** Newest first */
+  versions: ConfigVersion[];
+  /** Soonest activation first */
+  scheduledChanges: ScheduledConfigChange[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Admin history of one systemConfig document
+ * - Listens to systemConfig/{configId}/versions
+ * - Listens to the document's scheduled changes
+ */
+export function useConfigVersions(configId: VersionedConfigId, enabled: boolean): ConfigVersionsHookResult {
+  const [versions, setVersions] = useState<ConfigVersion[]>([]);
+  const [scheduledChanges, setScheduledChanges] = useState<ScheduledConfigChange[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    setLoading(true);
+
+    const unsubscribeVersions = onSnapshot(
+      collection(firestore, "systemConfig", configId, "versions"),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setVersions(
+          snapshot.docs
+            .map((versionDoc) => ({ id: versionDoc.id, ...versionDoc.data() }) as ConfigVersion)
+            .sort((a, b) => b.version - a.version)
+        );
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Config versions snapshot error:", err);
+        setError(err.message || "Failed to load config history");
+        setLoading(false);
+      }
+    );
+
+    const unsubscribeScheduled = onSnapshot(
+      query(collection(firestore, "scheduledConfigChanges"), where("configId", "==", configId)),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setScheduledChanges(
+          snapshot.docs
+            .map((changeDoc) => ({ id: changeDoc.id, ...changeDoc.data() }) as ScheduledConfigChange)
+            .sort((a, b) => (a.activateAt?.toMillis?.() ?? 0) - (b.activateAt?.toMillis?.() ?? 0))
+        );
+      },
+      (err) => {
+        console.error("Scheduled config changes snapshot error:", err);
+        setError(err.message || "Failed to load scheduled changes");
+      }
+    );
+
+    return () => {
+      unsubscribeVersions();
+      unsubscribeScheduled();
+    };
+  }, [configId, enabled]);
+
+  return { versions, scheduledChanges, loading, error };
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, QuerySnapshot, DocumentData } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import type { DeliveryZone } from "@/lib/deliveryZones";
+
+export interface DeliveryZonesHookResult {
+  zones: DeliveryZone[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Delivery zones from deliveryZones, sorted by name
+ */
+export function useDeliveryZones(): DeliveryZonesHookResult {
+  const [zones, setZones] = useState<DeliveryZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      collection(firestore, "deliveryZones"),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setZones(
+          snapshot.docs
+            .map((zoneDoc) => {
+              const data = zoneDoc.data();
+              return {
+                ...data,
+                id: zoneDoc.id,
+                name: data.name || zoneDoc.id,
+                isActive: data.isActive !== false,
+                polygon: Array.isArray(data.polygon) ? data.polygon : [],
+                deliveryFee: Number(data.deliveryFee) || 0,
+                minOrderValue: Number(data.minOrderValue) || 0,
+                vendorTypes: Array.isArray(data.vendorTypes) ? data.vendorTypes : [],
+              } as DeliveryZone;
+            })
+            .sort((a, b) => a.name.localeCompare(b.name))
+        );
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Delivery zones snapshot error:", err);
+        setError(err.message || "Failed to load delivery zones");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return { zones, loading, error };
+}
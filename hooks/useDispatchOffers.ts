@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  collection,
+  onSnapshot,
+  query,
+  where,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import type { DispatchOffer } from "@/lib/dispatch";
+
+export interface DispatchOffersHookResult {
+  offers: DispatchOffer[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Listens to pending dispatch offers for a driver, oldest first
+ */
+export function useDispatchOffers(driverId: string | null): DispatchOffersHookResult {
+  const [offers, setOffers] = useState<DispatchOffer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!driverId) {
+      setOffers([]);
+      setLoading(false);
+      return;
+    }
+
+    const offersQuery = query(
+      collection(firestore, "dispatchOffers"),
+      where("driverId", "==", driverId),
+      where("status", "==", "pending")
+    );
+
+    const unsubscribe = onSnapshot(
+      offersQuery,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs
+          .map((doc) => ({ ...(doc.data() as Omit<DispatchOffer, "id">), id: doc.id }) as DispatchOffer)
+          .sort((a, b) => (a.createdAt?.toMillis?.() ?? 0) - (b.createdAt?.toMillis?.() ?? 0));
+        setOffers(data);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Dispatch offers snapshot error:", err);
+        setError(err.message || "Failed to fetch dispatch offers");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [driverId]);
+
+  return { offers, loading, error };
+}
@@ -10,17 +10,23 @@ import {
   DocumentData,
   doc,
   updateDoc,
-  serverTimestamp,
-  addDoc,
-  increment,
-  getDoc,
   orderBy,
 } from "firebase/firestore";
 import { firestore, storage } from "@/firebase/init";
-import { remitCodPayment } from "@/lib/remittance";
+import { remitCodBatch, type RemitCodBatchResponse } from "@/lib/remittance";
+import { fromMinorUnits, recordCurrency, toMinorUnits } from "@/lib/money";
+import type { Payout } from "@/lib/payouts";
+import { completeOrderDelivery, transitionOrder } from "@/lib/orderTransitions";
+import {
+  completeBatchStop as completeBatchStopCall,
+  createDeliveryBatch,
+  type BatchStop,
+  type DeliveryBatch,
+} from "@/lib/deliveryBatches";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 
 export type DriverStatus = "available" | "busy" | "inactive";
+export type CashLimitStatus = "ok" | "near-limit" | "over-limit";
 
 export interface DriverOrder {
   id: string;
@@ -42,19 +48,46 @@ export interface DriverOrder {
   dropoffLocation?: any;
   deliveryFee?: number | null;
   commissionFee?: number | null;
+  currency?: string;
+  /** Integer minor-unit mirrors of the amounts, keyed by field name */
+  minorUnits?: Record<string, number>;
+  batchId?: string | null;
   createdAt?: any;
   updatedAt?: any;
   proofOfDeliverySignatureUrl?: string | null;
   proofOfDeliverySignaturePath?: string | null;
 }
 
-export interface DriverPayout {
-  id: string; // Document ID
+export interface DriverPayout extends Payout {
   driverId: string;
-  amount: number;
-  status?: string;
-  paymentMethod?: string;
-  transactionId?: string;
+}
+
+/** Earnings recorded for one delivered order under the driver compensation model */
+export interface DriverEarning {
+  id: string; // orderId
+  driverId: string;
+  orderId: string;
+  orderCode?: string | null;
+  vendorId?: string | null;
+  vendorName?: string | null;
+  batchId?: string | null;
+  paymentMethod?: string | null;
+  currency?: string;
+  deliveryFee: number;
+  deliveryFeeSharePercent: number;
+  deliveryFeeEarning: number;
+  tipEarning: number;
+  distanceKm?: number | null;
+  perKmRate?: number;
+  distanceEarning: number;
+  durationMinutes?: number | null;
+  perMinuteRate?: number;
+  timeEarning: number;
+  totalAmount: number;
+  minorUnits?: Record<string, number>;
+  /** Payout that paid this entry, null until then */
+  payoutId?: string | null;
+  deliveredAt?: any;
   createdAt?: any;
 }
 
@@ -70,6 +103,8 @@ export interface DriverTransaction {
   grossAmount?: number | null;
   commissionAmount?: number | null;
   netAmount?: number | null;
+  currency?: string;
+  minorUnits?: Record<string, number>;
   status?: string | null;
   notes?: string | null;
   vendorTransactionId?: string | null;
@@ -77,29 +112,48 @@ export interface DriverTransaction {
   remittanceSignaturePath?: string | null;
   remittedAt?: any;
   remittedBy?: string | null;
+  /** Cash already handed over by partial remittances */
+  remittedAmount?: number | null;
+  remittanceIds?: string[];
   createdAt?: any;
   updatedAt?: any;
 }
 
 export interface DriverDataHookResult {
   activeDeliveries: DriverOrder[];
+  activeBatches: DeliveryBatch[];
   deliveryHistory: DriverOrder[];
   payouts: DriverPayout[];
+  earnings: DriverEarning[];
   transactions: DriverTransaction[];
   totalActiveDeliveries: number;
   totalEarnings: number;
   totalDeliveryHistory: number;
   cashOnHand: number;
+  /** Cash the driver may hold before remitting; 0 when there is no limit */
+  cashLimit: number;
+  /** At "over-limit" the driver cannot take cash-on-delivery orders */
+  cashLimitStatus: CashLimitStatus;
   totalCodCollected: number;
   pendingCodRemittance: number;
+  /** Currency of the totals above; records in other currencies are left out of them */
+  currency: string;
   loading: boolean;
   error: string | null;
   driverStatus: DriverStatus;
   setDriverStatus: (status: DriverStatus) => Promise<void>;
   updatingStatus: boolean;
   markDeliveryPickedUp: (orderId: string) => Promise<void>;
-  remitCash: (transaction: DriverTransaction, signature: Blob) => Promise<void>;
+  remitCash: (
+    remittanceId: string,
+    transactions: DriverTransaction[],
+    signature: Blob,
+    amountReceived: number,
+    note?: string
+  ) => Promise<RemitCodBatchResponse>;
   completeDelivery: (orderId: string, signature: Blob) => Promise<void>;
+  createBatch: (orderIds: string[]) => Promise<void>;
+  completeBatchStop: (batchId: string, stop: BatchStop, signature?: Blob) => Promise<void>;
 }
 
 /**
@@ -109,14 +163,18 @@ export interface DriverDataHookResult {
  */
 export function useDriverData(driverId: string | null): DriverDataHookResult {
   const [activeDeliveries, setActiveDeliveries] = useState<DriverOrder[]>([]);
+  const [activeBatches, setActiveBatches] = useState<DeliveryBatch[]>([]);
   const [deliveryHistory, setDeliveryHistory] = useState<DriverOrder[]>([]);
   const [payouts, setPayouts] = useState<DriverPayout[]>([]);
+  const [earnings, setEarnings] = useState<DriverEarning[]>([]);
   const [transactions, setTransactions] = useState<DriverTransaction[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [driverStatus, setDriverStatusState] = useState<DriverStatus>("available");
   const [updatingStatus, setUpdatingStatus] = useState(false);
   const [cashOnHand, setCashOnHand] = useState<number>(0);
+  const [cashLimit, setCashLimit] = useState<number>(0);
+  const [cashLimitStatus, setCashLimitStatus] = useState<CashLimitStatus>("ok");
 
   useEffect(() => {
     if (!driverId) {
@@ -125,8 +183,10 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
     }
 
     let activeDeliveriesUnsubscribe: (() => void) | null = null;
+    let activeBatchesUnsubscribe: (() => void) | null = null;
     let deliveryHistoryUnsubscribe: (() => void) | null = null;
     let payoutsUnsubscribe: (() => void) | null = null;
+    let earningsUnsubscribe: (() => void) | null = null;
     let transactionsUnsubscribe: (() => void) | null = null;
     let driverDocUnsubscribe: (() => void) | null = null;
 
@@ -177,6 +237,8 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
               setDriverStatusState(driverData.status as DriverStatus);
             }
             setCashOnHand(Number(driverData.cashOnHand ?? 0));
+            setCashLimit(Number(driverData.effectiveCashLimit ?? driverData.cashLimit ?? 0));
+            setCashLimitStatus((driverData.cashLimitStatus ?? "ok") as CashLimitStatus);
           },
           (err) => {
             console.error("Driver document snapshot error:", err);
@@ -232,6 +294,9 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
                       : data.platformFee !== undefined && data.platformFee !== null
                         ? Number(data.platformFee)
                         : null,
+                  currency: (data.currency ?? undefined) as string | undefined,
+                  minorUnits: data.minorUnits ?? undefined,
+                  batchId: (data.batchId ?? null) as string | null,
                   createdAt: data.createdAt ?? null,
                   updatedAt: data.updatedAt ?? null,
                   proofOfDeliverySignatureUrl: (data.proofOfDeliverySignatureUrl ?? null) as string | null,
@@ -250,6 +315,34 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
           }
         );
 
+        // Set up real-time listener for the driver's active delivery batches
+        const activeBatchesQuery = query(
+          collection(firestore, "deliveryBatches"),
+          where("driverId", "==", driverId),
+          where("status", "==", "active")
+        );
+
+        activeBatchesUnsubscribe = onSnapshot(
+          activeBatchesQuery,
+          (snapshot: QuerySnapshot<DocumentData>) => {
+            const batchesData = snapshot.docs.map((doc) => {
+              const data = doc.data();
+              return {
+                ...(data as Omit<DeliveryBatch, "id">),
+                id: doc.id,
+                stops: [...(data.stops || [])].sort((a, b) => a.sequence - b.sequence),
+                orders: data.orders || [],
+                totalEarnings: Number(data.totalEarnings ?? 0),
+              } as DeliveryBatch;
+            });
+            setActiveBatches(batchesData);
+          },
+          (err) => {
+            console.error("Active batches snapshot error:", err);
+            setError(err.message || "Failed to fetch delivery batches");
+          }
+        );
+
         // Set up real-time listener for delivery history (delivered)
         const deliveryHistoryQuery = query(
           collection(firestore, "orders"),
@@ -306,6 +399,8 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
                       : data.platformFee !== undefined && data.platformFee !== null
                         ? Number(data.platformFee)
                         : null,
+                  currency: (data.currency ?? undefined) as string | undefined,
+                  minorUnits: data.minorUnits ?? undefined,
                   createdAt: data.createdAt ?? null,
                   updatedAt: data.updatedAt ?? null,
                   proofOfDeliverySignatureUrl: (data.proofOfDeliverySignatureUrl ?? null) as
@@ -354,6 +449,30 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
           }
         );
 
+        // Set up real-time listener for per-delivery earnings (newest first)
+        const earningsQuery = query(
+          collection(firestore, "driverEarnings"),
+          where("driverId", "==", driverId)
+        );
+
+        earningsUnsubscribe = onSnapshot(
+          earningsQuery,
+          (snapshot: QuerySnapshot<DocumentData>) => {
+            const earningsData = snapshot.docs
+              .map((doc) => ({ id: doc.id, ...doc.data() }) as DriverEarning)
+              .sort(
+                (a, b) =>
+                  (b.deliveredAt?.toMillis?.() ?? b.createdAt?.toMillis?.() ?? 0) -
+                  (a.deliveredAt?.toMillis?.() ?? a.createdAt?.toMillis?.() ?? 0)
+              );
+            setEarnings(earningsData);
+          },
+          (err) => {
+            console.error("Driver earnings snapshot error:", err);
+            setError(err.message || "Failed to fetch driver earnings");
+          }
+        );
+
         // Listen for order status changes to auto-update driver status
         const ordersRef = collection(firestore, "orders");
         const driverOrdersQuery = query(
@@ -408,8 +527,10 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
         // Return cleanup function including all listeners
         return () => {
           if (activeDeliveriesUnsubscribe) activeDeliveriesUnsubscribe();
+          if (activeBatchesUnsubscribe) activeBatchesUnsubscribe();
           if (deliveryHistoryUnsubscribe) deliveryHistoryUnsubscribe();
           if (payoutsUnsubscribe) payoutsUnsubscribe();
+          if (earningsUnsubscribe) earningsUnsubscribe();
           if (transactionsUnsubscribe) transactionsUnsubscribe();
           if (driverDocUnsubscribe) driverDocUnsubscribe();
           if (ordersUnsubscribe) ordersUnsubscribe();
@@ -452,16 +573,7 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
     try {
       setError(null);
 
-      const orderRef = doc(firestore, "orders", orderId);
-
-      await updateDoc(orderRef, {
-        orderStatus: "enroute",
-        status: "enroute",
-        driverStatus: "enroute",
-        pickedUpAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-        driverId,
-      });
+      await transitionOrder({ orderId, toStatus: "enroute" });
     } catch (err: any) {
       console.error("Error marking order as picked up:", err);
       setError(err.message || "Failed to update pickup status");
@@ -469,29 +581,35 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
     }
   };
 
-  const remitCash = async (transaction: DriverTransaction, signature: Blob) => {
+  const remitCash = async (
+    remittanceId: string,
+    transactions: DriverTransaction[],
+    signature: Blob,
+    amountReceived: number,
+    note?: string
+  ) => {
     if (!driverId) {
       throw new Error("Driver ID is required to remit cash.");
     }
 
-    if (transaction.type !== "cash-on-delivery") {
+    if (transactions.some((transaction) => transaction.type !== "cash-on-delivery")) {
       throw new Error("Only cash-on-delivery transactions can be remitted.");
     }
 
-    if (!transaction.id) {
-      throw new Error("Transaction ID is required to remit cash.");
+    if (new Set(transactions.map((transaction) => transaction.vendorId)).size > 1) {
+      throw new Error("Cash can only be remitted to one vendor at a time.");
     }
 
     try {
       setError(null);
 
-      await remitCodPayment({
+      return await remitCodBatch({
+        remittanceId,
         driverId,
-        driverTransactionId: transaction.id,
-        vendorTransactionId: transaction.vendorTransactionId ?? null,
-        netAmount: Number(transaction.netAmount ?? 0),
+        driverTransactionIds: transactions.map((transaction) => transaction.id),
+        amountReceived,
         signature,
-        orderId: transaction.orderId,
+        note: note || null,
       });
     } catch (err: any) {
       console.error("Error remitting cash:", err);
@@ -516,180 +634,107 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
 
       const signatureUrl = await getDownloadURL(signatureRef);
 
-      const orderRef = doc(firestore, "orders", orderId);
-      const orderSnapshot = await getDoc(orderRef);
-
-      if (!orderSnapshot.exists()) {
-        throw new Error("Order not found.");
-      }
-
-      const orderData = orderSnapshot.data();
-      const paymentMethodRaw =
-        (orderData.paymentMethod ?? orderData.payment?.method ?? orderData.paymentStatus ?? "") as string;
-      const paymentMethod = paymentMethodRaw.toString().toLowerCase();
-      const vendorId = (orderData.vendorId ?? null) as string | null;
-      const vendorName = (orderData.vendorName ?? null) as string | null;
-      const driverName = (orderData.driverName ?? orderData.driver?.name ?? null) as string | null;
-      const orderCode =
-        (orderData.code ?? orderData.orderCode ?? orderData.reference ?? orderData.legacyCode ?? null) ?? null;
-      const totalAmount = Number(orderData.totalAmount ?? orderData.total ?? 0);
-      const commissionAmount = Number(orderData.commissionFee ?? orderData.platformFee ?? 0);
-      const netAmount = Math.max(totalAmount - commissionAmount, 0);
-
-      const updatePayload: Record<string, unknown> = {
-        orderStatus: "delivered",
-        driverStatus: "delivered",
-        status: "delivered",
-        deliveredAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
+      // Order status, COD ledger entries and driver cash on hand are written
+      // atomically server-side; retries never duplicate transactions.
+      await completeOrderDelivery({
+        orderId,
         proofOfDeliverySignatureUrl: signatureUrl,
         proofOfDeliverySignaturePath: signaturePath,
-        driverId,
-        vendorId,
-      };
-
-      if (paymentMethod === "cash-on-delivery") {
-        updatePayload.paymentStatus = "paid";
-        updatePayload.codCollectedAmount = netAmount;
-        updatePayload.codCommissionAmount = commissionAmount;
-        updatePayload.codCollectedAt = serverTimestamp();
-      }
+      });
+    } catch (err: any) {
+      console.error("Error completing delivery:", err);
+      setError(err.message || "Failed to complete delivery");
+      throw err;
+    }
+  };
 
-      try {
-        await updateDoc(orderRef, updatePayload);
-      } catch (orderUpdateError) {
-        console.error("Failed to update order document while completing delivery", orderUpdateError);
-        throw orderUpdateError;
-      }
+  const createBatch = async (orderIds: string[]) => {
+    if (!driverId) {
+      throw new Error("Driver ID is required to create a batch.");
+    }
 
-      const driverDocRef = doc(firestore, "drivers", driverId);
+    try {
+      setError(null);
 
-      if (paymentMethod === "cash-on-delivery" && vendorId) {
-        const timestamp = serverTimestamp();
-
-        const driverTransaction = {
-          driverId,
-          vendorId,
-          vendorName,
-          orderId,
-          orderCode,
-          type: "cash-on-delivery",
-          paymentMethod: paymentMethod,
-          grossAmount: totalAmount,
-          commissionAmount,
-          netAmount,
-          status: "pending-remittance",
-          createdAt: timestamp,
-          updatedAt: timestamp,
-        };
+      await createDeliveryBatch({ orderIds });
+    } catch (err: any) {
+      console.error("Error creating delivery batch:", err);
+      setError(err.message || "Failed to create delivery batch");
+      throw err;
+    }
+  };
 
-        const vendorTransaction = {
-          vendorId,
-          driverId,
-          driverName,
-          orderId,
-          orderCode,
-          type: "cash-on-delivery",
-          paymentMethod: paymentMethod,
-          grossAmount: totalAmount,
-          commissionAmount,
-          netAmount,
-          status: "awaiting-remittance",
-          createdAt: timestamp,
-          updatedAt: timestamp,
-        };
+  const completeBatchStop = async (batchId: string, stop: BatchStop, signature?: Blob) => {
+    if (!driverId) {
+      throw new Error("Driver ID is required to complete a stop.");
+    }
 
-        let driverTransactionRef;
-        try {
-          driverTransactionRef = await addDoc(collection(firestore, "driverTransactions"), driverTransaction);
-        } catch (driverTxnError) {
-          console.error("Failed to create driver COD transaction document", driverTxnError);
-          throw driverTxnError;
-        }
-
-        let vendorTransactionRef;
-        try {
-          vendorTransactionRef = await addDoc(collection(firestore, "vendorTransactions"), vendorTransaction);
-        } catch (vendorTxnError) {
-          console.error("Failed to create vendor COD transaction document", vendorTxnError);
-          throw vendorTxnError;
-        }
-
-        if (driverTransactionRef && vendorTransactionRef) {
-          try {
-            const crossLinkPayload = {
-              vendorTransactionId: vendorTransactionRef.id,
-              updatedAt: timestamp,
-            } as Record<string, unknown>;
-            await updateDoc(driverTransactionRef, crossLinkPayload);
-          } catch (crossLinkError) {
-            console.error("Failed to link driver transaction with vendor transaction", crossLinkError);
-          }
+    try {
+      setError(null);
 
-          try {
-            const vendorLinkPayload = {
-              driverTransactionId: driverTransactionRef.id,
-              updatedAt: timestamp,
-            } as Record<string, unknown>;
-            await updateDoc(vendorTransactionRef, vendorLinkPayload);
-          } catch (vendorLinkError) {
-            console.error("Failed to link vendor transaction with driver transaction", vendorLinkError);
-          }
-        }
-
-        try {
-          await updateDoc(driverDocRef, {
-            status: "available",
-            updatedAt: new Date(),
-            cashOnHand: increment(netAmount),
-          });
-        } catch (driverUpdateError) {
-          console.error("Failed to update driver document after COD delivery", driverUpdateError);
-          throw driverUpdateError;
-        }
-      } else {
-        try {
-          await updateDoc(driverDocRef, {
-            status: "available",
-            updatedAt: new Date(),
-          });
-        } catch (driverUpdateError) {
-          console.error("Failed to update driver document after delivery", driverUpdateError);
-          throw driverUpdateError;
-        }
+      let signatureFields = {};
+      if (signature) {
+        const signaturePath = `drivers/${driverId}/orders/${stop.orderIds[0]}/signature-${Date.now()}.png`;
+        const signatureRef = ref(storage, signaturePath);
+        await uploadBytes(signatureRef, signature, {
+          contentType: "image/png",
+        });
+        signatureFields = {
+          proofOfDeliverySignatureUrl: await getDownloadURL(signatureRef),
+          proofOfDeliverySignaturePath: signaturePath,
+        };
       }
+
+      await completeBatchStopCall({ batchId, stopId: stop.id, ...signatureFields });
     } catch (err: any) {
-      console.error("Error completing delivery:", err);
-      setError(err.message || "Failed to complete delivery");
+      console.error("Error completing batch stop:", err);
+      setError(err.message || "Failed to complete batch stop");
       throw err;
     }
   };
 
-  // Calculate derived values
+  // Calculate derived values. A driver works in one market, so totals are
+  // summed in minor units of the currency their records are in.
+  const currency = recordCurrency(earnings[0] ?? transactions[0] ?? activeDeliveries[0]);
+  const minor = (amount?: number | null) => toMinorUnits(Number(amount ?? 0) || 0, currency);
+  const codTransactions = transactions.filter(
+    (transaction) => transaction.type === "cash-on-delivery" && recordCurrency(transaction) === currency
+  );
   const totalActiveDeliveries = activeDeliveries.length;
-  const totalEarnings = payouts.reduce((sum, payout) => sum + (payout.amount || 0), 0);
+  const totalEarnings = fromMinorUnits(
+    earnings
+      .filter((earning) => recordCurrency(earning) === currency)
+      .reduce((sum, earning) => sum + minor(earning.totalAmount), 0),
+    currency
+  );
   const totalDeliveryHistory = deliveryHistory.length;
-  const totalCodCollected = transactions.reduce((sum, transaction) => {
-    if (transaction.type !== "cash-on-delivery") return sum;
-    return transaction.netAmount ? sum + Number(transaction.netAmount) : sum;
-  }, 0);
-  const pendingCodRemittance = transactions.reduce((sum, transaction) => {
-    if (transaction.type !== "cash-on-delivery") return sum;
-    if (transaction.status === "remitted" || transaction.status === "reconciled") return sum;
-    return transaction.netAmount ? sum + Number(transaction.netAmount) : sum;
-  }, 0);
+  const totalCodCollected = fromMinorUnits(
+    codTransactions.reduce((sum, transaction) => sum + minor(transaction.netAmount), 0),
+    currency
+  );
+  const pendingCodRemittance = fromMinorUnits(
+    codTransactions
+      .filter((transaction) => transaction.status !== "remitted" && transaction.status !== "reconciled")
+      .reduce((sum, transaction) => sum + minor(transaction.netAmount) - minor(transaction.remittedAmount), 0),
+    currency
+  );
 
   return {
     activeDeliveries,
+    activeBatches,
     deliveryHistory,
     payouts,
+    earnings,
     transactions,
     totalActiveDeliveries,
     totalEarnings,
     totalDeliveryHistory,
     cashOnHand,
+    cashLimit,
+    cashLimitStatus,
     totalCodCollected,
     pendingCodRemittance,
+    currency,
     loading,
     error,
     driverStatus,
@@ -698,5 +743,7 @@ export function useDriverData(driverId: string | null): DriverDataHookResult {
     markDeliveryPickedUp,
     remitCash,
     completeDelivery,
+    createBatch,
+    completeBatchStop,
   };
 }
@@ -0,0 +1,94 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  collection,
+  onSnapshot,
+  orderBy,
+  query,
+  QuerySnapshot,
+  DocumentData,
+} from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+
+export type OrderEventType =
+  | "created"
+  | "status-changed"
+  | "driver-assigned"
+  | "payment-changed"
+  | "dispatch"
+  | "batched"
+  | "edited";
+
+export interface OrderEvent {
+  id: string;
+  orderId: string;
+  type: OrderEventType;
+  actorId: string | null;
+  actorRole: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+  message: string | null;
+  metadata: Record<string, unknown>;
+  createdAt?: any;
+}
+
+export interface OrderEventsHookResult {
+  events: OrderEvent[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Listens to the append-only event timeline of an order, oldest first
+ */
+export function useOrderEvents(orderId: string | null): OrderEventsHookResult {
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!orderId) {
+      setEvents([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const eventsRef = collection(firestore, "orders", orderId, "events");
+    const eventsQuery = query(eventsRef, orderBy("createdAt", "asc"));
+
+    const unsubscribe = onSnapshot(
+      eventsQuery,
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        const data = snapshot.docs.map((doc) => {
+          const e = doc.data();
+          return {
+            id: doc.id,
+            orderId: e.orderId || orderId,
+            type: e.type,
+            actorId: e.actorId ?? null,
+            actorRole: e.actorRole || "system",
+            before: e.before || {},
+            after: e.after || {},
+            message: e.message ?? null,
+            metadata: e.metadata || {},
+            createdAt: e.createdAt,
+          } as OrderEvent;
+        });
+        setEvents(data);
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Order events snapshot error:", err);
+        setError(err.message || "Failed to fetch order history");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [orderId]);
+
+  return { events, loading, error };
+}
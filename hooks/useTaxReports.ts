@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, QuerySnapshot, DocumentData } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import { generateTaxReport, type GenerateTaxReportResponse, type TaxReport } from "@/lib/tax";
+
+export interface TaxReportsHookResult {
+  reports: TaxReport[];
+  loading: boolean;
+  error: string | null;
+  generating: boolean;
+  generate: (periodStart: Date, periodEnd: Date) => Promise<GenerateTaxReportResponse>;
+}
+
+/**
+ * Admin tax reports hook
+ * - Listens to taxReports, newest period first
+ * - Generation runs server-side; the listener picks up the new document
+ */
+export function useTaxReports(enabled: boolean): TaxReportsHookResult {
+  const [reports, setReports] = useState<TaxReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const unsubscribe = onSnapshot(
+      collection(firestore, "taxReports"),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setReports(
+          snapshot.docs
+            .map((reportDoc) => ({ id: reportDoc.id, ...reportDoc.data() }) as TaxReport)
+            .sort((a, b) => (b.periodStart?.toMillis?.() ?? 0) - (a.periodStart?.toMillis?.() ?? 0))
+        );
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Tax reports snapshot error:", err);
+        setError(err.message || "Failed to fetch tax reports");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [enabled]);
+
+  const generate = async (periodStart: Date, periodEnd: Date) => {
+    if (periodStart >= periodEnd) {
+      throw new Error("The period start must be before its end");
+    }
+
+    try {
+      setGenerating(true);
+      return await generateTaxReport(periodStart, periodEnd);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return { reports, loading, error, generating, generate };
+}
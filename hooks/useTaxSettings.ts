@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import type { TaxSettings } from "@/lib/tax";
+
+export const EMPTY_TAX_SETTINGS: TaxSettings = { categories: [], zones: [], defaultZoneId: null };
+
+export interface TaxSettingsHookResult {
+  settings: TaxSettings;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Tax categories and zones from systemConfig/tax
+ */
+export function useTaxSettings(): TaxSettingsHookResult {
+  const [settings, setSettings] = useState<TaxSettings>(EMPTY_TAX_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onSnapshot(
+      doc(firestore, "systemConfig", "tax"),
+      (snapshot) => {
+        const data = snapshot.data() || {};
+        setSettings({
+          categories: Array.isArray(data.categories) ? data.categories : [],
+          zones: Array.isArray(data.zones) ? data.zones : [],
+          defaultZoneId: data.defaultZoneId ?? null,
+          updatedAt: data.updatedAt,
+          updatedBy: data.updatedBy,
+        });
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Tax settings snapshot error:", err);
+        setError(err.message || "Failed to load tax settings");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return { settings, loading, error };
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import { DEFAULT_CURRENCY, normalizeCurrency } from "@/lib/money";
+
+/**
+ * The currency a vendor prices its catalog in (vendors/{vendorId}.currency).
+ * Falls back to DEFAULT_CURRENCY until an admin sets one.
+ */
+export function useVendorCurrency(vendorId: string | null): string {
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+
+  useEffect(() => {
+    if (!vendorId) {
+      setCurrency(DEFAULT_CURRENCY);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, "vendors", vendorId),
+      (snapshot) => {
+        setCurrency(normalizeCurrency(snapshot.data()?.currency) ?? DEFAULT_CURRENCY);
+      },
+      (err) => {
+        console.error("Vendor currency snapshot error:", err);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [vendorId]);
+
+  return currency;
+}
@@ -13,7 +13,9 @@ import {
   orderBy,
 } from "firebase/firestore";
 import { firestore } from "@/firebase/init";
-import { remitCodPayment } from "@/lib/remittance";
+import { remitCodBatch, type RemitCodBatchResponse } from "@/lib/remittance";
+import type { Payout } from "@/lib/payouts";
+import { fromMinorUnits, normalizeCurrency, recordCurrency, toMinorUnits } from "@/lib/money";
 
 export interface VendorOrder {
   id: string;
@@ -35,6 +37,10 @@ export interface VendorOrder {
   dropoffLocation?: any;
   deliveryFee?: number | null;
   commissionFee?: number | null;
+  currency?: string;
+  /** Integer minor-unit mirrors of the amounts, keyed by field name */
+  minorUnits?: Record<string, number>;
+  scheduledFor?: any;
   createdAt?: any;
   updatedAt?: any;
   proofOfDeliverySignatureUrl?: string | null;
@@ -61,14 +67,8 @@ export interface VendorProduct {
   updatedAt?: any;
 }
 
-export interface VendorPayout {
-  id: string; // Document ID
+export interface VendorPayout extends Payout {
   vendorId: string;
-  amount: number;
-  status?: string;
-  paymentMethod?: string;
-  transactionId?: string;
-  createdAt?: any;
 }
 
 export interface VendorTransaction {
@@ -83,6 +83,8 @@ export interface VendorTransaction {
   grossAmount?: number | null;
   commissionAmount?: number | null;
   netAmount?: number | null;
+  currency?: string;
+  minorUnits?: Record<string, number>;
   status?: string | null;
   notes?: string | null;
   vendorTransactionId?: string | null;
@@ -93,6 +95,9 @@ export interface VendorTransaction {
   createdAt?: any;
   updatedAt?: any;
   driverTransactionId?: string | null;
+  /** Cash already handed over by partial remittances */
+  remittedAmount?: number | null;
+  remittanceIds?: string[];
 }
 
 export interface VendorDataHookResult {
@@ -102,14 +107,22 @@ export interface VendorDataHookResult {
   transactions: VendorTransaction[];
   totalOrders: number;
   totalEarnings: number;
+  /** The vendor's pricing currency; totals only include records in it */
+  currency: string;
   activeProducts: number;
   loading: boolean;
   error: string | null;
   isOpen: boolean;
   setIsOpen: (isOpen: boolean) => Promise<void>;
   updatingStatus: boolean;
-  remitDriverCash: (transaction: VendorTransaction, signature: Blob) => Promise<void>;
-  remittingTransactionId: string | null;
+  remitDriverCash: (
+    remittanceId: string,
+    transactions: VendorTransaction[],
+    signature: Blob,
+    amountReceived: number,
+    note?: string
+  ) => Promise<RemitCodBatchResponse>;
+  remitting: boolean;
 }
 
 /**
@@ -125,8 +138,9 @@ export function useVendorData(vendorId: string | null): VendorDataHookResult {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isOpen, setIsOpenState] = useState(true);
+  const [vendorCurrency, setVendorCurrency] = useState<string | null>(null);
   const [updatingStatus, setUpdatingStatus] = useState(false);
-  const [remittingTransactionId, setRemittingTransactionId] = useState<string | null>(null);
+  const [remitting, setRemitting] = useState(false);
 
   useEffect(() => {
     if (!vendorId) {
@@ -196,6 +210,9 @@ export function useVendorData(vendorId: string | null): VendorDataHookResult {
                       : data.platformFee !== undefined && data.platformFee !== null
                         ? Number(data.platformFee)
                         : null,
+                  currency: (data.currency ?? undefined) as string | undefined,
+                  minorUnits: data.minorUnits ?? undefined,
+                  scheduledFor: data.scheduledFor ?? null,
                   createdAt: data.createdAt ?? null,
                   updatedAt: data.updatedAt ?? null,
                   proofOfDeliverySignatureUrl: (data.proofOfDeliverySignatureUrl ?? null) as string | null,
@@ -306,6 +323,7 @@ export function useVendorData(vendorId: string | null): VendorDataHookResult {
               if (snapshot.exists()) {
                 const vendorData = snapshot.data();
                 setIsOpenState(vendorData.isOpen ?? true);
+                setVendorCurrency(normalizeCurrency(vendorData.currency));
               }
             } catch (err: any) {
               console.error("Error processing vendor status:", err);
@@ -357,49 +375,67 @@ export function useVendorData(vendorId: string | null): VendorDataHookResult {
     }
   };
 
-  const remitDriverCash = async (transaction: VendorTransaction, signature: Blob) => {
+  const remitDriverCash = async (
+    remittanceId: string,
+    transactions: VendorTransaction[],
+    signature: Blob,
+    amountReceived: number,
+    note?: string
+  ) => {
     if (!vendorId) {
       throw new Error("Vendor ID is required to submit remittance.");
     }
 
-    if (!transaction.driverId) {
-      throw new Error("Driver ID is required to submit remittance.");
+    const driverIds = new Set(transactions.map((transaction) => transaction.driverId));
+    const [driverId] = Array.from(driverIds);
+    if (!driverId || driverIds.size > 1) {
+      throw new Error("Remittances can only be confirmed for one driver at a time.");
     }
 
-    if (!transaction.driverTransactionId) {
+    if (transactions.some((transaction) => !transaction.driverTransactionId)) {
       throw new Error("Linked driver transaction is missing.");
     }
 
     try {
       setError(null);
-      setRemittingTransactionId(transaction.id);
+      setRemitting(true);
 
-      await remitCodPayment({
-        driverId: transaction.driverId,
-        driverTransactionId: transaction.driverTransactionId,
-        vendorTransactionId: transaction.id,
-        netAmount: Number(transaction.netAmount ?? 0),
+      return await remitCodBatch({
+        remittanceId,
+        driverId,
+        driverTransactionIds: transactions.map((transaction) => transaction.driverTransactionId as string),
+        amountReceived,
         signature,
         actor: "vendor",
-        vendorId,
+        note: note || null,
       });
     } catch (err: any) {
       console.error("Error submitting vendor remittance:", err);
       setError(err.message || "Failed to submit remittance");
       throw err;
     } finally {
-      setRemittingTransactionId(null);
+      setRemitting(false);
     }
   };
 
-  // Calculate derived values
+  // Calculate derived values. Without a currency on the vendor profile, the
+  // vendor's records show which currency it has been trading in.
+  const currency = vendorCurrency ?? recordCurrency(transactions[0] ?? orders[0]);
+  const minor = (amount?: number | null) => toMinorUnits(Number(amount ?? 0) || 0, currency);
   const totalOrders = orders.length;
-  const payoutTotal = payouts.reduce((sum, payout) => sum + (payout.amount || 0), 0);
+  const payoutTotal = payouts.reduce(
+    (sum, payout) => (payout.status === "paid" && recordCurrency(payout) === currency ? sum + minor(payout.amount) : sum),
+    0
+  );
+  // Wallet payments reach the vendor through payouts, so only cash collections count here
   const transactionTotal = transactions.reduce(
-    (sum, transaction) => sum + (transaction.netAmount ? Number(transaction.netAmount) : 0),
+    (sum, transaction) =>
+      transaction.type !== "wallet-payment" && recordCurrency(transaction) === currency
+        ? sum + minor(transaction.netAmount)
+        : sum,
     0
   );
-  const totalEarnings = payoutTotal + transactionTotal;
+  const totalEarnings = fromMinorUnits(payoutTotal + transactionTotal, currency);
   const activeProducts = products.length;
 
   return {
@@ -409,6 +445,7 @@ export function useVendorData(vendorId: string | null): VendorDataHookResult {
     transactions,
     totalOrders,
     totalEarnings,
+    currency,
     activeProducts,
     loading,
     error,
@@ -416,7 +453,7 @@ export function useVendorData(vendorId: string | null): VendorDataHookResult {
     setIsOpen,
     updatingStatus,
     remitDriverCash,
-    remittingTransactionId,
+    remitting,
   };
 }
 
@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { collection, onSnapshot, query, where, QuerySnapshot, DocumentData } from "firebase/firestore";
+import { firestore } from "@/firebase/init";
+import {
+  generateVendorStatement,
+  type GenerateVendorStatementResponse,
+  type VendorStatement,
+} from "@/lib/statements";
+
+export interface VendorStatementsHookResult {
+  statements: VendorStatement[];
+  loading: boolean;
+  error: string | null;
+  generating: boolean;
+  generate: (periodStart: Date, periodEnd: Date) => Promise<GenerateVendorStatementResponse>;
+}
+
+/**
+ * Vendor statements hook
+ * - Listens to the vendor's statements, newest period first
+ * - Generation runs server-side; the listener picks up the new document
+ */
+export function useVendorStatements(vendorId: string | null): VendorStatementsHookResult {
+  const [statements, setStatements] = useState<VendorStatement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!vendorId) {
+      setStatements([]);
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, "vendorStatements"), where("vendorId", "==", vendorId)),
+      (snapshot: QuerySnapshot<DocumentData>) => {
+        setStatements(
+          snapshot.docs
+            .map((statementDoc) => ({ id: statementDoc.id, ...statementDoc.data() }) as VendorStatement)
+            .sort((a, b) => (b.periodStart?.toMillis?.() ?? 0) - (a.periodStart?.toMillis?.() ?? 0))
+        );
+        setLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error("Vendor statements snapshot error:", err);
+        setError(err.message || "Failed to fetch statements");
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [vendorId]);
+
+  const generate = async (periodStart: Date, periodEnd: Date) => {
+    if (periodStart >= periodEnd) {
+      throw new Error("The period start must be before its end");
+    }
+
+    try {
+      setGenerating(true);
+      return await generateVendorStatement(periodStart, periodEnd);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return { statements, loading, error, generating, generate };
+}
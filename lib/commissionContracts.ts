@@ -0,0 +1,54 @@
+export interface CommissionTier {
+  /** Delivered sales this month (UTC), in the vendor's currency, from which the rate applies */
+  minMonthlySales: number;
+  /** Percentage */
+  rate: number;
+}
+
+/** commissionContracts/{contractId} */
+export interface CommissionContract {
+  id: string;
+  vendorId: string;
+  name: string;
+  effectiveFrom: any;
+  /** Exclusive; null runs until replaced */
+  effectiveTo: any | null;
+  /** Percentage for items without a category rate, before any tier is reached */
+  baseRate: number;
+  tiers: CommissionTier[];
+  /** Percentage per product category ID */
+  categoryRates: Record<string, number>;
+  notes?: string | null;
+  createdAt?: any;
+  createdBy?: string;
+}
+
+function toMillis(value: any): number | null {
+  if (!value) return null;
+  if (typeof value.toMillis === "function") return value.toMillis();
+  const millis = new Date(value).getTime();
+  return Number.isNaN(millis) ? null : millis;
+}
+
+/**
+ * Whether the contract is in effect at `at` (ms)
+ */
+export function isContractActive(contract: CommissionContract, at: number = Date.now()): boolean {
+  const from = toMillis(contract.effectiveFrom);
+  const to = toMillis(contract.effectiveTo);
+  return from !== null && from <= at && (to === null || at < to);
+}
+
+/**
+ * The contract order pricing uses at `at`: of those in effect, the latest start wins
+ */
+export function findActiveContract(
+  contracts: CommissionContract[],
+  at: number = Date.now()
+): CommissionContract | null {
+  return (
+    contracts
+      .filter((contract) => isContractActive(contract, at))
+      .sort((a, b) => (toMillis(b.effectiveFrom) ?? 0) - (toMillis(a.effectiveFrom) ?? 0))[0] ?? null
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+export type BatchStopType = "pickup" | "dropoff";
+export type BatchStopStatus = "pending" | "completed" | "skipped";
+
+export interface BatchStop {
+  id: string;
+  sequence: number;
+  type: BatchStopType;
+  orderIds: string[];
+  vendorId: string | null;
+  /** Vendor name for pickups, customer name for drop-offs */
+  label: string;
+  address: any;
+  status: BatchStopStatus;
+  completedAt?: any;
+}
+
+export interface BatchOrderSummary {
+  orderId: string;
+  orderCode: string;
+  vendorId: string | null;
+  paymentMethod: string | null;
+  orderStatus: string;
+  deliveryFee: number;
+  driverTip: number;
+  /** Recorded driver earnings once delivered; delivery fee plus tip as an estimate before */
+  earnings: number;
+}
+
+export interface DeliveryBatch {
+  id: string;
+  driverId: string;
+  driverName?: string | null;
+  status: "active" | "completed";
+  /** Order IDs in drop-off sequence */
+  orderIds: string[];
+  stops: BatchStop[];
+  orders: BatchOrderSummary[];
+  /** Earnings of the orders delivered so far */
+  totalEarnings: number;
+  createdBy?: string;
+  createdByRole?: string;
+  createdAt?: any;
+  updatedAt?: any;
+  completedAt?: any;
+}
+
+export interface CreateDeliveryBatchParams {
+  orderIds: string[];
+  /** Required when dispatch (admin) batches orders for a driver */
+  driverId?: string;
+}
+
+export interface CreateDeliveryBatchResponse {
+  success: boolean;
+  batchId: string;
+  stops: BatchStop[];
+}
+
+export interface CompleteBatchStopParams {
+  batchId: string;
+  stopId: string;
+  proofOfDeliverySignatureUrl?: string;
+  proofOfDeliverySignaturePath?: string;
+}
+
+export interface CompleteBatchStopResponse {
+  success: boolean;
+  batchId: string;
+  stopId: string;
+  batchStatus: "active" | "completed" | null;
+}
+
+/**
+ * Groups orders into one delivery trip through the `createDeliveryBatch`
+ * Cloud Function, which plans the stop sequence
+ */
+export async function createDeliveryBatch(
+  params: CreateDeliveryBatchParams
+): Promise<CreateDeliveryBatchResponse> {
+  try {
+    const createFunction = httpsCallable<CreateDeliveryBatchParams, CreateDeliveryBatchResponse>(
+      functions,
+      "createDeliveryBatch"
+    );
+    const result = await createFunction(params);
+    return result.data;
+  } catch (error: any) {
+    console.error("Error creating delivery batch:", error);
+    throw new Error(error.message || "Failed to create the batch. Please try again.");
+  }
+}
+
+/**
+ * Completes one stop of a batch through the `completeBatchStop` Cloud Function:
+ * pickups mark their orders picked up, drop-offs deliver their order
+ */
+export async function completeBatchStop(params: CompleteBatchStopParams): Promise<CompleteBatchStopResponse> {
+  try {
+    const completeFunction = httpsCallable<CompleteBatchStopParams, CompleteBatchStopResponse>(
+      functions,
+      "completeBatchStop"
+    );
+    const result = await completeFunction(params);
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error completing stop ${params.stopId} of batch ${params.batchId}:`, error);
+    throw new Error(error.message || "Failed to complete the stop. Please try again.");
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Distance-based delivery fee model stored in systemConfig/fees.distanceFee.
+ * The quoteOrder/createOrder Cloud Functions charge it; the copy here only
+ * previews fees on the admin Fees page.
+ */
+export interface DistanceFeeModel {
+  enabled: boolean;
+  baseFee: number;
+  /** Kilometres covered by the base fee */
+  includedKm: number;
+  perKmRate: number;
+  minimumFee: number;
+  /** 0 means no cap */
+  maximumFee: number;
+  /** Multiplier from straight-line to estimated road distance */
+  roadFactor: number;
+}
+
+export const DEFAULT_DISTANCE_FEE_MODEL: DistanceFeeModel = {
+  enabled: false,
+  baseFee: 3,
+  includedKm: 3,
+  perKmRate: 0.75,
+  minimumFee: 3,
+  maximumFee: 15,
+  roadFactor: 1.3,
+};
+
+/**
+ * Fee for a straight-line pickup to drop-off distance, with the estimated
+ * road distance it was charged on
+ */
+export function computeDistanceFee(
+  model: DistanceFeeModel,
+  straightLineKm: number
+): { distanceKm: number; fee: number } {
+  const distanceKm = Math.round(straightLineKm * model.roadFactor * 10) / 10;
+  let fee = model.baseFee + Math.max(distanceKm - model.includedKm, 0) * model.perKmRate;
+  fee = Math.max(fee, model.minimumFee);
+  if (model.maximumFee > 0) fee = Math.min(fee, model.maximumFee);
+  return { distanceKm, fee };
+}
@@ -0,0 +1,88 @@
+export interface ZoneVertex {
+  lat: number;
+  lng: number;
+}
+
+/** deliveryZones/{zoneId} */
+export interface DeliveryZone {
+  id: string;
+  name: string;
+  isActive: boolean;
+  /** Vertices in order; the ring is closed implicitly */
+  polygon: ZoneVertex[];
+  /** In the currency of the vendor the order is for */
+  deliveryFee: number;
+  minOrderValue: number;
+  /** Vendor type names served; empty serves every type */
+  vendorTypes: string[];
+  createdAt?: any;
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+export const MIN_ZONE_VERTICES = 3;
+
+function isValidVertex(vertex: ZoneVertex) {
+  return (
+    Number.isFinite(vertex.lat) &&
+    Number.isFinite(vertex.lng) &&
+    Math.abs(vertex.lat) <= 90 &&
+    Math.abs(vertex.lng) <= 180
+  );
+}
+
+/**
+ * Parses polygon vertices typed as one "lat, lng" pair per line, or pasted
+ * GeoJSON (a Polygon, or a Feature wrapping one) whose positions are [lng, lat].
+ * A closing vertex that repeats the first is dropped.
+ */
+export function parseZonePolygon(text: string): { polygon: ZoneVertex[]; error: string | null } {
+  const trimmed = text.trim();
+  let polygon: ZoneVertex[];
+
+  if (trimmed.startsWith("{")) {
+    try {
+      const json = JSON.parse(trimmed);
+      const geometry = json.type === "Feature" ? json.geometry : json;
+      if (geometry?.type !== "Polygon" || !Array.isArray(geometry.coordinates?.[0])) {
+        return { polygon: [], error: "GeoJSON must be a Polygon" };
+      }
+      polygon = geometry.coordinates[0].map((position: unknown) =>
+        Array.isArray(position) ? { lat: Number(position[1]), lng: Number(position[0]) } : { lat: NaN, lng: NaN }
+      );
+    } catch {
+      return { polygon: [], error: "Invalid GeoJSON" };
+    }
+  } else {
+    polygon = trimmed
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((line) => {
+        const [lat, lng] = line.split(/[\s,]+/).map(Number);
+        return { lat, lng };
+      });
+  }
+
+  const invalidIndex = polygon.findIndex((vertex) => !isValidVertex(vertex));
+  if (invalidIndex !== -1) {
+    return { polygon: [], error: `Vertex ${invalidIndex + 1} is not a valid latitude/longitude` };
+  }
+
+  const first = polygon[0];
+  const last = polygon[polygon.length - 1];
+  if (polygon.length > 1 && first.lat === last.lat && first.lng === last.lng) {
+    polygon = polygon.slice(0, -1);
+  }
+  if (polygon.length < MIN_ZONE_VERTICES) {
+    return { polygon, error: `A zone needs at least ${MIN_ZONE_VERTICES} vertices` };
+  }
+  return { polygon, error: null };
+}
+
+/**
+ * Formats vertices for the editor, one "lat, lng" pair per line
+ */
+export function formatZonePolygon(polygon: ZoneVertex[]): string {
+  return polygon.map((vertex) => `${vertex.lat}, ${vertex.lng}`).join("\n");
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+export type DispatchOfferStatus = "pending" | "accepted" | "declined" | "expired" | "superseded";
+
+export interface DispatchOffer {
+  id: string;
+  orderId: string;
+  orderCode?: string | null;
+  vendorId?: string | null;
+  vendorName?: string | null;
+  driverId: string;
+  attempt: number;
+  distanceKm: number | null;
+  deliveryFee?: number | null;
+  totalAmount?: number | null;
+  currency?: string;
+  pickupLocation?: any;
+  dropoffLocation?: any;
+  status: DispatchOfferStatus;
+  expiresAt?: any;
+  createdAt?: any;
+}
+
+export type DispatchOfferResult = "accepted" | "declined" | "expired" | "cash-limit" | "unavailable";
+
+export interface RespondToDispatchOfferResponse {
+  success: boolean;
+  offerId: string;
+  orderId: string;
+  result: DispatchOfferResult;
+  /** Why the offer could not be accepted, for "cash-limit" */
+  message?: string;
+}
+
+/**
+ * Accepts or declines a dispatch offer through the `respondToDispatchOffer`
+ * Cloud Function. Accepting assigns the order to the signed-in driver.
+ */
+export async function respondToDispatchOffer(
+  offerId: string,
+  accept: boolean
+): Promise<RespondToDispatchOfferResponse> {
+  try {
+    const respondFunction = httpsCallable<{ offerId: string; accept: boolean }, RespondToDispatchOfferResponse>(
+      functions,
+      "respondToDispatchOffer"
+    );
+    const result = await respondFunction({ offerId, accept });
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error responding to dispatch offer ${offerId}:`, error);
+    throw new Error(error.message || "Failed to respond to the offer. Please try again.");
+  }
+}
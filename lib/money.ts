@@ -0,0 +1,109 @@
+/**
+ * Money helpers shared by the dashboards.
+ * Amounts are stored as decimals in major units (e.g. 12.5) with a `currency`
+ * code, and Cloud Functions mirror them as integers in the currency's minor
+ * units under `minorUnits`. Records written before currencies were tracked
+ * are in DEFAULT_CURRENCY.
+ */
+
+export interface Money {
+  /** Integer amount in the currency's smallest unit (cents for USD, yen for JPY) */
+  amountMinor: number;
+  /** ISO 4217 code, upper case */
+  currency: string;
+}
+
+export const DEFAULT_CURRENCY = "USD";
+
+/** Currencies the platform can be configured to trade in */
+export const SUPPORTED_CURRENCIES = [
+  { code: "USD", name: "US Dollar" },
+  { code: "EUR", name: "Euro" },
+  { code: "GBP", name: "British Pound" },
+  { code: "NGN", name: "Nigerian Naira" },
+  { code: "KES", name: "Kenyan Shilling" },
+  { code: "GHS", name: "Ghanaian Cedi" },
+] as const;
+
+/**
+ * Upper-cased ISO 4217 code, or null when the value is not a known currency
+ */
+export function normalizeCurrency(value: unknown): string | null {
+  if (typeof value !== "string" || !/^[A-Za-z]{3}$/.test(value.trim())) return null;
+  const code = value.trim().toUpperCase();
+  try {
+    new Intl.NumberFormat("en-US", { style: "currency", currency: code });
+    return code;
+  } catch {
+    return null;
+  }
+}
+
+const currencyDigitsCache = new Map<string, number>();
+
+/**
+ * Decimal places of a currency's minor unit (2 for USD, 0 for JPY, 3 for KWD)
+ */
+export function currencyDigits(currency: string): number {
+  const code = normalizeCurrency(currency) ?? DEFAULT_CURRENCY;
+  if (!currencyDigitsCache.has(code)) {
+    const digits = new Intl.NumberFormat("en-US", { style: "currency", currency: code }).resolvedOptions()
+      .maximumFractionDigits;
+    currencyDigitsCache.set(code, digits ?? 2);
+  }
+  return currencyDigitsCache.get(code)!;
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  const factor = 10 ** currencyDigits(currency);
+  const minor = Math.round((Math.abs(amount) + Number.EPSILON) * factor);
+  return amount < 0 ? -minor : minor;
+}
+
+export function fromMinorUnits(amountMinor: number, currency: string): number {
+  const digits = currencyDigits(currency);
+  return Number((amountMinor / 10 ** digits).toFixed(digits));
+}
+
+/**
+ * Currency of a stored record, defaulting for records written before currencies were tracked
+ */
+export function recordCurrency(record: { currency?: string | null } | null | undefined): string {
+  return normalizeCurrency(record?.currency) ?? DEFAULT_CURRENCY;
+}
+
+/**
+ * Reads an amount field of a record as Money, preferring its `minorUnits` mirror
+ */
+export function moneyOf(
+  record: ({ currency?: string | null; minorUnits?: Record<string, number | null> | null } & Record<string, any>) | null | undefined,
+  field: string
+): Money {
+  const currency = recordCurrency(record);
+  const minor = record?.minorUnits?.[field];
+  if (typeof minor === "number" && Number.isFinite(minor)) {
+    return { amountMinor: minor, currency };
+  }
+  return { amountMinor: toMinorUnits(Number(record?.[field] ?? 0) || 0, currency), currency };
+}
+
+/**
+ * Formats an amount for display in the viewer's locale.
+ * Accepts a decimal amount with its currency code, or a Money value.
+ */
+export function formatMoney(
+  value: number | Money | null | undefined,
+  currency: string | null | undefined = DEFAULT_CURRENCY,
+  locale?: string
+): string {
+  let money: Money;
+  if (value !== null && typeof value === "object") {
+    money = value;
+  } else {
+    const code = recordCurrency({ currency });
+    money = { amountMinor: toMinorUnits(Number(value ?? 0) || 0, code), currency: code };
+  }
+  return new Intl.NumberFormat(locale, { style: "currency", currency: money.currency }).format(
+    fromMinorUnits(money.amountMinor, money.currency)
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+export type OrderStatus =
+  | "scheduled"
+  | "available"
+  | "ready"
+  | "assigned"
+  | "enroute"
+  | "delivered"
+  | "cancelled"
+  | "failed";
+
+export type OrderActorRole = "admin" | "vendor" | "driver";
+
+/**
+ * Mirror of the server-side order status graph enforced by the
+ * `transitionOrder` Cloud Function. Used to only offer legal moves in the UI.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  scheduled: ["available", "cancelled"],
+  available: ["ready", "cancelled"],
+  ready: ["assigned", "cancelled"],
+  assigned: ["enroute", "cancelled", "failed"],
+  enroute: ["delivered", "cancelled", "failed"],
+  delivered: [],
+  cancelled: [],
+  failed: [],
+};
+
+const ORDER_STATUS_ROLES: Record<OrderStatus, OrderActorRole[]> = {
+  scheduled: [],
+  available: [],
+  ready: ["vendor", "admin"],
+  assigned: ["driver", "admin"],
+  enroute: ["driver", "admin"],
+  delivered: ["driver", "admin"],
+  cancelled: [],
+  failed: ["driver", "admin"],
+};
+
+const LEGACY_ORDER_STATUS_ALIASES: Record<string, OrderStatus> = {
+  pending: "available",
+  preparing: "available",
+  "in-transit": "enroute",
+  "out-for-delivery": "enroute",
+  completed: "delivered",
+  rejected: "cancelled",
+};
+
+/**
+ * Normalizes a stored order status (including legacy values) to the state machine
+ */
+export function normalizeOrderStatus(status?: string | null): OrderStatus | null {
+  const key = (status || "available").toString().toLowerCase();
+  if (key in ORDER_STATUS_TRANSITIONS) return key as OrderStatus;
+  return LEGACY_ORDER_STATUS_ALIASES[key] ?? null;
+}
+
+/**
+ * Returns the statuses a given role may move an order to from its current status
+ */
+export function getAllowedNextStatuses(
+  currentStatus: string | null | undefined,
+  role: OrderActorRole
+): OrderStatus[] {
+  const normalized = normalizeOrderStatus(currentStatus);
+  if (!normalized) return [];
+  return ORDER_STATUS_TRANSITIONS[normalized].filter((next) => ORDER_STATUS_ROLES[next].includes(role));
+}
+
+export interface TransitionOrderParams {
+  orderId: string;
+  toStatus: OrderStatus;
+  driverId?: string;
+  reason?: string;
+  proofOfDeliverySignatureUrl?: string;
+  proofOfDeliverySignaturePath?: string;
+}
+
+export interface TransitionOrderResponse {
+  success: boolean;
+  orderId: string;
+  fromStatus: OrderStatus;
+  toStatus: OrderStatus;
+}
+
+/**
+ * Moves an order to a new status through the `transitionOrder` Cloud Function.
+ * Direct status writes are rejected by Firestore rules.
+ * @throws Error with the server's message if the transition is not allowed
+ */
+export async function transitionOrder(params: TransitionOrderParams): Promise<TransitionOrderResponse> {
+  try {
+    const transitionFunction = httpsCallable<TransitionOrderParams, TransitionOrderResponse>(
+      functions,
+      "transitionOrder"
+    );
+    const result = await transitionFunction(params);
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error transitioning order ${params.orderId} to ${params.toStatus}:`, error);
+    throw new Error(error.message || "Failed to update order status. Please try again.");
+  }
+}
+
+export interface CompleteDeliveryParams {
+  orderId: string;
+  proofOfDeliverySignatureUrl?: string;
+  proofOfDeliverySignaturePath?: string;
+}
+
+export interface CompleteDeliveryResponse {
+  success: boolean;
+  orderId: string;
+  alreadyCompleted: boolean;
+  driverTransactionId: string | null;
+  vendorTransactionId: string | null;
+}
+
+/**
+ * Completes a delivery through the `completeDelivery` Cloud Function, which
+ * updates the order and writes COD ledger entries in one transaction.
+ * Retrying after a network failure is safe.
+ */
+export async function completeOrderDelivery(params: CompleteDeliveryParams): Promise<CompleteDeliveryResponse> {
+  try {
+    const completeFunction = httpsCallable<CompleteDeliveryParams, CompleteDeliveryResponse>(
+      functions,
+      "completeDelivery"
+    );
+    const result = await completeFunction(params);
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error completing delivery for order ${params.orderId}:`, error);
+    throw new Error(error.message || "Failed to complete delivery. Please try again.");
+  }
+}
+
+export type ClaimOrderResult = "claimed" | "already-taken" | "cash-limit" | "unavailable";
+
+export interface ClaimOrderResponse {
+  success: boolean;
+  orderId: string;
+  result: ClaimOrderResult;
+  message: string;
+}
+
+/**
+ * Claims a ready order for the signed-in driver through the `claimOrder`
+ * Cloud Function. Losing a race is not an error: the response carries
+ * `result: "already-taken"` instead, and `"cash-limit"` when the driver must
+ * remit cash before taking another cash-on-delivery order.
+ */
+export async function claimOrder(orderId: string): Promise<ClaimOrderResponse> {
+  try {
+    const claimFunction = httpsCallable<{ orderId: string }, ClaimOrderResponse>(functions, "claimOrder");
+    const result = await claimFunction({ orderId });
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error claiming order ${orderId}:`, error);
+    throw new Error(error.message || "Failed to accept order. Please try again.");
+  }
+}
+
+export type CancellationReasonCode =
+  | "customer-request"
+  | "vendor-unavailable"
+  | "out-of-stock"
+  | "no-driver-available"
+  | "duplicate-order"
+  | "payment-issue"
+  | "suspected-fraud"
+  | "other";
+
+export type CancellationActorRole = OrderActorRole | "customer";
+
+export const CANCELLATION_REASONS: { value: CancellationReasonCode; label: string }[] = [
+  { value: "customer-request", label: "Customer requested cancellation" },
+  { value: "vendor-unavailable", label: "Vendor unavailable" },
+  { value: "out-of-stock", label: "Items out of stock" },
+  { value: "no-driver-available", label: "No driver available" },
+  { value: "duplicate-order", label: "Duplicate order" },
+  { value: "payment-issue", label: "Payment issue" },
+  { value: "suspected-fraud", label: "Suspected fraud" },
+  { value: "other", label: "Other (note required)" },
+];
+
+/**
+ * Mirror of the server-side cancellation policy enforced by `cancelOrder`
+ */
+const CANCELLATION_POLICY: Record<CancellationActorRole, OrderStatus[]> = {
+  customer: ["scheduled", "available"],
+  vendor: ["scheduled", "available", "ready"],
+  driver: [],
+  admin: ["scheduled", "available", "ready", "assigned", "enroute"],
+};
+
+/**
+ * Whether a role may cancel an order in its current status
+ */
+export function canCancelOrder(status: string | null | undefined, role: CancellationActorRole): boolean {
+  const normalized = normalizeOrderStatus(status);
+  return !!normalized && CANCELLATION_POLICY[role].includes(normalized);
+}
+
+export interface CancelOrderParams {
+  orderId: string;
+  reasonCode: CancellationReasonCode;
+  note?: string;
+}
+
+export interface CancelOrderResponse {
+  success: boolean;
+  orderId: string;
+  fromStatus: OrderStatus;
+  refund: { method: "wallet" | "stripe" | "manual"; amount: number; currency?: string; status: string } | null;
+}
+
+/**
+ * Cancels an order through the `cancelOrder` Cloud Function, which reverses
+ * ledger entries and refunds the customer in the same step.
+ */
+export async function cancelOrder(params: CancelOrderParams): Promise<CancelOrderResponse> {
+  try {
+    const cancelFunction = httpsCallable<CancelOrderParams, CancelOrderResponse>(functions, "cancelOrder");
+    const result = await cancelFunction(params);
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error cancelling order ${params.orderId}:`, error);
+    throw new Error(error.message || "Failed to cancel order. Please try again.");
+  }
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+export type PayoutStatus = "pending-approval" | "approved" | "processing" | "paid" | "failed" | "rejected";
+export type PayoutRunStatus = "pending-approval" | "processing" | "attention-required" | "completed" | "empty";
+
+export interface PayoutLineItem {
+  kind: "earning" | "commission" | "cod-owed";
+  sourceCollection: "vendorTransactions" | "driverTransactions" | "driverEarnings";
+  sourceId: string;
+  orderId: string | null;
+  orderCode: string | null;
+  description: string;
+  /** Earnings are positive, deductions negative */
+  amount: number;
+}
+
+export interface Payout {
+  id: string;
+  runId?: string;
+  payeeType?: "vendor" | "driver";
+  vendorId?: string;
+  driverId?: string;
+  payeeName?: string | null;
+  stripeAccountId?: string;
+  /** Net amount transferred: earnings less deductions */
+  amount: number;
+  grossAmount?: number;
+  deductions?: number;
+  currency?: string;
+  lineItems?: PayoutLineItem[];
+  periodStart?: any;
+  periodEnd?: any;
+  status?: PayoutStatus | string;
+  paymentMethod?: string;
+  /** Stripe transfer ID once paid */
+  transactionId?: string | null;
+  attempts?: number;
+  lastError?: string | null;
+  rejectionReason?: string | null;
+  createdAt?: any;
+  approvedAt?: any;
+  paidAt?: any;
+}
+
+export interface PayoutRunSkip {
+  payeeType: "vendor" | "driver";
+  payeeId: string;
+  currency?: string;
+  reason: "nothing-owed" | "no-connected-account" | string;
+  amount: number;
+}
+
+export interface PayoutRun {
+  id: string;
+  periodStart?: any;
+  periodEnd?: any;
+  status: PayoutRunStatus;
+  payoutIds: string[];
+  payoutCount: number;
+  /** Total in the market currency; see totalsByCurrency for every currency paid */
+  totalAmount: number;
+  currency: string;
+  totalsByCurrency?: Record<string, number>;
+  skipped: PayoutRunSkip[];
+  paidCount?: number;
+  failedCount?: number;
+  rejectedCount?: number;
+  createdBy?: string | null;
+  createdAt?: any;
+  updatedAt?: any;
+}
+
+export interface CreatePayoutRunResponse {
+  success: boolean;
+  runId: string;
+  payoutCount: number;
+  totalAmount: number;
+  currency: string;
+  totalsByCurrency: Record<string, number>;
+  skipped: PayoutRunSkip[];
+}
+
+/**
+ * Gathers unpaid earnings settled in the period into payouts awaiting approval
+ * through the `createPayoutRun` Cloud Function (admin only)
+ */
+export async function createPayoutRun(periodStart: Date, periodEnd: Date): Promise<CreatePayoutRunResponse> {
+  try {
+    const createFunction = httpsCallable<{ periodStart: string; periodEnd: string }, CreatePayoutRunResponse>(
+      functions,
+      "createPayoutRun"
+    );
+    const result = await createFunction({ periodStart: periodStart.toISOString(), periodEnd: periodEnd.toISOString() });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error creating payout run:", error);
+    throw new Error(error.message || "Failed to create the payout run. Please try again.");
+  }
+}
+
+/**
+ * Approves pending payouts and sends their Stripe transfers (admin only)
+ */
+export async function approvePayouts(
+  payoutIds: string[]
+): Promise<Record<string, "paid" | "failed" | "skipped">> {
+  try {
+    const approveFunction = httpsCallable<
+      { payoutIds: string[] },
+      { success: boolean; results: Record<string, "paid" | "failed" | "skipped"> }
+    >(functions, "approvePayouts");
+    const result = await approveFunction({ payoutIds });
+    return result.data.results;
+  } catch (error: any) {
+    console.error("Error approving payouts:", error);
+    throw new Error(error.message || "Failed to approve payouts. Please try again.");
+  }
+}
+
+/**
+ * Re-sends the transfer of a failed payout (admin only)
+ */
+export async function retryPayout(payoutId: string): Promise<"paid" | "failed"> {
+  try {
+    const retryFunction = httpsCallable<{ payoutId: string }, { success: boolean; status: "paid" | "failed" }>(
+      functions,
+      "retryPayout"
+    );
+    const result = await retryFunction({ payoutId });
+    return result.data.status;
+  } catch (error: any) {
+    console.error(`Error retrying payout ${payoutId}:`, error);
+    throw new Error(error.message || "Failed to retry the payout. Please try again.");
+  }
+}
+
+/**
+ * Rejects a pending or failed payout; its line items return to the next run (admin only)
+ */
+export async function rejectPayout(payoutId: string, reason: string): Promise<void> {
+  try {
+    const rejectFunction = httpsCallable<{ payoutId: string; reason: string }, { success: boolean }>(
+      functions,
+      "rejectPayout"
+    );
+    await rejectFunction({ payoutId, reason });
+  } catch (error: any) {
+    console.error(`Error rejecting payout ${payoutId}:`, error);
+    throw new Error(error.message || "Failed to reject the payout. Please try again.");
+  }
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+import type { OrderTax } from "@/lib/tax";
+
+export interface OrderQuoteLineInput {
+  productId: string;
+  optionIds: string[];
+  quantity: number;
+}
+
+export interface QuoteOrderParams {
+  /** Required for admins and customers; vendors always price their own catalog */
+  vendorId?: string;
+  /** Lets the quote check per-customer coupon limits */
+  customerId?: string;
+  lines: OrderQuoteLineInput[];
+  pickupOrder?: boolean;
+  driverTip?: number;
+  couponCode?: string | null;
+  /** Defaults to the vendor's location for the distance-based delivery fee */
+  pickupLocation?: any;
+  /** Checked against the vendor's delivery zones when it has map coordinates */
+  dropoffLocation?: any;
+}
+
+export interface OrderQuoteLine {
+  productId: string;
+  productName: string;
+  optionIds: string[];
+  options: Array<{ id: string; name: string; price: number }>;
+  quantity: number;
+  unitPrice: number;
+  optionsPrice: number;
+  lineTotal: number;
+}
+
+export type CouponDiscountType = "percentage" | "fixed" | "free-delivery";
+
+export interface OrderQuoteCoupon {
+  code: string;
+  applied: boolean;
+  /** Why the coupon was not applied, or its description when it was */
+  message: string | null;
+  discountType: CouponDiscountType | null;
+  itemDiscount: number;
+  deliveryDiscount: number;
+}
+
+export interface OrderQuote {
+  vendorId: string;
+  currency: string;
+  lines: OrderQuoteLine[];
+  subtotal: number;
+  coupon: OrderQuoteCoupon | null;
+  discountAmount: number;
+  /** The rate charged when every taxed line shares one, else 0 */
+  taxRate: number;
+  taxAmount: number;
+  /** Tax per category and on delivery. When prices include tax it is not added to the total. */
+  tax?: OrderTax;
+  deliveryFee: number;
+  /** Estimated road distance when the distance-based fee applied */
+  deliveryDistanceKm?: number | null;
+  /** The vendor's delivery zone containing the drop-off, when the vendor has zones */
+  deliveryZone?: { id: string; name: string } | null;
+  /** Why the order cannot be delivered; createOrder rejects the order while this is set */
+  deliveryIssue?: string | null;
+  driverTip: number;
+  totalAmount: number;
+  /** The rate charged when every line shares one, else 0 */
+  commissionRate: number;
+  /** Commission contract the rate came from; null for the platform rate */
+  commissionContractId?: string | null;
+  commissionFee: number;
+  /** systemConfig versions the quote was priced with */
+  configVersions?: { fees: number | null; tax: number | null; paymentSettings: number | null };
+  /** Integer minor-unit mirrors of the amounts above, in `currency` */
+  minorUnits?: {
+    subtotal: number;
+    discountAmount: number;
+    taxAmount: number;
+    deliveryFee: number;
+    driverTip: number;
+    totalAmount: number;
+    commissionFee: number;
+  };
+}
+
+export interface CreateOrderParams extends QuoteOrderParams {
+  /** Required for vendors and admins; customers always order for themselves */
+  customerId?: string;
+  /** "wallet" is only accepted from the customer, as it spends their balance */
+  paymentMethod: string;
+  note?: string | null;
+  deliveryAddress?: any;
+  /** Epoch milliseconds; omit for an order that is available immediately */
+  scheduledFor?: number | null;
+  /** Total the caller showed the user; the order is rejected if the price moved */
+  expectedTotal?: number;
+}
+
+export interface CreateOrderResponse {
+  success: boolean;
+  orderId: string;
+  orderCode: string;
+  quote: OrderQuote;
+}
+
+/**
+ * Prices an order on the server through the `quoteOrder` Cloud Function.
+ * Nothing is written; use the result to preview totals before createOrder.
+ */
+export async function quoteOrder(params: QuoteOrderParams): Promise<OrderQuote> {
+  try {
+    const quoteFunction = httpsCallable<QuoteOrderParams, { success: boolean; quote: OrderQuote }>(
+      functions,
+      "quoteOrder"
+    );
+    const result = await quoteFunction(params);
+    return result.data.quote;
+  } catch (error: any) {
+    console.error("Error quoting order:", error);
+    throw new Error(error.message || "Failed to price the order. Please try again.");
+  }
+}
+
+/**
+ * Creates an order through the `createOrder` Cloud Function, which stores the
+ * server quote as the order's amounts and decrements product stock
+ */
+export async function createOrder(params: CreateOrderParams): Promise<CreateOrderResponse> {
+  try {
+    const createFunction = httpsCallable<CreateOrderParams, CreateOrderResponse>(functions, "createOrder");
+    const result = await createFunction(params);
+    return result.data;
+  } catch (error: any) {
+    console.error("Error creating order:", error);
+    throw new Error(error.message || "Failed to submit order. Please try again.");
+  }
+}
@@ -1,63 +1,108 @@
 "use client";
 
-import { firestore, storage } from "@/firebase/init";
-import {
-  doc,
-  updateDoc,
-  serverTimestamp,
-  increment,
-  collection,
-  query,
-  where,
-  getDocs,
-  limit,
-} from "firebase/firestore";
+import { firestore, functions, storage } from "@/firebase/init";
+import { collection, doc } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
 import { ref, uploadBytes, getDownloadURL } from "firebase/storage";
 
 type RemittanceActor = "driver" | "vendor";
 
-interface RemitCodPaymentParams {
-  driverId: string;
+export interface CodRemittanceItem {
   driverTransactionId: string;
-  vendorTransactionId?: string | null;
-  netAmount: number;
+  vendorTransactionId: string | null;
+  orderId: string | null;
+  orderCode: string | null;
+  /** Cash still owed on the transaction before the remittance */
+  outstandingAmount: number;
+  appliedAmount: number;
+  settled: boolean;
+}
+
+export interface CodRemittance {
+  id: string;
+  driverId: string;
+  driverName?: string | null;
+  vendorId: string;
+  vendorName?: string | null;
+  driverTransactionIds: string[];
+  items: CodRemittanceItem[];
+  expectedAmount: number;
+  amountReceived: number;
+  appliedAmount: number;
+  /** Received less expected: negative when short, positive when over */
+  discrepancy: number;
+  status: "settled" | "discrepancy";
+  currency?: string;
+  signatureUrl: string;
+  signaturePath?: string | null;
+  note?: string | null;
+  submittedBy: string;
+  submittedByRole: RemittanceActor;
+  createdAt?: any;
+}
+
+interface RemitCodBatchParams {
+  /** From newRemittanceId, once per submission; pass the same ID when retrying it */
+  remittanceId: string;
+  driverId: string;
+  driverTransactionIds: string[];
+  amountReceived: number;
   signature: Blob;
   actor?: RemittanceActor;
-  vendorId?: string | null;
-  orderId?: string | null;
+  note?: string | null;
+}
+
+export interface RemitCodBatchResponse {
+  success: boolean;
+  remittanceId: string;
+  expectedAmount: number;
+  appliedAmount: number;
+  discrepancy: number;
+  settledCount: number;
 }
 
-export async function remitCodPayment({
+/**
+ * ID for a new remittance. Create it when the remittance form opens and keep
+ * it for every attempt, so the server can tell a retry from a new batch.
+ */
+export function newRemittanceId(): string {
+  return doc(collection(firestore, "codRemittances")).id;
+}
+
+/**
+ * Remits several COD transactions of one driver and vendor with a single
+ * signature. The signature is uploaded first, then the remitCodBatch Cloud
+ * Function settles every transaction atomically. The server rejects a
+ * remittanceId that was already used, so a batch is never settled twice.
+ */
+export async function remitCodBatch({
+  remittanceId,
   driverId,
-  driverTransactionId,
-  vendorTransactionId,
-  netAmount,
+  driverTransactionIds,
+  amountReceived,
   signature,
   actor = "driver",
-  vendorId = null,
-  orderId = null,
-}: RemitCodPaymentParams) {
+  note = null,
+}: RemitCodBatchParams): Promise<RemitCodBatchResponse> {
   if (!driverId) {
     throw new Error("Driver ID is required to remit cash.");
   }
 
-  if (!driverTransactionId) {
-    throw new Error("Driver transaction ID is required to remit cash.");
+  if (driverTransactionIds.length === 0) {
+    throw new Error("Select at least one transaction to remit.");
   }
 
-  const isVendorActor = actor === "vendor";
-
-  if (isVendorActor && !vendorId) {
-    throw new Error("Vendor ID is required to submit vendor remittance.");
+  if (!(amountReceived > 0)) {
+    throw new Error("The amount received must be greater than zero.");
   }
 
-  const safeNetAmount = Number.isFinite(netAmount) ? Number(netAmount) : 0;
+  if (!remittanceId) {
+    throw new Error("A remittance ID is required.");
+  }
 
-  const timestampMillis = Date.now();
-  const signatureFileName = isVendorActor
-    ? `vendor-signature-${timestampMillis}.png`
-    : `signature-${timestampMillis}.png`;
-  const signaturePath = `drivers/${driverId}/remittances/${driverTransactionId}/${signatureFileName}`;
+  const signatureFileName =
+    actor === "vendor" ? `vendor-signature-${Date.now()}.png` : `signature-${Date.now()}.png`;
+  const signaturePath = `drivers/${driverId}/remittances/${remittanceId}/${signatureFileName}`;
   const signatureRef = ref(storage, signaturePath);
 
   await uploadBytes(signatureRef, signature, {
@@ -66,129 +111,32 @@ export async function remitCodPayment({
 
   const signatureUrl = await getDownloadURL(signatureRef);
 
-  const timestamp = serverTimestamp();
-
-  let resolvedVendorTransactionId = vendorTransactionId ?? null;
-  let vendorTransactionRef = resolvedVendorTransactionId
-    ? doc(firestore, "vendorTransactions", resolvedVendorTransactionId)
-    : null;
-
-  if (!vendorTransactionRef) {
-    try {
-      const byDriverTransaction = query(
-        collection(firestore, "vendorTransactions"),
-        where("driverTransactionId", "==", driverTransactionId),
-        limit(1)
-      );
-      const byDriverSnapshot = await getDocs(byDriverTransaction);
-      if (!byDriverSnapshot.empty) {
-        const matchedDoc = byDriverSnapshot.docs[0];
-        vendorTransactionRef = matchedDoc.ref;
-        resolvedVendorTransactionId = matchedDoc.id;
-      }
-    } catch (error) {
-      console.error("Failed to locate vendor transaction by driver transaction ID", error);
-    }
-  }
-
-  if (!vendorTransactionRef && orderId) {
-    try {
-      const byOrderQuery = query(
-        collection(firestore, "vendorTransactions"),
-        where("orderId", "==", orderId),
-        limit(1)
-      );
-      const byOrderSnapshot = await getDocs(byOrderQuery);
-      if (!byOrderSnapshot.empty) {
-        const matchedDoc = byOrderSnapshot.docs[0];
-        vendorTransactionRef = matchedDoc.ref;
-        resolvedVendorTransactionId = matchedDoc.id;
-      }
-    } catch (error) {
-      console.error("Failed to locate vendor transaction by order ID", error);
+  try {
+    const remitFunction = httpsCallable<
+      {
+        remittanceId: string;
+        driverTransactionIds: string[];
+        amountReceived: number;
+        signatureUrl: string;
+        signaturePath: string;
+        note: string | null;
+      },
+      RemitCodBatchResponse
+    >(functions, "remitCodBatch");
+    const result = await remitFunction({
+      remittanceId,
+      driverTransactionIds,
+      amountReceived,
+      signatureUrl,
+      signaturePath,
+      note,
+    });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error remitting COD cash:", error);
+    if (error.code === "functions/already-exists") {
+      throw new Error("This remittance was already recorded. Refresh to see the updated balances.");
     }
+    throw new Error(error.message || "Failed to record the remittance. Please try again.");
   }
-
-  const driverTransactionUpdate: Record<string, unknown> = {
-    updatedAt: timestamp,
-  };
-
-  if (resolvedVendorTransactionId) {
-    driverTransactionUpdate.vendorTransactionId = resolvedVendorTransactionId;
-  }
-
-  if (isVendorActor) {
-    driverTransactionUpdate.status = "reconciled";
-    driverTransactionUpdate.vendorConfirmedAt = timestamp;
-    driverTransactionUpdate.vendorConfirmedBy = vendorId;
-    driverTransactionUpdate.vendorConfirmationSignatureUrl = signatureUrl;
-    driverTransactionUpdate.vendorConfirmationSignaturePath = signaturePath;
-  } else {
-    driverTransactionUpdate.status = "remitted";
-    driverTransactionUpdate.remittedAt = timestamp;
-    driverTransactionUpdate.remittedBy = driverId;
-    driverTransactionUpdate.remittanceSignatureUrl = signatureUrl;
-    driverTransactionUpdate.remittanceSignaturePath = signaturePath;
-  }
-
-  await updateDoc(doc(firestore, "driverTransactions", driverTransactionId), driverTransactionUpdate);
-
-  if (vendorTransactionRef) {
-    try {
-      const vendorTransactionUpdate: Record<string, unknown> = {
-        updatedAt: timestamp,
-        driverTransactionId,
-      };
-
-      if (isVendorActor) {
-        vendorTransactionUpdate.status = "reconciled";
-        vendorTransactionUpdate.vendorConfirmedAt = timestamp;
-        vendorTransactionUpdate.vendorConfirmedBy = vendorId;
-        vendorTransactionUpdate.vendorConfirmationSignatureUrl = signatureUrl;
-        vendorTransactionUpdate.vendorConfirmationSignaturePath = signaturePath;
-      } else {
-        vendorTransactionUpdate.status = "remitted";
-        vendorTransactionUpdate.remittedAt = timestamp;
-        vendorTransactionUpdate.remittedBy = driverId;
-        vendorTransactionUpdate.remittanceSignatureUrl = signatureUrl;
-        vendorTransactionUpdate.remittanceSignaturePath = signaturePath;
-      }
-
-      await updateDoc(vendorTransactionRef, vendorTransactionUpdate);
-    } catch (error) {
-      console.error(
-        "Failed to update linked vendor transaction during remittance",
-        error
-      );
-    }
-  } else if (resolvedVendorTransactionId) {
-    console.warn(
-      `Vendor transaction ${resolvedVendorTransactionId} could not be updated despite being resolved.`
-    );
-  }
-
-  // Ensure driver transaction links the vendor document if it was resolved via fallback
-  if (!vendorTransactionId && resolvedVendorTransactionId) {
-    try {
-      await updateDoc(doc(firestore, "driverTransactions", driverTransactionId), {
-        vendorTransactionId: resolvedVendorTransactionId,
-        updatedAt: timestamp,
-      });
-    } catch (error) {
-      console.error("Failed to backfill vendorTransactionId on driver transaction", error);
-    }
-  }
-
-  if (!isVendorActor) {
-    try {
-      await updateDoc(doc(firestore, "drivers", driverId), {
-        cashOnHand: increment(-Math.abs(safeNetAmount)),
-        updatedAt: new Date(),
-      });
-    } catch (error) {
-      console.error("Failed to update driver cash on hand during remittance", error);
-    }
-  }
-
-  return { signatureUrl, signaturePath };
 }
@@ -0,0 +1,75 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { getDownloadURL, ref } from "firebase/storage";
+import { functions, storage } from "@/firebase/init";
+
+export interface VendorStatementTotals {
+  orderCount: number;
+  /** Items after discounts plus item tax; delivery charges are not the vendor's */
+  grossSales: number;
+  itemTax: number;
+  commissions: number;
+  netSales: number;
+  codRemitted: number;
+  payoutsPaid: number;
+}
+
+export interface VendorStatement {
+  id: string;
+  vendorId: string;
+  vendorName?: string;
+  periodStart: any;
+  /** Exclusive end of the period */
+  periodEnd: any;
+  currency: string;
+  totals: VendorStatementTotals;
+  invoiceNumber: string;
+  statementPath: string;
+  invoicePath: string;
+  /** null for statements generated by the monthly schedule */
+  generatedBy?: string | null;
+  generatedAt?: any;
+}
+
+export interface GenerateVendorStatementResponse {
+  success: boolean;
+  statementId: string;
+  invoiceNumber: string;
+  statementPath: string;
+  invoicePath: string;
+  totals: VendorStatementTotals;
+}
+
+/**
+ * Generates the statement and commission invoice PDFs for [periodStart, periodEnd).
+ * Admins pass the vendorId; vendors always get their own.
+ */
+export async function generateVendorStatement(
+  periodStart: Date,
+  periodEnd: Date,
+  vendorId?: string
+): Promise<GenerateVendorStatementResponse> {
+  try {
+    const generateFunction = httpsCallable<
+      { periodStart: string; periodEnd: string; vendorId?: string },
+      GenerateVendorStatementResponse
+    >(functions, "generateVendorStatement");
+    const result = await generateFunction({
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+      ...(vendorId ? { vendorId } : {}),
+    });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error generating vendor statement:", error);
+    throw new Error(error.message || "Failed to generate the statement. Please try again.");
+  }
+}
+
+/**
+ * Resolves a download URL for a stored statement or invoice PDF
+ */
+export async function getStatementFileUrl(path: string): Promise<string> {
+  return getDownloadURL(ref(storage, path));
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+/**
+ * Stripe secrets are stored encrypted by Cloud Functions and never sent back
+ * to the browser. Admins only see fingerprints such as "sk_live_…4f2a".
+ */
+export interface StripeSecretStatus {
+  fingerprint: string;
+  /** ISO date */
+  updatedAt: string | null;
+  updatedBy: string | null;
+  /** False when the functions' encryption key is missing or has changed since it was saved */
+  decryptable: boolean;
+}
+
+export interface StripeConnectionTest {
+  ok: boolean;
+  livemode: boolean | null;
+  error: string | null;
+  /** ISO date */
+  testedAt?: string | null;
+  testedBy?: string;
+}
+
+export interface StripeSecretsStatus {
+  encryptionConfigured: boolean;
+  secretKey: StripeSecretStatus | null;
+  webhookSecret: StripeSecretStatus | null;
+  /** Set when STRIPE_SECRET_KEY / STRIPE_WEBHOOK_SECRET override the stored values */
+  environmentOverrides: { secretKey: boolean; webhookSecret: boolean };
+  /** Plaintext fields still waiting for migrateStripeSecrets, e.g. "systemConfig/paymentSettings.stripeSecretKey" */
+  legacyPlaintext: string[];
+  /** ISO date migrateStripeSecrets ran; plaintext secrets in systemConfig are ignored from then on */
+  legacyMigratedAt: string | null;
+  lastConnectionTest: StripeConnectionTest | null;
+}
+
+/**
+ * Fingerprints and health of the stored Stripe secrets (admin only)
+ */
+export async function getStripeSecretsStatus(): Promise<StripeSecretsStatus> {
+  try {
+    const statusFunction = httpsCallable<void, StripeSecretsStatus>(functions, "getStripeSecretsStatus");
+    const result = await statusFunction();
+    return result.data;
+  } catch (error: any) {
+    console.error("Error loading Stripe secrets status:", error);
+    throw new Error(error.message || "Failed to load the Stripe secrets status. Please try again.");
+  }
+}
+
+/**
+ * Encrypts and stores new Stripe secrets (admin only). Omitted secrets are left unchanged.
+ */
+export async function setStripeSecrets(secrets: {
+  secretKey?: string;
+  webhookSecret?: string;
+}): Promise<{ secretKey?: string; webhookSecret?: string }> {
+  try {
+    const setFunction = httpsCallable<
+      { secretKey?: string; webhookSecret?: string },
+      { success: boolean; fingerprints: { secretKey?: string; webhookSecret?: string } }
+    >(functions, "setStripeSecrets");
+    const result = await setFunction(secrets);
+    return result.data.fingerprints;
+  } catch (error: any) {
+    console.error("Error saving Stripe secrets:", error);
+    throw new Error(error.message || "Failed to save the Stripe secrets. Please try again.");
+  }
+}
+
+/**
+ * Calls Stripe with the secret key in effect (admin only)
+ */
+export async function testStripeConnection(): Promise<StripeConnectionTest> {
+  try {
+    const testFunction = httpsCallable<void, StripeConnectionTest>(functions, "testStripeConnection");
+    const result = await testFunction();
+    return result.data;
+  } catch (error: any) {
+    console.error("Error testing Stripe connection:", error);
+    throw new Error(error.message || "Failed to test the Stripe connection. Please try again.");
+  }
+}
+
+/**
+ * Moves plaintext Stripe secrets out of systemConfig into the encrypted store (admin only)
+ */
+export async function migrateStripeSecrets(): Promise<{ moved: string[]; wiped: string[] }> {
+  try {
+    const migrateFunction = httpsCallable<void, { success: boolean; moved: string[]; wiped: string[] }>(
+      functions,
+      "migrateStripeSecrets"
+    );
+    const result = await migrateFunction();
+    return { moved: result.data.moved, wiped: result.data.wiped };
+  } catch (error: any) {
+    console.error("Error migrating Stripe secrets:", error);
+    throw new Error(error.message || "Failed to migrate the Stripe secrets. Please try again.");
+  }
+}
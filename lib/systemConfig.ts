@@ -0,0 +1,154 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+/** systemConfig documents saved through saveSystemConfig, with their history */
+export const VERSIONED_CONFIGS = [
+  { id: "fees", label: "Fees" },
+  { id: "paymentSettings", label: "Payment Settings" },
+  { id: "tax", label: "Tax" },
+  { id: "driverCompensation", label: "Driver Compensation" },
+  { id: "cashLimits", label: "Cash Limits" },
+  { id: "dispatch", label: "Dispatch" },
+  { id: "scheduling", label: "Scheduling" },
+] as const;
+
+export type VersionedConfigId = (typeof VERSIONED_CONFIGS)[number]["id"];
+
+/** systemConfig/{configId}/versions/{version} */
+export interface ConfigVersion {
+  id: string;
+  version: number;
+  /** Full settings at this version, without secrets */
+  data: Record<string, any>;
+  source: "baseline" | "save" | "scheduled" | "rollback";
+  changedBy: string | null;
+  note: string | null;
+  restoredVersion: number | null;
+  scheduledChangeId: string | null;
+  createdAt?: any;
+}
+
+/** scheduledConfigChanges/{changeId} */
+export interface ScheduledConfigChange {
+  id: string;
+  configId: VersionedConfigId;
+  changes: Record<string, any>;
+  note: string | null;
+  activateAt: any;
+  status: "scheduled" | "applied" | "cancelled" | "failed";
+  appliedVersion: number | null;
+  failureReason?: string;
+  createdBy: string;
+  createdAt?: any;
+}
+
+export interface SaveSystemConfigOptions {
+  /** Applies the settings at this time instead of now */
+  activateAt?: Date | null;
+  note?: string | null;
+}
+
+export interface SaveSystemConfigResponse {
+  success: boolean;
+  /** Set when the settings were applied now */
+  version?: number;
+  /** Set when the settings were scheduled */
+  scheduledChangeId?: string;
+}
+
+/**
+ * Saves settings over a systemConfig document as its next version (admin only).
+ * Versioning fields (version, updatedAt, updatedBy) are set by the server.
+ */
+export async function saveSystemConfig(
+  configId: VersionedConfigId,
+  values: Record<string, any>,
+  options: SaveSystemConfigOptions = {}
+): Promise<SaveSystemConfigResponse> {
+  try {
+    const saveFunction = httpsCallable<
+      { configId: string; values: Record<string, any>; activateAt?: string; note?: string | null },
+      SaveSystemConfigResponse
+    >(functions, "saveSystemConfig");
+    const result = await saveFunction({
+      configId,
+      values,
+      ...(options.activateAt ? { activateAt: options.activateAt.toISOString() } : {}),
+      note: options.note ?? null,
+    });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error saving system config:", error);
+    throw new Error(error.message || "Failed to save settings. Please try again.");
+  }
+}
+
+/**
+ * Restores an earlier version as the config's next version (admin only)
+ */
+export async function rollbackSystemConfig(
+  configId: VersionedConfigId,
+  version: number
+): Promise<{ success: boolean; version: number }> {
+  try {
+    const rollbackFunction = httpsCallable<
+      { configId: string; version: number },
+      { success: boolean; version: number }
+    >(functions, "rollbackSystemConfig");
+    const result = await rollbackFunction({ configId, version });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error rolling back system config:", error);
+    throw new Error(error.message || "Failed to roll back settings. Please try again.");
+  }
+}
+
+/**
+ * Cancels a scheduled change that has not been applied yet (admin only)
+ */
+export async function cancelScheduledConfigChange(changeId: string): Promise<void> {
+  try {
+    const cancelFunction = httpsCallable<{ changeId: string }, { success: boolean }>(
+      functions,
+      "cancelScheduledConfigChange"
+    );
+    await cancelFunction({ changeId });
+  } catch (error: any) {
+    console.error("Error cancelling scheduled config change:", error);
+    throw new Error(error.message || "Failed to cancel the scheduled change. Please try again.");
+  }
+}
+
+export interface ConfigDiffEntry {
+  /** Dotted path, e.g. "distanceFee.perKmRate" or "zones.0.defaultRate" */
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function flattenConfig(value: unknown, prefix: string, into: Map<string, unknown>) {
+  if (value !== null && typeof value === "object" && typeof (value as any).toMillis !== "function") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0) into.set(prefix, value);
+    entries.forEach(([key, child]) => flattenConfig(child, prefix ? `${prefix}.${key}` : key, into));
+    return;
+  }
+  into.set(prefix, value);
+}
+
+/**
+ * Leaf values that differ between two config snapshots, sorted by path
+ */
+export function diffConfigs(before: Record<string, any>, after: Record<string, any>): ConfigDiffEntry[] {
+  const beforeValues = new Map<string, unknown>();
+  const afterValues = new Map<string, unknown>();
+  flattenConfig(before, "", beforeValues);
+  flattenConfig(after, "", afterValues);
+
+  return Array.from(new Set([...beforeValues.keys(), ...afterValues.keys()]))
+    .filter((path) => JSON.stringify(beforeValues.get(path)) !== JSON.stringify(afterValues.get(path)))
+    .sort()
+    .map((path) => ({ path, before: beforeValues.get(path), after: afterValues.get(path) }));
+}
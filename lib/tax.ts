@@ -0,0 +1,123 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+export interface TaxCategory {
+  id: string;
+  name: string;
+}
+
+export interface TaxZone {
+  id: string;
+  name: string;
+  /** Prices and the delivery fee already include tax (VAT/GST style) */
+  pricesIncludeTax: boolean;
+  /** Percentage for items without a tax category or a rate in `rates` */
+  defaultRate: number;
+  /** Percentage charged on the delivery fee; 0 when delivery is not taxable */
+  deliveryFeeRate: number;
+  /** Percentage per tax category ID */
+  rates: Record<string, number>;
+}
+
+/** systemConfig/tax */
+export interface TaxSettings {
+  categories: TaxCategory[];
+  zones: TaxZone[];
+  /** Zone for vendors without their own taxZoneId */
+  defaultZoneId: string | null;
+  updatedAt?: any;
+  updatedBy?: string;
+}
+
+export interface OrderTaxLine {
+  kind: "items" | "delivery";
+  taxCategoryId: string | null;
+  taxCategoryName: string;
+  rate: number;
+  /** Amount the tax is charged on, excluding the tax itself */
+  taxableAmount: number;
+  taxAmount: number;
+  minorUnits?: { taxableAmount: number; taxAmount: number };
+}
+
+/** Tax breakdown stored on each order as `tax` */
+export interface OrderTax {
+  zoneId: string | null;
+  zoneName: string | null;
+  pricesIncludeTax: boolean;
+  lines: OrderTaxLine[];
+  taxAmount: number;
+}
+
+export interface TaxReportRow {
+  currency: string;
+  zoneId: string | null;
+  zoneName: string;
+  pricesIncludeTax: boolean;
+  kind: OrderTaxLine["kind"];
+  taxCategoryId: string | null;
+  taxCategoryName: string;
+  rate: number;
+  orderCount: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxReportTotal {
+  currency: string;
+  orderCount: number;
+  taxableAmount: number;
+  taxAmount: number;
+}
+
+export interface TaxReport {
+  id: string;
+  periodStart: any;
+  /** Exclusive end of the period */
+  periodEnd: any;
+  rows: TaxReportRow[];
+  totals: TaxReportTotal[];
+  csv: string;
+  generatedBy?: string;
+  generatedAt?: any;
+}
+
+export interface GenerateTaxReportResponse {
+  success: boolean;
+  reportId: string;
+  totals: TaxReportTotal[];
+}
+
+/**
+ * Totals the tax on orders delivered in [periodStart, periodEnd) (admin only)
+ */
+export async function generateTaxReport(periodStart: Date, periodEnd: Date): Promise<GenerateTaxReportResponse> {
+  try {
+    const generateFunction = httpsCallable<{ periodStart: string; periodEnd: string }, GenerateTaxReportResponse>(
+      functions,
+      "generateTaxReport"
+    );
+    const result = await generateFunction({
+      periodStart: periodStart.toISOString(),
+      periodEnd: periodEnd.toISOString(),
+    });
+    return result.data;
+  } catch (error: any) {
+    console.error("Error generating tax report:", error);
+    throw new Error(error.message || "Failed to generate the tax report. Please try again.");
+  }
+}
+
+/**
+ * Saves a report's CSV export through the browser
+ */
+export function downloadTaxReportCsv(report: TaxReport): void {
+  const url = URL.createObjectURL(new Blob([report.csv], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${report.id}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { httpsCallable } from "firebase/functions";
+import { functions } from "@/firebase/init";
+
+export type LedgerDirection = "debit" | "credit";
+
+export interface LedgerEntry {
+  id: string;
+  journalId: string;
+  /** e.g. wallet:{uid}, driver-cash:{uid}, system:adjustments */
+  accountId: string;
+  accountType: "wallet" | "driver-cash" | "system";
+  direction: LedgerDirection;
+  amount: number;
+  /** Running balance of the account after this entry; null for system accounts */
+  balanceAfter: number | null;
+  sequence: number | null;
+  currency: string;
+  reason: string;
+  reference: Record<string, unknown>;
+  createdBy: string | null;
+  createdAt?: any;
+}
+
+export interface WalletReconciliation {
+  status: "balanced" | "mismatch";
+  storedBalance: number;
+  ledgerBalance: number;
+  difference: number;
+  entryCount: number;
+  checkedAt?: any;
+}
+
+export interface AdjustWalletBalanceResponse {
+  success: boolean;
+  walletId: string;
+  journalId: string;
+  balance: number;
+}
+
+/**
+ * Credits (positive amount) or debits (negative amount) a wallet through the
+ * `adjustWalletBalance` Cloud Function, which posts a balanced ledger journal
+ */
+export async function adjustWalletBalance(
+  walletId: string,
+  amount: number,
+  reason: string
+): Promise<AdjustWalletBalanceResponse> {
+  try {
+    const adjustFunction = httpsCallable<
+      { walletId: string; amount: number; reason: string },
+      AdjustWalletBalanceResponse
+    >(functions, "adjustWalletBalance");
+    const result = await adjustFunction({ walletId, amount, reason });
+    return result.data;
+  } catch (error: any) {
+    console.error(`Error adjusting wallet ${walletId}:`, error);
+    throw new Error(error.message || "Failed to update wallet. Please try again.");
+  }
+}